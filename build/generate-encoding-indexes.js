@@ -0,0 +1,134 @@
+// Generates the encoding indexes in src/encoding/ from the indexes of the WHATWG Encoding Standard.
+// https://encoding.spec.whatwg.org/#indexes
+// Usage: node build/generate-encoding-indexes.js
+const fs = require('fs');
+const path = require('path');
+const indexes = require('text-encoding/lib/encoding-indexes.js')['encoding-indexes'];
+
+const outputDir = path.resolve(__dirname, '../src/encoding');
+const HEADER = '// Generated by build/generate-encoding-indexes.js from https://encoding.spec.whatwg.org/#indexes\n' +
+    '// Do not edit this file directly.\n';
+
+const SINGLE_BYTE = [
+  'ibm866',
+  'iso-8859-2',
+  'iso-8859-3',
+  'iso-8859-4',
+  'iso-8859-5',
+  'iso-8859-6',
+  'iso-8859-7',
+  'iso-8859-8',
+  'iso-8859-10',
+  'iso-8859-13',
+  'iso-8859-14',
+  'iso-8859-15',
+  'iso-8859-16',
+  'koi8-r',
+  'koi8-u',
+  'macintosh',
+  'windows-874',
+  'windows-1250',
+  'windows-1251',
+  'windows-1252',
+  'windows-1253',
+  'windows-1254',
+  'windows-1255',
+  'windows-1256',
+  'windows-1257',
+  'windows-1258',
+  'x-mac-cyrillic'
+];
+
+// Runs of at least this many missing pointers start a new segment
+const MIN_GAP = 16;
+const CHUNK_SIZE = 64;
+
+function constantName(name) {
+  return `INDEX_${name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}`;
+}
+
+function escapeCodePoint(codePoint) {
+  if (codePoint === null) {
+    return '\\uFFFD';
+  }
+  if (codePoint > 0xFFFF) {
+    throw new Error(`Unexpected code point outside BMP: ${codePoint}`);
+  }
+  if (codePoint < 0x20 || (codePoint >= 0x7F && codePoint <= 0xA0)
+      || codePoint === 0xAD || codePoint === 0x27 || codePoint === 0x5C
+      || codePoint === 0x2028 || codePoint === 0x2029
+      || (codePoint >= 0xD800 && codePoint <= 0xDFFF)
+      || (codePoint >= 0xE000 && codePoint <= 0xF8FF)
+      || codePoint >= 0xFE00) {
+    return `\\u${codePoint.toString(16).toUpperCase().padStart(4, '0')}`;
+  }
+  return String.fromCharCode(codePoint);
+}
+
+function stringLiteral(codePoints, indent) {
+  const chunks = [];
+  for (let start = 0; start < codePoints.length; start += CHUNK_SIZE) {
+    chunks.push(`'${codePoints.slice(start, start + CHUNK_SIZE).map(escapeCodePoint).join('')}'`);
+  }
+  return chunks.join(` +\n${indent}`);
+}
+
+function toSegments(index) {
+  const segments = [];
+  let pointer = 0;
+  while (pointer < index.length) {
+    // Skip missing pointers
+    while (pointer < index.length && index[pointer] === null) {
+      pointer++;
+    }
+    if (pointer === index.length) {
+      break;
+    }
+    const start = pointer;
+    let end = pointer;
+    let gap = 0;
+    while (pointer < index.length && gap < MIN_GAP) {
+      if (index[pointer] === null) {
+        gap++;
+      } else {
+        gap = 0;
+        end = pointer + 1;
+      }
+      pointer++;
+    }
+    segments.push([start, index.slice(start, end)]);
+    pointer = end;
+  }
+  return segments;
+}
+
+function writeSingleByteIndexes() {
+  let output = HEADER;
+  for (const name of SINGLE_BYTE) {
+    const index = indexes[name];
+    if (index.length !== 128) {
+      throw new Error(`Unexpected length for index ${name}`);
+    }
+    output += `\n// https://encoding.spec.whatwg.org/index-${name}.txt\n`;
+    output += `export const ${constantName(name)} =\n    ${stringLiteral(index, '    ')};\n`;
+  }
+  fs.writeFileSync(path.join(outputDir, 'index-single-byte.ts'), output);
+}
+
+function writeMultiByteIndex(name) {
+  const segments = toSegments(indexes[name]);
+  let output = HEADER;
+  output += `\nimport { IndexSegment } from "../encoding";\n`;
+  output += `\n// https://encoding.spec.whatwg.org/index-${name}.txt\n`;
+  output += `export const ${constantName(name)}: IndexSegment[] = [\n`;
+  output += segments.map(([start, codePoints]) => {
+    return `  [${start}, ${stringLiteral(codePoints, '      ')}]`;
+  }).join(',\n');
+  output += `\n];\n`;
+  fs.writeFileSync(path.join(outputDir, `index-${name}.ts`), output);
+}
+
+fs.mkdirSync(outputDir, { recursive: true });
+writeSingleByteIndexes();
+writeMultiByteIndex('jis0208');
+writeMultiByteIndex('euc-kr');
@@ -0,0 +1,108 @@
+// Generates the compact copy of the Public Suffix List in src/public-suffix/list.ts.
+// https://publicsuffix.org/list/
+// Usage: node build/generate-public-suffix-list.js [path/to/public_suffix_list.dat]
+// Without a path, the latest list is downloaded from publicsuffix.org.
+const fs = require('fs');
+const https = require('https');
+const path = require('path');
+const punycode = require('punycode');
+
+const LIST_URL = 'https://publicsuffix.org/list/public_suffix_list.dat';
+const outputFile = path.resolve(__dirname, '../src/public-suffix/list.ts');
+const HEADER = `// Generated by build/generate-public-suffix-list.js from ${LIST_URL}\n` +
+    '// Do not edit this file directly.\n' +
+    '// The Public Suffix List is subject to the terms of the Mozilla Public License, v. 2.0.\n' +
+    '// If a copy of the MPL was not distributed with this file, You can obtain one at https://mozilla.org/MPL/2.0/.\n';
+
+// Must match RuleSection in src/public-suffix.ts
+const ICANN = 1;
+const PRIVATE = 2;
+const SECTION_MARKERS = { [ICANN]: '=', [PRIVATE]: '+' };
+const CHUNK_SIZE = 100;
+
+function download(url) {
+  return new Promise((resolve, reject) => {
+    https.get(url, (response) => {
+      if (response.statusCode !== 200) {
+        reject(new Error(`Failed to download ${url}: ${response.statusCode}`));
+        return;
+      }
+      let data = '';
+      response.setEncoding('utf8');
+      response.on('data', (chunk) => data += chunk);
+      response.on('end', () => resolve(data));
+    }).on('error', reject);
+  });
+}
+
+function parseList(text) {
+  const root = { section: 0, children: Object.create(null) };
+  let section = 0;
+  let ruleCount = 0;
+  for (let line of text.split('\n')) {
+    line = line.trim();
+    if (line === '// ===BEGIN ICANN DOMAINS===') {
+      section = ICANN;
+    } else if (line === '// ===BEGIN PRIVATE DOMAINS===') {
+      section = PRIVATE;
+    } else if (line.startsWith('// ===END ')) {
+      section = 0;
+    }
+    // Each line is only read up to the first whitespace
+    const rule = line.split(/\s/)[0];
+    if (rule === '' || rule.startsWith('//') || section === 0) {
+      continue;
+    }
+    let node = root;
+    for (const label of rule.split('.').reverse()) {
+      const exception = label.startsWith('!');
+      const asciiLabel = (exception ? '!' : '') + punycode.toASCII((exception ? label.slice(1) : label).toLowerCase());
+      node = node.children[asciiLabel] || (node.children[asciiLabel] = { section: 0, children: Object.create(null) });
+    }
+    if (node.section === 0) {
+      node.section = section;
+      ruleCount++;
+    }
+  }
+  return { root, ruleCount };
+}
+
+function serializeNode(node) {
+  return Object.keys(node.children).sort().map((label) => {
+    const child = node.children[label];
+    let result = label;
+    if (child.section !== 0) {
+      result += SECTION_MARKERS[child.section];
+    }
+    if (Object.keys(child.children).length > 0) {
+      result += `(${serializeNode(child)})`;
+    }
+    return result;
+  }).join(',');
+}
+
+// Note: the chunks are joined at runtime rather than concatenated with "+",
+// since a long chain of "+" overflows the stack of the bundler
+function stringLiteral(string, indent) {
+  const chunks = [];
+  for (let start = 0; start < string.length; start += CHUNK_SIZE) {
+    chunks.push(`${indent}'${string.slice(start, start + CHUNK_SIZE)}'`);
+  }
+  return `[\n${chunks.join(',\n')}\n].join('')`;
+}
+
+async function main() {
+  const input = process.argv[2];
+  const text = input ? fs.readFileSync(input, 'utf8') : await download(LIST_URL);
+  const { root, ruleCount } = parseList(text);
+  let output = HEADER;
+  output += `\n// ${ruleCount} rules, see src/public-suffix.ts for the format\n`;
+  output += `export const PUBLIC_SUFFIX_LIST = ${stringLiteral(serializeNode(root), '    ')};\n`;
+  fs.mkdirSync(path.dirname(outputFile), { recursive: true });
+  fs.writeFileSync(outputFile, output);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,197 @@
+// Generates the Unicode data for the spoofing checks in src/spoof.ts:
+// - src/spoof/scripts.ts from Scripts.txt, ScriptExtensions.txt and PropertyValueAliases.txt
+// - src/spoof/confusables.ts from confusables.txt
+// https://www.unicode.org/reports/tr39/
+// Usage: node build/generate-spoof-data.js [path/to/directory]
+// Without a path, the latest files are downloaded from unicode.org.
+// All files must be from the same Unicode version.
+const fs = require('fs');
+const https = require('https');
+const path = require('path');
+const idna = require('idna-uts46');
+
+const UCD_URL = 'https://www.unicode.org/Public/UCD/latest/ucd/';
+const SECURITY_URL = 'https://www.unicode.org/Public/security/latest/';
+const FILES = {
+  'Scripts.txt': UCD_URL,
+  'ScriptExtensions.txt': UCD_URL,
+  'PropertyValueAliases.txt': UCD_URL,
+  'confusables.txt': SECURITY_URL
+};
+const scriptsFile = path.resolve(__dirname, '../src/spoof/scripts.ts');
+const confusablesFile = path.resolve(__dirname, '../src/spoof/confusables.ts');
+const HEADER = '// Generated by build/generate-spoof-data.js from the Unicode Character Database\n' +
+    '// and the Unicode Security Mechanisms data files. Do not edit this file directly.\n' +
+    '// Unicode data files are subject to the Unicode License, see https://www.unicode.org/license.txt\n';
+
+const MAX_CODE_POINT = 0x10FFFF;
+// Must match FORBIDDEN_DOMAIN_CODE_POINT in src/host.ts
+const FORBIDDEN_DOMAIN_CODE_POINT = /[\0-\x1f #%/:<>?@\[\\\]^|\x7f]/;
+const CHUNK_SIZE = 100;
+
+function download(url) {
+  return new Promise((resolve, reject) => {
+    https.get(url, (response) => {
+      if (response.statusCode !== 200) {
+        reject(new Error(`Failed to download ${url}: ${response.statusCode}`));
+        return;
+      }
+      let data = '';
+      response.setEncoding('utf8');
+      response.on('data', (chunk) => data += chunk);
+      response.on('end', () => resolve(data));
+    }).on('error', reject);
+  });
+}
+
+async function readFiles(dir) {
+  const result = {};
+  for (const name of Object.keys(FILES)) {
+    result[name] = dir ? fs.readFileSync(path.join(dir, name), 'utf8') : await download(FILES[name] + name);
+  }
+  return result;
+}
+
+// Returns the version from the first line of a data file, e.g. "# Scripts-15.1.0.txt"
+function getVersion(name, text) {
+  const match = /^#\s*\S+?-(\d+\.\d+\.\d+)\.txt/.exec(text);
+  if (!match) {
+    throw new Error(`Missing version in the first line of ${name}`);
+  }
+  return match[1];
+}
+
+// Returns the Unicode version of the data files, which must all be the same
+function getUnicodeVersion(files) {
+  const versions = Object.keys(files).map((name) => [name, getVersion(name, files[name])]);
+  const version = versions[0][1];
+  if (versions.some(([, other]) => other !== version)) {
+    const list = versions.map(([name, other]) => `${name} ${other}`).join(', ');
+    throw new Error(`Data files are from different Unicode versions: ${list}`);
+  }
+  return version;
+}
+
+// Yields the fields of each data line, without comments
+function* parseLines(text) {
+  for (let line of text.split('\n')) {
+    line = line.replace(/#.*/, '').trim();
+    if (line !== '') {
+      yield line.split(';').map((field) => field.trim());
+    }
+  }
+}
+
+function parseRange(field) {
+  const [start, end] = field.split('..').map((cp) => parseInt(cp, 16));
+  return [start, end === undefined ? start : end];
+}
+
+function parseScripts(files) {
+  // Script long names to short codes, e.g. "Latin" -> "Latn"
+  const shortNames = Object.create(null);
+  for (const [property, short, long] of parseLines(files['PropertyValueAliases.txt'])) {
+    if (property === 'sc') {
+      shortNames[long] = short;
+    }
+  }
+  // Common and Inherited come first, see src/spoof.ts
+  const codes = ['Zyyy', 'Zinh'];
+  const indices = Object.create(null);
+  const getIndex = (code) => {
+    if (!(code in indices)) {
+      indices[code] = codes.indexOf(code) >= 0 ? codes.indexOf(code) : codes.push(code) - 1;
+    }
+    return indices[code];
+  };
+  const extensions = new Array(MAX_CODE_POINT + 1).fill('');
+  for (const [range, script] of parseLines(files['Scripts.txt'])) {
+    const [start, end] = parseRange(range);
+    extensions.fill(`${getIndex(shortNames[script]).toString(36)}`, start, end + 1);
+  }
+  for (const [range, scripts] of parseLines(files['ScriptExtensions.txt'])) {
+    const [start, end] = parseRange(range);
+    const value = scripts.split(/\s+/).map((code) => getIndex(code)).sort((a, b) => a - b)
+        .map((index) => index.toString(36)).join('.');
+    extensions.fill(value, start, end + 1);
+  }
+  // Store the start of each run of code points with the same extensions, relative to the previous run
+  const runs = [];
+  let previousStart = 0;
+  for (let cp = 0; cp <= MAX_CODE_POINT; cp++) {
+    if (cp === 0 || extensions[cp] !== extensions[cp - 1]) {
+      runs.push(`${(cp - previousStart).toString(36)}:${extensions[cp]}`);
+      previousStart = cp;
+    }
+  }
+  return { codes, runs };
+}
+
+// Whether the code point can appear in a domain label after IDNA processing,
+// since the spoofing checks only run on domains that were already parsed.
+// Uses the same IDNA tables and options as domainToAscii() and domainToUnicode() in src/host.ts.
+function isValidInDomain(cp) {
+  const label = `a${String.fromCodePoint(cp)}a`;
+  let ascii;
+  try {
+    ascii = idna.toAscii(label, { transitional: false, useStd3ASCII: false, verifyDnsLength: false });
+  } catch (e) {
+    return false;
+  }
+  if (ascii === '' || FORBIDDEN_DOMAIN_CODE_POINT.test(ascii)) {
+    return false;
+  }
+  const unicode = idna.toUnicode(ascii, { useStd3ASCII: false });
+  return unicode.normalize('NFD') === label.normalize('NFD');
+}
+
+function parseConfusables(files) {
+  const entries = [];
+  for (const [source, target] of parseLines(files['confusables.txt'])) {
+    const cp = parseInt(source, 16);
+    if (isValidInDomain(cp)) {
+      entries.push([cp, target.split(/\s+/).map((t) => parseInt(t, 16))]);
+    }
+  }
+  entries.sort((a, b) => a[0] - b[0]);
+  let previous = 0;
+  return entries.map(([cp, target]) => {
+    const result = `${(cp - previous).toString(36)}:${target.map((t) => t.toString(36)).join('.')}`;
+    previous = cp;
+    return result;
+  });
+}
+
+function stringLiteral(string, indent) {
+  const chunks = [];
+  for (let start = 0; start < string.length; start += CHUNK_SIZE) {
+    chunks.push(`'${string.slice(start, start + CHUNK_SIZE)}'`);
+  }
+  return chunks.join(` +\n${indent}`);
+}
+
+async function main() {
+  const files = await readFiles(process.argv[2]);
+  const version = getUnicodeVersion(files);
+  const { codes, runs } = parseScripts(files);
+  let output = HEADER;
+  output += `// Scripts.txt ${version}, ScriptExtensions.txt ${version}\n`;
+  output += `\n// ${codes.length} scripts, see src/spoof.ts for the format\n`;
+  output += `export const SCRIPTS =\n    ${stringLiteral(codes.join(' '), '    ')};\n`;
+  output += `\n// ${runs.length} runs of code points\n`;
+  output += `export const SCRIPT_EXTENSIONS =\n    ${stringLiteral(runs.join(','), '    ')};\n`;
+  fs.mkdirSync(path.dirname(scriptsFile), { recursive: true });
+  fs.writeFileSync(scriptsFile, output);
+
+  const confusables = parseConfusables(files);
+  output = HEADER;
+  output += `// confusables.txt ${version}\n`;
+  output += `\n// ${confusables.length} confusables, see src/spoof.ts for the format\n`;
+  output += `export const CONFUSABLES =\n    ${stringLiteral(confusables.join(','), '    ')};\n`;
+  fs.writeFileSync(confusablesFile, output);
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
@@ -46,7 +46,7 @@ function config(name, {
       rollupCommonJS({
         include: 'node_modules/**',
         namedExports: {
-          'idna-uts46': ['toAscii'],
+          'idna-uts46': ['toAscii', 'toUnicode'],
           'stable': ['inplace'],
           'unorm': ['nfc', 'nfd', 'nfkc', 'nfkd']
         }
@@ -92,8 +92,8 @@ function config(name, {
           }
       ) : undefined,
       minify ? rollupVisualizer({
-        filename: `${outputName}.stats.html`,
-        sourcemap: true
+        // Note: the source map support of the visualizer does not work on Node.js 18 and later
+        filename: `${outputName}.stats.html`
       }) : undefined
     ].filter(Boolean)
   };
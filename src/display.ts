@@ -0,0 +1,111 @@
+import { hasOpaquePath } from "./opaque-path";
+import { getUrlRecord, serializeUrl, URL, UrlRecord } from "./url";
+import { domainToAscii, domainToUnicode, HostType } from "./host";
+import { utf8StringPercentDecode } from "./encode";
+
+export interface DisplayOptions {
+  // Whether to include the username and password. Defaults to false.
+  includeCredentials?: boolean;
+  // Whether to show domains in Unicode rather than Punycode. Defaults to true.
+  unicodeHost?: boolean;
+  // Whether to decode percent-encoded UTF-8 in the path, query and fragment. Defaults to true.
+  decodePercentEncoding?: boolean;
+}
+
+// Runs of percent-encoded bytes, as written by the URL serializer.
+// Note: lowercase hexadecimal digits are left alone, since re-parsing would not produce them.
+const PERCENT_ENCODED_BYTES = /(?:%[0-9A-F]{2})+/g;
+// Code points which are never decoded, since they are invisible, look like spaces or like the delimiters
+// of a URL, or change the display order of the surrounding text:
+// C1 controls, NBSP, soft hyphen, bidi controls, zero width and other format characters, space separators,
+// fillers, variation selectors, specials, fullwidth and other lookalikes of "/", "?" and "#",
+// the lock emoji and tag characters.
+const NEVER_DECODE = new RegExp('[\\x80-\\xa0\\xad\\u061c\\u115f\\u1160\\u1680\\u180e\\u2000-\\u200f\\u2028-\\u202f' +
+    '\\u2044\\u205f-\\u206f\\u2215\\u29f8\\u3000\\u3164\\ufe00-\\ufe0f\\ufeff\\uff03\\uff0f\\uff1f\\uffa0' +
+    '\\ufff0-\\uffff]|\\ud83d\\udd12|\\udb40[\\udc00-\\udc7f]');
+
+// Returns a human-readable serialization of url, like the address bar of a browser.
+// Domains are shown in Unicode and percent-encoded UTF-8 is decoded, but only where this does not change
+// the meaning of the URL: parsing the result again returns the same URL (without its credentials).
+export function toDisplayString(url: string | URL, options: DisplayOptions = {}): string {
+  const record = getUrlRecord(url);
+  const decode = options.decodePercentEncoding !== false;
+  const display = new UrlRecord();
+  display._scheme = record._scheme;
+  if (options.includeCredentials) {
+    display._username = record._username;
+    display._password = record._password;
+  }
+  display._host = record._host;
+  if (record._host !== null && record._host._type === HostType.DOMAIN && options.unicodeHost !== false) {
+    const unicodeDomain = domainToUnicode(record._host._domain);
+    // Only show the Unicode domain if it maps back to the same host
+    if (isSameAsciiDomain(unicodeDomain, record._host._domain)) {
+      display._host = {
+        _type: HostType.DOMAIN,
+        _domain: unicodeDomain
+      };
+    }
+  }
+  display._port = record._port;
+  if (hasOpaquePath(record)) {
+    display._path = decode ? decodeForDisplay(record._path as string) : record._path;
+  } else {
+    display._path = (record._path as string[]).map((segment) => decode ? decodeForDisplay(segment) : segment);
+  }
+  display._query = (decode && record._query !== null) ? decodeForDisplay(record._query) : record._query;
+  display._fragment = (decode && record._fragment !== null) ? decodeForDisplay(record._fragment) : record._fragment;
+  return serializeUrl(display);
+}
+
+function isSameAsciiDomain(unicodeDomain: string, asciiDomain: string): boolean {
+  try {
+    return domainToAscii(unicodeDomain) === asciiDomain;
+  } catch (e) {
+    return false;
+  }
+}
+
+// Decodes the percent-encoded UTF-8 sequences of a component, which the URL parser would encode again
+// in exactly the same way. ASCII code points and code points in NEVER_DECODE stay percent-encoded.
+function decodeForDisplay(input: string): string {
+  return input.replace(PERCENT_ENCODED_BYTES, (encoded) => {
+    let output = '';
+    // Note: each byte is 3 code units, e.g. "%C3"
+    let i = 0;
+    while (i < encoded.length) {
+      const length = getUtf8SequenceLength(parseInt(encoded.substr(i + 1, 2), 16)) * 3;
+      const sequence = encoded.substr(i, length);
+      const decoded = length > 0 && sequence.length === length ? decodeSequence(sequence) : null;
+      if (decoded !== null && !NEVER_DECODE.test(decoded)) {
+        output += decoded;
+        i += length;
+      } else {
+        output += encoded.substr(i, 3);
+        i += 3;
+      }
+    }
+    return output;
+  });
+}
+
+// Returns the number of bytes of the UTF-8 sequence starting with the given lead byte,
+// or 0 if it does not start a non-ASCII sequence.
+function getUtf8SequenceLength(byte: number): number {
+  if (byte >= 0xC2 && byte <= 0xDF) {
+    return 2;
+  } else if (byte >= 0xE0 && byte <= 0xEF) {
+    return 3;
+  } else if (byte >= 0xF0 && byte <= 0xF4) {
+    return 4;
+  }
+  return 0;
+}
+
+function decodeSequence(sequence: string): string | null {
+  try {
+    return utf8StringPercentDecode(sequence, true);
+  } catch (e) {
+    return null;
+  }
+}
@@ -0,0 +1,31 @@
+import { domainToUnicode as hostDomainToUnicode, Host, HostType, parseHost, serializeHost } from "./host";
+
+function parseDomain(domain: string): Host | null {
+  try {
+    return parseHost(String(domain), true);
+  } catch (e) {
+    return null;
+  }
+}
+
+// Returns the ASCII serialization of domain, as it would appear in the host of a special URL,
+// or the empty string if domain is not a valid host.
+// Matches url.domainToASCII() in Node.js.
+// https://url.spec.whatwg.org/#concept-domain-to-ascii
+export function domainToASCII(domain: string): string {
+  const host = parseDomain(domain);
+  return host === null ? '' : serializeHost(host);
+}
+
+// Returns the Unicode serialization of domain, with its Punycode labels decoded,
+// or the empty string if domain is not a valid host.
+// Matches url.domainToUnicode() in Node.js.
+// https://url.spec.whatwg.org/#concept-domain-to-unicode
+export function domainToUnicode(domain: string): string {
+  const host = parseDomain(domain);
+  if (host === null) {
+    return '';
+  }
+  // Note: parsing already validated the Punycode labels, so ToUnicode cannot fail
+  return host._type === HostType.DOMAIN ? hostDomainToUnicode(host._domain) : serializeHost(host);
+}
@@ -72,6 +72,16 @@ export function isPathPercentEncode(code: number): boolean {
       || code === 0x7D; // U+007D (})
 }
 
+// The path percent-encode set, along with "%" and the path separators "/" and "\",
+// so a string is written literally as a single path segment.
+// Note: this is not part of the URL Standard.
+export function isPathSegmentPercentEncode(code: number): boolean {
+  return isPathPercentEncode(code)
+      || code === 0x25 // U+0025 (%)
+      || code === 0x2F // U+002F (/)
+      || code === 0x5C; // U+005C (\)
+}
+
 // https://url.spec.whatwg.org/#userinfo-percent-encode-set
 export function isUserinfoPercentEncode(code: number): boolean {
   return isPathPercentEncode(code)
@@ -115,6 +125,18 @@ export function utf8PercentEncode(codePoint: number, percentEncodeSet: (code: nu
   return result;
 }
 
+export function percentEncodeBytes(bytes: number[], percentEncodeSet: (code: number) => boolean): number[] {
+  const result: number[] = [];
+  for (let byte of bytes) {
+    if (percentEncodeSet(byte)) {
+      result.push(...percentEncode(byte));
+    } else {
+      result.push(byte);
+    }
+  }
+  return result;
+}
+
 export function utf8PercentEncodeString(input: string, percentEncodeSet: (code: number) => boolean): string {
   let output: number[] = [];
   for (let codePoint of ucs2decode(input)) {
@@ -131,6 +153,10 @@ export function stringPercentDecode(codePoints: number[]): number[] {
   return percentDecode(bytes);
 }
 
-export function utf8StringPercentDecode(input: string): string {
-  return ucs2encode(utf8decoderaw(stringPercentDecode(ucs2decode(input))));
+// Runs UTF-8 decode without BOM on the string percent decoding of input.
+// https://encoding.spec.whatwg.org/#utf-8-decode-without-bom
+// If fatal is true, runs UTF-8 decode without BOM or fail instead, and throws on invalid byte sequences.
+// https://encoding.spec.whatwg.org/#utf-8-decode-without-bom-or-fail
+export function utf8StringPercentDecode(input: string, fatal: boolean = false): string {
+  return ucs2encode(utf8decoderaw(stringPercentDecode(ucs2decode(input)), fatal));
 }
@@ -0,0 +1,137 @@
+import { utf8decoderaw, utf8encoderaw } from "./vendor/utf8";
+
+// https://encoding.spec.whatwg.org/#encoding
+export interface Encoding {
+  // https://encoding.spec.whatwg.org/#name
+  readonly name: string;
+
+  // Runs the encoding's encoder on a single code point.
+  // Returns the resulting bytes, or null if the encoder returns error.
+  encode(codePoint: number): number[] | null;
+
+  // Runs the encoding's decoder on a byte sequence, using the replacement error mode.
+  // Returns the resulting code points.
+  decode(bytes: number[]): number[];
+}
+
+// https://encoding.spec.whatwg.org/#utf-8
+export const UTF_8: Encoding = {
+  name: 'UTF-8',
+  encode(codePoint: number): number[] {
+    return utf8encoderaw([codePoint]);
+  },
+  decode(bytes: number[]): number[] {
+    return utf8decoderaw(bytes);
+  }
+};
+
+// https://encoding.spec.whatwg.org/#get-an-output-encoding
+export function getOutputEncoding(encoding: Encoding): Encoding {
+  // 1. If encoding is replacement, UTF-16BE, or UTF-16LE, return UTF-8.
+  const name = encoding.name;
+  if ('replacement' === name || 'UTF-16BE' === name || 'UTF-16LE' === name) {
+    return UTF_8;
+  }
+  // 2. Return encoding.
+  return encoding;
+}
+
+// https://encoding.spec.whatwg.org/#encode
+// Note: uses the html error mode, so unmappable code points are encoded
+//       as a decimal HTML character reference (e.g. `&#1234;`).
+export function encodeHTML(codePoints: number[], encoding: Encoding): number[] {
+  const output: number[] = [];
+  for (const codePoint of codePoints) {
+    const bytes = encoding.encode(codePoint);
+    if (bytes === null) {
+      // https://encoding.spec.whatwg.org/#concept-encoding-process
+      // Prepend U+0026 (&), U+0023 (#), followed by the shortest sequence of ASCII digits
+      // representing code point in base ten, followed by U+003B (;).
+      output.push(0x26, 0x23);
+      const digits = `${codePoint}`;
+      for (let i = 0; i < digits.length; i++) {
+        output.push(digits.charCodeAt(i));
+      }
+      output.push(0x3B);
+    } else {
+      output.push(...bytes);
+    }
+  }
+  return output;
+}
+
+// U+FFFD REPLACEMENT CHARACTER, emitted for decoder errors in the replacement error mode
+export const REPLACEMENT_CHARACTER = 0xFFFD;
+
+// https://encoding.spec.whatwg.org/#ascii-code-point
+export function isAsciiCodePoint(codePoint: number): boolean {
+  return codePoint >= 0x00 && codePoint <= 0x7F;
+}
+
+// region Indexes
+
+// https://encoding.spec.whatwg.org/#indexes
+// A run of consecutive pointers, starting at the given pointer.
+// Missing pointers inside a run are stored as U+FFFD.
+export type IndexSegment = [number, string];
+
+const MISSING = 0xFFFD;
+
+export interface Index {
+  /** @internal */
+  readonly _segments: ReadonlyArray<IndexSegment>;
+  /** @internal */
+  _codePoints: number[] | undefined;
+  /** @internal */
+  _pointers: { [codePoint: number]: number } | undefined;
+}
+
+export function createIndex(segments: ReadonlyArray<IndexSegment>): Index {
+  return {
+    _segments: segments,
+    _codePoints: undefined,
+    _pointers: undefined
+  };
+}
+
+function getIndexCodePoints(index: Index): number[] {
+  if (index._codePoints === undefined) {
+    const codePoints: number[] = [];
+    for (const [start, data] of index._segments) {
+      for (let i = 0; i < data.length; i++) {
+        codePoints[start + i] = data.charCodeAt(i);
+      }
+    }
+    index._codePoints = codePoints;
+  }
+  return index._codePoints;
+}
+
+// https://encoding.spec.whatwg.org/#index-code-point
+export function indexCodePoint(index: Index, pointer: number): number | null {
+  const codePoint = getIndexCodePoints(index)[pointer];
+  return (codePoint === undefined || codePoint === MISSING) ? null : codePoint;
+}
+
+// https://encoding.spec.whatwg.org/#index-pointer
+// Pointers for which isExcluded returns true are left out of the index.
+// Note: isExcluded must be the same every time it is called for the same index.
+export function indexPointer(index: Index, codePoint: number,
+                             isExcluded?: (pointer: number) => boolean): number | null {
+  if (index._pointers === undefined) {
+    const pointers: { [codePoint: number]: number } = Object.create(null);
+    const codePoints = getIndexCodePoints(index);
+    // Iterate backwards, so the first pointer wins
+    for (let pointer = codePoints.length - 1; pointer >= 0; pointer--) {
+      const c = codePoints[pointer];
+      if (c !== undefined && c !== MISSING && !(isExcluded && isExcluded(pointer))) {
+        pointers[c] = pointer;
+      }
+    }
+    index._pointers = pointers;
+  }
+  const pointer = index._pointers[codePoint];
+  return pointer === undefined ? null : pointer;
+}
+
+// endregion
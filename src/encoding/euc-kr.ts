@@ -0,0 +1,91 @@
+import {
+  createIndex,
+  Encoding,
+  indexCodePoint,
+  indexPointer,
+  isAsciiCodePoint,
+  REPLACEMENT_CHARACTER
+} from "../encoding";
+import { INDEX_EUC_KR } from "./index-euc-kr";
+
+const index = /*#__PURE__*/createIndex(INDEX_EUC_KR);
+
+// https://encoding.spec.whatwg.org/#euc-kr
+export const eucKR: Encoding = {
+  name: 'EUC-KR',
+  // https://encoding.spec.whatwg.org/#euc-kr-encoder
+  encode(codePoint: number): number[] | null {
+    // 1. If code point is end-of-queue, return finished.
+    // Note: handled by the caller
+    // 2. If code point is an ASCII code point, return a byte whose value is code point.
+    if (isAsciiCodePoint(codePoint)) {
+      return [codePoint];
+    }
+    // 3. Let pointer be the index pointer for code point in index EUC-KR.
+    const pointer = indexPointer(index, codePoint);
+    // 4. If pointer is null, return error with code point.
+    if (pointer === null) {
+      return null;
+    }
+    // 5. Let lead be pointer / 0xBE + 0x81.
+    const lead = Math.floor(pointer / 0xBE) + 0x81;
+    // 6. Let trail be pointer % 0xBE + 0x41.
+    const trail = pointer % 0xBE + 0x41;
+    // 7. Return two bytes whose values are lead and trail.
+    return [lead, trail];
+  },
+  // https://encoding.spec.whatwg.org/#euc-kr-decoder
+  decode(bytes: number[]): number[] {
+    const output: number[] = [];
+    // EUC-KR’s decoder has an associated EUC-KR lead (initially 0x00).
+    let eucKRLead = 0x00;
+    for (let i = 0; i < bytes.length; i++) {
+      const byte = bytes[i];
+      // 3. If EUC-KR lead is not 0x00, let lead be EUC-KR lead, let pointer be null,
+      //    set EUC-KR lead to 0x00, and then:
+      if (eucKRLead !== 0x00) {
+        const lead = eucKRLead;
+        let pointer: number | null = null;
+        eucKRLead = 0x00;
+        // 1. If byte is in the range 0x41 to 0xFE, inclusive,
+        //    set pointer to (lead − 0x81) × 190 + (byte − 0x41).
+        if (byte >= 0x41 && byte <= 0xFE) {
+          pointer = (lead - 0x81) * 190 + (byte - 0x41);
+        }
+        // 2. Let code point be null, if pointer is null,
+        //    otherwise the index code point for pointer in index EUC-KR.
+        const codePoint = pointer === null ? null : indexCodePoint(index, pointer);
+        // 3. If code point is non-null, return a code point whose value is code point.
+        if (codePoint !== null) {
+          output.push(codePoint);
+          continue;
+        }
+        // 4. If byte is an ASCII byte, restore byte to ioQueue.
+        if (isAsciiCodePoint(byte)) {
+          i--;
+        }
+        // 5. Return error.
+        output.push(REPLACEMENT_CHARACTER);
+        continue;
+      }
+      // 4. If byte is an ASCII byte, return a code point whose value is byte.
+      if (isAsciiCodePoint(byte)) {
+        output.push(byte);
+      }
+      // 5. If byte is in the range 0x81 to 0xFE, inclusive, set EUC-KR lead to byte and return continue.
+      else if (byte >= 0x81 && byte <= 0xFE) {
+        eucKRLead = byte;
+      }
+      // 6. Return error.
+      else {
+        output.push(REPLACEMENT_CHARACTER);
+      }
+    }
+    // 1. If byte is end-of-queue and EUC-KR lead is not 0x00, set EUC-KR lead to 0x00 and return error.
+    if (eucKRLead !== 0x00) {
+      output.push(REPLACEMENT_CHARACTER);
+    }
+    // 2. If byte is end-of-queue and EUC-KR lead is 0x00, return finished.
+    return output;
+  }
+};
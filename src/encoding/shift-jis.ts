@@ -0,0 +1,134 @@
+import {
+  createIndex,
+  Encoding,
+  indexCodePoint,
+  indexPointer,
+  isAsciiCodePoint,
+  REPLACEMENT_CHARACTER
+} from "../encoding";
+import { INDEX_JIS0208 } from "./index-jis0208";
+
+const index = /*#__PURE__*/createIndex(INDEX_JIS0208);
+
+// https://encoding.spec.whatwg.org/#index-shift_jis-pointer
+function isExcludedShiftJISPointer(pointer: number): boolean {
+  // Let index be index jis0208 excluding all entries whose pointer is in the range 8272 to 8835, inclusive.
+  return pointer >= 8272 && pointer <= 8835;
+}
+
+// https://encoding.spec.whatwg.org/#shift_jis
+export const shiftJIS: Encoding = {
+  name: 'Shift_JIS',
+  // https://encoding.spec.whatwg.org/#shift_jis-encoder
+  encode(codePoint: number): number[] | null {
+    // 1. If code point is end-of-queue, return finished.
+    // Note: handled by the caller
+    // 2. If code point is an ASCII code point or U+0080, return a byte whose value is code point.
+    if (isAsciiCodePoint(codePoint) || 0x80 === codePoint) {
+      return [codePoint];
+    }
+    // 3. If code point is U+00A5, return byte 0x5C.
+    if (0xA5 === codePoint) {
+      return [0x5C];
+    }
+    // 4. If code point is U+203E, return byte 0x7E.
+    if (0x203E === codePoint) {
+      return [0x7E];
+    }
+    // 5. If code point is in the range U+FF61 to U+FF9F, inclusive,
+    //    return a byte whose value is code point − 0xFF61 + 0xA1.
+    if (codePoint >= 0xFF61 && codePoint <= 0xFF9F) {
+      return [codePoint - 0xFF61 + 0xA1];
+    }
+    // 6. If code point is U+2212, set it to U+FF0D.
+    if (0x2212 === codePoint) {
+      codePoint = 0xFF0D;
+    }
+    // 7. Let pointer be the index Shift_JIS pointer for code point.
+    const pointer = indexPointer(index, codePoint, isExcludedShiftJISPointer);
+    // 8. If pointer is null, return error with code point.
+    if (pointer === null) {
+      return null;
+    }
+    // 9. Let lead be pointer / 188.
+    const lead = Math.floor(pointer / 188);
+    // 10. Let lead offset be 0x81 if lead is less than 0x1F, otherwise 0xC1.
+    const leadOffset = lead < 0x1F ? 0x81 : 0xC1;
+    // 11. Let trail be pointer % 188.
+    const trail = pointer % 188;
+    // 12. Let offset be 0x40 if trail is less than 0x3F, otherwise 0x41.
+    const offset = trail < 0x3F ? 0x40 : 0x41;
+    // 13. Return two bytes whose values are lead + lead offset and trail + offset.
+    return [lead + leadOffset, trail + offset];
+  },
+  // https://encoding.spec.whatwg.org/#shift_jis-decoder
+  decode(bytes: number[]): number[] {
+    const output: number[] = [];
+    // Shift_JIS’s decoder has an associated Shift_JIS lead (initially 0x00).
+    let shiftJISLead = 0x00;
+    for (let i = 0; i < bytes.length; i++) {
+      const byte = bytes[i];
+      // 3. If Shift_JIS lead is not 0x00, let lead be Shift_JIS lead, let pointer be null,
+      //    set Shift_JIS lead to 0x00, and then:
+      if (shiftJISLead !== 0x00) {
+        const lead = shiftJISLead;
+        let pointer: number | null = null;
+        shiftJISLead = 0x00;
+        // 1. Let offset be 0x40, if byte is less than 0x7F, otherwise 0x41.
+        const offset = byte < 0x7F ? 0x40 : 0x41;
+        // 2. Let lead offset be 0x81, if lead is less than 0xA0, otherwise 0xC1.
+        const leadOffset = lead < 0xA0 ? 0x81 : 0xC1;
+        // 3. If byte is in the range 0x40 to 0x7E, inclusive, or 0x80 to 0xFC, inclusive,
+        //    set pointer to (lead − lead offset) × 188 + byte − offset.
+        if ((byte >= 0x40 && byte <= 0x7E) || (byte >= 0x80 && byte <= 0xFC)) {
+          pointer = (lead - leadOffset) * 188 + byte - offset;
+        }
+        // 4. If pointer is in the range 8836 to 10715, inclusive,
+        //    return a code point whose value is 0xE000 − 8836 + pointer.
+        if (pointer !== null && pointer >= 8836 && pointer <= 10715) {
+          output.push(0xE000 - 8836 + pointer);
+          continue;
+        }
+        // 5. Let code point be null, if pointer is null,
+        //    otherwise the index code point for pointer in index jis0208.
+        const codePoint = pointer === null ? null : indexCodePoint(index, pointer);
+        // 6. If code point is non-null, return code point.
+        if (codePoint !== null) {
+          output.push(codePoint);
+          continue;
+        }
+        // 7. If byte is an ASCII byte, restore byte to ioQueue.
+        if (isAsciiCodePoint(byte)) {
+          i--;
+        }
+        // 8. Return error.
+        output.push(REPLACEMENT_CHARACTER);
+        continue;
+      }
+      // 4. If byte is an ASCII byte or 0x80, return a code point whose value is byte.
+      if (isAsciiCodePoint(byte) || 0x80 === byte) {
+        output.push(byte);
+      }
+      // 5. If byte is in the range 0xA1 to 0xDF, inclusive,
+      //    return a code point whose value is 0xFF61 − 0xA1 + byte.
+      else if (byte >= 0xA1 && byte <= 0xDF) {
+        output.push(0xFF61 - 0xA1 + byte);
+      }
+      // 6. If byte is in the range 0x81 to 0x9F, inclusive, or 0xE0 to 0xFC, inclusive,
+      //    set Shift_JIS lead to byte and return continue.
+      else if ((byte >= 0x81 && byte <= 0x9F) || (byte >= 0xE0 && byte <= 0xFC)) {
+        shiftJISLead = byte;
+      }
+      // 7. Return error.
+      else {
+        output.push(REPLACEMENT_CHARACTER);
+      }
+    }
+    // 1. If byte is end-of-queue and Shift_JIS lead is not 0x00, set Shift_JIS lead to 0x00 and return error.
+    if (shiftJISLead !== 0x00) {
+      output.push(REPLACEMENT_CHARACTER);
+    }
+    // 2. If byte is end-of-queue and Shift_JIS lead is 0x00, return finished.
+    return output;
+  }
+};
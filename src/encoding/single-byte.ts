@@ -0,0 +1,108 @@
+import {
+  createIndex,
+  Encoding,
+  indexCodePoint,
+  indexPointer,
+  isAsciiCodePoint,
+  REPLACEMENT_CHARACTER
+} from "../encoding";
+import {
+  INDEX_IBM866,
+  INDEX_ISO_8859_10,
+  INDEX_ISO_8859_13,
+  INDEX_ISO_8859_14,
+  INDEX_ISO_8859_15,
+  INDEX_ISO_8859_16,
+  INDEX_ISO_8859_2,
+  INDEX_ISO_8859_3,
+  INDEX_ISO_8859_4,
+  INDEX_ISO_8859_5,
+  INDEX_ISO_8859_6,
+  INDEX_ISO_8859_7,
+  INDEX_ISO_8859_8,
+  INDEX_KOI8_R,
+  INDEX_KOI8_U,
+  INDEX_MACINTOSH,
+  INDEX_WINDOWS_1250,
+  INDEX_WINDOWS_1251,
+  INDEX_WINDOWS_1252,
+  INDEX_WINDOWS_1253,
+  INDEX_WINDOWS_1254,
+  INDEX_WINDOWS_1255,
+  INDEX_WINDOWS_1256,
+  INDEX_WINDOWS_1257,
+  INDEX_WINDOWS_1258,
+  INDEX_WINDOWS_874,
+  INDEX_X_MAC_CYRILLIC
+} from "./index-single-byte";
+
+// https://encoding.spec.whatwg.org/#single-byte-encoder
+export function createSingleByteEncoding(name: string, data: string): Encoding {
+  const index = createIndex([[0, data]]);
+  return {
+    name,
+    encode(codePoint: number): number[] | null {
+      // 1. If code point is end-of-queue, return finished.
+      // Note: handled by the caller
+      // 2. If code point is an ASCII code point, return a byte whose value is code point.
+      if (isAsciiCodePoint(codePoint)) {
+        return [codePoint];
+      }
+      // 3. Let pointer be the index pointer for code point in index single-byte.
+      const pointer = indexPointer(index, codePoint);
+      // 4. If pointer is null, return error with code point.
+      if (pointer === null) {
+        return null;
+      }
+      // 5. Return a byte whose value is pointer + 0x80.
+      return [pointer + 0x80];
+    },
+    // https://encoding.spec.whatwg.org/#single-byte-decoder
+    decode(bytes: number[]): number[] {
+      const output: number[] = [];
+      for (const byte of bytes) {
+        // 2. If byte is an ASCII byte, return a code point whose value is byte.
+        if (isAsciiCodePoint(byte)) {
+          output.push(byte);
+          continue;
+        }
+        // 3. Let code point be the index code point for byte − 0x80 in index single-byte.
+        const codePoint = indexCodePoint(index, byte - 0x80);
+        // 4. If code point is null, return error.
+        // 5. Return a code point whose value is code point.
+        output.push(codePoint === null ? REPLACEMENT_CHARACTER : codePoint);
+      }
+      return output;
+    }
+  };
+}
+
+// https://encoding.spec.whatwg.org/#legacy-single-byte-encodings
+export const ibm866: Encoding = /*#__PURE__*/createSingleByteEncoding('IBM866', INDEX_IBM866);
+export const iso88592: Encoding = /*#__PURE__*/createSingleByteEncoding('ISO-8859-2', INDEX_ISO_8859_2);
+export const iso88593: Encoding = /*#__PURE__*/createSingleByteEncoding('ISO-8859-3', INDEX_ISO_8859_3);
+export const iso88594: Encoding = /*#__PURE__*/createSingleByteEncoding('ISO-8859-4', INDEX_ISO_8859_4);
+export const iso88595: Encoding = /*#__PURE__*/createSingleByteEncoding('ISO-8859-5', INDEX_ISO_8859_5);
+export const iso88596: Encoding = /*#__PURE__*/createSingleByteEncoding('ISO-8859-6', INDEX_ISO_8859_6);
+export const iso88597: Encoding = /*#__PURE__*/createSingleByteEncoding('ISO-8859-7', INDEX_ISO_8859_7);
+export const iso88598: Encoding = /*#__PURE__*/createSingleByteEncoding('ISO-8859-8', INDEX_ISO_8859_8);
+export const iso88598i: Encoding = /*#__PURE__*/createSingleByteEncoding('ISO-8859-8-I', INDEX_ISO_8859_8);
+export const iso885910: Encoding = /*#__PURE__*/createSingleByteEncoding('ISO-8859-10', INDEX_ISO_8859_10);
+export const iso885913: Encoding = /*#__PURE__*/createSingleByteEncoding('ISO-8859-13', INDEX_ISO_8859_13);
+export const iso885914: Encoding = /*#__PURE__*/createSingleByteEncoding('ISO-8859-14', INDEX_ISO_8859_14);
+export const iso885915: Encoding = /*#__PURE__*/createSingleByteEncoding('ISO-8859-15', INDEX_ISO_8859_15);
+export const iso885916: Encoding = /*#__PURE__*/createSingleByteEncoding('ISO-8859-16', INDEX_ISO_8859_16);
+export const koi8r: Encoding = /*#__PURE__*/createSingleByteEncoding('KOI8-R', INDEX_KOI8_R);
+export const koi8u: Encoding = /*#__PURE__*/createSingleByteEncoding('KOI8-U', INDEX_KOI8_U);
+export const macintosh: Encoding = /*#__PURE__*/createSingleByteEncoding('macintosh', INDEX_MACINTOSH);
+export const windows874: Encoding = /*#__PURE__*/createSingleByteEncoding('windows-874', INDEX_WINDOWS_874);
+export const windows1250: Encoding = /*#__PURE__*/createSingleByteEncoding('windows-1250', INDEX_WINDOWS_1250);
+export const windows1251: Encoding = /*#__PURE__*/createSingleByteEncoding('windows-1251', INDEX_WINDOWS_1251);
+export const windows1252: Encoding = /*#__PURE__*/createSingleByteEncoding('windows-1252', INDEX_WINDOWS_1252);
+export const windows1253: Encoding = /*#__PURE__*/createSingleByteEncoding('windows-1253', INDEX_WINDOWS_1253);
+export const windows1254: Encoding = /*#__PURE__*/createSingleByteEncoding('windows-1254', INDEX_WINDOWS_1254);
+export const windows1255: Encoding = /*#__PURE__*/createSingleByteEncoding('windows-1255', INDEX_WINDOWS_1255);
+export const windows1256: Encoding = /*#__PURE__*/createSingleByteEncoding('windows-1256', INDEX_WINDOWS_1256);
+export const windows1257: Encoding = /*#__PURE__*/createSingleByteEncoding('windows-1257', INDEX_WINDOWS_1257);
+export const windows1258: Encoding = /*#__PURE__*/createSingleByteEncoding('windows-1258', INDEX_WINDOWS_1258);
+export const xMacCyrillic: Encoding = /*#__PURE__*/createSingleByteEncoding('x-mac-cyrillic', INDEX_X_MAC_CYRILLIC);
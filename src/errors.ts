@@ -0,0 +1,81 @@
+import { ValidationErrorType } from "./validation";
+
+// https://url.spec.whatwg.org/#url-parsing
+export type URLParserState =
+    | 'scheme start'
+    | 'scheme'
+    | 'no scheme'
+    | 'special relative or authority'
+    | 'path or authority'
+    | 'relative'
+    | 'relative slash'
+    | 'special authority slashes'
+    | 'special authority ignore slashes'
+    | 'authority'
+    | 'host'
+    | 'hostname'
+    | 'port'
+    | 'file'
+    | 'file slash'
+    | 'file host'
+    | 'path start'
+    | 'path'
+    | 'opaque path'
+    | 'query'
+    | 'fragment';
+
+// https://url.spec.whatwg.org/#host-parsing
+export type HostParser =
+    | 'host'
+    | 'IPv4'
+    | 'IPv6'
+    | 'opaque-host';
+
+// The validation error that caused a failure, or "invalid-scheme" if the scheme state
+// returned failure without a validation error (only when a state override is given).
+export type URLParseErrorCode = ValidationErrorType | 'invalid-scheme';
+
+// Thrown when parsing a URL (or a part of a URL) returns failure.
+export class URLParseError extends TypeError {
+  // The input that failed to parse
+  readonly input: string;
+  // The validation error that caused the failure
+  readonly code: URLParseErrorCode;
+  // The offset (in code points) into input at which parsing failed
+  readonly index: number;
+  // The state of the basic URL parser at the time of failure,
+  // or null if the failure did not occur inside the basic URL parser
+  readonly state: URLParserState | null;
+  // The host parser that failed, or null if the failure did not occur inside a host parser
+  readonly hostParser: HostParser | null;
+
+  constructor(message: string, input: string, code: URLParseErrorCode, index: number,
+              state: URLParserState | null = null, hostParser: HostParser | null = null) {
+    super(message);
+    this.input = input;
+    this.code = code;
+    this.index = index;
+    this.state = state;
+    this.hostParser = hostParser;
+  }
+}
+
+URLParseError.prototype.name = 'URLParseError';
+
+// Returns the error to throw when a parser for the part of input starting at offset throws error.
+export function embedParseError(error: any, input: string, offset: number, state: URLParserState | null): any {
+  if (!(error instanceof URLParseError)) {
+    return error;
+  }
+  return new URLParseError(error.message, input, error.code, offset + error.index,
+      error.state !== null ? error.state : state, error.hostParser);
+}
+
+// Returns a copy of error with the given prefix added to its message.
+export function prefixParseError(error: any, prefix: string): TypeError {
+  if (!(error instanceof URLParseError)) {
+    return new TypeError(`${prefix}: ${error.message}`);
+  }
+  return new URLParseError(`${prefix}: ${error.message}`, error.input, error.code, error.index,
+      error.state, error.hostParser);
+}
@@ -0,0 +1,104 @@
+import { ParserState, parseWithStateOverride, URL } from "./url";
+import { isNormalizedWindowsDriveLetter, startsWithWindowsDriveLetter } from "./path";
+import { domainToUnicode } from "./host";
+import { utf8StringPercentDecode } from "./encode";
+import { ucs2decode } from "./vendor/ucs2";
+
+export interface FilePathOptions {
+  // Whether to use Windows path semantics, with drive letters, UNC paths and backslashes as separators.
+  // Defaults to false, i.e. POSIX path semantics.
+  // Note: this does not depend on the current platform, so both flavors can be used everywhere.
+  windows?: boolean;
+}
+
+const PERCENT = /%/g;
+const BACKSLASH = /\\/g;
+const FORWARD_SLASH = /\//g;
+const NEWLINE = /\n/g;
+const CARRIAGE_RETURN = /\r/g;
+const TAB = /\t/g;
+const QUESTION_MARK = /\?/g;
+const NUMBER_SIGN = /#/g;
+const ENCODED_SLASH = /%2f/i;
+const ENCODED_SLASH_OR_BACKSLASH = /%2f|%5c/i;
+
+// Converts a file: URL to an absolute file path, like url.fileURLToPath() in Node.js.
+// Throws a TypeError if url is not a file: URL, or if it cannot be represented as a path.
+export function fileURLToPath(url: string | URL, options: FilePathOptions = {}): string {
+  const fileURL = url instanceof URL ? url : new URL(String(url));
+  if (fileURL.protocol !== 'file:') {
+    throw new TypeError('The URL must be of scheme file');
+  }
+  const hostname = fileURL.hostname;
+  let pathname = fileURL.pathname;
+  if (options.windows) {
+    // Note: an encoded separator would change the meaning of the path after decoding
+    if (ENCODED_SLASH_OR_BACKSLASH.test(pathname)) {
+      throw new TypeError('File URL path must not include encoded \\ or / characters');
+    }
+    pathname = utf8StringPercentDecode(pathname.replace(FORWARD_SLASH, '\\'), true);
+    // A URL with a host is a UNC path, e.g. file://server/share/file -> \\server\share\file
+    if (hostname !== '') {
+      return `\\\\${domainToUnicode(hostname)}${pathname}`;
+    }
+    // Otherwise, the path must start with a drive letter, e.g. file:///C:/file -> C:\file
+    // Note: the URL parser already normalized "C|" to "C:"
+    if (!isNormalizedWindowsDriveLetter(pathname.slice(1, 3))) {
+      throw new TypeError('File URL path must be absolute');
+    }
+    return pathname.slice(1);
+  }
+  if (hostname !== '') {
+    throw new TypeError('File URL host must be "localhost" or empty');
+  }
+  if (ENCODED_SLASH.test(pathname)) {
+    throw new TypeError('File URL path must not include encoded / characters');
+  }
+  return utf8StringPercentDecode(pathname, true);
+}
+
+// Converts an absolute file path to a file: URL, like url.pathToFileURL() in Node.js.
+// Unlike Node.js, relative paths are not resolved against the current working directory,
+// so a TypeError is thrown instead.
+export function pathToFileURL(path: string, options: FilePathOptions = {}): URL {
+  path = String(path);
+  const windows = !!options.windows;
+  const result = new URL('file://');
+  if (windows) {
+    path = path.replace(BACKSLASH, '/');
+    // A UNC path has a host, e.g. \\server\share\file -> file://server/share/file
+    if ('//' === path.slice(0, 2)) {
+      const hostnameEnd = path.indexOf('/', 2);
+      if (hostnameEnd <= 2) {
+        throw new TypeError(`Invalid UNC path: ${path}`);
+      }
+      // Note: this throws if the host is invalid, and turns "localhost" into an empty host
+      parseWithStateOverride(path.slice(2, hostnameEnd), result._url, ParserState.FILE_HOST);
+      path = path.slice(hostnameEnd);
+    } else if (!(startsWithWindowsDriveLetter(ucs2decode(path)) && '/' === path[2])) {
+      throw new TypeError(`File path must be absolute: ${path}`);
+    } else {
+      path = `/${path}`;
+    }
+  } else if ('/' !== path[0]) {
+    throw new TypeError(`File path must be absolute: ${path}`);
+  }
+  result.pathname = encodePathChars(path, windows);
+  return result;
+}
+
+// Percent-encodes the code points of a path that would otherwise be lost or change meaning in a URL path.
+function encodePathChars(path: string, windows: boolean): string {
+  // Note: "%" must be encoded first
+  path = path.replace(PERCENT, '%25');
+  if (!windows) {
+    // In a POSIX path, a backslash is a regular character rather than a separator
+    path = path.replace(BACKSLASH, '%5C');
+  }
+  return path
+      .replace(NEWLINE, '%0A')
+      .replace(CARRIAGE_RETURN, '%0D')
+      .replace(TAB, '%09')
+      .replace(QUESTION_MARK, '%3F')
+      .replace(NUMBER_SIGN, '%23');
+}
@@ -1,7 +1,11 @@
 import { isC0ControlPercentEncode, utf8PercentEncodeString, utf8StringPercentDecode } from "./encode";
 import { IPv6Address, parseIPv6, serializeIPv6 } from "./host/ipv6";
-import { IPv4Address, parseIPv4, serializeIPv4 } from "./host/ipv4";
+import { endsInANumber, IPv4Address, parseIPv4, serializeIPv4 } from "./host/ipv4";
 import * as idna from "idna-uts46";
+import { offsetReporter, ValidationErrorReporter, ValidationErrorType } from "./validation";
+import { embedParseError, URLParseError } from "./errors";
+import { isInvalidPercentEncoding, isURLCodePoint } from "./util";
+import { ucs2decode } from "./vendor/ucs2";
 
 export const enum HostType {
   DOMAIN,
@@ -42,73 +46,142 @@ export const EMPTY_HOST: EmptyHost = {
 export type Host = DomainHost | IPv4Host | IPv6Host | OpaqueHost | EmptyHost;
 
 // https://url.spec.whatwg.org/#forbidden-host-code-point
-// U+0000 NULL, U+0009 TAB, U+000A LF, U+000D CR, U+0020 SPACE, U+0023 (#), U+0025 (%), U+002F (/), U+003A (:), U+003F (?), U+0040 (@), U+005B ([), U+005C (\), or U+005D (]).
-const FORBIDDEN_HOST_CODE_POINT = /[\0\t\n\r #%/:?@\[\\\]]/;
-const FORBIDDEN_HOST_CODE_POINT_EXCLUDING_PERCENT = /[\0\t\n\r #/:?@\[\\\]]/;
+// U+0000 NULL, U+0009 TAB, U+000A LF, U+000D CR, U+0020 SPACE, U+0023 (#), U+002F (/), U+003A (:), U+003C (<),
+// U+003E (>), U+003F (?), U+0040 (@), U+005B ([), U+005C (\), U+005D (]), U+005E (^), or U+007C (|).
+const FORBIDDEN_HOST_CODE_POINT = /[\0\t\n\r #/:<>?@\[\\\]^|]/;
+// https://url.spec.whatwg.org/#forbidden-domain-code-point
+// A forbidden host code point, a C0 control, U+0025 (%), or U+007F DELETE.
+const FORBIDDEN_DOMAIN_CODE_POINT = /[\0-\x1f #%/:<>?@\[\\\]^|\x7f]/;
 
-export function parseHost(input: string, isSpecial: boolean): Host {
+// Note: if given, validation errors are reported to reporter.
+export function parseHost(input: string, isSpecial: boolean, reporter: ValidationErrorReporter | null = null): Host {
   // 1. If input starts with U+005B ([), then:
   if ('[' === input[0]) {
     // 1. If input does not end with U+005D (]), validation error, return failure.
     if (']' !== input[input.length - 1]) {
-      throw new TypeError('Invalid IPv6 address');
+      if (reporter !== null) {
+        reporter('IPv6-unclosed', 0);
+      }
+      throw new URLParseError('Invalid IPv6 address', input, 'IPv6-unclosed', 0, null, 'host');
     }
     // 2. Return the result of IPv6 parsing input with its leading U+005B ([) and trailing U+005D (]) removed.
+    let address: IPv6Address;
+    try {
+      address = parseIPv6(input.slice(1, -1), offsetReporter(reporter, 1));
+    } catch (e) {
+      throw embedParseError(e, input, 1, null);
+    }
     return {
       _type: HostType.IPV6,
-      _address: parseIPv6(input.slice(1, -1))
+      _address: address
     };
   }
   // 2. If isSpecial is false, then return the result of opaque-host parsing input.
   if (!isSpecial) {
-    return parseOpaqueHost(input);
+    return parseOpaqueHost(input, reporter);
   }
-  // 3. Let domain be the result of running UTF-8 decode without BOM on the string percent decoding of input.
+  // 3. Let domain be the result of running UTF-8 decode without BOM on the percent-decoding of input.
   const domain = utf8StringPercentDecode(input);
-  // 4. Let asciiDomain be the result of running domain to ASCII on domain.
-  // 5. If asciiDomain is failure, validation error, return failure.
-  const asciiDomain = domainToAscii(domain);
-  // 6. If asciiDomain contains a forbidden host code point, validation error, return failure.
-  if (FORBIDDEN_HOST_CODE_POINT.test(asciiDomain)) {
-    throw new TypeError('Invalid code point in host');
+  // 4. Let asciiDomain be the result of running domain to ASCII with domain and false.
+  // 5. If asciiDomain is failure, then return failure.
+  let asciiDomain: string;
+  try {
+    asciiDomain = domainToAscii(domain);
+  } catch (e) {
+    const code = e instanceof URLParseError ? e.code : 'domain-to-ASCII';
+    if (reporter !== null) {
+      reporter(code as ValidationErrorType, 0);
+    }
+    throw new URLParseError(`Invalid domain: ${e.message}`, input, code, 0, null, 'host');
   }
-  // 7. Let ipv4Host be the result of IPv4 parsing asciiDomain.
-  const ipv4Host = parseIPv4(asciiDomain);
-  // 8. If ipv4Host is an IPv4 address or failure, return ipv4Host.
-  if (ipv4Host !== undefined) {
+  // 6. If asciiDomain ends in a number, then return the result of IPv4 parsing asciiDomain.
+  if (endsInANumber(asciiDomain)) {
+    // Note: the reported indices are relative to asciiDomain
+    let ipv4Host: IPv4Address;
+    try {
+      ipv4Host = parseIPv4(asciiDomain, reporter);
+    } catch (e) {
+      throw embedParseError(e, input, 0, null);
+    }
     return {
       _type: HostType.IPV4,
       _address: ipv4Host
     };
   }
-  // 9. Return asciiDomain.
-  return asciiDomain === '' ? EMPTY_HOST : {
+  // 7. Return asciiDomain.
+  return {
     _type: HostType.DOMAIN,
     _domain: asciiDomain
   };
 }
 
-function domainToAscii(domain: string): string {
+// https://url.spec.whatwg.org/#concept-domain-to-ascii
+export function domainToAscii(domain: string): string {
   // 1. If beStrict is not given, set it to false.
   const beStrict = false;
   // 2. Let result be the result of running Unicode ToASCII with domain_name set to domain,
-  //    UseSTD3ASCIIRules set to beStrict, CheckHyphens set to false, CheckBidi set to true,
-  //    CheckJoiners set to true, processing_option set to Nontransitional_Processing,
+  //    CheckHyphens set to beStrict, CheckBidi set to true, CheckJoiners set to true,
+  //    UseSTD3ASCIIRules set to beStrict, Transitional_Processing set to false,
   //    and VerifyDnsLength set to beStrict.
-  // 3. If result is a failure value, validation error, return failure.
+  // 3. If result is a failure value, domain-to-ASCII validation error, return failure.
   const result = idna.toAscii(domain, {
     transitional: false,
     useStd3ASCII: beStrict,
     verifyDnsLength: beStrict
   });
-  // 4. Return result.
+  // 4. If beStrict is false:
+  // 4.1. If result is the empty string, domain-to-ASCII validation error, return failure.
+  if ('' === result) {
+    throw new URLParseError('Empty domain', domain, 'domain-to-ASCII', 0, null, 'host');
+  }
+  // 4.2. If result contains a forbidden domain code point, domain-invalid-code-point validation error,
+  //      return failure.
+  const forbidden = FORBIDDEN_DOMAIN_CODE_POINT.exec(result);
+  if (forbidden !== null) {
+    throw new URLParseError(`Invalid code point ${JSON.stringify(forbidden[0])}`, domain,
+        'domain-invalid-code-point', 0, null, 'host');
+  }
+  // 5. Return result.
   return result;
 }
 
-function parseOpaqueHost(input: string): OpaqueHost | EmptyHost {
-  // 1. If input contains a forbidden host code point excluding U+0025 (%), validation error, return failure.
-  if (FORBIDDEN_HOST_CODE_POINT_EXCLUDING_PERCENT.test(input)) {
-    throw new TypeError('Invalid code point in opaque host');
+// https://url.spec.whatwg.org/#concept-domain-to-unicode
+export function domainToUnicode(domain: string): string {
+  // 1. Let result be the result of running Unicode ToUnicode with domain_name set to domain, CheckHyphens set to
+  //    false, CheckBidi set to true, CheckJoiners set to true, UseSTD3ASCIIRules set to false,
+  //    and Transitional_Processing set to false.
+  // 2. Signify validation errors for any returned errors, and then, return result.
+  // Note: ToUnicode never fails, so return the domain unchanged if it cannot be converted
+  try {
+    return idna.toUnicode(domain, {
+      useStd3ASCII: false
+    });
+  } catch (e) {
+    return domain;
+  }
+}
+
+function parseOpaqueHost(input: string, reporter: ValidationErrorReporter | null): OpaqueHost | EmptyHost {
+  // 1. If input contains a forbidden host code point, host-invalid-code-point validation error, return failure.
+  const forbidden = FORBIDDEN_HOST_CODE_POINT.exec(input);
+  if (forbidden !== null) {
+    const index = ucs2decode(input.slice(0, forbidden.index)).length;
+    if (reporter !== null) {
+      reporter('host-invalid-code-point', index);
+    }
+    throw new URLParseError('Invalid code point in opaque host', input, 'host-invalid-code-point', index,
+        null, 'opaque-host');
+  }
+  if (reporter !== null) {
+    const codePoints = ucs2decode(input);
+    for (let i = 0; i < codePoints.length; i++) {
+      // If input contains a code point that is not a URL code point and not U+0025 (%), validation error.
+      // If input contains a U+0025 (%) and the two code points following it are not ASCII hex digits,
+      // validation error.
+      if ((!isURLCodePoint(codePoints[i]) && 0x25 !== codePoints[i]) || isInvalidPercentEncoding(codePoints, i)) {
+        reporter('invalid-URL-unit', i);
+      }
+    }
   }
   // 2. Let output be the empty string.
   // 3. For each code point in input, UTF-8 percent encode it using the C0 control percent-encode set,
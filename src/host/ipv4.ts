@@ -1,104 +1,160 @@
 import { HEX_PREFIX, ONLY_DEC, ONLY_HEX, ONLY_OCT } from "../util";
+import { ValidationErrorReporter } from "../validation";
+import { URLParseError } from "../errors";
 
 // https://url.spec.whatwg.org/#concept-ipv4
 export type IPv4Address = number; // 32-bit unsigned integer
 
-// https://url.spec.whatwg.org/#concept-ipv4-parser
-// Note: returns undefined (rather than input) if input is a domain
-export function parseIPv4(input: string): IPv4Address | undefined {
-  // 1. Let validationErrorFlag be unset.
-  // Note: ignoring validation errors
-  // 2. Let parts be input split on U+002E (.).
+// https://url.spec.whatwg.org/#ends-in-a-number-checker
+export function endsInANumber(input: string): boolean {
+  // 1. Let parts be the result of strictly splitting input on U+002E (.).
   const parts = input.split('.');
-  // 3. If the last item in parts is the empty string, then:
+  // 2. If the last item in parts is the empty string, then:
   if (parts[parts.length - 1] === '') {
-    // 1. Set validationErrorFlag.
-    // 2. If parts has more than one item, then remove the last item from parts.
+    // 1. If parts’s size is 1, then return false.
+    if (parts.length === 1) {
+      return false;
+    }
+    // 2. Remove the last item from parts.
     parts.pop();
   }
-  // 4. If parts has more than four items, return input.
+  // 3. Let last be the last item in parts.
+  const last = parts[parts.length - 1];
+  // 4. If last is non-empty and contains only ASCII digits, then return true.
+  if (ONLY_DEC.test(last)) {
+    return true;
+  }
+  // 5. If parsing last as an IPv4 number does not return failure, then return true.
+  //    This is equivalent to checking that last is "0X" or "0x", followed by zero or more ASCII hex digits.
+  if (parseIPv4Number(last) !== undefined) {
+    return true;
+  }
+  // 6. Return false.
+  return false;
+}
+
+// https://url.spec.whatwg.org/#concept-ipv4-parser
+export function parseIPv4(input: string, reporter: ValidationErrorReporter | null = null): IPv4Address {
+  // 1. Let parts be the result of strictly splitting input on U+002E (.).
+  const parts = input.split('.');
+  // 2. If the last item in parts is the empty string, then:
+  if (parts[parts.length - 1] === '') {
+    // 1. IPv4-empty-part validation error.
+    if (reporter !== null) {
+      reporter('IPv4-empty-part', input.length - 1);
+    }
+    // 2. If parts’s size is greater than 1, then remove the last item from parts.
+    if (parts.length > 1) {
+      parts.pop();
+    }
+  }
+  // 3. If parts’s size is greater than 4, IPv4-too-many-parts validation error, return failure.
   if (parts.length > 4) {
-    return undefined;
+    if (reporter !== null) {
+      reporter('IPv4-too-many-parts', 0);
+    }
+    throw new URLParseError('Invalid IPv4 address', input, 'IPv4-too-many-parts', 0, null, 'IPv4');
   }
-  // 5. Let numbers be the empty list.
+  // 4. Let numbers be an empty list.
   const numbers: number[] = [];
-  // 6. For each part in parts:
+  const partIndices: number[] = [];
+  let partIndex = 0;
+  // 5. For each part of parts:
   for (const part of parts) {
-    // 1. If part is the empty string, return input.
-    if (part === '') {
-      return undefined;
+    // 1. Let result be the result of parsing part.
+    const result = parseIPv4Number(part);
+    // 2. If result is failure, IPv4-non-numeric-part validation error, return failure.
+    if (result === undefined) {
+      if (reporter !== null) {
+        reporter('IPv4-non-numeric-part', partIndex);
+      }
+      throw new URLParseError('Invalid IPv4 address', input, 'IPv4-non-numeric-part', partIndex, null, 'IPv4');
     }
-    // 2. Let n be the result of parsing part using validationErrorFlag.
-    const n = parseIPv4Number(part);
-    // 3. If n is failure, return input.
-    if (n === undefined) {
-      return undefined;
+    // 3. If result[1] is true, IPv4-non-decimal-part validation error.
+    if (result[1] && reporter !== null) {
+      reporter('IPv4-non-decimal-part', partIndex);
     }
-    // 4. Append n to numbers.
-    numbers.push(n);
+    // 4. Append result[0] to numbers.
+    numbers.push(result[0]);
+    partIndices.push(partIndex);
+    partIndex += part.length + 1;
   }
-  // 7. If validationErrorFlag is set, validation error.
-  // 8. If any item in numbers is greater than 255, validation error.
-  // 9. If any but the last item in numbers is greater than 255, return failure.
-  for (let i = 0; i < numbers.length - 1; i++) {
+  // 6. If any item in numbers is greater than 255, IPv4-out-of-range-part validation error.
+  // 7. If any but the last item in numbers is greater than 255, then return failure.
+  for (let i = 0; i < numbers.length; i++) {
     if (numbers[i] > 255) {
-      throw new TypeError();
+      if (reporter !== null) {
+        reporter('IPv4-out-of-range-part', partIndices[i]);
+      }
+      if (i < numbers.length - 1) {
+        throw new URLParseError('Invalid IPv4 address', input, 'IPv4-out-of-range-part', partIndices[i], null, 'IPv4');
+      }
     }
   }
-  // 10. If the last item in numbers is greater than or equal to 256^(5 − the number of items in numbers),
-  //     validation error, return failure.
+  // 8. If the last item in numbers is greater than or equal to 256^(5 − numbers’s size), then return failure.
   if (numbers[numbers.length - 1] >= (256 ** (5 - numbers.length))) {
-    throw new TypeError();
+    throw new URLParseError('Invalid IPv4 address', input, 'IPv4-out-of-range-part',
+        partIndices[numbers.length - 1], null, 'IPv4');
   }
-  // 11. Let ipv4 be the last item in numbers.
-  // 12. Remove the last item from numbers.
+  // 9. Let ipv4 be the last item in numbers.
+  // 10. Remove the last item from numbers.
   let ipv4 = numbers.pop()!;
-  // 13. Let counter be zero.
-  // 14. For each n in numbers:
+  // 11. Let counter be 0.
+  // 12. For each n of numbers:
   for (let counter = 0; counter < numbers.length; counter++) {
     const n = numbers[counter];
     // 1. Increment ipv4 by n × 256^(3 − counter).
     ipv4 += n * (256 ** (3 - counter));
     // 2. Increment counter by 1.
   }
-  // 15. Return ipv4.
+  // 13. Return ipv4.
   return ipv4;
 }
 
 // https://url.spec.whatwg.org/#ipv4-number-parser
-function parseIPv4Number(input: string): number | undefined {
-  // 1. Let R be 10.
+// Note: returns a tuple of the number and whether a validation error occurred, or undefined on failure
+function parseIPv4Number(input: string): [number, boolean] | undefined {
+  // 1. If input is the empty string, then return failure.
+  if ('' === input) {
+    return undefined;
+  }
+  // 2. Let validationError be false.
+  let validationError = false;
+  // 3. Let R be 10.
   let R = 10;
   let test = ONLY_DEC;
-  // 2. If input contains at least two code points and the first two code points are either "0x" or "0X", then:
+  // 4. If input contains at least two code points and the first two code points are either "0X" or "0x", then:
   if (HEX_PREFIX.test(input)) {
-    // 1. Set validationErrorFlag.
+    // 1. Set validationError to true.
+    validationError = true;
     // 2. Remove the first two code points from input.
     input = input.slice(2);
     // 3. Set R to 16.
     R = 16;
     test = ONLY_HEX;
   }
-  // 3. Otherwise, if input contains at least two code points and the first code point is U+0030 (0), then:
+  // 5. Otherwise, if input contains at least two code points and the first code point is U+0030 (0), then:
   else if (input.length >= 2 && '0' === input[0]) {
-    // 1. Set validationErrorFlag.
+    // 1. Set validationError to true.
+    validationError = true;
     // 2. Remove the first code point from input.
     input = input.slice(1);
     // 3. Set R to 8.
     R = 8;
     test = ONLY_OCT;
   }
-  // 4. If input is the empty string, then return zero.
+  // 6. If input is the empty string, then return (0, true).
   if ('' === input) {
-    return 0;
+    return [0, true];
   }
-  // 5. If input contains a code point that is not a radix-R digit, then return failure.
+  // 7. If input contains a code point that is not a radix-R digit, then return failure.
   if (!test.test(input)) {
     return undefined;
   }
-  // 6. Return the mathematical integer value that is represented by input in radix-R notation,
+  // 8. Let output be the mathematical integer value that is represented by input in radix-R notation,
   //    using ASCII hex digits for digits with values 0 through 15.
-  return parseInt(input, R);
+  // 9. Return (output, validationError).
+  return [parseInt(input, R), validationError];
 }
 
 // https://url.spec.whatwg.org/#concept-ipv4-serializer
@@ -1,10 +1,12 @@
 import { DIGIT, HEX_DIGIT, swap, Tuple8 } from "../util";
+import { ValidationErrorReporter, ValidationErrorType } from "../validation";
+import { URLParseError } from "../errors";
 
 // https://url.spec.whatwg.org/#concept-ipv6
 export type IPv6Address = Tuple8<number>; // eight 16-bit unsigned integers
 
 // https://url.spec.whatwg.org/#concept-ipv6-parser
-export function parseIPv6(input: string): IPv6Address {
+export function parseIPv6(input: string, reporter: ValidationErrorReporter | null = null): IPv6Address {
   const size = input.length;
   // 1. Let address be a new IPv6 address whose IPv6 pieces are all 0.
   const address: IPv6Address = [0, 0, 0, 0, 0, 0, 0, 0];
@@ -18,7 +20,7 @@ export function parseIPv6(input: string): IPv6Address {
   if (pointer < size && ':' === input[pointer]) {
     // 1. If remaining does not start with U+003A (:), validation error, return failure.
     if (!(pointer + 1 < size && ':' === input[pointer + 1])) {
-      throw new TypeError();
+      throw validationFailure(input, reporter, 'IPv6-invalid-compression', pointer);
     }
     // 2. Increase pointer by 2.
     pointer += 2;
@@ -30,13 +32,13 @@ export function parseIPv6(input: string): IPv6Address {
   while (pointer < size) {
     // 1. If pieceIndex is 8, validation error, return failure.
     if (pieceIndex === 8) {
-      throw new TypeError('Too many groups');
+      throw validationFailure(input, reporter, 'IPv6-too-many-pieces', pointer, 'Too many groups');
     }
     // 2. If c is U+003A (:), then:
     if (':' === input[pointer]) {
       // 1. If compress is non-null, validation error, return failure.
       if (null !== compress) {
-        throw new TypeError('Too many :: groups');
+        throw validationFailure(input, reporter, 'IPv6-multiple-compression', pointer, 'Too many :: groups');
       }
       // 2. Increase pointer and pieceIndex by 1, set compress to pieceIndex, and then continue.
       pointer += 1;
@@ -60,13 +62,13 @@ export function parseIPv6(input: string): IPv6Address {
       // IPv4-mapped IPv6 address, e.g. ::ffff:192.168.0.1
       // 1. If length is 0, validation error, return failure.
       if (length === 0) {
-        throw new TypeError();
+        throw validationFailure(input, reporter, 'IPv4-in-IPv6-invalid-code-point', pointer);
       }
       // 2. Decrease pointer by length.
       pointer -= length;
       // 3. If pieceIndex is greater than 6, validation error, return failure.
       if (pieceIndex > 6) {
-        throw new TypeError();
+        throw validationFailure(input, reporter, 'IPv4-in-IPv6-too-many-pieces', pointer);
       }
       // 4. Let numbersSeen be 0.
       let numbersSeen = 0;
@@ -82,12 +84,12 @@ export function parseIPv6(input: string): IPv6Address {
           }
           // 2. Otherwise, validation error, return failure.
           else {
-            throw new TypeError();
+            throw validationFailure(input, reporter, 'IPv4-in-IPv6-invalid-code-point', pointer);
           }
         }
         // 3. If c is not an ASCII digit, validation error, return failure.
         if (!DIGIT.test(input[pointer])) {
-          throw new TypeError();
+          throw validationFailure(input, reporter, 'IPv4-in-IPv6-invalid-code-point', pointer);
         }
         // 4. While c is an ASCII digit:
         while (pointer < size && DIGIT.test(input[pointer])) {
@@ -99,12 +101,12 @@ export function parseIPv6(input: string): IPv6Address {
           if (ipv4Piece === null) {
             ipv4Piece = number;
           } else if (ipv4Piece === 0) {
-            throw new TypeError();
+            throw validationFailure(input, reporter, 'IPv4-in-IPv6-invalid-code-point', pointer);
           } else {
             ipv4Piece = ipv4Piece * 10 + number;
             // 3. If ipv4Piece is greater than 255, validation error, return failure.
             if (ipv4Piece > 255) {
-              throw new TypeError();
+              throw validationFailure(input, reporter, 'IPv4-in-IPv6-out-of-range-part', pointer);
             }
           }
           // 4. Increase pointer by 1.
@@ -121,7 +123,7 @@ export function parseIPv6(input: string): IPv6Address {
       }
       // 6. If numbersSeen is not 4, validation error, return failure.
       if (numbersSeen !== 4) {
-        throw new TypeError();
+        throw validationFailure(input, reporter, 'IPv4-in-IPv6-too-few-parts', pointer);
       }
       // 7. Break.
       break;
@@ -132,12 +134,12 @@ export function parseIPv6(input: string): IPv6Address {
       pointer += 1;
       // 8. If c is the EOF code point, validation error, return failure.
       if (pointer === size) {
-        throw new TypeError();
+        throw validationFailure(input, reporter, 'IPv6-invalid-code-point', pointer);
       }
     }
     // 7. Otherwise, if c is not the EOF code point, validation error, return failure.
     else if (pointer < size) {
-      throw new TypeError();
+      throw validationFailure(input, reporter, 'IPv6-invalid-code-point', pointer);
     }
     // 8. Set address[pieceIndex] to value.
     address[pieceIndex] = value;
@@ -161,12 +163,20 @@ export function parseIPv6(input: string): IPv6Address {
   }
   // 8. Otherwise, if compress is null and pieceIndex is not 8, validation error, return failure.
   else if (pieceIndex !== 8) {
-    throw new TypeError();
+    throw validationFailure(input, reporter, 'IPv6-too-few-pieces', pointer);
   }
   // 9. Return address.
   return address;
 }
 
+function validationFailure(input: string, reporter: ValidationErrorReporter | null, type: ValidationErrorType,
+                           pointer: number, message: string = 'Invalid IPv6 address'): URLParseError {
+  if (reporter !== null) {
+    reporter(type, pointer);
+  }
+  return new URLParseError(message, input, type, pointer, null, 'IPv6');
+}
+
 // https://url.spec.whatwg.org/#concept-ipv6-serializer
 export function serializeIPv6(address: IPv6Address): string {
   // 1. Let output be the empty string.
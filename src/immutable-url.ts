@@ -0,0 +1,149 @@
+import { copyUrlRecord, newURL, URL } from "./url";
+import { freezeParams, newURLSearchParams, URLSearchParams } from "./search-params";
+
+// An immutable URL, which can be shared without being modified through aliases.
+// Instead of setters, it has "with" methods which return a new ImmutableURL,
+// canonicalized exactly like the corresponding setter of URL.
+export class ImmutableURL {
+  /** @internal */
+  readonly _value!: URL;
+  /** @internal */
+  readonly _searchParams!: URLSearchParams;
+
+  constructor(url: string | URL | ImmutableURL, base?: string | URL | ImmutableURL) {
+    initializeImmutableURL(this, new URL(String(url), base instanceof ImmutableURL ? base._value : base));
+  }
+
+  // Returns an immutable copy of url.
+  static from(url: string | URL | ImmutableURL): ImmutableURL {
+    if (url instanceof ImmutableURL) {
+      return url;
+    }
+    return new ImmutableURL(url);
+  }
+
+  toString(): string {
+    return this.href;
+  }
+
+  toJSON(): string {
+    return this.href;
+  }
+
+  // Returns a new mutable copy of this URL.
+  toURL(): URL {
+    return newURL(copyUrlRecord(this._value._url));
+  }
+
+  get href(): string {
+    return this._value.href;
+  }
+
+  get origin(): string {
+    return this._value.origin;
+  }
+
+  get protocol(): string {
+    return this._value.protocol;
+  }
+
+  get username(): string {
+    return this._value.username;
+  }
+
+  get password(): string {
+    return this._value.password;
+  }
+
+  get host(): string {
+    return this._value.host;
+  }
+
+  get hostname(): string {
+    return this._value.hostname;
+  }
+
+  get port(): string {
+    return this._value.port;
+  }
+
+  get pathname(): string {
+    return this._value.pathname;
+  }
+
+  get search(): string {
+    return this._value.search;
+  }
+
+  // Returns a read-only URLSearchParams with the query of this URL.
+  // Note: unlike URL.searchParams, modifying it throws a TypeError, use withSearchParams() instead.
+  get searchParams(): URLSearchParams {
+    return this._searchParams;
+  }
+
+  get hash(): string {
+    return this._value.hash;
+  }
+
+  // Throws a TypeError if href is not a valid URL, like the href setter of URL.
+  withHref(href: string): ImmutableURL {
+    return modify(this, (url) => url.href = href);
+  }
+
+  withProtocol(protocol: string): ImmutableURL {
+    return modify(this, (url) => url.protocol = protocol);
+  }
+
+  withUsername(username: string): ImmutableURL {
+    return modify(this, (url) => url.username = username);
+  }
+
+  withPassword(password: string): ImmutableURL {
+    return modify(this, (url) => url.password = password);
+  }
+
+  withHost(host: string): ImmutableURL {
+    return modify(this, (url) => url.host = host);
+  }
+
+  withHostname(hostname: string): ImmutableURL {
+    return modify(this, (url) => url.hostname = hostname);
+  }
+
+  withPort(port: string | number): ImmutableURL {
+    return modify(this, (url) => url.port = String(port));
+  }
+
+  withPathname(pathname: string): ImmutableURL {
+    return modify(this, (url) => url.pathname = pathname);
+  }
+
+  withSearch(search: string): ImmutableURL {
+    return modify(this, (url) => url.search = search);
+  }
+
+  withSearchParams(searchParams: URLSearchParams): ImmutableURL {
+    return modify(this, (url) => url.search = searchParams.toString());
+  }
+
+  withHash(hash: string): ImmutableURL {
+    return modify(this, (url) => url.hash = hash);
+  }
+}
+
+function initializeImmutableURL(result: ImmutableURL, url: URL): void {
+  (result as { _value: URL })._value = url;
+  const searchParams = newURLSearchParams(url._url._query);
+  freezeParams(searchParams);
+  (result as { _searchParams: URLSearchParams })._searchParams = searchParams;
+  Object.freeze(result);
+}
+
+// Runs the setters of URL on a copy of the given URL, and returns the result as a new ImmutableURL.
+function modify(immutableURL: ImmutableURL, setter: (url: URL) => void): ImmutableURL {
+  const url = immutableURL.toURL();
+  setter(url);
+  const result: ImmutableURL = Object.create(ImmutableURL.prototype);
+  initializeImmutableURL(result, url);
+  return result;
+}
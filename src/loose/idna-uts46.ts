@@ -1,5 +1,55 @@
-import { toASCII } from 'punycode';
+import { decode, encode, toASCII } from 'punycode';
+
+const ACE_PREFIX = 'xn--';
+const NON_ASCII = /[^\0-\x7f]/;
+// Code points which are never valid in a decoded label: C0 and C1 controls, space and full stop
+const INVALID_DECODED = /[\0-\x20.\x7f-\x9f]/;
+// Note: use the native String.prototype.normalize if available, rather than bundling the normalization tables.
+// It is called through nativeNormalize, since the ES5 builds replace normalize() method calls with a polyfill.
+const supportsNormalize = typeof ''.normalize === 'function';
+const nativeNormalize = String.prototype.normalize;
+
+// Decodes an ACE label (starting with "xn--"), and checks that the result is a valid label.
+// Without the Unicode IDNA mapping table, this only checks a subset of the UTS #46 validity criteria:
+// the label must be non-empty valid Punycode, must not need mapping to lowercase,
+// must be in NFC (if supported natively) and must not contain control characters.
+function decodeLabel(label: string): string {
+  const encoded = label.slice(ACE_PREFIX.length);
+  if (NON_ASCII.test(encoded)) {
+    throw new Error(`Invalid label: ${label}`);
+  }
+  let decoded: string;
+  try {
+    decoded = decode(encoded);
+  } catch (e) {
+    throw new Error(`Invalid label: ${label}`);
+  }
+  if ('' === decoded
+      || encode(decoded) !== encoded
+      || INVALID_DECODED.test(decoded)
+      || decoded.toLowerCase() !== decoded
+      || (supportsNormalize && nativeNormalize.call(decoded, 'NFC') !== decoded)) {
+    throw new Error(`Invalid label: ${label}`);
+  }
+  return decoded;
+}
+
+function isAceLabel(label: string): boolean {
+  return label.slice(0, ACE_PREFIX.length) === ACE_PREFIX;
+}
 
 export function toAscii(domain: string): string {
-  return toASCII(domain.toLowerCase());
+  return domain.toLowerCase().split('.').map((label) => {
+    if (isAceLabel(label)) {
+      decodeLabel(label);
+      return label;
+    }
+    return toASCII(label);
+  }).join('.');
+}
+
+export function toUnicode(domain: string): string {
+  return domain.toLowerCase().split('.').map((label) => {
+    return isAceLabel(label) ? decodeLabel(label) : label;
+  }).join('.');
 }
@@ -0,0 +1,235 @@
+import { URLSearchParams } from "./search-params";
+import { serializeUrlEncoded } from "./urlencode";
+import { isArray } from "./util";
+
+export type NestedQueryValue = string | NestedQueryArray | NestedQueryObject;
+
+export interface NestedQueryArray extends Array<NestedQueryValue> {
+}
+
+export interface NestedQueryObject {
+  [name: string]: NestedQueryValue;
+}
+
+export type NestedQueryArrayFormat = 'indices' | 'brackets' | 'repeat';
+
+export interface NestedQueryOptions {
+  // Whether to also use dot notation for nested objects, e.g. "a.b.c=1".
+  // Bracket notation (e.g. "a[b][c]=1") is always parsed. Defaults to false.
+  allowDots?: boolean;
+  // How to serialize arrays: with their indices (e.g. "a[0]=x&a[1]=y"), with empty brackets (e.g. "a[]=x&a[]=y"),
+  // or by repeating the name (e.g. "a=x&a=y"). All formats are parsed. Defaults to 'brackets'.
+  // Note: arrays containing arrays or objects are always serialized with their indices,
+  // and an array with a single string is parsed back as a string when repeating the name.
+  arrayFormat?: NestedQueryArrayFormat;
+  // The maximum depth of nested objects and arrays, parsing a deeper name throws a TypeError. Defaults to 5.
+  depth?: number;
+  // The maximum number of name-value pairs, parsing more pairs throws a TypeError. Defaults to 1000.
+  parameterLimit?: number;
+  // The maximum array index, a larger index is parsed as the name of an object instead. Defaults to 20.
+  arrayLimit?: number;
+}
+
+const DEFAULT_DEPTH = 5;
+const DEFAULT_PARAMETER_LIMIT = 1000;
+const DEFAULT_ARRAY_LIMIT = 20;
+
+// One or more bracketed names, e.g. "[b][]"
+const BRACKETED_NAMES = /^(?:\[[^\[\]]*\])+$/;
+// One or more dotted or bracketed names, e.g. ".b[0].c"
+const DOTTED_OR_BRACKETED_NAMES = /^(?:\.[^.\[\]]+|\[[^\[\]]*\])+$/;
+const DOTTED_OR_BRACKETED_NAME = /\.([^.\[\]]+)|\[([^\[\]]*)\]/g;
+const ARRAY_INDEX = /^(?:0|[1-9][0-9]*)$/;
+
+const enum NodeType {
+  OBJECT,
+  ARRAY
+}
+
+// An object or array while parsing.
+interface Node {
+  _type: NodeType;
+  // The names (or indices) of the entries, in insertion order
+  _names: string[];
+  // The entries by name, without a prototype so any name is safe to use
+  _entries: { [name: string]: Node | string | undefined };
+  // The index of the next appended item of an array
+  _nextIndex: number;
+}
+
+// Parses the name-value pairs of params (or a query string) into nested objects and arrays,
+// e.g. "filter[status][]=open&filter[owner]=me" into { filter: { status: ['open'], owner: 'me' } }.
+// A repeated name becomes an array, e.g. "a=x&a=y" into { a: ['x', 'y'] }.
+// Note: the objects are plain objects, but every name becomes an own property,
+// so names like "__proto__" cannot change their prototype or pollute Object.prototype.
+// Throws a TypeError if params exceeds the limits of options, or if a name is used both for a string and an object.
+export function parseNestedQuery(params: string | URLSearchParams,
+                                 options: NestedQueryOptions = {}): NestedQueryObject {
+  const list = (params instanceof URLSearchParams ? params : new URLSearchParams(params))._list;
+  const depth = options.depth !== undefined ? options.depth : DEFAULT_DEPTH;
+  const parameterLimit = options.parameterLimit !== undefined ? options.parameterLimit : DEFAULT_PARAMETER_LIMIT;
+  const arrayLimit = options.arrayLimit !== undefined ? options.arrayLimit : DEFAULT_ARRAY_LIMIT;
+  if (list.length > parameterLimit) {
+    throw new TypeError(`Too many query parameters: more than ${parameterLimit}`);
+  }
+  const root = createNode(NodeType.OBJECT);
+  for (const [name, value] of list) {
+    const path = parseName(name, !!options.allowDots);
+    if (path.length - 1 > depth) {
+      throw new TypeError(`Query parameter is nested too deeply: ${name}`);
+    }
+    insert(root, path, value, arrayLimit);
+  }
+  return toValue(root) as NestedQueryObject;
+}
+
+// Serializes nested objects and arrays into a query string, which parseNestedQuery() parses back into the same value
+// when given the same options. The result can be passed to new URLSearchParams() or set as the search of a URL.
+// Note: empty objects and arrays are left out, and an object with only array indices as names is parsed as an array.
+// Throws a TypeError if a name cannot be serialized, such as a name containing "[" or "]".
+export function serializeNestedQuery(value: NestedQueryObject, options: NestedQueryOptions = {}): string {
+  const tuples: Array<[string, string]> = [];
+  for (const name of Object.keys(value)) {
+    const item = value[name];
+    if (name !== '' || isContainer(item)) {
+      checkName(name, options);
+    }
+    appendTuples(tuples, name, item, options);
+  }
+  return serializeUrlEncoded(tuples);
+}
+
+// Splits a name into the names of its nested objects and arrays, e.g. "a[b][]" into ["a", "b", ""],
+// or "a.b[0].c" into ["a", "b", "0", "c"] when allowing dots.
+// A name which is not valid bracket (or dot) notation is used as-is.
+function parseName(name: string, allowDots: boolean): string[] {
+  const start = allowDots ? name.search(/[\[.]/) : name.indexOf('[');
+  const rest = name.slice(start);
+  if (start <= 0 || !(allowDots ? DOTTED_OR_BRACKETED_NAMES : BRACKETED_NAMES).test(rest)) {
+    return [name];
+  }
+  const path = [name.slice(0, start)];
+  rest.replace(DOTTED_OR_BRACKETED_NAME, (match, dotted?: string, bracketed?: string) => {
+    path.push(dotted !== undefined ? dotted : bracketed!);
+    return match;
+  });
+  return path;
+}
+
+function createNode(type: NodeType): Node {
+  return {
+    _type: type,
+    _names: [],
+    _entries: Object.create(null),
+    _nextIndex: 0
+  };
+}
+
+function isArrayIndex(name: string, arrayLimit: number): boolean {
+  return ARRAY_INDEX.test(name) && Number(name) <= arrayLimit;
+}
+
+function addEntry(node: Node, name: string, entry: Node | string): void {
+  node._names.push(name);
+  node._entries[name] = entry;
+  if (node._type === NodeType.ARRAY) {
+    node._nextIndex = Math.max(node._nextIndex, Number(name) + 1);
+  }
+}
+
+function insert(root: Node, path: string[], value: string, arrayLimit: number): void {
+  let node = root;
+  for (let i = 0; i < path.length; i++) {
+    let name = path[i];
+    if (node._type === NodeType.ARRAY) {
+      // An empty name appends to an array, e.g. "a[]"
+      if ('' === name) {
+        name = String(node._nextIndex);
+      }
+      // Any other name turns the array into an object
+      else if (!isArrayIndex(name, arrayLimit)) {
+        node._type = NodeType.OBJECT;
+      }
+    }
+    const existing = node._entries[name];
+    if (i === path.length - 1) {
+      if (existing === undefined) {
+        addEntry(node, name, value);
+      } else if (typeof existing === 'string') {
+        // A repeated name becomes an array
+        const array = createNode(NodeType.ARRAY);
+        addEntry(array, '0', existing);
+        addEntry(array, '1', value);
+        node._entries[name] = array;
+      } else if (existing._type === NodeType.ARRAY) {
+        addEntry(existing, String(existing._nextIndex), value);
+      } else {
+        throw new TypeError(`Query parameter is both an object and a string: ${path.join('.')}`);
+      }
+    } else {
+      if (existing === undefined) {
+        const next = path[i + 1];
+        const child = createNode('' === next || isArrayIndex(next, arrayLimit) ? NodeType.ARRAY : NodeType.OBJECT);
+        addEntry(node, name, child);
+        node = child;
+      } else if (typeof existing === 'string') {
+        throw new TypeError(`Query parameter is both an object and a string: ${path.slice(0, i + 1).join('.')}`);
+      } else {
+        node = existing;
+      }
+    }
+  }
+}
+
+function toValue(entry: Node | string): NestedQueryValue {
+  if (typeof entry === 'string') {
+    return entry;
+  }
+  if (entry._type === NodeType.ARRAY) {
+    // Note: arrays are compacted, e.g. "a[1]=x&a[5]=y" becomes ["x", "y"]
+    const indices = entry._names.map(Number).sort((a, b) => a - b);
+    return indices.map((index) => toValue(entry._entries[String(index)]!));
+  }
+  const result: NestedQueryObject = {};
+  for (const name of entry._names) {
+    // Note: define the property instead of assigning it, since assigning "__proto__" would set the prototype
+    Object.defineProperty(result, name, {
+      value: toValue(entry._entries[name]!),
+      enumerable: true,
+      writable: true,
+      configurable: true
+    });
+  }
+  return result;
+}
+
+function isContainer(value: NestedQueryValue): value is NestedQueryArray | NestedQueryObject {
+  return typeof value === 'object' && value !== null;
+}
+
+// Throws if name would not be parsed back as a single name.
+function checkName(name: string, options: NestedQueryOptions): void {
+  if ('' === name || /[\[\]]/.test(name) || (options.allowDots && name.indexOf('.') >= 0)) {
+    throw new TypeError(`Invalid query parameter name: ${name}`);
+  }
+}
+
+function appendTuples(tuples: Array<[string, string]>, prefix: string, value: NestedQueryValue,
+                      options: NestedQueryOptions): void {
+  if (isArray(value)) {
+    const arrayFormat = options.arrayFormat || 'brackets';
+    // Note: the items of an array of arrays or objects can only be told apart by their indices
+    const indices = arrayFormat === 'indices' || value.some(isContainer);
+    for (let i = 0; i < value.length; i++) {
+      const itemPrefix = indices ? `${prefix}[${i}]` : arrayFormat === 'brackets' ? `${prefix}[]` : prefix;
+      appendTuples(tuples, itemPrefix, value[i], options);
+    }
+  } else if (isContainer(value)) {
+    for (const name of Object.keys(value)) {
+      checkName(name, options);
+      appendTuples(tuples, options.allowDots ? `${prefix}.${name}` : `${prefix}[${name}]`, value[name], options);
+    }
+  } else {
+    tuples.push([prefix, String(value)]);
+  }
+}
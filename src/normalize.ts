@@ -0,0 +1,114 @@
+import { copyUrlRecord, getSchemeDefaultPort, getUrlRecord, newURL, URL, UrlRecord } from "./url";
+import { HostType } from "./host";
+import { hasOpaquePath, stripTrailingSpacesFromOpaquePath } from "./opaque-path";
+import { parseUrlEncoded } from "./urlencode";
+import { inplaceStableSort } from "./util";
+
+export interface NormalizeOptions {
+  // Whether to decode percent-encoded unreserved characters (ASCII alphanumerics, "-", ".", "_" and "~").
+  // Defaults to false.
+  decodeUnreserved?: boolean;
+  // Whether to uppercase the hexadecimal digits of percent-encoded bytes, e.g. "%3a" to "%3A".
+  // Defaults to false.
+  uppercasePercentEncoding?: boolean;
+  // Whether to remove an empty query, e.g. "https://example.com/?" to "https://example.com/".
+  // Defaults to false.
+  removeEmptyQuery?: boolean;
+  // Whether to remove an empty fragment, e.g. "https://example.com/#" to "https://example.com/".
+  // Defaults to false.
+  removeEmptyFragment?: boolean;
+  // Whether to sort the name-value pairs of the query by their names, keeping the order of pairs with equal names.
+  // Defaults to false, since the order of the query can be significant.
+  sortQuery?: boolean;
+  // Whether to remove a trailing dot from a domain, e.g. "example.com." to "example.com".
+  // Defaults to false.
+  removeTrailingDot?: boolean;
+  // Whether to remove the port if it is the default port of the scheme,
+  // including schemes registered after url was parsed. Defaults to false.
+  removeDefaultPort?: boolean;
+}
+
+const PERCENT_ENCODED_BYTE = /%([0-9A-Fa-f]{2})/g;
+const UNRESERVED = /[A-Za-z0-9\-._~]/;
+const LOWERCASE_PERCENT_ENCODED_BYTE = /%[0-9A-Fa-f]{2}/g;
+
+// Returns a normalized copy of url, for comparing or deduplicating URLs (RFC 3986, section 6.2.2).
+// Unlike url.href, two URLs which only differ in the normalized parts have the same normalized href.
+// Every normalization step is opt-in, so pass the options for the steps to apply.
+// Note: url itself is not modified.
+// https://tools.ietf.org/html/rfc3986#section-6.2.2
+export function normalize(url: string | URL, options: NormalizeOptions = {}): URL {
+  const result = copyUrlRecord(getUrlRecord(url));
+  const uppercase = (component: string): string => options.uppercasePercentEncoding
+      ? component.replace(LOWERCASE_PERCENT_ENCODED_BYTE, (encoded) => encoded.toUpperCase())
+      : component;
+  const decode = (component: string): string => options.decodeUnreserved ? decodeUnreserved(component) : component;
+  const normalizeComponent = (component: string): string => decode(uppercase(component));
+  result._username = normalizeComponent(result._username);
+  result._password = normalizeComponent(result._password);
+  if (hasOpaquePath(result)) {
+    result._path = normalizeComponent(result._path as string);
+  } else {
+    result._path = (result._path as string[]).map((segment) => {
+      // Note: uppercase first, so "%2e" and "%2E" are normalized the same
+      const uppercased = uppercase(segment);
+      const normalized = decode(uppercased);
+      // Note: a segment must not become a single-dot or double-dot segment, since those are removed when parsing
+      return (normalized === '.' || normalized === '..') ? uppercased : normalized;
+    });
+  }
+  if (result._query !== null) {
+    result._query = normalizeComponent(result._query);
+    if (options.sortQuery) {
+      result._query = sortQuery(result._query);
+    }
+    if (options.removeEmptyQuery && result._query === '') {
+      result._query = null;
+    }
+  }
+  if (result._fragment !== null) {
+    result._fragment = normalizeComponent(result._fragment);
+    if (options.removeEmptyFragment && result._fragment === '') {
+      result._fragment = null;
+    }
+  }
+  stripTrailingSpacesFromOpaquePath(result);
+  if (options.removeTrailingDot) {
+    removeTrailingDot(result);
+  }
+  if (options.removeDefaultPort && result._port === getSchemeDefaultPort(result._scheme)) {
+    result._port = null;
+  }
+  return newURL(result);
+}
+
+function decodeUnreserved(input: string): string {
+  return input.replace(PERCENT_ENCODED_BYTE, (encoded, hex: string) => {
+    const decoded = String.fromCharCode(parseInt(hex, 16));
+    return UNRESERVED.test(decoded) ? decoded : encoded;
+  });
+}
+
+function removeTrailingDot(url: UrlRecord): void {
+  const host = url._host;
+  if (host !== null && host._type === HostType.DOMAIN && host._domain.length > 1
+      && '.' === host._domain[host._domain.length - 1]) {
+    url._host = {
+      _type: HostType.DOMAIN,
+      _domain: host._domain.slice(0, -1)
+    };
+  }
+}
+
+// Sorts the name-value pairs of query like URLSearchParams.sort(), but keeps their original serialization.
+// Empty pairs are removed.
+function sortQuery(query: string): string {
+  const pairs: Array<[string, string]> = [];
+  for (const sequence of query.split('&')) {
+    if (sequence !== '') {
+      pairs.push([parseUrlEncoded(sequence)[0][0], sequence]);
+    }
+  }
+  inplaceStableSort(pairs, ([name1], [name2]) => (name1 === name2) ? 0 : (name1 < name2) ? -1 : 1);
+  return pairs.map(([, sequence]) => sequence).join('&');
+}
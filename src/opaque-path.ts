@@ -0,0 +1,21 @@
+import { UrlRecord } from "./url";
+
+const TRAILING_SPACES = / +$/;
+
+// https://url.spec.whatwg.org/#url-opaque-path
+export function hasOpaquePath(url: UrlRecord): boolean {
+  // A URL has an opaque path if its path is a URL path segment.
+  return typeof url._path === 'string';
+}
+
+// https://url.spec.whatwg.org/#potentially-strip-trailing-spaces-from-an-opaque-path
+export function stripTrailingSpacesFromOpaquePath(url: UrlRecord): void {
+  // 1. If url does not have an opaque path, then return.
+  // 2. If url’s fragment is non-null, then return.
+  // 3. If url’s query is non-null, then return.
+  if (!hasOpaquePath(url) || null !== url._fragment || null !== url._query) {
+    return;
+  }
+  // 4. Remove all trailing U+0020 SPACE code points from url’s path.
+  url._path = (url._path as string).replace(TRAILING_SPACES, '');
+}
@@ -1,9 +1,172 @@
-import { Host, serializeHost } from "./host";
+import { domainToUnicode, Host, HostType, parseHost, serializeHost } from "./host";
 
 // https://html.spec.whatwg.org/multipage/origin.html#concept-origin-opaque
 // https://html.spec.whatwg.org/multipage/origin.html#ascii-serialisation-of-an-origin
 export const OPAQUE_ORIGIN = 'null';
 
+export const enum OriginType {
+  TUPLE,
+  OPAQUE
+}
+
+// https://html.spec.whatwg.org/multipage/origin.html#concept-origin
+export class Origin {
+  /** @internal */
+  _type!: OriginType;
+  /** @internal */
+  _scheme!: string;
+  /** @internal */
+  _host!: Host | null;
+  /** @internal */
+  _port!: number | null;
+  /** @internal */
+  _domain!: Host | null;
+
+  private constructor() {
+  }
+
+  // Whether this is an opaque origin.
+  // Note: every opaque origin is unique, it is only the same origin as itself.
+  get opaque(): boolean {
+    return this._type === OriginType.OPAQUE;
+  }
+
+  // The scheme of this tuple origin, or null for an opaque origin.
+  get scheme(): string | null {
+    return this._type === OriginType.TUPLE ? this._scheme : null;
+  }
+
+  // The serialized host of this tuple origin, or null for an opaque origin.
+  get host(): string | null {
+    return this._host === null ? null : serializeHost(this._host);
+  }
+
+  // The port of this tuple origin, or null if it has no port or is opaque.
+  get port(): number | null {
+    return this._port;
+  }
+
+  // The serialized domain of this tuple origin, or null if it has no domain or is opaque.
+  get domain(): string | null {
+    return this._domain === null ? null : serializeHost(this._domain);
+  }
+
+  // Returns a copy of this tuple origin with its domain set to the given domain, or reset when given null.
+  // This mirrors what setting document.domain does to the origin of a document.
+  withDomain(domain: string | null): Origin {
+    if (this._type === OriginType.OPAQUE) {
+      throw new TypeError('Cannot set the domain of an opaque origin');
+    }
+    let domainHost: Host | null = null;
+    if (domain !== null) {
+      domainHost = parseHost(String(domain), true);
+      if (domainHost._type !== HostType.DOMAIN) {
+        throw new TypeError(`Invalid domain: ${domain}`);
+      }
+    }
+    return createTupleOrigin(this._scheme, this._host!, this._port, domainHost);
+  }
+
+  // https://html.spec.whatwg.org/multipage/origin.html#same-origin
+  isSameOrigin(other: Origin): boolean {
+    // 1. If A and B are the same opaque origin, then return true.
+    if (this._type === OriginType.OPAQUE || other._type === OriginType.OPAQUE) {
+      return this === other;
+    }
+    // 2. If A and B are both tuple origins and their schemes, hosts, and port are identical, then return true.
+    // 3. Return false.
+    return this._scheme === other._scheme
+        && isSameHost(this._host, other._host)
+        && this._port === other._port;
+  }
+
+  // https://html.spec.whatwg.org/multipage/origin.html#same-origin-domain
+  isSameOriginDomain(other: Origin): boolean {
+    // 1. If A and B are the same opaque origin, then return true.
+    if (this._type === OriginType.OPAQUE || other._type === OriginType.OPAQUE) {
+      return this === other;
+    }
+    // 2. If A and B are both tuple origins, run these substeps:
+    // 2.1. If A and B's schemes are identical, and their domains are identical and non-null, then return true.
+    if (this._scheme === other._scheme && this._domain !== null && other._domain !== null) {
+      return isSameHost(this._domain, other._domain);
+    }
+    // 2.2. Otherwise, if A and B are same origin and their domains are identical and null, then return true.
+    if (this._domain === null && other._domain === null) {
+      return this.isSameOrigin(other);
+    }
+    // 3. Return false.
+    return false;
+  }
+
+  // https://html.spec.whatwg.org/multipage/origin.html#ascii-serialisation-of-an-origin
+  serialize(): string {
+    // 1. If origin is an opaque origin, then return "null".
+    if (this._type === OriginType.OPAQUE) {
+      return OPAQUE_ORIGIN;
+    }
+    return serializeTupleOrigin(this._scheme, this._host!, this._port);
+  }
+
+  // https://html.spec.whatwg.org/multipage/origin.html#unicode-serialisation-of-an-origin
+  serializeUnicode(): string {
+    // 1. If origin is an opaque origin, then return "null".
+    if (this._type === OriginType.OPAQUE) {
+      return OPAQUE_ORIGIN;
+    }
+    // 2. Let host be origin's host.
+    const host = this._host!;
+    // 3. Let unicodeHost be host if host is not a domain, and the result of applying domain to Unicode to host
+    //    otherwise.
+    const unicodeHost: Host = host._type !== HostType.DOMAIN ? host : {
+      _type: HostType.DOMAIN,
+      _domain: domainToUnicode(host._domain)
+    };
+    // 4. Let unicodeOrigin be a new tuple origin (origin's scheme, unicodeHost, origin's port).
+    // 5. Return the ASCII serialization of unicodeOrigin.
+    return serializeTupleOrigin(this._scheme, unicodeHost, this._port);
+  }
+
+  toString(): string {
+    return this.serialize();
+  }
+
+  toJSON(): string {
+    return this.serialize();
+  }
+}
+
+// https://url.spec.whatwg.org/#concept-host-equals
+function isSameHost(a: Host | null, b: Host | null): boolean {
+  if (a === null || b === null) {
+    return a === b;
+  }
+  return a._type === b._type && serializeHost(a) === serializeHost(b);
+}
+
+// https://html.spec.whatwg.org/multipage/origin.html#concept-origin-opaque
+export function createOpaqueOrigin(): Origin {
+  const origin: Origin = Object.create(Origin.prototype);
+  origin._type = OriginType.OPAQUE;
+  origin._scheme = '';
+  origin._host = null;
+  origin._port = null;
+  origin._domain = null;
+  return origin;
+}
+
+// https://html.spec.whatwg.org/multipage/origin.html#concept-origin-tuple
+export function createTupleOrigin(scheme: string, host: Host, port: number | null,
+                                  domain: Host | null = null): Origin {
+  const origin: Origin = Object.create(Origin.prototype);
+  origin._type = OriginType.TUPLE;
+  origin._scheme = scheme;
+  origin._host = host;
+  origin._port = port;
+  origin._domain = domain;
+  return origin;
+}
+
 // https://html.spec.whatwg.org/multipage/origin.html#concept-origin-tuple
 // https://html.spec.whatwg.org/multipage/origin.html#ascii-serialisation-of-an-origin
 export function serializeTupleOrigin(scheme: string, host: Host, port: number | null): string {
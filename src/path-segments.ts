@@ -0,0 +1,167 @@
+import { ParserState, parseWithStateOverride, URL, UrlRecord } from "./url";
+import { hasOpaquePath } from "./opaque-path";
+import { isDoubleDotPathSegment, isSingleDotPathSegment, shortenPath } from "./path";
+import { isPathSegmentPercentEncode, utf8PercentEncodeString, utf8StringPercentDecode } from "./encode";
+import { toUSVString } from "./usvstring";
+import { supportsSymbolIterator } from "./util";
+
+// A live view of the path segments of a URL, see getPathSegments().
+// Segments are read and written decoded, unless using getRaw() or toRawArray(),
+// and are percent-encoded when written so they always stay a single segment.
+// Note: this is not part of the URL Standard.
+export class URLPathSegments implements Iterable<string> {
+  /** @internal */
+  _url!: URL;
+
+  private constructor() {
+  }
+
+  // The number of segments.
+  get length(): number {
+    return getPath(this).length;
+  }
+
+  // Returns the percent-decoded segment at the given index, or undefined if there is no such segment.
+  get(index: number): string | undefined {
+    const segment = this.getRaw(index);
+    return segment === undefined ? undefined : utf8StringPercentDecode(segment);
+  }
+
+  // Returns the segment at the given index as it appears in the URL, or undefined if there is no such segment.
+  getRaw(index: number): string | undefined {
+    return getPath(this)[index];
+  }
+
+  // Replaces the segment at the given index.
+  // Throws a TypeError if segment is "." or "..", since those cannot be a segment.
+  set(index: number, segment: string): void {
+    const path = getPath(this).slice();
+    checkIndex(index, path.length - 1);
+    path[index] = encodeSegment(segment);
+    updatePath(this, path);
+  }
+
+  // Appends the given segments, like appending "/" and the segment to the pathname:
+  // a ".." segment removes the previous segment, and a "." segment is ignored.
+  // Note: if the path ends with an empty segment (e.g. "/dir/"), the first segment replaces it.
+  append(...segments: string[]): void {
+    const path = getPath(this).slice();
+    if (segments.length > 0 && path.length > 0 && '' === path[path.length - 1]) {
+      path.pop();
+    }
+    for (let i = 0; i < segments.length; i++) {
+      const segment = toUSVString(segments[i]);
+      const isLast = i === segments.length - 1;
+      if (isDoubleDotPathSegment(segment)) {
+        shortenSegments(this._url._url, path);
+        if (isLast) {
+          path.push('');
+        }
+      } else if (isSingleDotPathSegment(segment)) {
+        if (isLast) {
+          path.push('');
+        }
+      } else {
+        path.push(encodeSegment(segment));
+      }
+    }
+    updatePath(this, path);
+  }
+
+  // Inserts the given segments before the segment at the given index.
+  // Throws a TypeError if any segment is "." or "..", since those cannot be a segment.
+  insert(index: number, ...segments: string[]): void {
+    const path = getPath(this).slice();
+    checkIndex(index, path.length);
+    path.splice(index, 0, ...segments.map(encodeSegment));
+    updatePath(this, path);
+  }
+
+  // Removes count segments, starting at the given index.
+  remove(index: number, count: number = 1): void {
+    const path = getPath(this).slice();
+    checkIndex(index, path.length - 1);
+    path.splice(index, count);
+    updatePath(this, path);
+  }
+
+  // Returns the percent-decoded segments.
+  toArray(): string[] {
+    return getPath(this).map((segment) => utf8StringPercentDecode(segment));
+  }
+
+  // Returns the segments as they appear in the URL.
+  toRawArray(): string[] {
+    return getPath(this).slice();
+  }
+
+  toString(): string {
+    return this._url.pathname;
+  }
+
+  [Symbol.iterator]: () => Iterator<string>; // implemented below
+}
+
+if (supportsSymbolIterator) {
+  URLPathSegments.prototype[Symbol.iterator] = function (this: URLPathSegments): Iterator<string> {
+    return this.toArray()[Symbol.iterator]();
+  };
+}
+
+// Returns a live view of the path segments of url.
+// Note: this is not part of the URL Standard.
+export function getPathSegments(url: URL): URLPathSegments {
+  if (!(url instanceof URL)) {
+    throw new TypeError('Not a URL');
+  }
+  const segments: URLPathSegments = Object.create(URLPathSegments.prototype);
+  segments._url = url;
+  return segments;
+}
+
+// Returns the path of the URL of the view, or throws if it has an opaque path.
+// Note: the URL can change from or to an opaque path through its href setter, so check on every access.
+function getPath(segments: URLPathSegments): string[] {
+  const url = segments._url._url;
+  if (hasOpaquePath(url)) {
+    throw new TypeError('URL has an opaque path, which has no path segments');
+  }
+  return url._path as string[];
+}
+
+// Shortens path as if it were the path of url, see "shorten a URL's path".
+function shortenSegments(url: UrlRecord, path: string[]): void {
+  const original = url._path;
+  url._path = path;
+  shortenPath(url);
+  url._path = original;
+}
+
+function checkIndex(index: number, max: number): void {
+  if (!(index >= 0 && index <= max && index % 1 === 0)) {
+    throw new TypeError(`Invalid path segment index: ${index}`);
+  }
+}
+
+function encodeSegment(segment: string): string {
+  segment = toUSVString(segment);
+  // Note: a single-dot or double-dot segment is removed when parsing, so it cannot be written
+  if (isSingleDotPathSegment(segment) || isDoubleDotPathSegment(segment)) {
+    throw new TypeError(`Invalid path segment: ${segment}`);
+  }
+  return utf8PercentEncodeString(segment, isPathSegmentPercentEncode);
+}
+
+// Replaces the path of the URL like the pathname setter, by parsing the serialized path with path start state
+// as state override, so the URL is the same as when parsing its href again.
+// E.g. a Windows drive letter at the start of the path of a file URL is normalized and empties its host.
+function updatePath(segments: URLPathSegments, path: string[]): void {
+  const url = segments._url._url;
+  // A URL without a host cannot have a path starting with an empty segment,
+  // since it would be serialized as an authority (e.g. "foo://bar" instead of "foo:/" + "/bar")
+  if (url._host === null && path.length > 1 && '' === path[0]) {
+    throw new TypeError('Path of URL without host cannot start with an empty segment');
+  }
+  url._path = [];
+  parseWithStateOverride(path.map((segment) => `/${segment}`).join(''), url, ParserState.PATH_START);
+}
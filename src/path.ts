@@ -0,0 +1,69 @@
+import { ALPHA, fromCodeUnits } from "./util";
+import { UrlRecord } from "./url";
+
+const SINGLE_DOT = /^(?:\.|%2e)$/i;
+const DOUBLE_DOT = /^(?:\.|%2e){2}$/i;
+
+// https://url.spec.whatwg.org/#single-dot-path-segment
+export function isSingleDotPathSegment(input: string): boolean {
+  return SINGLE_DOT.test(input);
+}
+
+// https://url.spec.whatwg.org/#double-dot-path-segment
+export function isDoubleDotPathSegment(input: string): boolean {
+  return DOUBLE_DOT.test(input);
+}
+
+// https://url.spec.whatwg.org/#start-with-a-windows-drive-letter
+export function startsWithWindowsDriveLetter(input: number[]): boolean {
+  // its length is greater than or equal to 2
+  const length = input.length;
+  if (!(length >= 2)) {
+    return false;
+  }
+  // its first two code points are a Windows drive letter
+  if (!isWindowsDriveLetterRaw(input.slice(0, 2))) {
+    return false;
+  }
+  // its length is 2 or its third code point is U+002F (/), U+005C (\), U+003F (?), or U+0023 (#).
+  if (length !== 2) {
+    const c = input[2];
+    if (!(0x2F === c || 0x5C === c || 0x3F === c || 0x23 === c)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// https://url.spec.whatwg.org/#windows-drive-letter
+export function isWindowsDriveLetter(input: string): boolean {
+  // A Windows drive letter is two code points, of which the first is an ASCII alpha
+  // and the second is either U+003A (:) or U+007C (|).
+  return input.length === 2
+      && ALPHA.test(input[0])
+      && (':' === input[1] || '|' === input[1]);
+}
+
+export function isWindowsDriveLetterRaw(input: number[]): boolean {
+  return input.length === 2 && isWindowsDriveLetter(fromCodeUnits(input));
+}
+
+// https://url.spec.whatwg.org/#normalized-windows-drive-letter
+export function isNormalizedWindowsDriveLetter(input: string): boolean {
+  // A normalized Windows drive letter is a Windows drive letter of which the second code point is U+003A (:).
+  return isWindowsDriveLetter(input)
+      && (':' === input[1]);
+}
+
+// https://url.spec.whatwg.org/#shorten-a-urls-path
+export function shortenPath(url: UrlRecord) {
+  // 1. Assert: url does not have an opaque path.
+  // 2. Let path be url’s path.
+  const path = url._path as string[];
+  // 3. If url’s scheme is "file", path’s size is 1, and path[0] is a normalized Windows drive letter, then return.
+  if ('file' === url._scheme && path.length === 1 && isNormalizedWindowsDriveLetter(path[0])) {
+    return;
+  }
+  // 4. Remove path’s last item, if any.
+  path.pop();
+}
@@ -1,4 +1,4 @@
-import { URL as URLImpl, URLSearchParams as URLSearchParamsImpl } from "./ponyfill";
+import { URL as URLImpl, URLPattern as URLPatternImpl, URLSearchParams as URLSearchParamsImpl } from "./ponyfill";
 
 const scope = typeof self !== 'undefined' ? self
     : typeof window !== 'undefined' ? window
@@ -6,6 +6,7 @@ const scope = typeof self !== 'undefined' ? self
 
 const OriginalURL = scope && scope.URL;
 const OriginalURLSearchParams = scope && scope.URLSearchParams;
+const OriginalURLPattern = scope && (scope as any).URLPattern;
 
 // feature detect for URL constructor
 let hasWorkingUrl = false;
@@ -28,6 +29,16 @@ export const URLSearchParams: typeof URLSearchParamsImpl = hasWorkingUrl
     ? OriginalURLSearchParams! as any
     : URLSearchParamsImpl;
 
+export type URLPattern = URLPatternImpl;
+
+export const URLPattern: typeof URLPatternImpl = OriginalURLPattern
+    ? OriginalURLPattern
+    : URLPatternImpl;
+
+if (scope && !OriginalURLPattern) {
+  (scope as any).URLPattern = URLPattern;
+}
+
 if (!hasWorkingUrl) {
   const GlobalURL: typeof window.URL = URL as any;
   const GlobalURLSearchParams: typeof window.URLSearchParams = URLSearchParams as any;
@@ -47,3 +58,82 @@ if (!hasWorkingUrl) {
     scope.URLSearchParams = GlobalURLSearchParams;
   }
 }
+else if (OriginalURL) {
+  const NativeURL: any = OriginalURL;
+  // Add the static methods if they're missing
+  if (typeof NativeURL.canParse !== 'function') {
+    NativeURL.canParse = function (url: string, base?: string | URL): boolean {
+      try {
+        new OriginalURL(url, base as any);
+        return true;
+      } catch (e) {
+        return false;
+      }
+    };
+  }
+  if (typeof NativeURL.parse !== 'function') {
+    NativeURL.parse = function (url: string, base?: string | URL): URL | null {
+      try {
+        return new OriginalURL(url, base as any) as any;
+      } catch (e) {
+        return null;
+      }
+    };
+  }
+}
+
+if (hasWorkingUrl && OriginalURLSearchParams) {
+  const NativeURLSearchParamsPrototype: any = OriginalURLSearchParams.prototype;
+  // Add the size getter if it's missing
+  if (!('size' in NativeURLSearchParamsPrototype)) {
+    Object.defineProperty(NativeURLSearchParamsPrototype, 'size', {
+      get(this: URLSearchParams): number {
+        let size = 0;
+        this.forEach(() => {
+          size++;
+        });
+        return size;
+      },
+      enumerable: true,
+      configurable: true
+    });
+  }
+  // Add the optional value argument to has() and delete() if it's ignored
+  const params: any = new OriginalURLSearchParams('a=1&a=2');
+  params.delete('a', '1');
+  if (params.toString() !== 'a=2' || params.has('a', '1')) {
+    const nativeHas: (name: string) => boolean = NativeURLSearchParamsPrototype.has;
+    const nativeDelete: (name: string) => void = NativeURLSearchParamsPrototype.delete;
+    NativeURLSearchParamsPrototype.has = function (this: URLSearchParams, name: string, value?: string): boolean {
+      if (value === undefined) {
+        return nativeHas.call(this, name);
+      }
+      return this.getAll(name).indexOf(String(value)) !== -1;
+    };
+    NativeURLSearchParamsPrototype.delete = function (this: URLSearchParams, name: string, value?: string): void {
+      if (value === undefined) {
+        nativeDelete.call(this, name);
+        return;
+      }
+      name = String(name);
+      value = String(value);
+      // Remove all pairs and append the remaining ones again, to preserve their order
+      const remaining: Array<[string, string]> = [];
+      const names: string[] = [];
+      this.forEach((pairValue, pairName) => {
+        if (names.indexOf(pairName) === -1) {
+          names.push(pairName);
+        }
+        if (pairName !== name || pairValue !== value) {
+          remaining.push([pairName, pairValue]);
+        }
+      });
+      for (const pairName of names) {
+        nativeDelete.call(this, pairName);
+      }
+      for (const pair of remaining) {
+        this.append(pair[0], pair[1]);
+      }
+    };
+  }
+}
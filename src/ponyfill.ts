@@ -1,2 +1,62 @@
 export { URL } from "./url";
-export { URLSearchParams } from "./search-params";
+export { URLSearchParams, URLSearchParamsOptions } from "./search-params";
+export { ImmutableURL } from "./immutable-url";
+export { URLBuilder } from "./url-builder";
+export { URLPathSegments, getPathSegments } from "./path-segments";
+export { url, trustedURLValue, TrustedURLValue, URLTemplateValue, URLTemplateTag } from "./url-template";
+export {
+  parseURL,
+  URLParseOptions,
+  parseURLWithSpans,
+  URLWithSpans,
+  validateURL,
+  URLValidationResult,
+  getOrigin,
+  setFileOriginPolicy,
+  FileOriginPolicy,
+  registerScheme,
+  unregisterScheme,
+  SchemeOptions,
+  urlEquals,
+  URLEqualsOptions
+} from "./url";
+export { Origin, createOpaqueOrigin } from "./origin";
+export {
+  getPublicSuffix,
+  getRegistrableDomain,
+  isSameSite,
+  isSchemelesslySameSite,
+  serializeSite,
+  setPublicSuffixList,
+  PublicSuffixOptions
+} from "./public-suffix";
+export { normalize, NormalizeOptions } from "./normalize";
+export { relativize } from "./relativize";
+export {
+  parseNestedQuery,
+  serializeNestedQuery,
+  NestedQueryValue,
+  NestedQueryArray,
+  NestedQueryObject,
+  NestedQueryArrayFormat,
+  NestedQueryOptions
+} from "./nested-query";
+export { toDisplayString, DisplayOptions } from "./display";
+export { checkHostSpoofing, HostSpoofingOptions, HostSpoofingResult, RestrictionLevel } from "./spoof";
+export { domainToASCII, domainToUnicode } from "./domain";
+export { fileURLToPath, pathToFileURL, FilePathOptions } from "./file-path";
+export { URLSpan, URLSpans } from "./spans";
+export {
+  URLPattern,
+  URLPatternInit,
+  URLPatternInput,
+  URLPatternOptions,
+  URLPatternResult,
+  URLPatternComponentResult
+} from "./url-pattern";
+export { ValidationError, ValidationErrorType } from "./validation";
+export { URLParseError, URLParseErrorCode, URLParserState, HostParser } from "./errors";
+export { Encoding, UTF_8 } from "./encoding";
+export * from "./encoding/single-byte";
+export { shiftJIS } from "./encoding/shift-jis";
+export { eucKR } from "./encoding/euc-kr";
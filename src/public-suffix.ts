@@ -0,0 +1,241 @@
+import { PUBLIC_SUFFIX_LIST } from "./public-suffix/list";
+import { domainToAscii, Host, HostType, parseHost, serializeHost } from "./host";
+import { Origin, OriginType } from "./origin";
+
+// https://publicsuffix.org/list/
+// The bundled list is stored as a trie of labels, starting from the top-level domain:
+//   list  = entry *( "," entry )
+//   entry = label [ "=" / "+" ] [ "(" list ")" ]
+// where "=" marks a rule from the ICANN section and "+" marks a rule from the private section.
+// Labels are in their ASCII form, wildcard labels are "*" and exception rules start with "!".
+// Regenerate it with build/generate-public-suffix-list.js.
+
+const enum RuleSection {
+  NONE = 0,
+  ICANN = 1,
+  PRIVATE = 2
+}
+
+interface RuleNode {
+  _section: RuleSection;
+  _children: { [label: string]: RuleNode };
+}
+
+export interface PublicSuffixOptions {
+  // Whether to use the rules in the private section of the list, such as "github.io" or "blogspot.com".
+  // Defaults to true, like the URL Standard.
+  includePrivate?: boolean;
+}
+
+let rules: RuleNode | undefined;
+
+function createRuleNode(): RuleNode {
+  return {
+    _section: RuleSection.NONE,
+    _children: Object.create(null)
+  };
+}
+
+function parseCompactList(list: string): RuleNode {
+  const root = createRuleNode();
+  const parents: RuleNode[] = [];
+  let parent = root;
+  let node = root;
+  let labelStart = 0;
+  for (let i = 0; i <= list.length; i++) {
+    const c = list[i];
+    if (c === '=' || c === '+' || c === '(' || c === ')' || c === ',' || c === undefined) {
+      if (labelStart < i) {
+        node = parent._children[list.slice(labelStart, i)] = createRuleNode();
+      }
+      labelStart = i + 1;
+      if (c === '=') {
+        node._section = RuleSection.ICANN;
+      } else if (c === '+') {
+        node._section = RuleSection.PRIVATE;
+      } else if (c === '(') {
+        parents.push(parent);
+        parent = node;
+      } else if (c === ')') {
+        parent = parents.pop()!;
+      }
+    }
+  }
+  return root;
+}
+
+function getRules(): RuleNode {
+  if (rules === undefined) {
+    rules = parseCompactList(PUBLIC_SUFFIX_LIST);
+  }
+  return rules;
+}
+
+// Replaces the bundled copy of the Public Suffix List with the given list,
+// in the format of https://publicsuffix.org/list/public_suffix_list.dat.
+// Use this to stay up-to-date with the latest list without updating this package.
+export function setPublicSuffixList(list: string): void {
+  const root = createRuleNode();
+  let section = RuleSection.NONE;
+  for (let line of String(list).split('\n')) {
+    line = line.trim();
+    if (line === '// ===BEGIN ICANN DOMAINS===') {
+      section = RuleSection.ICANN;
+    } else if (line === '// ===BEGIN PRIVATE DOMAINS===') {
+      section = RuleSection.PRIVATE;
+    } else if (line.lastIndexOf('// ===END ', 0) === 0) {
+      section = RuleSection.NONE;
+    }
+    // Each line is only read up to the first whitespace
+    const rule = line.split(/\s/)[0];
+    if (rule === '' || rule.lastIndexOf('//', 0) === 0 || section === RuleSection.NONE) {
+      continue;
+    }
+    let node = root;
+    const labels = rule.split('.');
+    for (let i = labels.length - 1; i >= 0; i--) {
+      let label = labels[i];
+      if (label !== '*') {
+        label = '!' === label[0] ? `!${domainToAscii(label.slice(1))}` : domainToAscii(label);
+      }
+      node = node._children[label] || (node._children[label] = createRuleNode());
+    }
+    if (node._section === RuleSection.NONE) {
+      node._section = section;
+    }
+  }
+  rules = root;
+}
+
+// https://publicsuffix.org/list/ (Algorithm)
+// Returns the number of labels of the public suffix of the given domain labels.
+function countPublicSuffixLabels(labels: string[], includePrivate: boolean): number {
+  const isIncluded = (node: RuleNode): boolean => {
+    return node._section === RuleSection.ICANN || (includePrivate && node._section === RuleSection.PRIVATE);
+  };
+  let longestRule = 0;
+  let exceptionRule = 0;
+  const visit = (node: RuleNode, depth: number) => {
+    if (depth === labels.length) {
+      return;
+    }
+    const label = labels[labels.length - 1 - depth];
+    // An exception rule matches its labels without the exclamation mark,
+    // and its public suffix is the rule with its leftmost label removed.
+    const exception = node._children[`!${label}`];
+    if (exception !== undefined && isIncluded(exception)) {
+      exceptionRule = Math.max(exceptionRule, depth + 1);
+    }
+    // A wildcard label matches any label.
+    for (const child of [node._children[label], node._children['*']]) {
+      if (child !== undefined) {
+        if (isIncluded(child)) {
+          longestRule = Math.max(longestRule, depth + 1);
+        }
+        visit(child, depth + 1);
+      }
+    }
+  };
+  visit(getRules(), 0);
+  // If more than one rule matches, the prevailing rule is the one which is an exception rule.
+  if (exceptionRule > 0) {
+    return exceptionRule - 1;
+  }
+  // If no rules match, the prevailing rule is "*".
+  // Otherwise, the prevailing rule is the one with the most labels.
+  return Math.max(longestRule, 1);
+}
+
+// https://url.spec.whatwg.org/#host-public-suffix
+// https://url.spec.whatwg.org/#host-registrable-domain
+// Returns the given number of labels from the end of host, including a trailing dot.
+function getHostSuffix(domain: string, extraLabels: number, includePrivate: boolean): string | null {
+  // 2. Let trailingDot be "." if host ends with "."; otherwise the empty string.
+  const trailingDot = '.' === domain[domain.length - 1] ? '.' : '';
+  const labels = (trailingDot ? domain.slice(0, -1) : domain).split('.');
+  // 3. Let publicSuffix be the public suffix determined by running the Public Suffix List algorithm
+  //    with host as domain.
+  const count = countPublicSuffixLabels(labels, includePrivate) + extraLabels;
+  if (count > labels.length) {
+    return null;
+  }
+  // 5. Return publicSuffix and trailingDot concatenated.
+  return labels.slice(labels.length - count).join('.') + trailingDot;
+}
+
+// https://url.spec.whatwg.org/#host-public-suffix
+export function getHostPublicSuffix(host: Host, includePrivate: boolean = true): string | null {
+  // 1. If host is not a domain, then return null.
+  if (host._type !== HostType.DOMAIN) {
+    return null;
+  }
+  return getHostSuffix(host._domain, 0, includePrivate);
+}
+
+// https://url.spec.whatwg.org/#host-registrable-domain
+export function getHostRegistrableDomain(host: Host, includePrivate: boolean = true): string | null {
+  if (host._type !== HostType.DOMAIN) {
+    return null;
+  }
+  // 1. If host's public suffix is null or host's public suffix equals host, then return null.
+  // 3. Let registrableDomain be the registrable domain determined by running the Public Suffix List algorithm
+  //    with host as domain.
+  return getHostSuffix(host._domain, 1, includePrivate);
+}
+
+// Returns the public suffix of the given host, or null if it is not a domain.
+// Throws a URLParseError if host cannot be parsed.
+// https://url.spec.whatwg.org/#host-public-suffix
+export function getPublicSuffix(host: string, options: PublicSuffixOptions = {}): string | null {
+  return getHostPublicSuffix(parseHost(String(host), true), options.includePrivate !== false);
+}
+
+// Returns the registrable domain (eTLD+1) of the given host, or null if it doesn't have one.
+// Throws a URLParseError if host cannot be parsed.
+// https://url.spec.whatwg.org/#host-registrable-domain
+export function getRegistrableDomain(host: string, options: PublicSuffixOptions = {}): string | null {
+  return getHostRegistrableDomain(parseHost(String(host), true), options.includePrivate !== false);
+}
+
+// https://html.spec.whatwg.org/multipage/browsers.html#obtain-a-site
+function getSiteHost(origin: Origin, includePrivate: boolean): string {
+  // 2. If origin's host's registrable domain is null, then return (origin's scheme, origin's host).
+  // 3. Return (origin's scheme, origin's host's registrable domain).
+  const host = origin._host!;
+  const registrableDomain = getHostRegistrableDomain(host, includePrivate);
+  return registrableDomain === null ? serializeHost(host) : registrableDomain;
+}
+
+// https://html.spec.whatwg.org/multipage/browsers.html#schemelessly-same-site
+export function isSchemelesslySameSite(a: Origin, b: Origin, options: PublicSuffixOptions = {}): boolean {
+  // 1. If A and B are the same opaque origin, then return true.
+  if (a._type === OriginType.OPAQUE || b._type === OriginType.OPAQUE) {
+    return a === b;
+  }
+  // 2. If A and B are both tuple origins, then:
+  //    1. Let hostA be A's host, and let hostB be B's host.
+  //    2. If hostA equals hostB and hostA's registrable domain is null, then return true.
+  //    3. If hostA's registrable domain equals hostB's registrable domain and is non-null, then return true.
+  // 3. Return false.
+  const includePrivate = options.includePrivate !== false;
+  return a._host!._type === b._host!._type && getSiteHost(a, includePrivate) === getSiteHost(b, includePrivate);
+}
+
+// https://html.spec.whatwg.org/multipage/browsers.html#same-site
+export function isSameSite(a: Origin, b: Origin, options: PublicSuffixOptions = {}): boolean {
+  // 1. A and B are schemelessly same site.
+  // 2. A and B are either both opaque origins, or both tuple origins with the same scheme.
+  return isSchemelesslySameSite(a, b, options) && a._scheme === b._scheme;
+}
+
+// Returns the serialization of the site of the given origin, which can be used to group origins by site.
+// https://html.spec.whatwg.org/multipage/browsers.html#obtain-a-site
+// https://html.spec.whatwg.org/multipage/browsers.html#serialization-of-a-site
+export function serializeSite(origin: Origin, options: PublicSuffixOptions = {}): string {
+  // 1. If origin is an opaque origin, then return origin.
+  // Note: the serialization of an opaque site is "null"
+  if (origin._type === OriginType.OPAQUE) {
+    return origin.serialize();
+  }
+  return `${origin._scheme}://${getSiteHost(origin, options.includePrivate !== false)}`;
+}
@@ -0,0 +1,824 @@
+// Generated by build/generate-public-suffix-list.js from https://publicsuffix.org/list/public_suffix_list.dat
+// Do not edit this file directly.
+// The Public Suffix List is subject to the terms of the Mozilla Public License, v. 2.0.
+// If a copy of the MPL was not distributed with this file, You can obtain one at https://mozilla.org/MPL/2.0/.
+
+// 9506 rules, see src/public-suffix.ts for the format
+export const PUBLIC_SUFFIX_LIST = [
+    'aaa=,aarp=,abarth=,abb=,abbott=,abbvie=,abc=,able=,abogado=,abudhabi=,ac=(com=,drr+,edu=,gov=,mil=,n',
+    'et=,org=),academy=(official+),accenture=,accountant=,accountants=,aco=,actor=,ad=(nom=),ads=,adult=,',
+    'ae=(ac=,blogspot+,co=,gov=,mil=,net=,org=,sch=),aeg=,aero=(accident-investigation=,accident-preventi',
+    'on=,aerobatic=,aeroclub=,aerodrome=,agents=,air-surveillance=,air-traffic-control=,aircraft=,airline',
+    '=,airport=,airtraffic=,ambulance=,amusement=,association=,author=,ballooning=,broker=,caa=,cargo=,ca',
+    'tering=,certification=,championship=,charter=,civilaviation=,club=,conference=,consultant=,consultin',
+    'g=,control=,council=,crew=,design=,dgca=,educator=,emergency=,engine=,engineer=,entertainment=,equip',
+    'ment=,exchange=,express=,federation=,flight=,fuel=,gliding=,government=,groundhandling=,group=,hangg',
+    'liding=,homebuilt=,insurance=,journal=,journalist=,leasing=,logistics=,magazine=,maintenance=,media=',
+    ',microlight=,modelling=,navigation=,parachuting=,paragliding=,passenger-association=,pilot=,press=,p',
+    'roduction=,recreation=,repbody=,res=,research=,rotorcraft=,safety=,scientist=,services=,show=,skydiv',
+    'ing=,software=,student=,trader=,trading=,trainer=,union=,workinggroup=,works=),aetna=,af=(com=,edu=,',
+    'gov=,net=,org=),afl=,africa=,ag=(co=,com=,net=,nom=,org=),agakhan=,agency=,ai=(com=,net=,off=,org=,u',
+    'wu+),aig=,airbus=,airforce=,airtel=,akdn=,al=(blogspot+,com=,edu=,gov=,mil=,net=,org=),alfaromeo=,al',
+    'ibaba=,alipay=,allfinanz=,allstate=,ally=,alsace=,alstom=,am=(blogspot+,co=,com=,commune=,neko+,net=',
+    ',nyaa+,org=,radio+),amazon=,americanexpress=,americanfamily=,amex=,amfam=,amica=,amsterdam=,analytic',
+    's=,android=,anquan=,anz=,ao=(co=,ed=,gv=,it=,og=,pb=),aol=,apartments=,app=(beget(*+),bookonline+,cl',
+    'erk+,clerkstage+,deta+,developer(*+),easypanel+,edgecompute+,encr+,fireweb+,framer+,hasura+,loginlin',
+    'e+,messerli+,netlify+,noop+,northflank(*+),ondigitalocean+,onflashdrive+,platform0+,run+(a+),snowfla',
+    'ke+(privatelink+),streamlit+,telebit+,typedream+,vercel+,web+,wnext+),apple=,aq=,aquarelle=,ar=(bet=',
+    ',com=(blogspot+),coop=,edu=,gob=,gov=,int=,mil=,musica=,mutual=,net=,org=,senasa=,tur=),arab=,aramco',
+    '=,archi=,army=,arpa=(e164=,in-addr=,ip6=,iris=,uri=,urn=),art=,arte=,as=(gov=),asda=,asia=(cloudns+)',
+    ',associates=,at=(123webseite+,12hp+,2ix+,4lima+,ac=(sth=),biz+,co=(blogspot+),funkfeuer(wien+),futur',
+    'ecms(*+,ex(*+),in(*+)),futurehosting+,futuremailing+,gv=,info+,lima-city+,myspreadshop+,or=,ortsinfo',
+    '(ex(*+),kunden(*+)),priv+),athleta=,attorney=,au=(act=,asn=,com=(blogspot+,cloudlets(mel+),myspreads',
+    'hop+),conf=,edu=(act=,catholic=,nsw=(schools=),nt=,qld=,sa=,tas=,vic=,wa=),gov=(qld=,sa=,tas=,vic=,w',
+    'a=),id=,info=,net=,nsw=,nt=,org=,oz=,qld=,sa=,tas=,vic=,wa=),auction=,audi=,audible=,audio=,auspost=',
+    ',author=,auto=,autos=,avianca=,aw=(com=),aws=,ax=(be+,cat+,es+,eu+,gg+,mc+,us+,xy+),axa=,az=(biz=,co',
+    'm=,edu=,gov=,info=,int=,mil=,name=,net=,org=,pp=,pro=),azure=,ba=(blogspot+,com=,edu=,gov=,mil=,net=',
+    ',org=,rs+),baby=,baidu=,banamex=,bananarepublic=,band=,bank=,bar=,barcelona=,barclaycard=,barclays=,',
+    'barefoot=,bargains=,baseball=,basketball=(aus+,nz+),bauhaus=,bayern=,bb=(biz=,co=,com=,edu=,gov=,inf',
+    'o=,net=,org=,store=,tv=),bbc=,bbt=,bbva=,bcg=,bcn=,bd(*=),be=(123website+,ac=,blogspot+,interhostsol',
+    'utions(cloud+),kuleuven(ezproxy+),myspreadshop+,transurl(*+),webhosting+),beats=,beauty=,beer=,bentl',
+    'ey=,berlin=,best=,bestbuy=,bet=,bf=(gov=),bg=(0=,1=,2=,3=,4=,5=,6=,7=,8=,9=,a=,b=,barsy+,blogspot+,c',
+    '=,d=,e=,f=,g=,h=,i=,j=,k=,l=,m=,n=,o=,p=,q=,r=,s=,t=,u=,v=,w=,x=,y=,z=),bh=(com=,edu=,gov=,net=,org=',
+    '),bharti=,bi=(co=,com=,edu=,or=,org=),bible=,bid=,bike=,bing=,bingo=,bio=,biz=(activetrail+,cloudns+',
+    ',dscloud+,dyndns+,for-better+,for-more+,for-some+,for-the+,jozi+,mmafan+,myftp+,no-ip+,orx+,selfip+,',
+    'webhop+),bj=(africa=,agro=,architectes=,assur=,avocats=,blogspot+,co=,com=,eco=,econo=,edu=,info=,lo',
+    'isirs=,money=,net=,org=,ote=,restaurant=,resto=,tourism=,univ=),black=,blackfriday=,blockbuster=,blo',
+    'g=,bloomberg=,blue=,bm=(com=,edu=,gov=,net=,org=),bms=,bmw=,bn=(co+,com=,edu=,gov=,net=,org=),bnppar',
+    'ibas=,bo=(academia=,agro=,arte=,blog=,bolivia=,ciencia=,com=,cooperativa=,democracia=,deporte=,ecolo',
+    'gia=,economia=,edu=,empresa=,gob=,indigena=,industria=,info=,int=,medicina=,mil=,movimiento=,musica=',
+    ',natural=,net=,nombre=,noticias=,org=,patria=,plurinacional=,politica=,profesional=,pueblo=,revista=',
+    ',salud=,tecnologia=,tksat=,transporte=,tv=,web=,wiki=),boats=,boehringer=,bofa=,bom=,bond=,boo=,book',
+    '=,booking=,bosch=,bostik=,boston=,bot=,boutique=,box=,br=(9guacu=,abc=,adm=,adv=,agr=,aju=,am=,anani',
+    '=,aparecida=,app=,arq=,art=,ato=,b=,barueri=,belem=,bhz=,bib=,bio=,blog=,bmd=,boavista=,bsb=,campina',
+    'grande=,campinas=,caxias=,cim=,cng=,cnt=,com=(blogspot+,simplesite+,virtualcloud(scale(users+))),con',
+    'tagem=,coop=,coz=,cri=,cuiaba=,curitiba=,def=,des=,det=,dev=,ecn=,eco=,edu=,emp=,enf=,eng=,esp=,etc=',
+    ',eti=,far=,feira=,flog=,floripa=,fm=,fnd=,fortal=,fot=,foz=,fst=,g12=,geo=,ggf=,goiania=,gov=(ac=,al',
+    '=,am=,ap=,ba=,ce=,df=,es=,go=,ma=,mg=,ms=,mt=,pa=,pb=,pe=,pi=,pr=,rj=,rn=,ro=,rr=,rs=,sc=,se=,sp=,to',
+    '=),gru=,imb=,ind=,inf=,jab=,jampa=,jdf=,joinville=,jor=,jus=,leg=(ac+,al+,am+,ap+,ba+,ce+,df+,es+,go',
+    '+,ma+,mg+,ms+,mt+,pa+,pb+,pe+,pi+,pr+,rj+,rn+,ro+,rr+,rs+,sc+,se+,sp+,to+),lel=,log=,londrina=,macap',
+    'a=,maceio=,manaus=,maringa=,mat=,med=,mil=,morena=,mp=,mus=,natal=,net=,niteroi=,nom(*=),not=,ntr=,o',
+    'do=,ong=,org=,osasco=,palmas=,poa=,ppg=,pro=,psc=,psi=,pvh=,qsl=,radio=,rec=,recife=,rep=,ribeirao=,',
+    'rio=,riobranco=,riopreto=,salvador=,sampa=,santamaria=,santoandre=,saobernardo=,saogonca=,seg=,sjc=,',
+    'slg=,slz=,sorocaba=,srv=,taxi=,tc=,tec=,teo=,the=,tmp=,trd=,tur=,tv=,udi=,vet=,vix=,vlog=,wiki=,zlg=',
+    '),bradesco=,bridgestone=,broadway=,broker=,brother=,brussels=,bs=(com=,edu=,gov=,net=,org=,we+),bt=(',
+    'com=,edu=,gov=,net=,org=),build=,builders=(cloudsite+),business=(co+),buy=,buzz=,bv=,bw=(co=,org=),b',
+    'y=(com=(blogspot+),gov=,mediatech+,mil=,mycloud+,of=),bz=(com=,edu=,gov=,gsj+,net=,org=,za+),bzh=,ca',
+    '=(ab=,awdev(*+),barsy+,bc=,blogspot+,co+,gc=,mb=,myspreadshop+,nb=,nf=,nl=,no-ip+,ns=,nt=,nu=,on=,pe',
+    '=,qc=,sk=,yk=),cab=,cafe=,cal=,call=,calvinklein=,cam=,camera=,camp=,canon=,capetown=,capital=,capit',
+    'alone=,car=,caravan=,cards=,care=,career=,careers=,cars=,casa=(nabu(ui+)),case=,cash=,casino=,cat=,c',
+    'atering=,catholic=,cba=,cbn=,cbre=,cbs=,cc=(cloudns+,csx+,fantasyleague+,ftpaccess+,game-server+,myp',
+    'hotos+,scrapping+,spawn(instances+),twmail+),cd=(gov=),center=,ceo=,cern=,cf=(blogspot+),cfa=,cfd=,c',
+    'g=,ch=(123website+,12hp+,2ix+,4lima+,blogspot+,dnsking+,firenet(*+,svc(*+)),flow(ae(alp1+),appengine',
+    '+),gotdns+,lima-city+,linkyard-cloud+,myspreadshop+,square7+),chanel=,channel=,charity=,chase=,chat=',
+    ',cheap=,chintai=,christmas=,chrome=,church=,ci=(ac=,asso=,co=,com=,ed=,edu=,fin+,go=,gouv=,int=,md=,',
+    'net=,nl+,or=,org=,presse=,xn--aroport-bya=),cipriani=,circle=,cisco=,citadel=,citi=,citic=,city=,cit',
+    'yeats=,ck(!www=,*=),cl=(blogspot+,co=,gob=,gov=,mil=),claims=,cleaning=,click=,clinic=,clinique=,clo',
+    'thing=,cloud=(axarnet(es-1+),banzai(*+),diadem+,elementor+,encoway(eu+),jelastic(vip+),jele+,jenv-ar',
+    'uba(aruba(eur(it1+)),it1+),jotelulu+,keliweb+(cs+),kuleuven+,linkyard+,magentosite(*+),on-rancher(*+',
+    '),oxa+(tn+,uk+),perspecta+,primetel+(uk+),ravendb+,reclaim(ca+,uk+,us+),scw(baremetal(fr-par-1+,fr-p',
+    'ar-2+,nl-ams-1+),fr-par(fnc+(functions+),k8s+(nodes+),s3+,s3-website+,whm+),instances(priv+,pub+),k8',
+    's+,nl-ams(k8s+(nodes+),s3+,s3-website+,whm+),pl-waw(k8s+(nodes+),s3+,s3-website+),scalebook+,smartla',
+    'beling+),sensiosite(*+),statics(*+),trafficplex+,trendhosting(ch+,de+),urown+,vapor+,voorloper+),clu',
+    'b=(barsy+,cloudns+,jele+),clubmed=,cm=(co=,com=,gov=,net=),cn=(ac=,ah=,bj=,canva-apps+,com=(amazonaw',
+    's(cn-north-1(s3+),compute(*+),eb(cn-north-1+,cn-northwest-1+),elb(*+))),cq=,edu=,fj=,gd=,gov=,gs=,gx',
+    '=,gz=,ha=,hb=,he=,hi=,hk=,hl=,hn=,instantcloud+,jl=,js=,jx=,ln=,mil=,mo=,net=,nm=,nx=,org=,qh=,quick',
+    'connect(direct+),sc=,sd=,sh=,sn=,sx=,tj=,tw=,xj=,xn--55qx5d=,xn--io0a7i=,xn--od0alg=,xz=,yn=,zj=),co',
+    '=(arts=,carrd+,com=(blogspot+),crd+,edu=,firewalledreplit+(id+),firm=,gov=,info=,int=,leadpages+,lpa',
+    'ges+,mil=,mypi+,n4t+,net=,nom=,org=,otap(*+),rec=,repl+(id+),supabase+,web=),coach=,codes=(owo(*+)),',
+    'coffee=,college=,cologne=,com=(001www+,0emm(*+),1kapp+,3utilities+,4u+,adobeaemcloud+(dev(*+)),afric',
+    'a+,airkitapps+,airkitapps-au+,aivencloud+,alpha-myqnapcloud+,amazonaws(af-south-1(cloud9(vfs+,webvie',
+    'w-assets+)),ap-east-1(cloud9(vfs+,webview-assets+)),ap-northeast-1(cloud9(vfs+,webview-assets+),dual',
+    'stack(s3+)),ap-northeast-2(cloud9(vfs+,webview-assets+),dualstack(s3+),s3+,s3-website+),ap-northeast',
+    '-3(cloud9(vfs+,webview-assets+)),ap-south-1(cloud9(vfs+,webview-assets+),dualstack(s3+),s3+,s3-websi',
+    'te+),ap-southeast-1(cloud9(vfs+,webview-assets+),dualstack(s3+)),ap-southeast-2(cloud9(vfs+,webview-',
+    'assets+),dualstack(s3+)),ca-central-1(cloud9(vfs+,webview-assets+),dualstack(s3+),s3+,s3-website+),c',
+    'ompute(*+),compute-1(*+),elb(*+),eu-central-1(cloud9(vfs+,webview-assets+),dualstack(s3+),s3+,s3-web',
+    'site+),eu-north-1(cloud9(vfs+,webview-assets+)),eu-south-1(cloud9(vfs+,webview-assets+)),eu-west-1(c',
+    'loud9(vfs+,webview-assets+),dualstack(s3+)),eu-west-2(cloud9(vfs+,webview-assets+),dualstack(s3+),s3',
+    '+,s3-website+),eu-west-3(cloud9(vfs+,webview-assets+),dualstack(s3+),s3+,s3-website+),me-south-1(clo',
+    'ud9(vfs+,webview-assets+)),s3+,s3-ap-northeast-1+,s3-ap-northeast-2+,s3-ap-south-1+,s3-ap-southeast-',
+    '1+,s3-ap-southeast-2+,s3-ca-central-1+,s3-eu-central-1+,s3-eu-west-1+,s3-eu-west-2+,s3-eu-west-3+,s3',
+    '-external-1+,s3-fips-us-gov-west-1+,s3-sa-east-1+,s3-us-east-2+,s3-us-gov-west-1+,s3-us-west-1+,s3-u',
+    's-west-2+,s3-website-ap-northeast-1+,s3-website-ap-southeast-1+,s3-website-ap-southeast-2+,s3-websit',
+    'e-eu-west-1+,s3-website-sa-east-1+,s3-website-us-east-1+,s3-website-us-west-1+,s3-website-us-west-2+',
+    ',sa-east-1(cloud9(vfs+,webview-assets+),dualstack(s3+)),us-east-1+(cloud9(vfs+,webview-assets+),dual',
+    'stack(s3+)),us-east-2(cloud9(vfs+,webview-assets+),dualstack(s3+),s3+,s3-website+),us-west-1(cloud9(',
+    'vfs+,webview-assets+)),us-west-2(cloud9(vfs+,webview-assets+))),amscompute+,appchizi+,applinzi+,apps',
+    'pacehosted+,appspaceusercontent+,appspot+(r(*+)),ar+,authgear-staging+,authgearapps+,awsglobalaccele',
+    'rator+,awsmppl+,balena-devices+,barsycenter+,barsyonline+,betainabox+,blogdns+,blogspot+,blogsyte+,b',
+    'loxcms+,bounty-full+(alpha+,beta+),boutir+,bplaced+,br+,builtwithdark+,cafjs+,canva-apps+,cechire+,c',
+    'f-ipfs+,ciscofreak+,clicketcloud+,cloudcontrolapp+,cloudcontrolled+,cloudflare-ipfs+,cn+,co+,code(bu',
+    'ilder(*+),dev-builder(*+),stg-builder(*+)),codespot+,customer-oci(*+,oci(*+),ocp(*+),ocs(*+)),damnse',
+    'rver+,datadetect(demo+,instance+),dattolocal+,dattorelay+,dattoweb+,ddns5+,ddnsfree+,ddnsgeek+,ddnsk',
+    'ing+,ddnslive+,de+,dev-myqnapcloud+,devcdnaccesso(*+),digitaloceanspaces(*+),discordsays+,discordsez',
+    '+,ditchyourip+,dnsalias+,dnsdojo+,dnsiskinky+,doesntexist+,dontexist+,doomdns+,dopaas+,drayddns+,dre',
+    'amhosters+,dsmynas+,dyn-o-saur+,dynalias+,dyndns-at-home+,dyndns-at-work+,dyndns-blog+,dyndns-free+,',
+    'dyndns-home+,dyndns-ip+,dyndns-mail+,dyndns-office+,dyndns-pics+,dyndns-remote+,dyndns-server+,dyndn',
+    's-web+,dyndns-wiki+,dyndns-work+,dynns+,elasticbeanstalk+(ap-northeast-1+,ap-northeast-2+,ap-northea',
+    'st-3+,ap-south-1+,ap-southeast-1+,ap-southeast-2+,ca-central-1+,eu-central-1+,eu-west-1+,eu-west-2+,',
+    'eu-west-3+,sa-east-1+,us-east-1+,us-east-2+,us-gov-west-1+,us-west-1+,us-west-2+),encoreapi+,est-a-l',
+    'a-maison+,est-a-la-masion+,est-le-patron+,est-mon-blogueur+,eu+,evennode(eu-1+,eu-2+,eu-3+,eu-4+,us-',
+    '1+,us-2+,us-3+,us-4+),familyds+,fastly-edge+,fastly-terrarium+,fastvps-server+,fbsbx(apps+),firebase',
+    'app+,firewall-gateway+,fldrv+,forgeblocks+,framercanvas+,freebox-os+,freeboxos+,freemyip+,from-ak+,f',
+    'rom-al+,from-ar+,from-ca+,from-ct+,from-dc+,from-de+,from-fl+,from-ga+,from-hi+,from-ia+,from-id+,fr',
+    'om-il+,from-in+,from-ks+,from-ky+,from-ma+,from-md+,from-mi+,from-mn+,from-mo+,from-ms+,from-mt+,fro',
+    'm-nc+,from-nd+,from-ne+,from-nh+,from-nj+,from-nm+,from-nv+,from-oh+,from-ok+,from-or+,from-pa+,from',
+    '-pr+,from-ri+,from-sc+,from-sd+,from-tn+,from-tx+,from-ut+,from-va+,from-vt+,from-wa+,from-wi+,from-',
+    'wv+,from-wy+,geekgalaxy+,gentapps+,gentlentapis+,getmyip+,giize+,githubusercontent+,gleeze+,googleap',
+    'is+,googlecode+,gotdns+,gotpantheon+,gr+,health-carereform+,herokuapp+,herokussl+,hidora+,hk+,hobby-',
+    'site+,homelinux+,homesecuritymac+,homesecuritypc+,homeunix+,hosted-by-previder(paas+),hostedpi+,host',
+    'eur(rag-cloud+,rag-cloud-ch+),hotelwithflight+,hu+,iamallama+,ik-server(jcloud+,jcloud-ver-jpc+),imp',
+    'ertrix+,impertrixcdn+,is-a-anarchist+,is-a-blogger+,is-a-bookkeeper+,is-a-bulls-fan+,is-a-caterer+,i',
+    's-a-chef+,is-a-conservative+,is-a-cpa+,is-a-cubicle-slave+,is-a-democrat+,is-a-designer+,is-a-doctor',
+    '+,is-a-financialadvisor+,is-a-geek+,is-a-green+,is-a-guru+,is-a-hard-worker+,is-a-hunter+,is-a-lands',
+    'caper+,is-a-lawyer+,is-a-liberal+,is-a-libertarian+,is-a-llama+,is-a-musician+,is-a-nascarfan+,is-a-',
+    'nurse+,is-a-painter+,is-a-personaltrainer+,is-a-photographer+,is-a-player+,is-a-republican+,is-a-roc',
+    'kstar+,is-a-socialist+,is-a-student+,is-a-teacher+,is-a-techie+,is-a-therapist+,is-an-accountant+,is',
+    '-an-actor+,is-an-actress+,is-an-anarchist+,is-an-artist+,is-an-engineer+,is-an-entertainer+,is-certi',
+    'fied+,is-gone+,is-into-anime+,is-into-cars+,is-into-cartoons+,is-into-games+,is-leet+,is-not-certifi',
+    'ed+,is-slick+,is-uberleet+,is-with-theband+,isa-geek+,isa-hockeynut+,issmarterthanyou+,it+,jdevcloud',
+    '+,jelastic(demo+),joyent(cns(*+)),jpn+,kasserver+,kilatiron+,kozow+,kr+,ktistory+,likes-pie+,likesca',
+    'ndy+,linode(members+,nodebalancer(*+)),linodeobjects(*+),linodeusercontent(ip+),lmpm(app+),logoip+,l',
+    'oseyourip+,lpusercontent+,massivegrid(paas+),mazeplay+,messwithdns+,meteorapp+(eu+),mex+,miniserver+',
+    ',myactivedirectory+,myasustor+,mydatto+,mydobiss+,mydrobo+,myiphost+,myqnapcloud+,mysecuritycamera+,',
+    'myshopblocks+,myshopify+,myspreadshop+,mytabit+,mythic-beasts(caracal+,customer+,fentiger+,lynx+,oce',
+    'lot+,oncilla+,onza+,sphinx+,vs+,x+,yali+),mytuleap+,myvnc+,neat-url+,net-freaks+,nfshost+,no+,nospam',
+    'proxy(cloud+),observableusercontent(static+),on-aptible+,onfabrica+,onrender+,onthewifi+,ooguy+,oper',
+    'aunite+,orsites+,outsystemscloud+,ownprovider+,pagefrontapp+,pagespeedmobilizer+,pagexl+,paywhirl(*+',
+    '),pgfog+,pixolino+,platter-app+,playstation-cloud+,pleskns+,point2this+,postman-echo+,prgmr(xen+),pu',
+    'blishproxy+,pythonanywhere+(eu+),qa2+,qbuser+,qc+,qualifioapp+,quicksytes+,quipelements(*+),rackmaze',
+    '+,remotewd+,render(app+),reservd+,reserve-online+,rhcloud+,ru+,sa+,saves-the-whales+,scrysec+,securi',
+    'tytactics+,selfip+,sells-for-less+,sells-for-u+,servebbs+,servebeer+,servecounterstrike+,serveexchan',
+    'ge+,serveftp+,servegame+,servehalflife+,servehttp+,servehumour+,serveirc+,servemp3+,servep2p+,servep',
+    'ics+,servequake+,servesarcasm+,shopitsite+,siiites+,simple-url+,simplesite+,sinaapp+,skygearapp+,smu',
+    'shcdn+,space-to-rent+,stackhero-network+,stdlib(api+),streamlitapp+,stufftoread+,tb-hosting(site+),t',
+    'eaches-yoga+,temp-dns+,theworkpc+,thingdustdata+,townnews-staging+,try-snowplow+,trycloudflare+,tule',
+    'ap-partners+,typeform(pro+),uk+,unusualperson+,us+,uy+,vipsinaapp+,vultrobjects(*+),wafaicloud(jed+,',
+    'lon+,ryd+),wafflecell+,wiardweb(pages+),withgoogle+,withyoutube+,wixsite+,woltlab-demo+,workisboring',
+    '+,wpdevcloud+,wpenginepowered+(js+),wphostedmail+,wpmucdn+,writesthisblog+,xnbay+(u2+,u2-local+),yol',
+    'asite+,za+),comcast=,commbank=,community=(myforum+,nog+,ravendb+),company=,compare=,computer=,comsec',
+    '=,condos=,construction=,consulting=,contact=,contractors=,cooking=,cookingchannel=,cool=(de+,element',
+    'or+),coop=,corsica=,country=,coupon=,coupons=,courses=,cpa=,cr=(ac=,co=,ed=,fi=,go=,or=,sa=),credit=',
+    ',creditcard=,creditunion=,cricket=,crown=,crs=,cruise=,cruises=,cu=(com=,edu=,gov=,inf=,net=,org=),c',
+    'uisinella=,cv=(blogspot+,com=,edu=,int=,nome=,org=),cw=(com=,edu=,net=,org=),cx=(ath+,gov=,info+),cy',
+    '=(ac=,biz=,com=(blogspot+,scaleforce(j+)),ekloges=,gov=,ltd=,mil=,net=,org=,press=,pro=,tm=),cymru=,',
+    'cyou=,cz=(blogspot+,co+,e4+,metacentrum(cloud(*+),custom+),muni(cloud(flt+,usr+)),realm+),dabur=,dad',
+    '=,dance=,data=,date=,dating=,datsun=,day=,dclk=,dds=,de=(123webseite+,12hp+,2ix+,4lima+,barsy+,blogs',
+    'pot+,bplaced+,com+,community-pro+,cosidns(dyn+),dd-dns+,ddnss+(dyn+,dyndns+),diskussionsbereich+,dns',
+    'home+,dnsupdater+,dray-dns+,draydns+,dyn-berlin+,dyn-ip24+,dyn-vpn+,dynamisches-dns+,dyndns1+,dynvpn',
+    '+,firewall-gateway+,frusky(*+),fuettertdasnetz+,git-repos+,goip+,home-webserver+(dyn+),hs-heilbronn(',
+    'it(pages+)),in-berlin+,in-brb+,in-butter+,in-dsl+,in-vpn+,internet-dns+,iservschule+,isteingeek+,ist',
+    'mein+,keymachine+,l-o-g-i-n+,lcube-server+,lebtimnetz+,leitungsen+,lima-city+,logoip+,mein-iserv+,me',
+    'in-vigor+,my-gateway+,my-router+,my-vigor+,my-wan+,myhome-server+,myspreadshop+,schulplattform+,schu',
+    'lserver+,spdns+,speedpartner(customer+),square7+,svn-repos+,syno-ds+,synology-diskstation+,synology-',
+    'ds+,taifun-dns+,test-iserv+,traeumtgerade+,uberspace(*+),virtual-user+,virtualuser+,xn--gnstigbestel',
+    'len-zvb+,xn--gnstigliefern-wob+),deal=,dealer=,deals=,degree=,delivery=,dell=,deloitte=,delta=,democ',
+    'rat=,dental=,dentist=,desi=,design=(bss+),dev=(autocode+,curv+,deno+,deno-staging+,deta+,fly+,gatewa',
+    'y(*+),githubpreview+,iserv+,lcl(*+),lclstage(*+),localcert(user(*+)),loginline+,mediatech+,pages+,pl',
+    'atter-app+,r2+,shiftcrypto+,stg(*+),stgstage(*+),vercel+,webhare(*+),workers+),dhl=,diamonds=,diet=,',
+    'digital=(cloudapps+(london+)),direct=,directory=,discount=,discover=,dish=,diy=,dj=,dk=(123hjemmesid',
+    'e+,biz+,blogspot+,co+,firm+,myspreadshop+,reg+,store+),dm=(com=,edu=,gov=,net=,org=),dnp=,do=(art=,c',
+    'om=,edu=,gob=,gov=,mil=,net=,org=,sld=,web=),docs=,doctor=,dog=,domains=,dot=,download=,drive=,dtv=,',
+    'dubai=,dunlop=,dupont=,durban=,dvag=,dvr=,dz=(art=,asso=,com=,edu=,gov=,net=,org=,pol=,soc=,tm=),ear',
+    'th=(dapps(*+,bzz(*+))),eat=,ec=(base+,com=,edu=,fin=,gob=,gov=,info=,k12=,med=,mil=,net=,official+,o',
+    'rg=,pro=),eco=,edeka=,edu=(rit(git-pages+)),education=(co+),ee=(aip=,com=(blogspot+),edu=,fie=,gov=,',
+    'lib=,med=,org=,pri=,riik=),eg=(com=(blogspot+),edu=,eun=,gov=,mil=,name=,net=,org=,sci=),email=,emer',
+    'ck=,energy=,engineer=,engineering=,enterprises=,epson=,equipment=,er(*=),ericsson=,erni=,es=(123miwe',
+    'b+,com=(blogspot+),edu=,gob=,myspreadshop+,nom=,org=),esq=,estate=(compute(*+)),et=(biz=,com=,edu=,g',
+    'ov=,info=,name=,net=,org=),etisalat=,eu=(airkitapps+,barsy+,cloudns+,diskstation+,dogado(jelastic+),',
+    'mycd+,spdns+,transurl(*+),wellbeingzone+),eurovision=,eus=(party(user+)),events=(co+,koobin+),exchan',
+    'ge=,expert=,exposed=,express=,extraspace=,fage=,fail=,fairwinds=,faith=(ybo+),family=,fan=,fans=,far',
+    'm=(storj+),farmers=,fashion=,fast=,fedex=,feedback=,ferrari=,ferrero=,fi=(123kotisivu+,aland=,blogsp',
+    'ot+,cloudplatform(fi+),datacenter(demo+,paas+),dy+,iki+,kapsi+,myspreadshop+,xn--hkkinen-5wa+),fiat=',
+    ',fidelity=,fido=,film=,final=,finance=,financial=(co+),fire=,firestone=,firmdale=,fish=,fishing=,fit',
+    '=,fitness=,fj=(ac=,biz=,com=,gov=,info=,mil=,name=,net=,org=,pro=),fk(*=),flickr=,flights=,flir=,flo',
+    'rist=,flowers=,fly=,fm=(com=,edu=,net=,org=,radio+,user(*+)),fo=,foo=,food=,foodnetwork=,football=,f',
+    'ord=,forex=,forsale=,forum=,foundation=,fox=,fr=(123siteweb+,aeroport=,asso=,avocat=,avoues=,blogspo',
+    't+,cci=,chambagri=,chirurgiens-dentistes=,chirurgiens-dentistes-en-france+,com=,dedibox+,en-root+,ex',
+    'perts-comptables=,fbx-os+,fbxos+,freebox-os+,freeboxos+,geometre-expert=,goupile+,gouv=,greta=,huiss',
+    'ier-justice=,medecin=,myspreadshop+,nom=,notaires=,on-web+,pharmacien=,port=,prd=,tm=,veterinaire=,y',
+    'nh+),free=,fresenius=,frl=,frogans=,frontdoor=,frontier=,ftr=,fujitsu=,fun=,fund=,furniture=,futbol=',
+    ',fyi=,ga=,gal=,gallery=,gallo=,gallup=,game=,games=,gap=,garden=,gay=,gb=,gbiz=,gd=(edu=,gov=),gdn=(',
+    'cnpy+),ge=(com=,edu=,gov=,mil=,net=,org=,pvt=),gea=,gent=,genting=,george=,gf=,gg=(co=,cya+,kaas+,ne',
+    't=,org=,panel+(daemon+)),ggee=,gh=(com=,edu=,gov=,mil=,org=),gi=(com=,edu=,gov=,ltd=,mod=,org=),gift',
+    '=,gifts=,gives=,giving=,gl=(biz+,co=,com=,edu=,net=,org=,xx+),glass=,gle=,global=,globo=,gm=,gmail=,',
+    'gmbh=,gmo=,gmx=,gn=(ac=,com=,edu=,gov=,net=,org=),godaddy=,gold=,goldpoint=,golf=,goo=,goodyear=,goo',
+    'g=(cloud+,translate+,usercontent(*+)),google=,gop=,got=,gov=,gp=(app+,asso=,com=,edu=,mobi=,net=,org',
+    '=),gq=,gr=(blogspot+,com=,edu=,gov=,net=,org=,simplesite+),grainger=,graphics=,gratis=,green=,gripe=',
+    ',grocery=,group=(discourse+),gs=,gt=(blog+,com=,de+,edu=,gob=,ind=,mil=,net=,org=,to+),gu=(com=,edu=',
+    ',gov=,guam=,info=,net=,org=,web=),guardian=,gucci=,guge=,guide=,guitars=,guru=,gw=,gy=(be+,co=,com=,',
+    'edu=,gov=,net=,org=),hair=,hamburg=,hangout=,haus=,hbo=,hdfc=,hdfcbank=,health=(hra+),healthcare=,he',
+    'lp=,helsinki=,here=,hermes=,hgtv=,hiphop=,hisamitsu=,hitachi=,hiv=,hk=(blogspot+,com=,edu=,gov=,idv=',
+    ',inc+,ltd+,net=,org=,secaas+,xn--55qx5d=,xn--ciqpn=,xn--gmq050i=,xn--gmqw5a=,xn--io0a7i=,xn--lcvr32d',
+    '=,xn--mk0axi=,xn--mxtq1m=,xn--od0alg=,xn--od0aq3b=,xn--tn0ag=,xn--uc0atv=,xn--uc0ay4a=,xn--wcvs22d=,',
+    'xn--zf0avx=),hkt=,hm=,hn=(cc+,com=,edu=,gob=,mil=,net=,org=),hockey=,holdings=,holiday=,homedepot=,h',
+    'omegoods=,homes=,homesense=,honda=,horse=,hospital=,host=(cloudaccess+,easypanel+,fastvps+,freesite+',
+    ',half+,jele+,mircloud+,myfast+,pcloud+,tempurl+,wpmudev+),hosting=(opencraft+),hot=,hoteles=,hotels=',
+    ',hotmail=,house=,how=,hr=(blogspot+,com=,free+,from=,iz=,name=),hsbc=,ht=(adult=,art=,asso=,com=,coo',
+    'p=,edu=,firm=,gouv=,info=,med=,net=,org=,perso=,pol=,pro=,rel=,shop=),hu=(2000=,agrar=,blogspot+,bol',
+    't=,casino=,city=,co=,erotica=,erotika=,film=,forum=,games=,hotel=,info=,ingatlan=,jogasz=,konyvelo=,',
+    'lakas=,media=,news=,org=,priv=,reklam=,sex=,shop=,sport=,suli=,szex=,tm=,tozsde=,utazas=,video=),hug',
+    'hes=,hyatt=,hyundai=,ibm=,icbc=,ice=,icu=,id=(ac=,biz=,co=(blogspot+),desa=,flap+,forte+,go=,mil=,my',
+    '=(rss(*+)),net=,or=,ponpes=,sch=,web=),ie=(blogspot+,gov=,myspreadshop+),ieee=,ifm=,ikano=,il=(ac=,c',
+    'o=(blogspot+,mytabit+,ravpage+,tabitorder+),gov=,idf=,k12=,muni=,net=,org=),im=(ac=,co=(ltd=,plc=),c',
+    'om=,net=,org=,ro+,tt=,tv=),imamat=,imdb=,immo=,immobilien=,in=(5g=,6g=,ac=,ai=,am=,barsy+,bihar=,biz',
+    '=,blogspot+,business=,ca=,cloudns+,cn=,co=,com=,coop=,cs=,delhi=,dr=,edu=,er=,firm=,gen=,gov=,gujara',
+    't=,ind=,info=,int=,internet=,io=,me=,mil=,net=,nic=,org=,pg=,post=,pro=,res=,supabase+,travel=,tv=,u',
+    'k=,up=,us=,web+),inc=,industries=,infiniti=,info=(barrel-of-knowledge+,barrell-of-knowledge+,barsy+,',
+    'cloudns+,dnsupdate+,dvrcam+,dynamic-dns+,dyndns+,for-our+,forumz+,groks-the+,groks-this+,here-for-mo',
+    're+,ilovecollege+,knowsitall+,mayfirst+,no-ip+,nsupdate+,selfip+,v-info+,webhop+),ing=,ink=,institut',
+    'e=,insurance=,insure=,int=(eu=),international=,intuit=,investments=,io=(2038+,apigee+,azurecontainer',
+    '(*+),b-data+,backplaneapp+,banzaicloud(app+,backyards(*+)),barsy+,basicserver+,beagleboard+,beebyte(',
+    'paas+),beebyteapp(sekd1+),bigv(uk0+),bitbucket+,bluebite+,boxfuse+,browsersafetymark+,cleverapps+,co',
+    'm=,dappnode(dyndns+),dedyn+,definima+,drud+,dyn53+,editorx+,edugit+,fh-muenster+,forgerock(id+),ghos',
+    't+,github+,gitlab+,hasura-app+,hostyhosting+,hzc+,jele+,lair(apps+),loginline+,lolipop+,mo-siemens+,',
+    'moonscale(*+),musician+,ngrok+,nid+,nodeart(stage+),on-acorn(*+),on-k3s(*+),on-rio(*+),pantheonsite+',
+    ',protonet+,pstmn+(mock+),qcx+(sys(*+)),qoto+,readthedocs+,resindevice+,resinstaging(devices+),s5y(*+',
+    '),sandcats+,shiftcrypto+,shiftedit+,shw+,spacekit+,stolos(*+),telebit+,thingdust(dev(cust+,reservd+)',
+    ',disrec(cust+,reservd+),prod(cust+),testing(cust+,reservd+)),tickets+,unispace(cloud-fr1+),upli+,utw',
+    'ente+,vaporcloud+,vbrplsbx(g+),virtualserver+,webthings+,wedeploy+),ipiranga=,iq=(com=,edu=,gov=,mil',
+    '=,net=,org=),ir=(ac=,co=,gov=,id=,net=,org=,sch=,xn--mgba3a4f16a=,xn--mgba3a4fra=),irish=,is=(blogsp',
+    'ot+,com=,cupcake+,edu=,gov=,int=,net=,org=),ismaili=,ist=,istanbul=,it=(123homepage+,16-b+,32-b+,64-',
+    'b+,abr=,abruzzo=,ag=,agrigento=,al=,alessandria=,alto-adige=,altoadige=,an=,ancona=,andria-barletta-',
+    'trani=,andria-trani-barletta=,andriabarlettatrani=,andriatranibarletta=,ao=,aosta=,aosta-valley=,aos',
+    'tavalley=,aoste=,ap=,aq=,aquila=,ar=,arezzo=,ascoli-piceno=,ascolipiceno=,asti=,at=,av=,avellino=,ba',
+    '=,balsan=,balsan-sudtirol=,balsan-suedtirol=,bari=,barletta-trani-andria=,barlettatraniandria=,bas=,',
+    'basilicata=,belluno=,benevento=,bergamo=,bg=,bi=,biella=,bl=,blogspot+,bn=,bo=,bologna=,bolzano=,bol',
+    'zano-altoadige=,bozen=,bozen-sudtirol=,bozen-suedtirol=,br=,brescia=,brindisi=,bs=,bt=,bulsan=,bulsa',
+    'n-sudtirol=,bulsan-suedtirol=,bz=,ca=,cagliari=,cal=,calabria=,caltanissetta=,cam=,campania=,campida',
+    'no-medio=,campidanomedio=,campobasso=,carbonia-iglesias=,carboniaiglesias=,carrara-massa=,carraramas',
+    'sa=,caserta=,catania=,catanzaro=,cb=,ce=,cesena-forli=,cesenaforli=,ch=,chieti=,ci=,cl=,cn=,co=,como',
+    '=,cosenza=,cr=,cremona=,crotone=,cs=,ct=,cuneo=,cz=,dell-ogliastra=,dellogliastra=,edu=,emilia-romag',
+    'na=,emiliaromagna=,emr=,en=,enna=,fc=,fe=,fermo=,ferrara=,fg=,fi=,firenze=,florence=,fm=,foggia=,for',
+    'li-cesena=,forlicesena=,fr=,friuli-v-giulia=,friuli-ve-giulia=,friuli-vegiulia=,friuli-venezia-giuli',
+    'a=,friuli-veneziagiulia=,friuli-vgiulia=,friuliv-giulia=,friulive-giulia=,friulivegiulia=,friulivene',
+    'zia-giulia=,friuliveneziagiulia=,friulivgiulia=,frosinone=,fvg=,ge=,genoa=,genova=,go=,gorizia=,gov=',
+    ',gr=,grosseto=,ibxos+,iglesias-carbonia=,iglesiascarbonia=,iliadboxos+,im=,imperia=,is=,isernia=,kr=',
+    ',la-spezia=,laquila=,laspezia=,latina=,laz=,lazio=,lc=,le=,lecce=,lecco=,li=,lig=,liguria=,livorno=,',
+    'lo=,lodi=,lom=,lombardia=,lombardy=,lt=,lu=,lucania=,lucca=,macerata=,mantova=,mar=,marche=,massa-ca',
+    'rrara=,massacarrara=,matera=,mb=,mc=,me=,medio-campidano=,mediocampidano=,messina=,mi=,milan=,milano',
+    '=,mn=,mo=,modena=,mol=,molise=,monza=,monza-brianza=,monza-e-della-brianza=,monzabrianza=,monzaebria',
+    'nza=,monzaedellabrianza=,ms=,mt=,myspreadshop+,na=,naples=,napoli=,neen(jc+),no=,novara=,nu=,nuoro=,',
+    'og=,ogliastra=,olbia-tempio=,olbiatempio=,or=,oristano=,ot=,pa=,padova=,padua=,palermo=,parma=,pavia',
+    '=,pc=,pd=,pe=,perugia=,pesaro-urbino=,pesarourbino=,pescara=,pg=,pi=,piacenza=,piedmont=,piemonte=,p',
+    'isa=,pistoia=,pmn=,pn=,po=,pordenone=,potenza=,pr=,prato=,pt=,pu=,pug=,puglia=,pv=,pz=,ra=,ragusa=,r',
+    'avenna=,rc=,re=,reggio-calabria=,reggio-emilia=,reggiocalabria=,reggioemilia=,rg=,ri=,rieti=,rimini=',
+    ',rm=,rn=,ro=,roma=,rome=,rovigo=,sa=,salerno=,sar=,sardegna=,sardinia=,sassari=,savona=,si=,sic=,sic',
+    'ilia=,sicily=,siena=,siracusa=,so=,sondrio=,sp=,sr=,ss=,suedtirol=,sv=,syncloud+,ta=,taa=,taranto=,t',
+    'e=,tempio-olbia=,tempioolbia=,teramo=,terni=,tim(open(jelastic(cloud+))),tn=,to=,torino=,tos=,toscan',
+    'a=,tp=,tr=,trani-andria-barletta=,trani-barletta-andria=,traniandriabarletta=,tranibarlettaandria=,t',
+    'rapani=,trentin-sud-tirol=,trentin-sudtirol=,trentin-sued-tirol=,trentin-suedtirol=,trentino=,trenti',
+    'no-a-adige=,trentino-aadige=,trentino-alto-adige=,trentino-altoadige=,trentino-s-tirol=,trentino-sti',
+    'rol=,trentino-sud-tirol=,trentino-sudtirol=,trentino-sued-tirol=,trentino-suedtirol=,trentinoa-adige',
+    '=,trentinoaadige=,trentinoalto-adige=,trentinoaltoadige=,trentinos-tirol=,trentinostirol=,trentinosu',
+    'd-tirol=,trentinosudtirol=,trentinosued-tirol=,trentinosuedtirol=,trentinsud-tirol=,trentinsudtirol=',
+    ',trentinsued-tirol=,trentinsuedtirol=,trento=,treviso=,trieste=,ts=,turin=,tuscany=,tv=,ud=,udine=,u',
+    'mb=,umbria=,urbino-pesaro=,urbinopesaro=,va=,val-d-aosta=,val-daosta=,vald-aosta=,valdaosta=,valle-a',
+    'osta=,valle-d-aosta=,valle-daosta=,valleaosta=,valled-aosta=,valledaosta=,vallee-aoste=,vallee-d-aos',
+    'te=,valleeaoste=,valleedaoste=,vao=,varese=,vb=,vc=,vda=,ve=,ven=,veneto=,venezia=,venice=,verbania=',
+    ',vercelli=,verona=,vi=,vibo-valentia=,vibovalentia=,vicenza=,viterbo=,vr=,vs=,vt=,vv=,xn--balsan-sdt',
+    'irol-nsb=,xn--bozen-sdtirol-2ob=,xn--bulsan-sdtirol-nsb=,xn--cesena-forl-mcb=,xn--cesenaforl-i8a=,xn',
+    '--forl-cesena-fcb=,xn--forlcesena-c8a=,xn--sdtirol-n2a=,xn--trentin-sd-tirol-rzb=,xn--trentin-sdtiro',
+    'l-7vb=,xn--trentino-sd-tirol-c3b=,xn--trentino-sdtirol-szb=,xn--trentinosd-tirol-rzb=,xn--trentinosd',
+    'tirol-7vb=,xn--trentinsd-tirol-6vb=,xn--trentinsdtirol-nsb=,xn--valle-aoste-ebb=,xn--valle-d-aoste-e',
+    'hb=,xn--valleaoste-e7a=,xn--valledaoste-ebb=),itau=,itv=,jaguar=,java=,jcb=,je=(co=,net=,of+,org=),j',
+    'eep=,jetzt=,jewelry=,jio=,jll=,jm(*=),jmp=,jnj=,jo=(com=,edu=,gov=,mil=,name=,net=,org=,sch=),jobs=,',
+    'joburg=,jot=,joy=,jp=(ac=,ad=,aichi=(aisai=,ama=,anjo=,asuke=,chiryu=,chita=,fuso=,gamagori=,handa=,',
+    'hazu=,hekinan=,higashiura=,ichinomiya=,inazawa=,inuyama=,isshiki=,iwakura=,kanie=,kariya=,kasugai=,k',
+    'ira=,kiyosu=,komaki=,konan=,kota=,mihama=,miyoshi=,nishio=,nisshin=,obu=,oguchi=,oharu=,okazaki=,owa',
+    'riasahi=,seto=,shikatsu=,shinshiro=,shitara=,tahara=,takahama=,tobishima=,toei=,togo=,tokai=,tokonam',
+    'e=,toyoake=,toyohashi=,toyokawa=,toyone=,toyota=,tsushima=,yatomi=),akita=(akita=,daisen=,fujisato=,',
+    'gojome=,hachirogata=,happou=,higashinaruse=,honjo=,honjyo=,ikawa=,kamikoani=,kamioka=,katagami=,kazu',
+    'no=,kitaakita=,kosaka=,kyowa=,misato=,mitane=,moriyoshi=,nikaho=,noshiro=,odate=,oga=,ogata=,semboku',
+    '=,yokote=,yurihonjo=),angry+,aomori=(aomori=,gonohe=,hachinohe=,hashikami=,hiranai=,hirosaki=,itayan',
+    'agi=,kuroishi=,misawa=,mutsu=,nakadomari=,noheji=,oirase=,owani=,rokunohe=,sannohe=,shichinohe=,shin',
+    'go=,takko=,towada=,tsugaru=,tsuruta=),babyblue+,babymilk+,backdrop+,bambina+,bitter+,blogspot+,blush',
+    '+,boo+,boy+,boyfriend+,but+,buyshop+,candypop+,capoo+,catfood+,cheap+,chiba=(abiko=,asahi=,chonan=,c',
+    'hosei=,choshi=,chuo=,funabashi=,futtsu=,hanamigawa=,ichihara=,ichikawa=,ichinomiya=,inzai=,isumi=,ka',
+    'magaya=,kamogawa=,kashiwa=,katori=,katsuura=,kimitsu=,kisarazu=,kozaki=,kujukuri=,kyonan=,matsudo=,m',
+    'idori=,mihama=,minamiboso=,mobara=,mutsuzawa=,nagara=,nagareyama=,narashino=,narita=,noda=,oamishira',
+    'sato=,omigawa=,onjuku=,otaki=,sakae=,sakura=,shimofusa=,shirako=,shiroi=,shisui=,sodegaura=,sosa=,ta',
+    'ko=,tateyama=,togane=,tohnosho=,tomisato=,urayasu=,yachimata=,yachiyo=,yokaichiba=,yokoshibahikari=,',
+    'yotsukaido=),chicappa+,chillout+,chips+,chowder+,chu+,ciao+,co=,cocotte+,coolblog+,cranky+,cutegirl+',
+    ',daa+,deca+,deci+,digick+,ed=,egoism+,ehime=(ainan=,honai=,ikata=,imabari=,iyo=,kamijima=,kihoku=,ku',
+    'makogen=,masaki=,matsuno=,matsuyama=,namikata=,niihama=,ozu=,saijo=,seiyo=,shikokuchuo=,tobe=,toon=,',
+    'uchiko=,uwajima=,yawatahama=),fakefur+,fashionstore+,fem+,flier+,floppy+,fool+,frenchkiss+,fukui=(ec',
+    'hizen=,eiheiji=,fukui=,ikeda=,katsuyama=,mihama=,minamiechizen=,obama=,ohi=,ono=,sabae=,sakai=,takah',
+    'ama=,tsuruga=,wakasa=),fukuoka=(ashiya=,buzen=,chikugo=,chikuho=,chikujo=,chikushino=,chikuzen=,chuo',
+    '=,dazaifu=,fukuchi=,hakata=,higashi=,hirokawa=,hisayama=,iizuka=,inatsuki=,kaho=,kasuga=,kasuya=,kaw',
+    'ara=,keisen=,koga=,kurate=,kurogi=,kurume=,minami=,miyako=,miyama=,miyawaka=,mizumaki=,munakata=,nak',
+    'agawa=,nakama=,nishi=,nogata=,ogori=,okagaki=,okawa=,oki=,omuta=,onga=,onojo=,oto=,saigawa=,sasaguri',
+    '=,shingu=,shinyoshitomi=,shonai=,soeda=,sue=,tachiarai=,tagawa=,takata=,toho=,toyotsu=,tsuiki=,ukiha',
+    '=,umi=,usui=,yamada=,yame=,yanagawa=,yukuhashi=),fukushima=(aizubange=,aizumisato=,aizuwakamatsu=,as',
+    'akawa=,bandai=,date=,fukushima=,furudono=,futaba=,hanawa=,higashi=,hirata=,hirono=,iitate=,inawashir',
+    'o=,ishikawa=,iwaki=,izumizaki=,kagamiishi=,kaneyama=,kawamata=,kitakata=,kitashiobara=,koori=,koriya',
+    'ma=,kunimi=,miharu=,mishima=,namie=,nango=,nishiaizu=,nishigo=,okuma=,omotego=,ono=,otama=,samegawa=',
+    ',shimogo=,shirakawa=,showa=,soma=,sukagawa=,taishin=,tamakawa=,tanagura=,tenei=,yabuki=,yamato=,yama',
+    'tsuri=,yanaizu=,yugawa=),gifu=(anpachi=,ena=,gifu=,ginan=,godo=,gujo=,hashima=,hichiso=,hida=,higash',
+    'ishirakawa=,ibigawa=,ikeda=,kakamigahara=,kani=,kasahara=,kasamatsu=,kawaue=,kitagata=,mino=,minokam',
+    'o=,mitake=,mizunami=,motosu=,nakatsugawa=,ogaki=,sakahogi=,seki=,sekigahara=,shirakawa=,tajimi=,taka',
+    'yama=,tarui=,toki=,tomika=,wanouchi=,yamagata=,yaotsu=,yoro=),girlfriend+,girly+,gloomy+,go=,gonna+,',
+    'gr=,greater+,gunma=(annaka=,chiyoda=,fujioka=,higashiagatsuma=,isesaki=,itakura=,kanna=,kanra=,katas',
+    'hina=,kawaba=,kiryu=,kusatsu=,maebashi=,meiwa=,midori=,minakami=,naganohara=,nakanojo=,nanmoku=,numa',
+    'ta=,oizumi=,ora=,ota=,shibukawa=,shimonita=,shinto=,showa=,takasaki=,takayama=,tamamura=,tatebayashi',
+    '=,tomioka=,tsukiyono=,tsumagoi=,ueno=,yoshioka=),hacca+,handcrafted+,heavy+,her+,hiho+,hippy+,hirosh',
+    'ima=(asaminami=,daiwa=,etajima=,fuchu=,fukuyama=,hatsukaichi=,higashihiroshima=,hongo=,jinsekikogen=',
+    ',kaita=,kui=,kumano=,kure=,mihara=,miyoshi=,naka=,onomichi=,osakikamijima=,otake=,saka=,sera=,serani',
+    'shi=,shinichi=,shobara=,takehara=),hokkaido=(abashiri=,abira=,aibetsu=,akabira=,akkeshi=,asahikawa=,',
+    'ashibetsu=,ashoro=,assabu=,atsuma=,bibai=,biei=,bifuka=,bihoro=,biratori=,chippubetsu=,chitose=,date',
+    '=,ebetsu=,embetsu=,eniwa=,erimo=,esan=,esashi=,fukagawa=,fukushima=,furano=,furubira=,haboro=,hakoda',
+    'te=,hamatonbetsu=,hidaka=,higashikagura=,higashikawa=,hiroo=,hokuryu=,hokuto=,honbetsu=,horokanai=,h',
+    'oronobe=,ikeda=,imakane=,ishikari=,iwamizawa=,iwanai=,kamifurano=,kamikawa=,kamishihoro=,kamisunagaw',
+    'a=,kamoenai=,kayabe=,kembuchi=,kikonai=,kimobetsu=,kitahiroshima=,kitami=,kiyosato=,koshimizu=,kunne',
+    'ppu=,kuriyama=,kuromatsunai=,kushiro=,kutchan=,kyowa=,mashike=,matsumae=,mikasa=,minamifurano=,mombe',
+    'tsu=,moseushi=,mukawa=,muroran=,naie=,nakagawa=,nakasatsunai=,nakatombetsu=,nanae=,nanporo=,nayoro=,',
+    'nemuro=,niikappu=,niki=,nishiokoppe=,noboribetsu=,numata=,obihiro=,obira=,oketo=,okoppe=,otaru=,otob',
+    'e=,otofuke=,otoineppu=,oumu=,ozora=,pippu=,rankoshi=,rebun=,rikubetsu=,rishiri=,rishirifuji=,saroma=',
+    ',sarufutsu=,shakotan=,shari=,shibecha=,shibetsu=,shikabe=,shikaoi=,shimamaki=,shimizu=,shimokawa=,sh',
+    'inshinotsu=,shintoku=,shiranuka=,shiraoi=,shiriuchi=,sobetsu=,sunagawa=,taiki=,takasu=,takikawa=,tak',
+    'inoue=,teshikaga=,tobetsu=,tohma=,tomakomai=,tomari=,toya=,toyako=,toyotomi=,toyoura=,tsubetsu=,tsuk',
+    'igata=,urakawa=,urausu=,uryu=,utashinai=,wakkanai=,wassamu=,yakumo=,yoichi=),holy+,hungry+,hyogo=(ai',
+    'oi=,akashi=,ako=,amagasaki=,aogaki=,asago=,ashiya=,awaji=,fukusaki=,goshiki=,harima=,himeji=,ichikaw',
+    'a=,inagawa=,itami=,kakogawa=,kamigori=,kamikawa=,kasai=,kasuga=,kawanishi=,miki=,minamiawaji=,nishin',
+    'omiya=,nishiwaki=,ono=,sanda=,sannan=,sasayama=,sayo=,shingu=,shinonsen=,shiso=,sumoto=,taishi=,taka',
+    '=,takarazuka=,takasago=,takino=,tamba=,tatsuno=,toyooka=,yabu=,yashiro=,yoka=,yokawa=),ibaraki=(ami=',
+    ',asahi=,bando=,chikusei=,daigo=,fujishiro=,hitachi=,hitachinaka=,hitachiomiya=,hitachiota=,ibaraki=,',
+    'ina=,inashiki=,itako=,iwama=,joso=,kamisu=,kasama=,kashima=,kasumigaura=,koga=,miho=,mito=,moriya=,n',
+    'aka=,namegata=,oarai=,ogawa=,omitama=,ryugasaki=,sakai=,sakuragawa=,shimodate=,shimotsuma=,shirosato',
+    '=,sowa=,suifu=,takahagi=,tamatsukuri=,tokai=,tomobe=,tone=,toride=,tsuchiura=,tsukuba=,uchihara=,ush',
+    'iku=,yachiyo=,yamagata=,yawara=,yuki=),icurus+,ishikawa=(anamizu=,hakui=,hakusan=,kaga=,kahoku=,kana',
+    'zawa=,kawakita=,komatsu=,nakanoto=,nanao=,nomi=,nonoichi=,noto=,shika=,suzu=,tsubata=,tsurugi=,uchin',
+    'ada=,wajima=),itigo+,iwate=(fudai=,fujisawa=,hanamaki=,hiraizumi=,hirono=,ichinohe=,ichinoseki=,iwai',
+    'zumi=,iwate=,joboji=,kamaishi=,kanegasaki=,karumai=,kawai=,kitakami=,kuji=,kunohe=,kuzumaki=,miyako=',
+    ',mizusawa=,morioka=,ninohe=,noda=,ofunato=,oshu=,otsuchi=,rikuzentakata=,shiwa=,shizukuishi=,sumita=',
+    ',tanohata=,tono=,yahaba=,yamada=),jellybean+,kagawa=(ayagawa=,higashikagawa=,kanonji=,kotohira=,mann',
+    'o=,marugame=,mitoyo=,naoshima=,sanuki=,tadotsu=,takamatsu=,tonosho=,uchinomi=,utazu=,zentsuji=),kago',
+    'shima=(akune=,amami=,hioki=,isa=,isen=,izumi=,kagoshima=,kanoya=,kawanabe=,kinko=,kouyama=,makurazak',
+    'i=,matsumoto=,minamitane=,nakatane=,nishinoomote=,satsumasendai=,soo=,tarumizu=,yusui=),kanagawa=(ai',
+    'kawa=,atsugi=,ayase=,chigasaki=,ebina=,fujisawa=,hadano=,hakone=,hiratsuka=,isehara=,kaisei=,kamakur',
+    'a=,kiyokawa=,matsuda=,minamiashigara=,miura=,nakai=,ninomiya=,odawara=,oi=,oiso=,sagamihara=,samukaw',
+    'a=,tsukui=,yamakita=,yamato=,yokosuka=,yugawara=,zama=,zushi=),kawaiishop+,kawasaki(!city=,*=),kikir',
+    'ara+,kill+,kilo+,kitakyushu(!city=,*=),kobe(!city=,*=),kochi=(aki=,geisei=,hidaka=,higashitsuno=,ino',
+    '=,kagami=,kami=,kitagawa=,kochi=,mihara=,motoyama=,muroto=,nahari=,nakamura=,nankoku=,nishitosa=,niy',
+    'odogawa=,ochi=,okawa=,otoyo=,otsuki=,sakawa=,sukumo=,susaki=,tosa=,tosashimizu=,toyo=,tsuno=,umaji=,',
+    'yasuda=,yusuhara=),kumamoto=(amakusa=,arao=,aso=,choyo=,gyokuto=,kamiamakusa=,kikuchi=,kumamoto=,mas',
+    'hiki=,mifune=,minamata=,minamioguni=,nagasu=,nishihara=,oguni=,ozu=,sumoto=,takamori=,uki=,uto=,yama',
+    'ga=,yamato=,yatsushiro=),kuron+,kyoto=(ayabe=,fukuchiyama=,higashiyama=,ide=,ine=,joyo=,kameoka=,kam',
+    'o=,kita=,kizu=,kumiyama=,kyotamba=,kyotanabe=,kyotango=,maizuru=,minami=,minamiyamashiro=,miyazu=,mu',
+    'ko=,nagaokakyo=,nakagyo=,nantan=,oyamazaki=,sakyo=,seika=,tanabe=,uji=,ujitawara=,wazuka=,yamashina=',
+    ',yawata=),lg=,littlestar+,lolipopmc+,lolitapunk+,lomo+,lovepop+,lovesick+,main+,mie=(asahi=,inabe=,i',
+    'se=,kameyama=,kawagoe=,kiho=,kisosaki=,kiwa=,komono=,kumano=,kuwana=,matsusaka=,meiwa=,mihama=,minam',
+    'iise=,misugi=,miyama=,nabari=,shima=,suzuka=,tado=,taiki=,taki=,tamaki=,toba=,tsu=,udono=,ureshino=,',
+    'watarai=,yokkaichi=),miyagi=(furukawa=,higashimatsushima=,ishinomaki=,iwanuma=,kakuda=,kami=,kawasak',
+    'i=,marumori=,matsushima=,minamisanriku=,misato=,murata=,natori=,ogawara=,ohira=,onagawa=,osaki=,rifu',
+    '=,semine=,shibata=,shichikashuku=,shikama=,shiogama=,shiroishi=,tagajo=,taiwa=,tome=,tomiya=,wakuya=',
+    ',watari=,yamamoto=,zao=),miyazaki=(aya=,ebino=,gokase=,hyuga=,kadogawa=,kawaminami=,kijo=,kitagawa=,',
+    'kitakata=,kitaura=,kobayashi=,kunitomi=,kushima=,mimata=,miyakonojo=,miyazaki=,morotsuka=,nichinan=,',
+    'nishimera=,nobeoka=,saito=,shiiba=,shintomi=,takaharu=,takanabe=,takazaki=,tsuno=),mods+,mond+,mongo',
+    'lian+,moo+,nagano=(achi=,agematsu=,anan=,aoki=,asahi=,azumino=,chikuhoku=,chikuma=,chino=,fujimi=,ha',
+    'kuba=,hara=,hiraya=,iida=,iijima=,iiyama=,iizuna=,ikeda=,ikusaka=,ina=,karuizawa=,kawakami=,kiso=,ki',
+    'sofukushima=,kitaaiki=,komagane=,komoro=,matsukawa=,matsumoto=,miasa=,minamiaiki=,minamimaki=,minami',
+    'minowa=,minowa=,miyada=,miyota=,mochizuki=,nagano=,nagawa=,nagiso=,nakagawa=,nakano=,nozawaonsen=,ob',
+    'use=,ogawa=,okaya=,omachi=,omi=,ookuwa=,ooshika=,otaki=,otari=,sakae=,sakaki=,saku=,sakuho=,shimosuw',
+    'a=,shinanomachi=,shiojiri=,suwa=,suzaka=,takagi=,takamori=,takayama=,tateshina=,tatsuno=,togakushi=,',
+    'togura=,tomi=,ueda=,wada=,yamagata=,yamanouchi=,yasaka=,yasuoka=),nagasaki=(chijiwa=,futsu=,goto=,ha',
+    'sami=,hirado=,iki=,isahaya=,kawatana=,kuchinotsu=,matsuura=,nagasaki=,obama=,omura=,oseto=,saikai=,s',
+    'asebo=,seihi=,shimabara=,shinkamigoto=,togitsu=,tsushima=,unzen=),nagoya(!city=,*=),namaste+,nara=(a',
+    'ndo=,gose=,heguri=,higashiyoshino=,ikaruga=,ikoma=,kamikitayama=,kanmaki=,kashiba=,kashihara=,katsur',
+    'agi=,kawai=,kawakami=,kawanishi=,koryo=,kurotaki=,mitsue=,miyake=,nara=,nosegawa=,oji=,ouda=,oyodo=,',
+    'sakurai=,sango=,shimoichi=,shimokitayama=,shinjo=,soni=,takatori=,tawaramoto=,tenkawa=,tenri=,uda=,y',
+    'amatokoriyama=,yamatotakada=,yamazoe=,yoshino=),ne=(aseinet(user+),gehirn+),niigata=(aga=,agano=,gos',
+    'en=,itoigawa=,izumozaki=,joetsu=,kamo=,kariwa=,kashiwazaki=,minamiuonuma=,mitsuke=,muika=,murakami=,',
+    'myoko=,nagaoka=,niigata=,ojiya=,omi=,sado=,sanjo=,seiro=,seirou=,sekikawa=,shibata=,tagami=,tainai=,',
+    'tochio=,tokamachi=,tsubame=,tsunan=,uonuma=,yahiko=,yoita=,yuzawa=),nikita+,nobushi+,noor+,oita=(bep',
+    'pu=,bungoono=,bungotakada=,hasama=,hiji=,himeshima=,hita=,kamitsue=,kokonoe=,kuju=,kunisaki=,kusu=,o',
+    'ita=,saiki=,taketa=,tsukumi=,usa=,usuki=,yufu=),okayama=(akaiwa=,asakuchi=,bizen=,hayashima=,ibara=,',
+    'kagamino=,kasaoka=,kibichuo=,kumenan=,kurashiki=,maniwa=,misaki=,nagi=,niimi=,nishiawakura=,okayama=',
+    ',satosho=,setouchi=,shinjo=,shoo=,soja=,takahashi=,tamano=,tsuyama=,wake=,yakage=),okinawa=(aguni=,g',
+    'inowan=,ginoza=,gushikami=,haebaru=,higashi=,hirara=,iheya=,ishigaki=,ishikawa=,itoman=,izena=,kaden',
+    'a=,kin=,kitadaito=,kitanakagusuku=,kumejima=,kunigami=,minamidaito=,motobu=,nago=,naha=,nakagusuku=,',
+    'nakijin=,nanjo=,nishihara=,ogimi=,okinawa=,onna=,shimoji=,taketomi=,tarama=,tokashiki=,tomigusuku=,t',
+    'onaki=,urasoe=,uruma=,yaese=,yomitan=,yonabaru=,yonaguni=,zamami=),oops+,or=,osaka=(abeno=,chihayaak',
+    'asaka=,chuo=,daito=,fujiidera=,habikino=,hannan=,higashiosaka=,higashisumiyoshi=,higashiyodogawa=,hi',
+    'rakata=,ibaraki=,ikeda=,izumi=,izumiotsu=,izumisano=,kadoma=,kaizuka=,kanan=,kashiwara=,katano=,kawa',
+    'chinagano=,kishiwada=,kita=,kumatori=,matsubara=,minato=,minoh=,misaki=,moriguchi=,neyagawa=,nishi=,',
+    'nose=,osakasayama=,sakai=,sayama=,sennan=,settsu=,shijonawate=,shimamoto=,suita=,tadaoka=,taishi=,ta',
+    'jiri=,takaishi=,takatsuki=,tondabayashi=,toyonaka=,toyono=,yao=),parallel+,parasite+,pecori+,peewee+',
+    ',penne+,pepper+,perma+,pigboat+,pinoko+,punyu+,pupu+,pussycat+,pya+,raindrop+,readymade+,sadist+,sag',
+    'a=(ariake=,arita=,fukudomi=,genkai=,hamatama=,hizen=,imari=,kamimine=,kanzaki=,karatsu=,kashima=,kit',
+    'agata=,kitahata=,kiyama=,kouhoku=,kyuragi=,nishiarita=,ogi=,omachi=,ouchi=,saga=,shiroishi=,taku=,ta',
+    'ra=,tosu=,yoshinogari=),saitama=(arakawa=,asaka=,chichibu=,fujimi=,fujimino=,fukaya=,hanno=,hanyu=,h',
+    'asuda=,hatogaya=,hatoyama=,hidaka=,higashichichibu=,higashimatsuyama=,honjo=,ina=,iruma=,iwatsuki=,k',
+    'amiizumi=,kamikawa=,kamisato=,kasukabe=,kawagoe=,kawaguchi=,kawajima=,kazo=,kitamoto=,koshigaya=,kou',
+    'nosu=,kuki=,kumagaya=,matsubushi=,minano=,misato=,miyashiro=,miyoshi=,moroyama=,nagatoro=,namegawa=,',
+    'niiza=,ogano=,ogawa=,ogose=,okegawa=,omiya=,otaki=,ranzan=,ryokami=,saitama=,sakado=,satte=,sayama=,',
+    'shiki=,shiraoka=,soka=,sugito=,toda=,tokigawa=,tokorozawa=,tsurugashima=,urawa=,warabi=,yashio=,yoko',
+    'ze=,yono=,yorii=,yoshida=,yoshikawa=,yoshimi=),sapporo(!city=,*=),schoolbus+,secret+,sendai(!city=,*',
+    '=),shiga=(aisho=,gamo=,higashiomi=,hikone=,koka=,konan=,kosei=,koto=,kusatsu=,maibara=,moriyama=,nag',
+    'ahama=,nishiazai=,notogawa=,omihachiman=,otsu=,ritto=,ryuoh=,takashima=,takatsuki=,torahime=,toyosat',
+    'o=,yasu=),shimane=(akagi=,ama=,gotsu=,hamada=,higashiizumo=,hikawa=,hikimi=,izumo=,kakinoki=,masuda=',
+    ',matsue=,misato=,nishinoshima=,ohda=,okinoshima=,okuizumo=,shimane=,tamayu=,tsuwano=,unnan=,yakumo=,',
+    'yasugi=,yatsuka=),shizuoka=(arai=,atami=,fuji=,fujieda=,fujikawa=,fujinomiya=,fukuroi=,gotemba=,haib',
+    'ara=,hamamatsu=,higashiizu=,ito=,iwata=,izu=,izunokuni=,kakegawa=,kannami=,kawanehon=,kawazu=,kikuga',
+    'wa=,kosai=,makinohara=,matsuzaki=,minamiizu=,mishima=,morimachi=,nishiizu=,numazu=,omaezaki=,shimada',
+    '=,shimizu=,shimoda=,shizuoka=,susono=,yaizu=,yoshida=),staba+,stripper+,sub+,sunnyday+,supersale+,th',
+    'eshop+,thick+,tochigi=(ashikaga=,bato=,haga=,ichikai=,iwafune=,kaminokawa=,kanuma=,karasuyama=,kuroi',
+    'so=,mashiko=,mibu=,moka=,motegi=,nasu=,nasushiobara=,nikko=,nishikata=,nogi=,ohira=,ohtawara=,oyama=',
+    ',sakura=,sano=,shimotsuke=,shioya=,takanezawa=,tochigi=,tsuga=,ujiie=,utsunomiya=,yaita=),tokushima=',
+    '(aizumi=,anan=,ichiba=,itano=,kainan=,komatsushima=,matsushige=,mima=,minami=,miyoshi=,mugi=,nakagaw',
+    'a=,naruto=,sanagochi=,shishikui=,tokushima=,wajiki=),tokyo=(adachi=,akiruno=,akishima=,aogashima=,ar',
+    'akawa=,bunkyo=,chiyoda=,chofu=,chuo=,edogawa=,fuchu=,fussa=,hachijo=,hachioji=,hamura=,higashikurume',
+    '=,higashimurayama=,higashiyamato=,hino=,hinode=,hinohara=,inagi=,itabashi=,katsushika=,kita=,kiyose=',
+    ',kodaira=,koganei=,kokubunji=,komae=,koto=,kouzushima=,kunitachi=,machida=,meguro=,minato=,mitaka=,m',
+    'izuho=,musashimurayama=,musashino=,nakano=,nerima=,ogasawara=,okutama=,ome=,oshima=,ota=,setagaya=,s',
+    'hibuya=,shinagawa=,shinjuku=,suginami=,sumida=,tachikawa=,taito=,tama=,toshima=),tonkotsu+,tottori=(',
+    'chizu=,hino=,kawahara=,koge=,kotoura=,misasa=,nanbu=,nichinan=,sakaiminato=,tottori=,wakasa=,yazu=,y',
+    'onago=),toyama=(asahi=,fuchu=,fukumitsu=,funahashi=,himi=,imizu=,inami=,johana=,kamiichi=,kurobe=,na',
+    'kaniikawa=,namerikawa=,nanto=,nyuzen=,oyabe=,taira=,takaoka=,tateyama=,toga=,tonami=,toyama=,unazuki',
+    '=,uozu=,yamada=),under+,upper+,usercontent+,velvet+,verse+,versus+,vivian+,wakayama=(arida=,aridagaw',
+    'a=,gobo=,hashimoto=,hidaka=,hirogawa=,inami=,iwade=,kainan=,kamitonda=,katsuragi=,kimino=,kinokawa=,',
+    'kitayama=,koya=,koza=,kozagawa=,kudoyama=,kushimoto=,mihama=,misato=,nachikatsuura=,shingu=,shiraham',
+    'a=,taiji=,tanabe=,wakayama=,yuasa=,yura=),watson+,weblike+,whitesnow+,xn--0trq7p7nn=,xn--1ctwo=,xn--',
+    '1lqs03n=,xn--1lqs71d=,xn--2m4a15e=,xn--32vp30h=,xn--4it168d=,xn--4it797k=,xn--4pvxs=,xn--5js045d=,xn',
+    '--5rtp49c=,xn--5rtq34k=,xn--6btw5a=,xn--6orx2r=,xn--7t0a264c=,xn--8ltr62k=,xn--8pvr4u=,xn--c3s14m=,x',
+    'n--d5qv7z876c=,xn--djrs72d6uy=,xn--djty4k=,xn--efvn9s=,xn--ehqz56n=,xn--elqq16h=,xn--f6qx53a=,xn--k7',
+    'yn95e=,xn--kbrq7o=,xn--klt787d=,xn--kltp7d=,xn--kltx9a=,xn--klty5x=,xn--mkru45i=,xn--nit225k=,xn--nt',
+    'so0iqx3a=,xn--ntsq17g=,xn--pssu33l=,xn--qqqt11m=,xn--rht27z=,xn--rht3d=,xn--rht61e=,xn--rny31h=,xn--',
+    'tor131o=,xn--uist22h=,xn--uisz3g=,xn--uuwu58a=,xn--vgu402c=,xn--zbx025d=,yamagata=(asahi=,funagata=,',
+    'higashine=,iide=,kahoku=,kaminoyama=,kaneyama=,kawanishi=,mamurogawa=,mikawa=,murayama=,nagai=,nakay',
+    'ama=,nanyo=,nishikawa=,obanazawa=,oe=,oguni=,ohkura=,oishida=,sagae=,sakata=,sakegawa=,shinjo=,shira',
+    'taka=,shonai=,takahata=,tendo=,tozawa=,tsuruoka=,yamagata=,yamanobe=,yonezawa=,yuza=),yamaguchi=(abu',
+    '=,hagi=,hikari=,hofu=,iwakuni=,kudamatsu=,mitou=,nagato=,oshima=,shimonoseki=,shunan=,tabuse=,tokuya',
+    'ma=,toyota=,ube=,yuu=),yamanashi=(chuo=,doshi=,fuefuki=,fujikawa=,fujikawaguchiko=,fujiyoshida=,haya',
+    'kawa=,hokuto=,ichikawamisato=,kai=,kofu=,koshu=,kosuge=,minami-alps=,minobu=,nakamichi=,nanbu=,narus',
+    'awa=,nirasaki=,nishikatsura=,oshino=,otsuki=,showa=,tabayama=,tsuru=,uenohara=,yamanakako=,yamanashi',
+    '=),yokohama(!city=,*=),zombie+),jpmorgan=,jprs=,juegos=,juniper=,kaufen=,kddi=,ke=(ac=,co=(blogspot+',
+    '),go=,info=,me=,mobi=,ne=,or=,sc=),kerryhotels=,kerrylogistics=,kerryproperties=,kfh=,kg=(blog+,com=',
+    ',edu=,gov=,io+,jp+,mil=,net=,org=,tv+,uk+,us+),kh(*=),ki=(biz=,com=,edu=,gov=,info=,net=,org=),kia=,',
+    'kids=,kim=,kinder=,kindle=,kitchen=,kiwi=,km=(ass=,asso=,com=,coop=,edu=,gouv=,gov=,medecin=,mil=,no',
+    'm=,notaires=,org=,pharmaciens=,prd=,presse=,tm=,veterinaire=),kn=(edu=,gov=,net=,org=),koeln=,komats',
+    'u=,kosher=,kp=(com=,edu=,gov=,org=,rep=,tra=),kpmg=,kpn=,kr=(ac=,blogspot+,busan=,chungbuk=,chungnam',
+    '=,co=,daegu=,daejeon=,es=,gangwon=,go=,gwangju=,gyeongbuk=,gyeonggi=,gyeongnam=,hs=,incheon=,jeju=,j',
+    'eonbuk=,jeonnam=,kg=,mil=,ms=,ne=,or=,pe=,re=,sc=,seoul=,ulsan=),krd=(co+,edu+),kred=,kuokgroup=,kw=',
+    '(com=,edu=,emb=,gov=,ind=,net=,org=),ky=(com=,edu=,net=,org=),kyoto=,kz=(com=,edu=,gov=,jcloud+,kazt',
+    'eleport(upaas+),mil=,net=,org=),la=(bnr+,c+,com=,edu=,gov=,info=,int=,net=,org=,per=),lacaixa=,lambo',
+    'rghini=,lamer=,lancaster=,lancia=,land=(static+(dev+,sites+)),landrover=,lanxess=,lasalle=,lat=,lati',
+    'no=,latrobe=,law=,lawyer=,lb=(com=,edu=,gov=,net=,org=),lc=(co=,com=,edu=,gov=,net=,org=,oy+),lds=,l',
+    'ease=,leclerc=,lefrak=,legal=,lego=,lexus=,lgbt=,li=(blogspot+,caa+),lidl=,life=,lifeinsurance=,life',
+    'style=,lighting=,like=,lilly=,limited=,limo=,lincoln=,linde=,link=(cyon+,dweb(*+),mypep+),lipsy=,liv',
+    'e=(hlx+),living=,lk=(ac=,assn=,com=,edu=,gov=,grp=,hotel=,int=,ltd=,net=,ngo=,org=,sch=,soc=,web=),l',
+    'lc=,llp=,loan=,loans=,locker=,locus=,lol=(omg+),london=,lotte=,lotto=,love=,lpl=,lplfinancial=,lr=(c',
+    'om=,edu=,gov=,net=,org=),ls=(ac=,biz=,co=,de+,edu=,gov=,info=,net=,org=,sc=),lt=(blogspot+,gov=),ltd',
+    '=,ltda=,lu=(123website+,blogspot+),lundbeck=,luxe=,luxury=,lv=(asn=,com=,conf=,edu=,gov=,id=,mil=,ne',
+    't=,org=),ly=(com=,edu=,gov=,id=,med=,net=,org=,plc=,sch=),ma=(ac=,co=,gov=,net=,org=,press=),macys=,',
+    'madrid=,maif=,maison=,makeup=,man=,management=(router+),mango=,map=,market=,marketing=,markets=,marr',
+    'iott=,marshalls=,maserati=,mattel=,mba=,mc=(asso=,tm=),mckinsey=,md=(at+,blogspot+,de+,jp+,to+),me=(',
+    'ac=,barsy+,brasilia+,c66+,co=,daplie+(localhost+),ddns+,diskstation+,dnsfor+,dscloud+,edgestack+,edu',
+    '=,filegear+,filegear-au+,filegear-de+,filegear-gb+,filegear-ie+,filegear-jp+,filegear-sg+,glitch+,go',
+    'v=,hopto+,i234+,its=,loginto+,lohmus+,mcdir+,mcpe+,myds+,net=,nohost+,noip+,org=,priv=,ravendb+,soun',
+    'dcast+,synology+,tcp4+,transip(site+),vp4+,webhop+,wedeploy+,yombo+),med=,media=(framer+),meet=,melb',
+    'ourne=,meme=,memorial=,men=,menu=(barsy+),merckmsd=,mg=(co=,com=,edu=,gov=,mil=,nom=,org=,prd=,tm=),',
+    'mh=,miami=,microsoft=,mil=,mini=,mint=,mit=,mitsubishi=,mk=(blogspot+,com=,edu=,gov=,inf=,name=,net=',
+    ',org=),ml=(com=,edu=,gouv=,gov=,net=,org=,presse=),mlb=,mls=,mm(*=),mma=,mn=(edu=,gov=,nyc+,org=),mo',
+    '=(com=,edu=,gov=,net=,org=),mobi=(barsy+,dscloud+),mobile=,moda=,moe=,moi=,mom=,monash=,money=,monst',
+    'er=,mormon=,mortgage=,moscow=,moto=,motorcycles=,mov=,movie=,mp=(ju+),mq=,mr=(blogspot+,gov=),ms=(co',
+    'm=,edu=,gov=,lab+,minisite+,net=,org=),msd=,mt=(com=(blogspot+),edu=,net=,org=),mtn=,mtr=,mu=(ac=,co',
+    '=,com=,gov=,net=,or=,org=),museum=(academy=,agriculture=,air=,airguard=,alabama=,alaska=,amber=,ambu',
+    'lance=,american=,americana=,americanantiques=,americanart=,amsterdam=,and=,annefrank=,anthro=,anthro',
+    'pology=,antiques=,aquarium=,arboretum=,archaeological=,archaeology=,architecture=,art=,artanddesign=',
+    ',artcenter=,artdeco=,arteducation=,artgallery=,arts=,artsandcrafts=,asmatart=,assassination=,assisi=',
+    ',association=,astronomy=,atlanta=,austin=,australia=,automotive=,aviation=,axis=,badajoz=,baghdad=,b',
+    'ahn=,bale=,baltimore=,barcelona=,baseball=,basel=,baths=,bauern=,beauxarts=,beeldengeluid=,bellevue=',
+    ',bergbau=,berkeley=,berlin=,bern=,bible=,bilbao=,bill=,birdart=,birthplace=,bonn=,boston=,botanical=',
+    ',botanicalgarden=,botanicgarden=,botany=,brandywinevalley=,brasil=,bristol=,british=,britishcolumbia',
+    '=,broadcast=,brunel=,brussel=,brussels=,bruxelles=,building=,burghof=,bus=,bushey=,cadaques=,califor',
+    'nia=,cambridge=,can=,canada=,capebreton=,carrier=,cartoonart=,casadelamoneda=,castle=,castres=,celti',
+    'c=,center=,chattanooga=,cheltenham=,chesapeakebay=,chicago=,children=,childrens=,childrensgarden=,ch',
+    'iropractic=,chocolate=,christiansburg=,cincinnati=,cinema=,circus=,civilisation=,civilization=,civil',
+    'war=,clinton=,clock=,coal=,coastaldefence=,cody=,coldwar=,collection=,colonialwilliamsburg=,colorado',
+    'plateau=,columbia=,columbus=,communication=,communications=,community=,computer=,computerhistory=,co',
+    'ntemporary=,contemporaryart=,convent=,copenhagen=,corporation=,corvette=,costume=,countryestate=,cou',
+    'nty=,crafts=,cranbrook=,creation=,cultural=,culturalcenter=,culture=,cyber=,cymru=,dali=,dallas=,dat',
+    'abase=,ddr=,decorativearts=,delaware=,delmenhorst=,denmark=,depot=,design=,detroit=,dinosaur=,discov',
+    'ery=,dolls=,donostia=,durham=,eastafrica=,eastcoast=,education=,educational=,egyptian=,eisenbahn=,el',
+    'burg=,elvendrell=,embroidery=,encyclopedic=,england=,entomology=,environment=,environmentalconservat',
+    'ion=,epilepsy=,essex=,estate=,ethnology=,exeter=,exhibition=,family=,farm=,farmequipment=,farmers=,f',
+    'armstead=,field=,figueres=,filatelia=,film=,fineart=,finearts=,finland=,flanders=,florida=,force=,fo',
+    'rtmissoula=,fortworth=,foundation=,francaise=,frankfurt=,franziskaner=,freemasonry=,freiburg=,fribou',
+    'rg=,frog=,fundacio=,furniture=,gallery=,garden=,gateway=,geelvinck=,gemological=,geology=,georgia=,g',
+    'iessen=,glas=,glass=,gorge=,grandrapids=,graz=,guernsey=,halloffame=,hamburg=,handson=,harvestcelebr',
+    'ation=,hawaii=,health=,heimatunduhren=,hellas=,helsinki=,hembygdsforbund=,heritage=,histoire=,histor',
+    'ical=,historicalsociety=,historichouses=,historisch=,historisches=,history=,historyofscience=,horolo',
+    'gy=,house=,humanities=,illustration=,imageandsound=,indian=,indiana=,indianapolis=,indianmarket=,int',
+    'elligence=,interactive=,iraq=,iron=,isleofman=,jamison=,jefferson=,jerusalem=,jewelry=,jewish=,jewis',
+    'hart=,jfk=,journalism=,judaica=,judygarland=,juedisches=,juif=,karate=,karikatur=,kids=,koebenhavn=,',
+    'koeln=,kunst=,kunstsammlung=,kunstunddesign=,labor=,labour=,lajolla=,lancashire=,landes=,lans=,larss',
+    'on=,lewismiller=,lincoln=,linz=,living=,livinghistory=,localhistory=,london=,losangeles=,louvre=,loy',
+    'alist=,lucerne=,luxembourg=,luzern=,mad=,madrid=,mallorca=,manchester=,mansion=,mansions=,manx=,marb',
+    'urg=,maritime=,maritimo=,maryland=,marylhurst=,media=,medical=,medizinhistorisches=,meeres=,memorial',
+    '=,mesaverde=,michigan=,midatlantic=,military=,mill=,miners=,mining=,minnesota=,missile=,missoula=,mo',
+    'dern=,moma=,money=,monmouth=,monticello=,montreal=,moscow=,motorcycle=,muenchen=,muenster=,mulhouse=',
+    ',muncie=,museet=,museumcenter=,museumvereniging=,music=,national=,nationalfirearms=,nationalheritage',
+    '=,nativeamerican=,naturalhistory=,naturalhistorymuseum=,naturalsciences=,nature=,naturhistorisches=,',
+    'natuurwetenschappen=,naumburg=,naval=,nebraska=,neues=,newhampshire=,newjersey=,newmexico=,newport=,',
+    'newspaper=,newyork=,niepce=,norfolk=,north=,nrw=,nyc=,nyny=,oceanographic=,oceanographique=,omaha=,o',
+    'nline=,ontario=,openair=,oregon=,oregontrail=,otago=,oxford=,pacific=,paderborn=,palace=,paleo=,palm',
+    'springs=,panama=,paris=,pasadena=,pharmacy=,philadelphia=,philadelphiaarea=,philately=,phoenix=,phot',
+    'ography=,pilots=,pittsburgh=,planetarium=,plantation=,plants=,plaza=,portal=,portland=,portlligat=,p',
+    'osts-and-telecommunications=,preservation=,presidio=,press=,project=,public=,pubol=,quebec=,railroad',
+    '=,railway=,research=,resistance=,riodejaneiro=,rochester=,rockart=,roma=,russia=,saintlouis=,salem=,',
+    'salvadordali=,salzburg=,sandiego=,sanfrancisco=,santabarbara=,santacruz=,santafe=,saskatchewan=,satx',
+    '=,savannahga=,schlesisches=,schoenbrunn=,schokoladen=,school=,schweiz=,science=,science-fiction=,sci',
+    'enceandhistory=,scienceandindustry=,sciencecenter=,sciencecenters=,sciencehistory=,sciences=,science',
+    'snaturelles=,scotland=,seaport=,settlement=,settlers=,shell=,sherbrooke=,sibenik=,silk=,ski=,skole=,',
+    'society=,sologne=,soundandvision=,southcarolina=,southwest=,space=,spy=,square=,stadt=,stalbans=,sta',
+    'rnberg=,state=,stateofdelaware=,station=,steam=,steiermark=,stjohn=,stockholm=,stpetersburg=,stuttga',
+    'rt=,suisse=,surgeonshall=,surrey=,svizzera=,sweden=,sydney=,tank=,tcm=,technology=,telekommunikation',
+    '=,television=,texas=,textile=,theater=,time=,timekeeping=,topology=,torino=,touch=,town=,transport=,',
+    'tree=,trolley=,trust=,trustee=,uhren=,ulm=,undersea=,university=,usa=,usantiques=,usarts=,uscountrye',
+    'state=,usculture=,usdecorativearts=,usgarden=,ushistory=,ushuaia=,uslivinghistory=,utah=,uvic=,valle',
+    'y=,vantaa=,versailles=,viking=,village=,virginia=,virtual=,virtuel=,vlaanderen=,volkenkunde=,wales=,',
+    'wallonie=,war=,washingtondc=,watch-and-clock=,watchandclock=,western=,westfalen=,whaling=,wildlife=,',
+    'williamsburg=,windmill=,workshop=,xn--9dbhblg6di=,xn--comunicaes-v6a2o=,xn--correios-e-telecomunicae',
+    's-ghc29a=,xn--h1aegh=,xn--lns-qla=,york=,yorkshire=,yosemite=,youth=,zoological=,zoology=),music=,mu',
+    'tual=,mv=(aero=,biz=,com=,coop=,edu=,gov=,info=,int=,mil=,museum=,name=,net=,org=,pro=),mw=(ac=,biz=',
+    ',co=,com=,coop=,edu=,gov=,int=,museum=,net=,org=),mx=(blogspot+,com=,edu=,gob=,net=,org=),my=(biz=,b',
+    'logspot+,com=,edu=,gov=,mil=,name=,net=,org=),mz=(ac=,adv=,co=,edu=,gov=,mil=,net=,org=),na=(ca=,cc=',
+    ',co=,com=,dr=,in=,info=,mobi=,mx=,name=,or=,org=,pro=,school=,tv=,us=,ws=),nab=,nagoya=,name=(her(fo',
+    'rgot+),his(forgot+)),natura=,navy=,nba=,nc=(asso=,nom=),ne=,nec=,net=(adobeaemcloud+,adobeio-static+',
+    ',adobeioruntime+,akadns+,akamai+,akamai-staging+,akamaiedge+,akamaiedge-staging+,akamaihd+,akamaihd-',
+    'staging+,akamaiorigin+,akamaiorigin-staging+,akamaized+,akamaized-staging+,alwaysdata+,appudo+,at-ba',
+    'nd-camp+,atlassian-dev(prod(cdn+)),azure-mobile+,azurestaticapps+(1+,2+,centralus+,eastasia+,eastus2',
+    '+,westeurope+,westus2+),azurewebsites+,bar0+,bar1+,bar2+,barsy+,bitbridge+,blackbaudcdn+,blogdns+,bo',
+    'omla+,bounceme+,bplaced+,broke-it+,buyshouses+,casacam+,cdn-edges+,cdn77(r+),cdn77-ssl+,channelsdvr+',
+    '(u+),clickrising+,cloudaccess+,cloudapp+,cloudfront+,cloudfunctions+,cloudjiffy+(fra1-de+,west1-us+)',
+    ',cloudycluster+,community-pro+,cryptonomic(*+),dattolocal+,ddns+,debian+,definima+,dnsalias+,dnsdojo',
+    '+,dnsup+,does-it+,dontexist+,dsmynas+,dynalias+,dynathome+,dynu+,dynv6+,eating-organic+,edgeapp+,edg',
+    'ekey+,edgekey-staging+,edgesuite+,edgesuite-staging+,elastx(jls-sto1+,jls-sto2+,jls-sto3+),endofinte',
+    'rnet+,familyds+,fastly(freetls+,map+,prod(a+,global+),ssl(a+,b+,global+)),fastlylb+(map+),faststacks',
+    '+,feste-ip+,firewall-gateway+,flynnhosting+,from-az+,from-co+,from-la+,from-ny+,gb+,gets-it+,ham-rad',
+    'io-op+,heteml+,hicam+,homeftp+,homeip+,homelinux+,homeunix+,hu+,in+,in-dsl+,in-the-band+,in-vpn+,iob',
+    'b+,ipifony+,is-a-chef+,is-a-geek+,isa-geek+,jp+,kicks-ass+,kinghost+,knx-server+,krellian+,massivegr',
+    'id(paas(fr-1+,lon-1+,lon-2+,ny-1+,ny-2+,sg-1+)),meinforum+,memset+,moonscale+,myamaze+,mydatto+,mydi',
+    'ssent+,myeffect+,myfritz+,mymediapc+,mypsx+,mysecuritycamera+,myspreadshop+,nhlfan+,no-ip+,now-dns+,',
+    'office-on-the+,onavstack+,ovh(hosting(*+),webpaas(*+)),ownip+,pgafan+,podzone+,privatizehealthinsura',
+    'nce+,rackmaze+,redirectme+,reserve-online+,ru+,saveincloud(jelastic+,nordeste-idc+),scaleforce(j+),s',
+    'chokokeks+,scrapper-site+,se+,seidat+,selfip+,sells-it+,senseering+,servebbs+,serveblog+,serveftp+,s',
+    'erveminecraft+,shopselect+,siteleaf+,square7+,srcf(soc+,user+),static-access+,supabase+,sytes+,t3l3p',
+    '0rt+,tailscale(beta+),thruhere+,torproject+(pages+),ts+,tsukaeru(jelastic+),twmail+,uk+,uni5+,vpndns',
+    '+,vps-host+(jelastic(atl+,njs+,ric+)),webhop+,yandexcloud+(storage+,website+),za+),netbank=,netflix=',
+    ',network=(alces(*+),arvo+,azimuth+,co+,tlon+),neustar=,new=,news=(noticeable+),next=,nextdirect=,nex',
+    'us=,nf=(arts=,com=,firm=,info=,net=,other=,per=,rec=,store=,web=),nfl=,ng=(col+,com=(blogspot+),edu=',
+    ',firm+,gen+,gov=,i=,ltd+,mil=,mobi=,name=,net=,ngo+,org=,sch=),ngo=,nhk=,ni=(ac=,biz=,co=,com=,edu=,',
+    'gob=,in=,info=,int=,mil=,net=,nom=,org=,web=),nico=,nike=,nikon=,ninja=,nissan=,nissay=,nl=(123websi',
+    'te+,blogspot+,cistron+,co+,demon+,gov+,hosting-cluster+,khplay+,myspreadshop+,transurl(*+)),no=(123h',
+    'jemmeside+,aa=(gs=),aarborte=,aejrie=,afjord=,agdenes=,ah=(gs=),akershus(nes=),aknoluokta=,akrehamn=',
+    ',al=,alaheadju=,alesund=,algard=,alstahaug=,alta=,alvdal=,amli=,amot=,andasuolo=,andebu=,andoy=,arda',
+    'l=,aremark=,arendal=,arna=,aseral=,asker=,askim=,askoy=,askvoll=,asnes=,audnedaln=,aukra=,aure=,aurl',
+    'and=,aurskog-holand=,austevoll=,austrheim=,averoy=,badaddja=,bahcavuotna=,bahccavuotna=,baidar=,bajd',
+    'dar=,balat=,balestrand=,ballangen=,balsfjord=,bamble=,bardu=,barum=,batsfjord=,bearalvahki=,beardu=,',
+    'beiarn=,berg=,bergen=,berlevag=,bievat=,bindal=,birkenes=,bjarkoy=,bjerkreim=,bjugn=,blogspot+,bodo=',
+    ',bokn=,bomlo=,bremanger=,bronnoy=,bronnoysund=,brumunddal=,bryne=,bu=(gs=),budejju=,buskerud(nes=),b',
+    'ygland=,bykle=,cahcesuolo=,co+,davvenjarga=,davvesiida=,deatnu=,dep=,dielddanuorri=,divtasvuodna=,di',
+    'vttasvuotna=,donna=,dovre=,drammen=,drangedal=,drobak=,dyroy=,egersund=,eid=,eidfjord=,eidsberg=,eid',
+    'skog=,eidsvoll=,eigersund=,elverum=,enebakk=,engerdal=,etne=,etnedal=,evenassi=,evenes=,evje-og-horn',
+    'nes=,farsund=,fauske=,fedje=,fet=,fetsund=,fhs=,finnoy=,fitjar=,fjaler=,fjell=,fla=,flakstad=,flatan',
+    'ger=,flekkefjord=,flesberg=,flora=,floro=,fm=(gs=),folkebibl=,folldal=,forde=,forsand=,fosnes=,frana',
+    '=,fredrikstad=,frei=,frogn=,froland=,frosta=,froya=,fuoisku=,fuossko=,fusa=,fylkesbibl=,fyresdal=,ga',
+    'ivuotna=,galsa=,gamvik=,gangaviika=,gaular=,gausdal=,giehtavuoatna=,gildeskal=,giske=,gjemnes=,gjerd',
+    'rum=,gjerstad=,gjesdal=,gjovik=,gloppen=,gol=,gran=,grane=,granvin=,gratangen=,grimstad=,grong=,grue',
+    '=,gulen=,guovdageaidnu=,ha=,habmer=,hadsel=,hagebostad=,halden=,halsa=,hamar=,hamaroy=,hammarfeasta=',
+    ',hammerfest=,hapmir=,haram=,hareid=,harstad=,hasvik=,hattfjelldal=,haugesund=,hedmark(os=,valer=,xn-',
+    '-vler-qoa=),hemne=,hemnes=,hemsedal=,herad=,hitra=,hjartdal=,hjelmeland=,hl=(gs=),hm=(gs=),hobol=,ho',
+    'f=,hokksund=,hol=,hole=,holmestrand=,holtalen=,honefoss=,hordaland(os=),hornindal=,horten=,hoyanger=',
+    ',hoylandet=,hurdal=,hurum=,hvaler=,hyllestad=,ibestad=,idrett=,inderoy=,iveland=,ivgu=,jan-mayen=(gs',
+    '=),jessheim=,jevnaker=,jolster=,jondal=,jorpeland=,kafjord=,karasjohka=,karasjok=,karlsoy=,karmoy=,k',
+    'autokeino=,kirkenes=,klabu=,klepp=,kommune=,kongsberg=,kongsvinger=,kopervik=,kraanghke=,kragero=,kr',
+    'istiansand=,kristiansund=,krodsherad=,krokstadelva=,kvafjord=,kvalsund=,kvam=,kvanangen=,kvinesdal=,',
+    'kvinnherad=,kviteseid=,kvitsoy=,laakesvuemie=,lahppi=,langevag=,lardal=,larvik=,lavagis=,lavangen=,l',
+    'eangaviika=,lebesby=,leikanger=,leirfjord=,leirvik=,leka=,leksvik=,lenvik=,lerdal=,lesja=,levanger=,',
+    'lier=,lierne=,lillehammer=,lillesand=,lindas=,lindesnes=,loabat=,lodingen=,lom=,loppa=,lorenskog=,lo',
+    'ten=,lund=,lunner=,luroy=,luster=,lyngdal=,lyngen=,malatvuopmi=,malselv=,malvik=,mandal=,marker=,mar',
+    'nardal=,masfjorden=,masoy=,matta-varjjat=,meland=,meldal=,melhus=,meloy=,meraker=,midsund=,midtre-ga',
+    'uldal=,mil=,mjondalen=,mo-i-rana=,moareke=,modalen=,modum=,molde=,more-og-romsdal(heroy=,sande=),mos',
+    'joen=,moskenes=,moss=,mosvik=,mr=(gs=),muosat=,museum=,myspreadshop+,naamesjevuemie=,namdalseid=,nam',
+    'sos=,namsskogan=,nannestad=,naroy=,narviika=,narvik=,naustdal=,navuotna=,nedre-eiker=,nesna=,nesodde',
+    'n=,nesoddtangen=,nesseby=,nesset=,nissedal=,nittedal=,nl=(gs=),nord-aurdal=,nord-fron=,nord-odal=,no',
+    'rddal=,nordkapp=,nordland(bo=,heroy=,xn--b-5ga=,xn--hery-ira=),nordre-land=,nordreisa=,nore-og-uvdal',
+    '=,notodden=,notteroy=,nt=(gs=),odda=,of=(gs=),oksnes=,ol=(gs=),omasvuotna=,oppdal=,oppegard=,orkange',
+    'r=,orkdal=,orland=,orskog=,orsta=,osen=,oslo=(gs=),osoyro=,osteroy=,ostfold(valer=),ostre-toten=,ove',
+    'rhalla=,ovre-eiker=,oyer=,oygarden=,oystre-slidre=,porsanger=,porsangu=,porsgrunn=,priv=,rade=,radoy',
+    '=,rahkkeravju=,raholt=,raisa=,rakkestad=,ralingen=,rana=,randaberg=,rauma=,rendalen=,rennebu=,rennes',
+    'oy=,rindal=,ringebu=,ringerike=,ringsaker=,risor=,rissa=,rl=(gs=),roan=,rodoy=,rollag=,romsa=,romsko',
+    'g=,roros=,rost=,royken=,royrvik=,ruovat=,rygge=,salangen=,salat=,saltdal=,samnanger=,sandefjord=,san',
+    'dnes=,sandnessjoen=,sandoy=,sarpsborg=,sauda=,sauherad=,sel=,selbu=,selje=,seljord=,sf=(gs=),siellak',
+    '=,sigdal=,siljan=,sirdal=,skanit=,skanland=,skaun=,skedsmo=,skedsmokorset=,ski=,skien=,skierva=,skip',
+    'tvet=,skjak=,skjervoy=,skodje=,slattum=,smola=,snaase=,snasa=,snillfjord=,snoasa=,sogndal=,sogne=,so',
+    'kndal=,sola=,solund=,somna=,sondre-land=,songdalen=,sor-aurdal=,sor-fron=,sor-odal=,sor-varanger=,so',
+    'rfold=,sorreisa=,sortland=,sorum=,spjelkavik=,spydeberg=,st=(gs=),stange=,stat=,stathelle=,stavanger',
+    '=,stavern=,steigen=,steinkjer=,stjordal=,stjordalshalsen=,stokke=,stor-elvdal=,stord=,stordal=,storf',
+    'jord=,strand=,stranda=,stryn=,sula=,suldal=,sund=,sunndal=,surnadal=,svalbard=(gs=),sveio=,svelvik=,',
+    'sykkylven=,tana=,tananger=,telemark(bo=,xn--b-5ga=),time=,tingvoll=,tinn=,tjeldsund=,tjome=,tm=(gs=)',
+    ',tokke=,tolga=,tonsberg=,torsken=,tr=(gs=),trana=,tranby=,tranoy=,troandin=,trogstad=,tromsa=,tromso',
+    '=,trondheim=,trysil=,tvedestrand=,tydal=,tynset=,tysfjord=,tysnes=,tysvar=,ullensaker=,ullensvang=,u',
+    'lvik=,unjarga=,utsira=,va=(gs=),vaapste=,vadso=,vaga=,vagan=,vagsoy=,vaksdal=,valle=,vang=,vanylven=',
+    ',vardo=,varggat=,varoy=,vefsn=,vega=,vegarshei=,vennesla=,verdal=,verran=,vestby=,vestfold(sande=),v',
+    'estnes=,vestre-slidre=,vestre-toten=,vestvagoy=,vevelstad=,vf=(gs=),vgs=,vik=,vikna=,vindafjord=,voa',
+    'gat=,volda=,voss=,vossevangen=,xn--andy-ira=,xn--asky-ira=,xn--aurskog-hland-jnb=,xn--avery-yua=,xn-',
+    '-bdddj-mrabd=,xn--bearalvhki-y4a=,xn--berlevg-jxa=,xn--bhcavuotna-s4a=,xn--bhccavuotna-k7a=,xn--bidr',
+    '-5nac=,xn--bievt-0qa=,xn--bjarky-fya=,xn--bjddar-pta=,xn--blt-elab=,xn--bmlo-gra=,xn--bod-2na=,xn--b',
+    'rnny-wuac=,xn--brnnysund-m8ac=,xn--brum-voa=,xn--btsfjord-9za=,xn--davvenjrga-y4a=,xn--dnna-gra=,xn-',
+    '-drbak-wua=,xn--dyry-ira=,xn--eveni-0qa01ga=,xn--finny-yua=,xn--fjord-lra=,xn--fl-zia=,xn--flor-jra=',
+    ',xn--frde-gra=,xn--frna-woa=,xn--frya-hra=,xn--ggaviika-8ya47h=,xn--gildeskl-g0a=,xn--givuotna-8ya=,',
+    'xn--gjvik-wua=,xn--gls-elac=,xn--h-2fa=,xn--hbmer-xqa=,xn--hcesuolo-7ya35b=,xn--hgebostad-g3a=,xn--h',
+    'mmrfeasta-s4ac=,xn--hnefoss-q1a=,xn--hobl-ira=,xn--holtlen-hxa=,xn--hpmir-xqa=,xn--hyanger-q1a=,xn--',
+    'hylandet-54a=,xn--indery-fya=,xn--jlster-bya=,xn--jrpeland-54a=,xn--karmy-yua=,xn--kfjord-iua=,xn--k',
+    'lbu-woa=,xn--koluokta-7ya57h=,xn--krager-gya=,xn--kranghke-b0a=,xn--krdsherad-m8a=,xn--krehamn-dxa=,',
+    'xn--krjohka-hwab49j=,xn--ksnes-uua=,xn--kvfjord-nxa=,xn--kvitsy-fya=,xn--kvnangen-k0a=,xn--l-1fa=,xn',
+    '--laheadju-7ya=,xn--langevg-jxa=,xn--ldingen-q1a=,xn--leagaviika-52b=,xn--lesund-hua=,xn--lgrd-poac=',
+    ',xn--lhppi-xqa=,xn--linds-pra=,xn--loabt-0qa=,xn--lrdal-sra=,xn--lrenskog-54a=,xn--lt-liac=,xn--lten',
+    '-gra=,xn--lury-ira=,xn--mely-ira=,xn--merker-kua=,xn--mjndalen-64a=,xn--mlatvuopmi-s4a=,xn--mli-tla=',
+    ',xn--mlselv-iua=,xn--moreke-jua=,xn--mosjen-eya=,xn--mot-tla=,xn--mre-og-romsdal-qqb(sande=,xn--hery',
+    '-ira=),xn--msy-ula0h=,xn--mtta-vrjjat-k7af=,xn--muost-0qa=,xn--nmesjevuemie-tcba=,xn--nry-yla5g=,xn-',
+    '-nttery-byae=,xn--nvuotna-hwa=,xn--oppegrd-ixa=,xn--ostery-fya=,xn--osyro-wua=,xn--porsgu-sta26f=,xn',
+    '--rady-ira=,xn--rdal-poa=,xn--rde-ula=,xn--rdy-0nab=,xn--rennesy-v1a=,xn--rhkkervju-01af=,xn--rholt-',
+    'mra=,xn--risa-5na=,xn--risr-ira=,xn--rland-uua=,xn--rlingen-mxa=,xn--rmskog-bya=,xn--rros-gra=,xn--r',
+    'skog-uua=,xn--rst-0na=,xn--rsta-fra=,xn--ryken-vua=,xn--ryrvik-bya=,xn--s-1fa=,xn--sandnessjen-ogb=,',
+    'xn--sandy-yua=,xn--seral-lra=,xn--sgne-gra=,xn--skierv-uta=,xn--skjervy-v1a=,xn--skjk-soa=,xn--sknit',
+    '-yqa=,xn--sknland-fxa=,xn--slat-5na=,xn--slt-elab=,xn--smla-hra=,xn--smna-gra=,xn--snase-nra=,xn--sn',
+    'dre-land-0cb=,xn--snes-poa=,xn--snsa-roa=,xn--sr-aurdal-l8a=,xn--sr-fron-q1a=,xn--sr-odal-q1a=,xn--s',
+    'r-varanger-ggb=,xn--srfold-bya=,xn--srreisa-q1a=,xn--srum-gra=,xn--stfold-9xa(xn--vler-qoa=),xn--stj',
+    'rdal-s1a=,xn--stjrdalshalsen-sqb=,xn--stre-toten-zcb=,xn--tjme-hra=,xn--tnsberg-q1a=,xn--trany-yua=,',
+    'xn--trgstad-r1a=,xn--trna-woa=,xn--troms-zua=,xn--tysvr-vra=,xn--unjrga-rta=,xn--vads-jra=,xn--vard-',
+    'jra=,xn--vegrshei-c0a=,xn--vestvgy-ixa6o=,xn--vg-yiab=,xn--vgan-qoa=,xn--vgsy-qoa0j=,xn--vre-eiker-k',
+    '8a=,xn--vrggt-xqad=,xn--vry-yla5g=,xn--yer-zna=,xn--ygarden-p1a=,xn--ystre-slidre-ujb=),nokia=,north',
+    'westernmutual=,norton=,now=,nowruz=,nowtv=,np(*=),nr=(biz=,com=,edu=,gov=,info=,net=,org=),nra=,nrw=',
+    ',ntt=,nu=(enterprisecloud+,merseine+,mine+,shacknet+),nyc=,nz=(ac=,co=(blogspot+),cri=,geek=,gen=,go',
+    'vt=,health=,iwi=,kiwi=,maori=,mil=,net=,org=,parliament=,school=,xn--mori-qsa=),obi=,observer=,offic',
+    'e=,okinawa=,olayan=,olayangroup=,oldnavy=,ollo=,om=(co=,com=,edu=,gov=,med=,museum=,net=,org=,pro=),',
+    'omega=,one=(homelink+,onred+(staging+),service+),ong=,onion=,onl=,online=(barsy+,eero+,eero-stage+),',
+    'ooo=,open=,oracle=,orange=(tech+),org=(accesscam+,ae+,altervista+,amune(tele+),barsy+,blogdns+,blogs',
+    'ite+,bmoattachments+,boldlygoingnowhere+,cable-modem+,camdvr+,cdn77(c+,rsc+),cdn77-secure(origin(ssl',
+    '+)),certmgr+,cloudns+,collegefan+,couchpotatofries+,ddnss+,diskstation+,dnsalias+,dnsdojo+,doesntexi',
+    'st+,dontexist+,doomdns+,dsmynas+,duckdns+,dvrdns+,dynalias+,dyndns+(go+,home+),dynserv+,endofinterne',
+    't+,endoftheinternet+,eu+(al+,asso+,at+,au+,be+,bg+,ca+,cd+,ch+,cn+,cy+,cz+,de+,dk+,edu+,ee+,es+,fi+,',
+    'fr+,gr+,hr+,hu+,ie+,il+,in+,int+,is+,it+,jp+,kr+,lt+,lu+,lv+,mc+,me+,mk+,mt+,my+,net+,ng+,nl+,no+,nz',
+    '+,paris+,pl+,pt+,q-a+,ro+,ru+,se+,si+,sk+,tr+,uk+,us+),familyds+,fedorainfracloud+,fedorapeople+,fed',
+    'oraproject(cloud+,os(app+),stg(os(app+))),freeddns+,freedesktop+,from-me+,game-host+,gotdns+,hepforg',
+    'e+,hk+,hobby-site+,homedns+,homeftp+,homelinux+,homeunix+,hopto+,httpbin+,in-dsl+,in-vpn+,is-a-bruin',
+    'sfan+,is-a-candidate+,is-a-celticsfan+,is-a-chef+,is-a-geek+,is-a-knight+,is-a-linux-user+,is-a-pats',
+    'fan+,is-a-soxfan+,is-found+,is-lost+,is-saved+,is-very-bad+,is-very-evil+,is-very-good+,is-very-nice',
+    '+,is-very-sweet+,isa-geek+,js+,kicks-ass+,mayfirst+,misconfused+,mlbfan+,mozilla-iot+,my-firewall+,m',
+    'yfirewall+,myftp+,mysecuritycamera+,mywire+,nflfan+,no-ip+,now-dns+,pimienta+,podzone+,poivron+,pota',
+    'ger+,pubtls+,read-books+,readmyblog+,selfip+,sellsyourhome+,servebbs+,serveftp+,servegame+,small-web',
+    '+,spdns+,stuff-4-sale+,sweetpepper+,teckids(s3+),toolforge+,tunk+,tuxfamily+,twmail+,ufcfan+,us+,web',
+    'hop+,webredirect+,wmcloud+,wmflabs+,za+,zapto+),organic=,origins=,osaka=,otsuka=,ott=,ovh=(nerdpol+)',
+    ',pa=(abo=,ac=,com=,edu=,gob=,ing=,med=,net=,nom=,org=,sld=),page=(codeberg+,hlx+,hlx3+,magnet+,pdns+',
+    ',plesk+,prvcy+,rocky+,translated+),panasonic=,paris=,pars=,partners=,parts=,party=(ybo+),passagens=,',
+    'pay=,pccw=,pe=(blogspot+,com=,edu=,gob=,mil=,net=,nom=,org=),pet=,pf=(com=,edu=,org=),pfizer=,pg(*=)',
+    ',ph=(com=,edu=,gov=,i=,mil=,net=,ngo=,org=),pharmacy=,phd=,philips=,phone=,photo=,photography=,photo',
+    's=(framer+),physio=,pics=,pictet=,pictures=(1337+),pid=,pin=,ping=,pink=,pioneer=,pizza=,pk=(biz=,co',
+    'm=,edu=,fam=,gob=,gok=,gon=,gop=,gos=,gov=,info=,net=,org=,web=),pl=(agro=,aid=,art+,atm=,augustow=,',
+    'auto=,babia-gora=,bedzin=,beep+,beskidy=,bialowieza=,bialystok=,bielawa=,bieszczady=,biz=,boleslawie',
+    'c=,bydgoszcz=,bytom=,cieszyn=,co+,com=,czeladz=,czest=,dlugoleka=,ecommerce-shop+,edu=,elblag=,elk=,',
+    'gda+,gdansk+,gdynia+,gliwice+,glogow=,gmina=,gniezno=,gorlice=,gov=(ap=,griw=,ic=,is=,kmpsp=,konsula',
+    't=,kppsp=,kwp=,kwpsp=,mup=,mw=,oirm=,oum=,pa=,pinb=,piw=,po=,psp=,psse=,pup=,rzgw=,sa=,sdn=,sko=,so=',
+    ',sr=,starostwo=,ug=,ugim=,um=,umig=,upow=,uppo=,us=,uw=,uzs=,wif=,wiih=,winb=,wios=,witd=,wiw=,wsa=,',
+    'wskr=,wuoz=,wzmiuw=,zp=),grajewo=,gsm=,homesklep+,ilawa=,info=,jaworzno=,jelenia-gora=,jgora=,kalisz',
+    '=,karpacz=,kartuzy=,kaszuby=,katowice=,kazimierz-dolny=,kepno=,ketrzyn=,klodzko=,kobierzyce=,kolobrz',
+    'eg=,konin=,konskowola=,krakow+,krasnik+,kutno=,lapy=,lebork=,leczna+,legnica=,lezajsk=,limanowa=,lom',
+    'za=,lowicz=,lubartow+,lubin=,lublin+,lukow=,mail=,malbork=,malopolska=,mazowsze=,mazury=,med+,media=',
+    ',miasta=,mielec=,mielno=,mil=,mragowo=,myspreadshop+,naklo=,net=,nieruchomosci=,nom=,nowaruda=,nysa=',
+    ',olawa=,olecko=,olkusz=,olsztyn=,opoczno=,opole=,org=,ostroda=,ostroleka=,ostrowiec=,ostrowwlkp=,pc=',
+    ',pila=,pisz=,podhale=,podlasie=,polkowice=,pomorskie=,pomorze=,poniatowa+,powiat=,poznan+,priv=,proc',
+    'howice=,pruszkow=,przeworsk=,pulawy=,radom=,rawa-maz=,realestate=,rel=,rybnik=,rzeszow=,sanok=,sdscl',
+    'oud+,sejny=,sex=,shop=,shoparena+,simplesite+,sklep=,skoczow=,slask=,slupsk=,sopot+,sos=,sosnowiec=,',
+    'stalowa-wola=,starachowice=,stargard=,suwalki=,swidnica=,swidnik+,swiebodzin=,swinoujscie=,szczecin=',
+    ',szczytno=,szkola=,targi=,tarnobrzeg=,tgory=,tm=,tourism=,travel=,turek=,turystyka=,tychy=,unicloud+',
+    ',ustka=,walbrzych=,warmia=,warszawa=,waw=,wegrow=,wielun=,wlocl=,wloclawek=,wodzislaw=,wolomin=,wroc',
+    '+,wroclaw=,zachpomor=,zagan=,zakopane+,zarow=,zgora=,zgorzelec=),place=(co+),play=,playstation=,plum',
+    'bing=,plus=,pm=(name+,own+),pn=(co=,edu=,gov=,net=,org=),pnc=,pohl=,poker=,politie=,porn=(indie+),po',
+    'st=,pr=(ac=,biz=,com=,edu=,est=,gov=,info=,isla=,name=,net=,org=,pro=,prof=),pramerica=,praxi=,press',
+    '=,prime=,pro=(aaa=,aca=,acct=,avocat=,bar=,barsy+,cloudns+,cpa=,dnstrace(bci+),eng=,jur=,law=,med=,r',
+    'echt=),prod=,productions=,prof=,progressive=,promo=,properties=,property=,protection=,pru=,prudentia',
+    'l=,ps=(com=,edu=,gov=,net=,org=,plo=,sec=),pt=(123paginaweb+,blogspot+,com=,edu=,gov=,int=,net=,nome',
+    '=,org=,publ=),pub=(barsy+),pw=(belau=,cloudns+,co=,ed=,go=,ne=,or=,x443+),pwc=,py=(com=,coop=,edu=,g',
+    'ov=,mil=,net=,org=),qa=(blogspot+,com=,edu=,gov=,mil=,name=,net=,org=,sch=),qpon=,quebec=,quest=,rac',
+    'ing=,radio=,re=(asso=,blogspot+,com=,nom=),read=,realestate=,realtor=,realty=,recipes=,red=,redstone',
+    '=,redumbrella=,rehab=,reise=,reisen=,reit=,reliance=,ren=,rent=,rentals=,repair=,report=,republican=',
+    ',rest=,restaurant=,review=(ybo+),reviews=,rexroth=,rich=,richardli=,ricoh=,ril=,rio=,rip=(clan+),ro=',
+    '(arts=,barsy+,blogspot+,co+,com=,firm=,info=,nom=,nt=,org=,rec=,shop+,store=,tm=,www=),rocher=,rocks',
+    '=(lima-city+,myddns+,webspace+),rodeo=,rogers=,room=,rs=(ac=,blogspot+,brendly(shop+),co=,edu=,gov=,',
+    'in=,org=,ox+,ua+),rsvp=,ru=(123sait+,ac+,adygeya+,bashkiria+,bir+,blogspot+,cbg+,cldmail(hb+),com+,d',
+    'agestan+,edu+,eurodir+,gov+,grozny+,int+,kalmykia+,kustanai+,lk3+,marine+,mcdir+(vps+),mcpre+,mil+,m',
+    'ircloud+,mordovia+,msk+,myjino+(hosting(*+),landing(*+),spectrum(*+),vps(*+)),mytis+,na4u+,nalchik+,',
+    'net+,nov+,org+,pp+,pyatigorsk+,ras+,regruhosting(jelastic+),spb+,test+,vladikavkaz+,vladimir+),rugby',
+    '=,ruhr=,run=(build(*+),code(*+),database(*+),development+,hs+,migration(*+),onporter+,ravendb+,repl+',
+    ',servers+),rw=(ac=,co=,coop=,gov=,mil=,net=,org=),rwe=,ryukyu=,sa=(com=,edu=,gov=,med=,net=,org=,pub',
+    '=,sch=),saarland=,safe=,safety=,sakura=,sale=,salon=,samsclub=,samsung=,sandvik=,sandvikcoromant=,sa',
+    'nofi=,sap=,sarl=,sas=,save=,saxo=,sb=(com=,edu=,gov=,net=,org=),sbi=,sbs=,sc=(com=,edu=,gov=,net=,or',
+    'g=),sca=,scb=,schaeffler=,schmidt=,scholarships=,school=,schule=,schwarz=,science=(ybo+),scot=(edu+,',
+    'gov+(service+)),sd=(com=,edu=,gov=,info=,med=,net=,org=,tv=),se=(123minsida+,a=,ac=,b=,bd=,blogspot+',
+    ',brand=,c=,com+,conf+,d=,e=,f=,fh=,fhsk=,fhv=,g=,h=,i=,iopsys+,itcouldbewor+,k=,komforb=,kommunalfor',
+    'bund=,komvux=,l=,lanbib=,m=,myspreadshop+,n=,naturbruksgymn=,o=,org=,p=,paba(su+),parti=,pp=,press=,',
+    'r=,s=,t=,tm=,u=,w=,x=,y=,z=),search=,seat=,secure=,security=,seek=,select=,sener=,services=(loginlin',
+    'e+),seven=,sew=,sex=,sexy=,sfr=,sg=(blogspot+,com=,edu=,enscaled+,gov=,net=,org=,per=),sh=(bip+,com=',
+    ',gov=,hashbang+,mil=,net=,now+,org=,platform(bc+,ent+,eu+,us+),vxl+,wedeploy+),shangrila=,sharp=,sha',
+    'w=,shell=,shia=,shiksha=,shoes=,shop=(barsy+,base+,hoplix+),shopping=,shouji=,show=,showtime=,si=(bl',
+    'ogspot+,gitapp+,gitpage+),silk=,sina=,singles=,site=(barsy+,byen+,cloudera(*+),cyon+,fastvps+,fnwk+,',
+    'folionetwork+,jele+,lelux+,loginline+,mintere+,novecore+,omniwe+,opensocial+,platformsh(*+),srht+,ts',
+    't(*+)),sj=,sk=(blogspot+),ski=,skin=,sky=,skype=,sl=(com=,edu=,gov=,net=,org=),sling=,sm=,smart=,smi',
+    'le=,sn=(art=,blogspot+,com=,edu=,gouv=,org=,perso=,univ=),sncf=,so=(com=,edu=,gov=,me=,net=,org=,sch',
+    '+),soccer=,social=,softbank=,software=,sohu=,solar=,solutions=(diher(*+)),song=,sony=,soy=,spa=,spac',
+    'e=(myfast+,uber+,xs4all+),sport=,spot=,sr=,srl=,ss=(biz=,com=,edu=,gov=,me=,net=,org=,sch=),st=(co=,',
+    'com=,consulado=,edu=,embaixada=,mil=,net=,noho+,org=,principe=,saotome=,store=),stada=,staples=,star',
+    '=,statebank=,statefarm=,stc=,stcgroup=,stockholm=,storage=,store=(sellfy+,shopware+,storebase+),stre',
+    'am=,studio=,study=,style=,su=(abkhazia+,adygeya+,aktyubinsk+,arkhangelsk+,armenia+,ashgabad+,azerbai',
+    'jan+,balashov+,bashkiria+,bryansk+,bukhara+,chimkent+,dagestan+,east-kazakhstan+,exnet+,georgia+,gro',
+    'zny+,ivanovo+,jambyl+,kalmykia+,kaluga+,karacol+,karaganda+,karelia+,khakassia+,krasnodar+,kurgan+,k',
+    'ustanai+,lenug+,mangyshlak+,mordovia+,msk+,murmansk+,nalchik+,navoi+,north-kazakhstan+,nov+,obninsk+',
+    ',penza+,pokrovsk+,sochi+,spb+,tashkent+,termez+,togliatti+,troitsk+,tselinograd+,tula+,tuva+,vladika',
+    'vkaz+,vladimir+,vologda+),sucks=,supplies=,supply=,support=(barsy+),surf=,surgery=,suzuki=,sv=(com=,',
+    'edu=,gob=,org=,red=),swatch=,swiss=,sx=(gov=),sy=(com=,edu=,gov=,mil=,net=,org=),sydney=,systems=(kn',
+    'ightpoint+),sz=(ac=,co=,org=),tab=,taipei=,talk=,taobao=,target=,tatamotors=,tatar=,tattoo=,tax=,tax',
+    'i=,tc=(ch+,me+,we+),tci=,td=(blogspot+),tdk=,team=(discourse+,jelastic+),tech=,technology=(co+),tel=',
+    ',temasek=,tennis=,teva=,tf=(sch+),tg=,th=(ac=,co=,go=,in=,mi=,net=,online+,or=,shop+),thd=,theater=,',
+    'theatre=,tiaa=,tickets=,tienda=,tiffany=,tips=,tires=,tirol=,tj=(ac=,biz=,co=,com=,edu=,go=,gov=,int',
+    '=,mil=,name=,net=,nic=,org=,test=,web=),tjmaxx=,tjx=,tk=,tkmaxx=,tl=(gov=),tm=(co=,com=,edu=,gov=,mi',
+    'l=,net=,nom=,org=),tmall=,tn=(com=,ens=,fin=,gov=,ind=,info=,intl=,mincom=,nat=,net=,orangecloud+,or',
+    'g=,perso=,tourism=),to=(611+,com=,edu=,gov=,mil=,net=,nyan+,org=,oya+,quickconnect(direct+),rdv+,vpn',
+    'plus+),today=(prequalifyme+),tokyo=,tools=,top=(now-dns+,ntdll+),toray=,toshiba=,total=,tours=,town=',
+    ',toyota=,toys=,tr=(av=,bbs=,bel=,biz=,com=(blogspot+),dr=,edu=,gen=,gov=,info=,k12=,kep=,mil=,name=,',
+    'nc=(gov=),net=,org=,pol=,tel=,tsk=,tv=,web=),trade=(ybo+),trading=,training=,travel=,travelchannel=,',
+    'travelers=,travelersinsurance=,trust=,trv=,tt=(aero=,biz=,co=,com=,coop=,edu=,gov=,info=,int=,jobs=,',
+    'mobi=,museum=,name=,net=,org=,pro=,travel=),tube=,tui=,tunes=,tushu=,tv=(better-than+,dyndns+,on-the',
+    '-web+,worse-than+),tvs=,tw=(blogspot+,club=,com=(mymailer+),ebiz=,edu=,game=,gov=,idv=,mil=,net=,org',
+    '=,url+,xn--czrw28b=,xn--uc0atv=,xn--zf0ao64a=),tz=(ac=,co=,go=,hotel=,info=,me=,mil=,mobi=,ne=,or=,s',
+    'c=,tv=),ua=(biz+,cc+,cherkassy=,cherkasy=,chernigov=,chernihiv=,chernivtsi=,chernovtsy=,ck=,cn=,co+,',
+    'com=,cr=,crimea=,cv=,cx+,dn=,dnepropetrovsk=,dnipropetrovsk=,donetsk=,dp=,edu=,gov=,if=,in=,inf+,iva',
+    'no-frankivsk=,kh=,kharkiv=,kharkov=,kherson=,khmelnitskiy=,khmelnytskyi=,kiev=,kirovograd=,km=,kr=,k',
+    'rym=,ks=,kv=,kyiv=,lg=,lt=,ltd+,lugansk=,lutsk=,lv=,lviv=,mk=,mykolaiv=,net=,nikolaev=,od=,odesa=,od',
+    'essa=,org=,pl=,poltava=,pp+,rivne=,rovno=,rv=,sb=,sebastopol=,sevastopol=,sm=,sumy=,te=,ternopil=,uz',
+    '=,uzhgorod=,v+,vinnica=,vinnytsia=,vn=,volyn=,yalta=,zaporizhzhe=,zaporizhzhia=,zhitomir=,zhytomyr=,',
+    'zp=,zt=),ubank=,ubs=,ug=(ac=,blogspot+,co=,com=,go=,ne=,or=,org=,sc=),uk=(ac=,barsy+,co=(adimo+,bars',
+    'y+,barsyonline+,blogspot+,bytemark(dh+,vm+),layershift(j+),myspreadshop+,nh-serv+,no-ip+,retrosnub(c',
+    'ust+),wellbeingzone+),conn+,copro+,gov=(api+,campaign+,homeoffice+,service+),hosp+,independent-commi',
+    'ssion+,independent-inquest+,independent-inquiry+,independent-panel+,independent-review+,ltd=,me=,net',
+    '=,nhs=,org=(affinitylottery+,glug+,lug+,lugs+,raffleentry+,weeklylottery+),plc=,police=,public-inqui',
+    'ry+,pymnt+,royal-commission+,sch(*=)),unicom=,university=,uno=,uol=,ups=,us=(ak=(cc=,k12=,lib=),al=(',
+    'cc=,k12=,lib=),ar=(cc=,k12=,lib=),as=(cc=,k12=,lib=),az=(cc=,k12=,lib=),ca=(cc=,k12=,lib=),cloudns+,',
+    'co=(cc=,k12=,lib=),ct=(cc=,k12=,lib=),dc=(cc=,k12=,lib=),de=(cc=,k12=,lib+),dni=,drud+,enscaled(phx+',
+    '),fed=,fl=(cc=,k12=,lib=),freeddns+,ga=(cc=,k12=,lib=),golffan+,graphox+,gu=(cc=,k12=,lib=),hi=(cc=,',
+    'lib=),ia=(cc=,k12=,lib=),id=(cc=,k12=,lib=),il=(cc=,k12=,lib=),in=(cc=,k12=,lib=),is-by+,isa=,kids=,',
+    'ks=(cc=,k12=,lib=),ky=(cc=,k12=,lib=),la=(cc=,k12=,lib=),land-4-sale+,ma=(cc=,k12=(chtr=,paroch=,pvt',
+    '=),lib=),md=(cc=,k12=,lib=),me=(cc=,k12=,lib=),mi=(ann-arbor=,cc=,cog=,dst=,eaton=,gen=,k12=,lib=,mu',
+    's=,tec=,washtenaw=),mircloud+,mn=(cc=,k12=,lib=),mo=(cc=,k12=,lib=),ms=(cc=,k12=,lib=),mt=(cc=,k12=,',
+    'lib=),nc=(cc=,k12=,lib=),nd=(cc=,lib=),ne=(cc=,k12=,lib=),nh=(cc=,k12=,lib=),nj=(cc=,k12=,lib=),nm=(',
+    'cc=,k12=,lib=),noip+,nsn=,nv=(cc=,k12=,lib=),ny=(cc=,k12=,lib=),oh=(cc=,k12=,lib=),ok=(cc=,k12=,lib=',
+    '),or=(cc=,k12=,lib=),pa=(cc=,k12=,lib=),platterp+,pointto+,pr=(cc=,k12=,lib=),ri=(cc=,lib=),sc=(cc=,',
+    'k12=,lib=),sd=(cc=,lib=),stuff-4-sale+,tn=(cc=,k12=,lib=),tx=(cc=,k12=,lib=),ut=(cc=,k12=,lib=),va=(',
+    'cc=,k12=,lib=),vi=(cc=,k12=,lib=),vt=(cc=,k12=,lib=),wa=(cc=,k12=,lib=),wi=(cc=,k12=,lib=),wv=(cc=),',
+    'wy=(cc=,k12=,lib=)),uy=(com=(blogspot+),edu=,gub=,mil=,net=,org=),uz=(co=,com=,net=,org=),va=,vacati',
+    'ons=,vana=,vanguard=,vc=(0e+,com=,edu=,gov=,gv+(d+),mil=,net=,org=),ve=(arts=,bib=,co=,com=,e12=,edu',
+    '=,firm=,gob=,gov=,info=,int=,mil=,net=,nom=,org=,rar=,rec=,store=,tec=,web=),vegas=,ventures=,verisi',
+    'gn=,versicherung=,vet=,vg=(at+),vi=(co=,com=,k12=,net=,org=),viajes=,video=,vig=,viking=,villas=,vin',
+    '=,vip=,virgin=,visa=,vision=,viva=,vivo=,vlaanderen=,vn=(ac=,biz=,blogspot+,com=,edu=,gov=,health=,i',
+    'nfo=,int=,name=,net=,org=,pro=),vodka=,volkswagen=,volvo=,vote=,voting=,voto=,voyage=,vu=(blog+,cn+,',
+    'com=,dev+,edu=,me+,net=,org=),vuelos=,wales=,walmart=,walter=,wang=,wanggou=,watch=,watches=,weather',
+    '=,weatherchannel=,webcam=,weber=,website=(framer+),wedding=,weibo=,weir=,wf=(biz+,sch+),whoswho=,wie',
+    'n=,wiki=(framer+),williamhill=,win=,windows=,wine=,winners=,wme=,wolterskluwer=,woodside=,work=,work',
+    's=,world=,wow=,ws=(advisor(*+),cloud66+,com=,dyndns+,edu=,gov=,mypets+,net=,org=),wtc=,wtf=,xbox=,xe',
+    'rox=,xfinity=,xihuan=,xin=,xn--11b4c3d=,xn--1ck2e1b=,xn--1qqw23a=,xn--2scrj9c=,xn--30rr7y=,xn--3bst0',
+    '0m=,xn--3ds443g=,xn--3e0b707e=,xn--3hcrj9c=,xn--3pxu8k=,xn--42c2d9a=,xn--45br5cyl=,xn--45brj9c=,xn--',
+    '45q11c=,xn--4dbrk0ce=(xn--4dbgdty6c=,xn--5dbhl8d=,xn--8dbq2a=,xn--hebda8b=),xn--4gbrim=,xn--54b7fta0',
+    'cc=,xn--55qw42g=,xn--55qx5d=,xn--5su34j936bgsg=,xn--5tzm5g=,xn--6frz82g=,xn--6qq986b3xl=,xn--80adxhk',
+    's=,xn--80ao21a=,xn--80aqecdr1a=,xn--80asehdb=,xn--80aswg=,xn--8y0a063a=,xn--90a3ac=(xn--80au=,xn--90',
+    'azh=,xn--c1avg=,xn--d1at=,xn--o1ac=,xn--o1ach=),xn--90ae=,xn--90ais=,xn--9dbq2a=,xn--9et52u=,xn--9kr',
+    't00a=,xn--b4w605ferd=,xn--bck1b9a5dre4c=,xn--c1avg=,xn--c2br7g=,xn--cck2b3b=,xn--cckwcxetd=,xn--cg4b',
+    'ki=,xn--clchc0ea0b2g2a9gcd=,xn--czr694b=,xn--czrs0t=,xn--czru2d=,xn--d1acj3b=,xn--d1alf=,xn--e1a4c=,',
+    'xn--eckvdtc9d=,xn--efvy88h=,xn--fct429k=,xn--fhbei=,xn--fiq228c5hs=,xn--fiq64b=,xn--fiqs8s=,xn--fiqz',
+    '9s=,xn--fjq720a=,xn--flw351e=,xn--fpcrj9c3d=,xn--fzc2c9e2c=,xn--fzys8d69uvgm=,xn--g2xx48c=,xn--gckr3',
+    'f0f=,xn--gecrj9c=,xn--gk3at1e=,xn--h2breg3eve=,xn--h2brj9c=,xn--h2brj9c8c=,xn--hxt814e=,xn--i1b6b1a6',
+    'a2e=,xn--imr513n=,xn--io0a7i=,xn--j1aef=,xn--j1amh=,xn--j6w193g=(xn--55qx5d=,xn--gmqw5a=,xn--mxtq1m=',
+    ',xn--od0alg=,xn--uc0atv=,xn--wcvs22d=),xn--jlq480n2rg=,xn--jvr189m=,xn--kcrx77d1x4a=,xn--kprw13d=,xn',
+    '--kpry57d=,xn--kput3i=,xn--l1acc=,xn--lgbbat1ad8j=,xn--mgb2ddes=,xn--mgb9awbf=,xn--mgba3a3ejt=,xn--m',
+    'gba3a4f16a=,xn--mgba3a4fra=,xn--mgba7c0bbn0a=,xn--mgbaakc7dvf=,xn--mgbaam7a8h=,xn--mgbab2bd=,xn--mgb',
+    'ah1a3hjkrd=,xn--mgbai9a5eva00b=,xn--mgbai9azgqp6j=,xn--mgbayh7gpa=,xn--mgbbh1a=,xn--mgbbh1a71e=,xn--',
+    'mgbc0a9azcg=,xn--mgbca7dzdo=,xn--mgbcpq6gpa1a=,xn--mgberp4a5d4a87g=,xn--mgberp4a5d4ar=,xn--mgbgu82a=',
+    ',xn--mgbi4ecexp=,xn--mgbpl2fh=,xn--mgbqly7c0a67fbc=,xn--mgbqly7cvafr=,xn--mgbt3dhd=,xn--mgbtf8fl=,xn',
+    '--mgbtx2b=,xn--mgbx4cd0ab=,xn--mix082f=,xn--mix891f=,xn--mk1bu44c=,xn--mxtq1m=,xn--ngbc5azd=,xn--ngb',
+    'e9e0a=,xn--ngbrx=,xn--nnx388a=,xn--node=,xn--nqv7f=,xn--nqv7fs00ema=,xn--nyqy26a=,xn--o3cw4h=(xn--12',
+    'c1fe0br=,xn--12cfi8ixb8l=,xn--12co0c3b4eva=,xn--h3cuzk1di=,xn--m3ch0j3a=,xn--o3cyx2a=),xn--ogbpf8fl=',
+    ',xn--otu796d=,xn--p1acf=(xn--41a+,xn--80aaa0cvac+,xn--90a1af+,xn--90amc+,xn--c1avg+,xn--h1ahn+,xn--h',
+    '1aliz+,xn--j1adp+,xn--j1aef+,xn--j1ael8b+),xn--p1ai=,xn--pgbs0dh=,xn--pssy2u=,xn--q7ce6a=,xn--q9jyb4',
+    'c=,xn--qcka1pmc=,xn--qxa6a=,xn--qxam=,xn--rhqv96g=,xn--rovu88b=,xn--rvc1e0am3e=,xn--s9brj9c=,xn--ses',
+    '554g=,xn--t60b56a=,xn--tckwe=,xn--tiq49xqyj=,xn--unup4y=,xn--vermgensberater-ctb=,xn--vermgensberatu',
+    'ng-pwb=,xn--vhquv=,xn--vuq861b=,xn--w4r85el8fhu5dnra=,xn--w4rs40l=,xn--wgbh1c=,xn--wgbl6a=,xn--xhq52',
+    '1b=,xn--xkc2al3hye2a=,xn--xkc2dl3a5ee0h=,xn--y9a3aq=,xn--yfro4i67o=,xn--ygbi2ammx=,xn--zfr164b=,xxx=',
+    ',xyz=(blogsite+,crafting+,localzone+,telebit(*+),zapto+),yachts=,yahoo=,yamaxun=,yandex=,ye=(com=,ed',
+    'u=,gov=,mil=,net=,org=),yodobashi=,yoga=,yokohama=,you=,youtube=,yt=(org+),yun=,za(ac=,agric=,alt=,c',
+    'o=(blogspot+),edu=,gov=,grondar=,law=,mil=,net=,ngo=,nic=,nis=,nom=,org=,school=,tm=,web=),zappos=,z',
+    'ara=,zero=,zip=,zm=(ac=,biz=,co=,com=,edu=,gov=,info=,mil=,net=,org=,sch=),zone=(cloud66+,hs+,lima+,',
+    'triton(*+)),zuerich=,zw=(ac=,co=,gov=,mil=,org=)'
+].join('');
@@ -0,0 +1,102 @@
+import { getUrlRecord, newURL, parseApiUrl, serializePath, serializeUrl, URL, UrlRecord } from "./url";
+import { serializeHost } from "./host";
+import { hasOpaquePath } from "./opaque-path";
+
+// Returns the shortest URL string which resolves to target when parsed against base,
+// such that new URL(relativize(target, base), base).href === new URL(target).href.
+// This is a relative reference if possible (e.g. "#fragment", "?query", "../path" or "//host/path"),
+// and the serialization of target otherwise.
+// Throws a TypeError if target or base could not be parsed.
+export function relativize(target: string | URL, base: string | URL): string {
+  const targetRecord = getUrlRecord(target);
+  const baseRecord = getUrlRecord(base);
+  const baseURL = base instanceof URL ? base : newURL(baseRecord);
+  const href = serializeUrl(targetRecord);
+  let result = href;
+  if (targetRecord._scheme === baseRecord._scheme) {
+    // Note: the candidates are verified by parsing them, since edge cases like Windows drive letters
+    // and empty path segments are easier to check than to predict
+    for (const candidate of getCandidates(targetRecord, baseRecord)) {
+      if (candidate.length < result.length && resolvesTo(candidate, baseURL, href)) {
+        result = candidate;
+      }
+    }
+  }
+  return result;
+}
+
+function resolvesTo(candidate: string, base: URL, href: string): boolean {
+  const parsed = parseApiUrl(candidate, base);
+  return parsed !== null && serializeUrl(parsed) === href;
+}
+
+// Returns the candidate relative references to target from base.
+function getCandidates(target: UrlRecord, base: UrlRecord): string[] {
+  const fragment = target._fragment !== null ? `#${target._fragment}` : '';
+  const query = target._query !== null ? `?${target._query}` : '';
+  const candidates = [
+    // Same URL, without its fragment
+    '',
+    // Fragment-only reference
+    fragment,
+    // Query-only reference
+    query + fragment
+  ];
+  // A URL with an opaque path only supports fragment-only references
+  if (hasOpaquePath(target) || hasOpaquePath(base)) {
+    return candidates;
+  }
+  // Path-relative reference
+  candidates.push(getRelativePath(target._path as string[], base._path as string[]) + query + fragment);
+  // Absolute-path reference
+  let path = serializePath(target);
+  // Note: a path starting with "//" would be parsed as an authority, so start it with "/." instead
+  if ('//' === path.slice(0, 2)) {
+    path = `/.${path}`;
+  }
+  candidates.push(path + query + fragment);
+  // Scheme-relative reference
+  if (target._host !== null) {
+    candidates.push(`${serializeAuthority(target)}${serializePath(target)}${query}${fragment}`);
+  }
+  return candidates;
+}
+
+// Returns the relative path from the directory of base to target, with a "../" for each level up.
+// The parser removes these with "shorten a URL's path".
+function getRelativePath(target: string[], base: string[]): string {
+  // The directory of base is its path without its last segment
+  const baseDirectory = base.slice(0, -1);
+  let common = 0;
+  while (common < baseDirectory.length && common < target.length - 1
+      && baseDirectory[common] === target[common]) {
+    common++;
+  }
+  let result = '';
+  for (let i = common; i < baseDirectory.length; i++) {
+    result += '../';
+  }
+  const rest = target.slice(common).join('/');
+  // Note: the first segment must not look like a scheme or an absolute path,
+  // and an empty reference would resolve to base instead of its directory
+  if (result === '' && (rest === '' || '/' === rest[0] || rest.split('/')[0].indexOf(':') >= 0)) {
+    result = './';
+  }
+  return result + rest;
+}
+
+function serializeAuthority(url: UrlRecord): string {
+  let output = '//';
+  if (url._username !== '' || url._password !== '') {
+    output += url._username;
+    if (url._password !== '') {
+      output += `:${url._password}`;
+    }
+    output += '@';
+  }
+  output += serializeHost(url._host!);
+  if (url._port !== null) {
+    output += `:${url._port}`;
+  }
+  return output;
+}
@@ -1,10 +1,18 @@
 import { URL } from "./url";
+import { stripTrailingSpacesFromOpaquePath } from "./opaque-path";
 import { inplaceStableSort, isArray, isSequence, replaceArray, sequenceToArray, supportsSymbolIterator } from "./util";
 import { parseUrlEncoded, serializeUrlEncoded } from "./urlencode";
 import { toUSVString } from "./usvstring";
+import { Encoding } from "./encoding";
 
 export type URLSearchParamsInit = string[][] | Iterable<[string, string]> | Record<string, string> | string;
 
+export interface URLSearchParamsOptions {
+  // The encoding to use when parsing a string init and when serializing, instead of UTF-8.
+  // Note: this is not part of the URL Standard.
+  encoding?: Encoding;
+}
+
 function compareParams([key1]: [string, string], [key2]: [string, string]): number {
   return (key1 === key2) ? 0 : (key1 < key2) ? -1 : 1;
 }
@@ -19,6 +27,13 @@ export function setParamsQuery(params: URLSearchParams, query: string) {
   replaceArray(params._list, parseUrlEncoded(query));
 }
 
+// Makes params read-only, so modifying it throws a TypeError.
+export function freezeParams(params: URLSearchParams): void {
+  params._list.forEach((pair) => Object.freeze(pair));
+  Object.freeze(params._list);
+  Object.freeze(params);
+}
+
 // https://url.spec.whatwg.org/#concept-urlsearchparams-new
 // Optimization: only called from URL constructor, which only passes string or null
 export function newURLSearchParams(init: string | null): URLSearchParams {
@@ -46,6 +61,10 @@ function update(params: URLSearchParams): void {
   }
   // 3. Set url object’s url’s query to query.
   params._url._url._query = query;
+  // 4. If query is null, then potentially strip trailing spaces from an opaque path with url object.
+  if (null === query) {
+    stripTrailingSpacesFromOpaquePath(params._url._url);
+  }
 }
 
 // endregion
@@ -72,20 +91,24 @@ export class URLSearchParams implements Iterable<[string, string]> {
   readonly _list: Array<[string, string]>;
   /** @internal */
   _url: URL | null = null;
+  /** @internal */
+  readonly _encoding: Encoding | null;
 
   // https://url.spec.whatwg.org/#concept-urlsearchparams-new
   // URL Standard says the default value is '', but as undefined and '' have
   // the same result, undefined is used to prevent unnecessary parsing.
   // Default parameter is necessary to keep URLSearchParams.length === 0 in
   // accordance with Web IDL spec.
-  constructor(init: URLSearchParamsInit | URLSearchParams = undefined!) {
+  constructor(init: URLSearchParamsInit | URLSearchParams = undefined!, options?: URLSearchParamsOptions) {
+    this._encoding = (options && options.encoding) || null;
     if (init == null) {
       this._list = [];
     }
     else if (typeof init === 'object' || typeof init === 'function') {
       // Shortcut: if init is a URLSearchParams, copy list
+      // Note: the pairs are copied too, since set() modifies them
       if (isURLSearchParams(init)) {
-        this._list = init._list.slice();
+        this._list = init._list.map(([name, value]): [string, string] => [name, value]);
       }
       // 2. If init is a sequence, then for each pair in init:
       else if (isSequence(init)) {
@@ -120,10 +143,16 @@ export class URLSearchParams implements Iterable<[string, string]> {
       if (init.length > 0 && '?' === init[0]) {
         init = init.slice(1);
       }
-      this._list = parseUrlEncoded(init);
+      this._list = parseUrlEncoded(init, this._encoding);
     }
   }
 
+  // https://url.spec.whatwg.org/#dom-urlsearchparams-size
+  get size(): number {
+    // The size getter steps are to return this’s list’s size.
+    return this._list.length;
+  }
+
   append(name: string, value: string): void {
     name = toUSVString(name);
     value = toUSVString(value);
@@ -133,20 +162,24 @@ export class URLSearchParams implements Iterable<[string, string]> {
     update(this);
   }
 
-  delete(name: string): void {
+  delete(name: string, value?: string): void {
     name = toUSVString(name);
-    // 1. Remove all name-value pairs whose name is name from list.
+    if (value !== undefined) {
+      value = toUSVString(value);
+    }
+    // 1. If value is given, then remove all tuples whose name is name and value is value from this’s list.
+    // 2. Otherwise, remove all tuples whose name is name from this’s list.
     const list = this._list;
     let index = 0;
     while (index < list.length) {
       const tuple = list[index];
-      if (tuple[0] === name) {
+      if (tuple[0] === name && (value === undefined || tuple[1] === value)) {
         list.splice(index, 1);
       } else {
         index++;
       }
     }
-    // 2. Run the update steps.
+    // 3. Run the update steps.
     update(this);
   }
 
@@ -177,12 +210,17 @@ export class URLSearchParams implements Iterable<[string, string]> {
     return values;
   }
 
-  has(name: string): boolean {
+  has(name: string, value?: string): boolean {
     name = toUSVString(name);
-    // Return true if there is a name-value pair whose name is name in list, and false otherwise.
+    if (value !== undefined) {
+      value = toUSVString(value);
+    }
+    // 1. If value is given and there is a tuple whose name is name and value is value in this’s list, return true.
+    // 2. If value is not given and there is a tuple whose name is name in this’s list, return true.
+    // 3. Return false.
     const list = this._list;
     for (const tuple of list) {
-      if (tuple[0] === name) {
+      if (tuple[0] === name && (value === undefined || tuple[1] === value)) {
         return true;
       }
     }
@@ -230,7 +268,7 @@ export class URLSearchParams implements Iterable<[string, string]> {
 
   toString() {
     // The stringification behavior must return the serialization of the URLSearchParams object’s list.
-    return serializeUrlEncoded(this._list);
+    return serializeUrlEncoded(this._list, this._encoding);
   }
 
   // The value pairs to iterate over are the list name-value pairs
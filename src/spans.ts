@@ -0,0 +1,36 @@
+// The location of a component of a URL in the input it was parsed from.
+export interface URLSpan {
+  // The offset (in code points) into the input at which the component starts
+  readonly start: number;
+  // The offset (in code points) into the input right after the last code point of the component
+  readonly end: number;
+}
+
+// The locations of the components of a URL in the input it was parsed from.
+// A span is null if the component does not occur in the input, e.g. because it was copied from the base URL.
+export interface URLSpans {
+  scheme: URLSpan | null;
+  username: URLSpan | null;
+  password: URLSpan | null;
+  host: URLSpan | null;
+  port: URLSpan | null;
+  // The span of each segment of the URL's path.
+  // Segments copied from the base URL or added while removing dot segments have a null span.
+  // If the URL has an opaque path, this contains a single span for the whole path.
+  path: Array<URLSpan | null>;
+  query: URLSpan | null;
+  fragment: URLSpan | null;
+}
+
+export function createURLSpans(): URLSpans {
+  return {
+    scheme: null,
+    username: null,
+    password: null,
+    host: null,
+    port: null,
+    path: [],
+    query: null,
+    fragment: null
+  };
+}
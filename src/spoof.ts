@@ -0,0 +1,310 @@
+import { SCRIPT_EXTENSIONS, SCRIPTS } from "./spoof/scripts";
+import { CONFUSABLES } from "./spoof/confusables";
+import { domainToUnicode, HostType, parseHost, serializeHost } from "./host";
+import { ucs2decode, ucs2encode } from "./vendor/ucs2";
+
+// https://www.unicode.org/reports/tr39/
+// The bundled data is stored in src/spoof/scripts.ts and src/spoof/confusables.ts,
+// as lists of entries separated by ",", with all numbers in base 36:
+// - SCRIPTS lists the script codes, the index of a script in this list is used in SCRIPT_EXTENSIONS.
+//   The first two scripts are always Common (Zyyy) and Inherited (Zinh).
+// - SCRIPT_EXTENSIONS has an entry "delta:index.index..." for each run of code points with the same
+//   Script_Extensions, where delta is the start of the run relative to the start of the previous run.
+//   An empty list of indices means Unknown (Zzzz).
+// - CONFUSABLES has an entry "delta:codePoint.codePoint..." for each code point with a prototype,
+//   where delta is the code point relative to the previous code point in the list.
+// Regenerate them with build/generate-spoof-data.js.
+// Note: the data is only loaded when first used, and is left out of bundles which do not use checkHostSpoofing().
+
+// https://www.unicode.org/reports/tr39/#Restriction_Level_Detection
+export type RestrictionLevel =
+    'ascii-only'
+    | 'single-script'
+    | 'highly-restrictive'
+    | 'moderately-restrictive'
+    | 'minimally-restrictive';
+
+// Ordered from most to least restrictive
+const RESTRICTION_LEVELS: RestrictionLevel[] = [
+  'ascii-only',
+  'single-script',
+  'highly-restrictive',
+  'moderately-restrictive',
+  'minimally-restrictive'
+];
+
+export interface HostSpoofingOptions {
+  // The least restrictive level at which a host is still considered safe to display in Unicode.
+  // Defaults to "moderately-restrictive", like most browsers.
+  restrictionLevel?: RestrictionLevel;
+}
+
+export interface HostSpoofingResult {
+  // Whether the host can be displayed in Unicode.
+  // If false, the host should be displayed in ASCII (Punycode) instead.
+  safe: boolean;
+  // The host to display: its Unicode serialization if it is safe, and its ASCII serialization otherwise.
+  displayHost: string;
+  // The least restrictive restriction level of all labels of the host.
+  restrictionLevel: RestrictionLevel;
+  // Whether a label mixes scripts and is confusable with a label in a single script, e.g. "аpple".
+  mixedScriptConfusable: boolean;
+  // Whether a label in a single non-Latin script is confusable with an ASCII label, e.g. "раураӏ".
+  wholeScriptConfusable: boolean;
+  // The confusable skeleton of the Unicode host.
+  // Two hosts with the same skeleton are confusable, e.g. to compare against a list of known hosts.
+  skeleton: string;
+}
+
+const enum Script {
+  COMMON = 0,
+  INHERITED = 1
+}
+
+// https://www.unicode.org/reports/tr39/#Mixed_Script_Detection
+// The scripts which are added to the augmented script set of a character with the given script.
+const AUGMENTED_SCRIPTS: { [script: string]: string[] } = {
+  'Hani': ['Hanb', 'Jpan', 'Kore'],
+  'Hira': ['Jpan'],
+  'Kana': ['Jpan'],
+  'Hang': ['Kore'],
+  'Bopo': ['Hanb']
+};
+
+// https://www.unicode.org/reports/tr39/#Restriction_Level_Detection
+// The sets of scripts which can cover a highly restrictive string.
+const HIGHLY_RESTRICTIVE_SCRIPTS = [
+  ['Latn', 'Hani', 'Hira', 'Kana'],
+  ['Latn', 'Hani', 'Bopo'],
+  ['Latn', 'Hani', 'Hang']
+];
+
+// https://www.unicode.org/reports/tr31/#Table_Recommended_Scripts
+// The recommended scripts, other than Latin, Cyrillic and Greek, which can be mixed with Latin
+// in a moderately restrictive string.
+const MODERATELY_RESTRICTIVE_SCRIPTS = ['Arab', 'Armn', 'Beng', 'Bopo', 'Deva', 'Ethi', 'Geor', 'Gujr', 'Guru',
+  'Hang', 'Hani', 'Hebr', 'Hira', 'Kana', 'Khmr', 'Knda', 'Laoo', 'Mlym', 'Mymr', 'Orya', 'Sinh', 'Taml', 'Telu',
+  'Thaa', 'Thai', 'Tibt'];
+
+const NON_ASCII = /[^\0-\x7f]/;
+
+interface SpoofData {
+  _scripts: string[];
+  _runStarts: number[];
+  _runScripts: string[][];
+  _confusables: { [codePoint: number]: string };
+}
+
+let data: SpoofData | undefined;
+
+function getData(): SpoofData {
+  if (data === undefined) {
+    const scripts = SCRIPTS.split(' ');
+    const runStarts: number[] = [];
+    const runScripts: string[][] = [];
+    let start = 0;
+    for (const entry of SCRIPT_EXTENSIONS.split(',')) {
+      const [delta, indices] = entry.split(':');
+      start += parseInt(delta, 36);
+      runStarts.push(start);
+      runScripts.push(indices === '' ? [] : indices.split('.').map((index) => scripts[parseInt(index, 36)]));
+    }
+    const confusables: { [codePoint: number]: string } = Object.create(null);
+    let codePoint = 0;
+    for (const entry of CONFUSABLES.split(',')) {
+      const [delta, prototype] = entry.split(':');
+      codePoint += parseInt(delta, 36);
+      confusables[codePoint] = ucs2encode(prototype.split('.').map((cp) => parseInt(cp, 36)));
+    }
+    data = {
+      _scripts: scripts,
+      _runStarts: runStarts,
+      _runScripts: runScripts,
+      _confusables: confusables
+    };
+  }
+  return data;
+}
+
+// Returns the Script_Extensions of the given code point, or null if it is Common or Inherited,
+// which are treated as the set of all scripts.
+function getScriptExtensions(codePoint: number): string[] | null {
+  const { _scripts: scripts, _runStarts: runStarts, _runScripts: runScripts } = getData();
+  // Find the last run starting at or before the code point
+  let low = 0;
+  let high = runStarts.length - 1;
+  while (low < high) {
+    const middle = (low + high + 1) >> 1;
+    if (runStarts[middle] <= codePoint) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  const extensions = runScripts[low];
+  if (extensions.length === 1
+      && (extensions[0] === scripts[Script.COMMON] || extensions[0] === scripts[Script.INHERITED])) {
+    return null;
+  }
+  return extensions;
+}
+
+// https://www.unicode.org/reports/tr39/#def-augmented-script-set
+function getAugmentedScriptSet(codePoint: number): string[] | null {
+  const extensions = getScriptExtensions(codePoint);
+  if (extensions === null) {
+    return null;
+  }
+  const result = extensions.slice();
+  for (const script of extensions) {
+    for (const augmented of AUGMENTED_SCRIPTS[script] || []) {
+      if (result.indexOf(augmented) < 0) {
+        result.push(augmented);
+      }
+    }
+  }
+  return result;
+}
+
+// https://www.unicode.org/reports/tr39/#def-resolved-script-set
+// Returns the resolved script set of the given code points, or null if it contains all scripts.
+function getResolvedScriptSet(codePoints: number[]): string[] | null {
+  let result: string[] | null = null;
+  for (const codePoint of codePoints) {
+    const scripts = getAugmentedScriptSet(codePoint);
+    if (scripts !== null) {
+      result = result === null ? scripts : result.filter((script) => scripts.indexOf(script) >= 0);
+    }
+  }
+  return result;
+}
+
+// https://www.unicode.org/reports/tr39/#def-single-script
+function isSingleScript(codePoints: number[]): boolean {
+  const scripts = getResolvedScriptSet(codePoints);
+  return scripts === null || scripts.length > 0;
+}
+
+// https://www.unicode.org/reports/tr39/#def-cover
+// Whether the Script_Extensions of each code point contain at least one of the given scripts.
+function isCoveredBy(codePoints: number[], scripts: string[]): boolean {
+  for (const codePoint of codePoints) {
+    const extensions = getScriptExtensions(codePoint);
+    if (extensions !== null && !extensions.some((script) => scripts.indexOf(script) >= 0)) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// https://www.unicode.org/reports/tr39/#Restriction_Level_Detection
+// Note: the code points are already restricted by IDNA, so there is no "unrestricted" level.
+function getRestrictionLevel(label: string): RestrictionLevel {
+  // 1. If the string contains any characters outside of the Identifier Profile, return Unrestricted.
+  // 2. If no character in the string is above 0x7F, return ASCII-Only.
+  if (!NON_ASCII.test(label)) {
+    return 'ascii-only';
+  }
+  const codePoints = ucs2decode(label);
+  // 3. Compute the string's resolved script set.
+  // 4. If the resolved script set is not empty, return Single Script.
+  if (isSingleScript(codePoints)) {
+    return 'single-script';
+  }
+  // 5. If the string is covered by any of the following sets of scripts, return Highly Restrictive:
+  //    Latin + Han + Hiragana + Katakana; Latin + Han + Bopomofo; Latin + Han + Hangul
+  if (HIGHLY_RESTRICTIVE_SCRIPTS.some((scripts) => isCoveredBy(codePoints, scripts))) {
+    return 'highly-restrictive';
+  }
+  // 6. If the string is covered by Latin and any one other Recommended script, except Cyrillic, Greek,
+  //    return Moderately Restrictive.
+  if (MODERATELY_RESTRICTIVE_SCRIPTS.some((script) => isCoveredBy(codePoints, ['Latn', script]))) {
+    return 'moderately-restrictive';
+  }
+  // 7. Otherwise, return Minimally Restrictive.
+  return 'minimally-restrictive';
+}
+
+// Note: use the native String.prototype.normalize, since the ES5 builds would otherwise bundle the normalization tables.
+// Without it, the skeleton is computed from the input as is.
+const supportsNormalize = typeof ''.normalize === 'function';
+const nativeNormalize = String.prototype.normalize;
+
+function toNFD(input: string): string {
+  return supportsNormalize ? nativeNormalize.call(input, 'NFD') : input;
+}
+
+// https://www.unicode.org/reports/tr39/#def-skeleton
+function getSkeleton(input: string): string {
+  const confusables = getData()._confusables;
+  // 1. Convert X to NFD format, as described in [UAX15].
+  // 2. Concatenate the prototypes for each character in X according to the specified data,
+  //    producing a string of exemplar characters.
+  // 3. Reapply NFD.
+  let output = '';
+  for (const codePoint of ucs2decode(toNFD(input))) {
+    const prototype = confusables[codePoint];
+    output += prototype !== undefined ? prototype : ucs2encode([codePoint]);
+  }
+  return toNFD(output);
+}
+
+// https://www.unicode.org/reports/tr39/#Mixed_Script_Confusables
+// Whether the label is not single-script, but its skeleton is.
+function isMixedScriptConfusable(label: string, skeleton: string): boolean {
+  return !isSingleScript(ucs2decode(label)) && isSingleScript(ucs2decode(skeleton));
+}
+
+// https://www.unicode.org/reports/tr39/#Whole_Script_Confusables
+// Whether the label is in a single script other than Latin, and its skeleton is an ASCII label.
+// Note: this only checks for confusables with ASCII, since those are the hosts which are usually spoofed.
+function isWholeScriptConfusable(label: string, skeleton: string): boolean {
+  if (label === skeleton || NON_ASCII.test(skeleton)) {
+    return false;
+  }
+  const scripts = getResolvedScriptSet(ucs2decode(label));
+  return scripts !== null && scripts.length > 0 && scripts.indexOf('Latn') < 0;
+}
+
+// Checks whether the given host could be used to spoof another host when displayed in Unicode,
+// following the Unicode Security Mechanisms (UTS #39).
+// Throws a URLParseError if host cannot be parsed.
+export function checkHostSpoofing(host: string, options: HostSpoofingOptions = {}): HostSpoofingResult {
+  const maxLevel = options.restrictionLevel === undefined ? 'moderately-restrictive' : options.restrictionLevel;
+  if (RESTRICTION_LEVELS.indexOf(maxLevel) < 0) {
+    throw new TypeError(`Invalid restriction level: ${maxLevel}`);
+  }
+  const parsedHost = parseHost(String(host), true);
+  const asciiHost = serializeHost(parsedHost);
+  if (parsedHost._type !== HostType.DOMAIN) {
+    return {
+      safe: true,
+      displayHost: asciiHost,
+      restrictionLevel: 'ascii-only',
+      mixedScriptConfusable: false,
+      wholeScriptConfusable: false,
+      skeleton: asciiHost
+    };
+  }
+  const unicodeHost = domainToUnicode(parsedHost._domain);
+  let level = 0;
+  let mixedScriptConfusable = false;
+  let wholeScriptConfusable = false;
+  const skeletons: string[] = [];
+  for (const label of unicodeHost.split('.')) {
+    const skeleton = getSkeleton(label);
+    skeletons.push(skeleton);
+    level = Math.max(level, RESTRICTION_LEVELS.indexOf(getRestrictionLevel(label)));
+    mixedScriptConfusable = mixedScriptConfusable || isMixedScriptConfusable(label, skeleton);
+    wholeScriptConfusable = wholeScriptConfusable || isWholeScriptConfusable(label, skeleton);
+  }
+  const safe = level <= RESTRICTION_LEVELS.indexOf(maxLevel) && !mixedScriptConfusable && !wholeScriptConfusable;
+  return {
+    safe,
+    displayHost: safe ? unicodeHost : asciiHost,
+    restrictionLevel: RESTRICTION_LEVELS[level],
+    mixedScriptConfusable,
+    wholeScriptConfusable,
+    skeleton: skeletons.join('.')
+  };
+}
@@ -0,0 +1,239 @@
+// Generated by build/generate-spoof-data.js from the Unicode Character Database
+// and the Unicode Security Mechanisms data files. Do not edit this file directly.
+// Unicode data files are subject to the Unicode License, see https://www.unicode.org/license.txt
+// confusables.txt 10.0.0
+
+// 3296 confusables, see src/spoof.ts for the format
+export const CONFUSABLES =
+    'y:13.13,e:27,1:30,1b:13,d:36.32,1h:2r.mw,3:2h.mt,1e:3c,f:2p.2t,1:2r.me,9:6pu.mt,6:17t,2:33.mw,p:2s.m' +
+    't,a:7p,c:2w.mt,a:2x,h:30.mw,4:he,d:33.2t,g:bv,4:38.mt,p:2q.mt,3:2q.lg,9:2s.lg,1:2v,5:2u.me,7:2z.lw,1' +
+    ':30.mt,4:32.mh,3:33.13,4:34.lw,8:38.lw,7:3d.lw,2:3e.mt,5:1e.mt,2:37,2:72,1:30,1:30.30,2:x,b:77,2:8d,' +
+    '2:9b,2:a5,h:2v.mt,2:7z,e:83,12:bv,8:1k,2:3e.me,2:6d,l:2r.mw,b:2t.mw,2:2y.mt,4:36.mt,2:3d.mt,2:2p,2:2' +
+    'q.lw,3:2s.mg,1:2s.lw,2:d9,1:d9.ke,1:x3n,5:2v.lw,1:2v,2:3d,3:2w.lw,2:2x.mt,1:2x,1:2x,1:30.ms,2:30.mg,' +
+    '1:30.f1,1:3b,2:36.32.me,2:32.mg,2:33.mt,1:33.5qf,6:36.mh,1:36.mg,5:37.mg,9:39,4:3d,1:3e.mg,2:f1,2:1r' +
+    ',c:35.lw,3:2s.3e,1:2s.f1,1:2s.i9,1:38.37,1:38.hv,1:38.gl,1:2u.97,1:30.37,1:30.3e,e:13,1:13.13,1:13,1' +
+    ':13,1:13,1:13,1:121,3:1o,1:1q,1:2m,2:2m,2:13,2:13,1:13,5:1m,3:121,4:19,n:13.13,6:13,2:13.13,2:1m,3:k' +
+    'q,a:lg,7:li,1:19s,3:li.lj,1:le,4:lv,2:18w,9:mp,1:me,1:mg,5:me,f:mt,1:mw,2:me,7:lc,1:ld,1:lf,1:lv,4:m' +
+    'r,g:nk,1:lj,e:lm,8:li,6:13,1:jz,2:5qm,4:gk,2:x1b,1:1n,9:53,16:2p,1:67,1:3d,1:61r,1:x3n,2:32.mh,1:27.' +
+    'mt,1:2x,1:8o,3:3a,2:33,2:34,2:33,1:5qz,1:39,1:hk,l:qq,e:bs,a:2y,5:72,1k:2p,1:1i,1:ih,1:36,2:2t,2:gs,' +
+    '1:5qm,2:8o,2:i5,1:ik,1:33,1:qo,1:34,1:2r,1:5qz,1:3d,1:hk,1:3c,5:jt.2q,1:at.2x,1:at,3:5qx,5:x3n,1:37,' +
+    '1:2x,2:2y,3:2w.mt,2:u1,4:3b,2:2q.mt,e:qw,2:33.mt,2:3a,8:3b.w6.w7,e:u1.me,2:2q.mt,4:36.13,2:36.mt,4:t' +
+    'y.mh,2:gs.me,2:8o.mh,4:8o.mt,4:ik.mh,8:2r.me,2:5qz.mh,2:3d,2:3d.mt,a:2w,2:2t,2:2t.mg,7:u3.me,2:ik.me' +
+    ',2:ik.me,2:xj,2:i5.me,1:2x,6:2p.2t,4:d9,8:f1,8:33.mt,o:2s,c:gy,4:x3n,a:35,2:3b,1p:13,3:13,4:3b,2:35,' +
+    '3:35,8:61r,2:2w,5:fr,3:32,2:hc,2:32,1:39,4:2v,3:2u,1:33,4:1m,j:ld,1:ld,7:13u,4:13t,5:13q,1:13s,1:lm,' +
+    '5:mb,5:lj,1:lj,6:30,1:lj,1:lj,1:1m,1:lj,1:mb,g:30,3:3a,1:13,6:30,2:33,f:30.30,1:30.13,1:13.13,1:13,1' +
+    ':13.13,l:56.1b.6f4.6f4,1:56.1b.6f4.6f4.6f4,3:18,2:189,9:ld,1:lv,1:18w,9:30.19w,1:18o.19w,1:30.191,1:' +
+    '18p.19w,1:30,4:18p.1cr,9:183.1cr,9:18p.le,2:18p.1cr,8:33,3:18p,1:ln,3:ld,1:lv,3:lm,1:lf,3:mh,1:lu,1:' +
+    'li,1:lg,1:li,1:le,1:mb,1:lw,2:191,1:1a,1:30,4:33,2:2e,1:g5,2:56.1b.6f4,1:18,1:170,1:16,1:18p,1:1b5,3' +
+    ':30.19w,1:30.191,6:18p.179,5:18p.1cr,3:17x.190,4:17x.1cr,3:17z.179,3:1ai.179,3:17z.1cr,3:181.179,1:1' +
+    '81.li,6:181.1cr,6:185.1cr,1:187.1cr,5:1b5.1cr,3:18h,1:1b5.1cr,1:18j,1:18j,3:18j.1cr,7:1bj.1cr,1:18k.' +
+    'li,2:18k.1cr,3:18p,1:18p.179,2:18p.1cr,1:33,3:33,1:1c0,1:17t,3:18o.li,1:18o.lv,1:18o.19s,1:18o.le,2:' +
+    '18o.1cr,1:18p,2:18p.li,2:1a3,1:18p.1cr,1:18p,2:19,1:33,a:lm,9:li.lj,4:lj,2:17z.le,1:181.le,1:1a,1:30' +
+    ',1:19e,1:19f,1:19g,1:33,1:19i,1:2e,1:g5,1:19l,4:17l.nc,1:18l.nc,1:33.le,2:1a,1:1a,1:1m,1:1m,1o:lj,1:' +
+    'lj,1:1fg,5:ld,a:17s.1cr,5:18p.li,c:1bg,1:18j.1cr,4:1g4,1:18m.179,1:18m.li,3:181.190,5:1av.179,1:17x.' +
+    '190,c:183.le,1u:27,a:30,x:lg,2:lj,1:le,5:lk,1:13,1:13,5:2n,4n:17s.190,3:1b6.1cr,3:18l.1cr,1:18p.190,' +
+    '1:1g4,5:17z.mc.mb,1:185.mc.mb,1:1bj,1:18o,1:182.le,4:17s.1cy,1:18p.1cr.1cy,2:181.li.lj,1:18p.li.lj,1' +
+    ':1b5,1:1b5,1:18p,14:18s,3:18s,2:lj,1:lk,2:mb,1:mc,2:ln,1:18s,1:18t,1:lv,5:nk,1:no,1:np,5:nk,1:nm,1:l' +
+    'i.lj,1:lj,1:1m,1:1s5.1ty,2:1s5.1tq,2:1tc.1u5.1s7,5:1sf.1tx,1:1sf.1ty,2:1sf.1tz,1:1s5.1u1,1:1s5.1tq.1' +
+    'ty,1:1s5.1tq.1tz,1:1s5.1tq.1u0,14:mb,m:mp,1:lc,1:ld,h:1us.1us,1:33,1:19l,m:1r,4:li.lj,5:1vp.1xa,1i:m' +
+    'b,10:1vv.1xf,1:1vv.1xf,5:27,4:1k,3:1l,l:lj,1:1vn,3:1z9.20u,1:22a.20v,1:22a.20w,1:22b.20x,1:22b.20y,5' +
+    ':22a.213,1:1z9.214,4:1z9.218,14:mb,f:1ty,2:1u5,p:33,1:1l,3:1k,n:li.lj,1:lj,1:1m,3:22t.24e,7:22t.24l,' +
+    '2:22t.24n,1:22t.24o,1:22t.24e.24l,2:22t.24e.24n,1:22t.24e.24o,14:mb,1:1tp,4:1tt,1:1tu,b:1u5,p:33,2:1' +
+    'uw,1:1ux,1:1uy,4:1v2,2:1v4,h:li.lj,2:1k,3:26d.27y,q:27,s:mb,16:27,2:1l,q:lm,8:2a1.2b7,i:2a8,k:2a0,e:' +
+    '2a0,a:2ax,2:2bq.2a0,1:2br.2a0,1:2bq.2b7,1:lj,a:2b7,f:33,1:2ad,1:2a1,2:2ai,1:2a0.2bl,1:2ai.2bl,1:2a6,' +
+    '1:29x,2:2b3,2:2ai.2bm,2:2b2.2bk,1:2cz,2:2a6.2b9,1:2bb,2:2aw.2bk,6:li.lj,2:33,1:1vn,g:2du.2fp,1:2du.2' +
+    'fg,c:2eo.14s,2:2e9.mb,3:2ef.14s,8:2ek.mb,1:2et.2f5,9:2et.mb,2:2et.2f2,9:2f5.2f2,2:2f7.2f2,s:2dn.2f2,' +
+    '1:2do.2f2,5:33,r:li.lj,1:33,1:1vn,2:2dh,1:2di,1:2dj,b:2du,1:2du.2fp,1:2du.2fg,8:2e4,2:2e6,5:2eb,c:2e' +
+    'n,2:2ep,1:2eq,1b:2h8.2im,5:33,1:2g7,1:2g8,7:2gf,i:li.lj,1:33,1:1vn,5:2kn.2mv,1:2a1,1:2a1.2mv,2:2lk.2' +
+    'm9,4:2ku.2me,3:2ky.2m6,1:2ky.2mv,5:2lk.2m9,3:2a8,4:33,3:2ar,e:2ls,3:2b8,2:2ba,4:2an.2bj,5:2bj,1:2bj,' +
+    '2:2m9,1:2m9,5:2me.2me,6:1v5,c:2lk.2ml.2lq,5:33.2ls.33,2:2la,5:33,4:2ls.2ml,1:2li.2ml.2ls,1:2lk.2ml.2' +
+    'lk,1:1l,1:2lx.2ml.2ls,1:2lk.2ml,7:2m1.2ml.2lq,3:2lk.2m9,2:2lk.2ml,1:2ls.2ml,6:33,1:1vn,2u:2qw.2q7,1:' +
+    '2oy,1:2pb,4:2qw.2qb,k:2rm,8:2ru,4:2ry,5:2ro,1:2ro,2:2s1,a:2rq,5:2sg,r:2tc.2tc,4:2sy,8:lm,3:33,1k:2rs' +
+    ',5:2si,d:2sa,1:2sb,2:2sd,1:2se,1:2sf,p:2t4,1:2t5,f:2tk,1:2tl,1:2tm,1:2tn,2:lm,3:33,1c:31k.324.326,2:' +
+    '31c.31w.32a.327,1:31c.31w.32a.2z8,b:2z1.2z1,d:2ze.2ze,3:2zh.2zh,1:2ze.2zh,o:md,1f:31e,2s:2zh.2ze,7:g' +
+    'gg,1:ggd,16:35u.370,g:33.370,d:33,2:36d.370,a:36m.37g,1:36m.37g.375.370.37e,c:lm,2:1vn,8:33,b:37u.37' +
+    'u,q:37l,1:36d.37i,9:36d.370.37i,1:35v.37i,e:399.37i,3:35u.37i,t:39f.lm,21:3d,c:f1,c:33,2:3cw.3cw,3:3' +
+    'cz.3cz,4:3d3.3d3,2:3d5.3d5,3:3d8.3d8,6:3cy.3cw,1:3cy.3cy,1:3cy.3cz,1:3cy.3d3,1:3cz.3cw,1:3d1.3cy,1:3' +
+    'd1.3d1,1:3d1.3de,1:3d1.3d7,1:3d2.3d3,1:3d2.3d7,1:3d3.3cw,1:3d3.3cy,1:3d3.3cz,1:3d3.3d5,1:3d3.3d5.3cw' +
+    ',1:3d3.3d5.3cz,1:3d3.3d5.3d3,1:3d3.3d5.3d5,1:3d3.3d5.3d8,1:3d3.3d8,1:3d3.3da,1:3d3.3dc,1:3d3.3dd,1:3' +
+    'd3.3d7,1:3d3.3d3.3d7,1:3d5.3cw,1:3d5.3cy,1:3d5.3cz,1:3d5.3d1,1:3d5.3d2,1:3d5.3d3,1:3d5.3d3.3cw,1:3d5' +
+    '.3d5.3d5,1:3d5.3d7,1:3d5.3d8,1:3d5.3da,1:3d5.3db,1:3d5.3dc,1:3d5.3dd,1:3d1.3de,2:3ek.3ek,2:3em.3em,2' +
+    ':3d7.3cw,1:3d7.3cz,1:3d7.3d2,1:3d7.3d3,1:3d7.3d5,1:3d7.3eo,1:3d7.3d7,1:3d7.3d8,1:3d7.3da,1:3d7.3dc,1' +
+    ':3d7.3dd,2:3d8.3d7,2:3f2.3f2,2:3f4.3f4,1:3da.3db,1:3da.3de,3:3dd.3d3,1:3dd.3d7,1:3de.3de,2:3cw.3cz,1' +
+    ':3cy.3d5,1:3cy.3d8,1:3cy.3de,1:3cz.3d1,4:3fl.ffs,2:3fn.ffs,2:3fp.ffs,2:3fr.ffs,2:3ft.3fl,1:3ft.3fl.f' +
+    'fs,1:3ft.ffs,3:3fy.3fp,1:3fy.3fp.ffs,1:3fy.ffs,2:9oc,1:9oc.ffs,1:ffs,1:3fl.3ft,1:3fl.3fy,1:3fn.3ft,1' +
+    ':3fn.3fx,1:3fp.3ft,1:3fp.3fy,1:3fp.9oc,1:3fr.3ft,1:3fr.3fy,1:3ft.3fp,1:3ft.3fp.ffs,1:3ft.3fr.ffs,1:3' +
+    'ft.3ft,1:3ft.3fy,1:3fx.3fn,1:3fx.3fn.ffs,1:3fx.3fn,1:3fx.3ft,1:3fx.ffs,1:3fy.3fl,1:3fy.3fl.ffs,1:3fy' +
+    '.3fp.9oc,1:3fy.3fr.ffs,1:3fy.3fy,1:3g2.3fl,1:3g2.3fp,1:3g2.3fp.ffs,1:3g2.3fr,1:3g2.3fr.ffs,1:3g2.3fy' +
+    ',1:3g2.ffs,1:9oc.3fy,1:9oc.9oc,1:9oc.ffs.3fy,1:ffs.3fl,1:ffs.3fn,1:ffs.3ft,1:ffs.3fy,1:ffs.9oc,1:ffs' +
+    '.3ha,2:3ha.3fp,1:3ha.3fy,1:3ha.ffs,1:3ha.3ha,1:3fl.9oc,1:3fn.3fy,1:3fr.3fn,1:3ft.3fn,1:3ft.3fn.ffs,1' +
+    ':3cw,1:3cw.3cw,1:3cw.3d5,1:3cy,1:3cy.3d8,1:3cy.3de,1:3cz,1:3d1,1:3d1.3cw,1:3d1.3d2,1:3d1.3d3,1:3d1.3' +
+    'd5,1:3d1.3dc,1:3d1.3dd,1:3d1.3de,1:3d2,1:3d3,1:3d3.3d5,1:3d5,1:3d5.3d5,1:3d7,1:3d8,1:3da,1:3db,1:3dc' +
+    ',1:3dd,1:3de,1:3cw.3d1,1:3cw.3d5.3cw,1:3cy.3cw,1:3cy.3cz,1:3cy.3d5,1:3cy.3eo,1:3cy.3dc,1:3cz.3cw,1:3' +
+    'cz.3d1,1:3d1.3cw.3d5,1:3d1.3cy,1:3d1.3cz,1:3d1.3cz.3de,1:3d1.3d1,1:3d1.3d2.3cw,1:3d1.3d2.3d5,1:3d1.3' +
+    'd3.3d5,1:3d1.3d3.3de,1:3d1.3d3.3d7,1:3d1.3d5.3d5,1:3d1.3eo,1:3d1.3db,1:3d1.3fd,1:3d2.3cw,1:3d2.3d1,1' +
+    ':3d2.3d3,1:3d2.3d5,1:3d2.3d5.3d5,1:3d2.3eo,1:3d2.3da,1:3d2.3de,1:3d2.3d7,1:3d3.3d1,1:3d3.3dd,1:3d3.3' +
+    'de,1:3d3.3d7,1:3d5.3cw,1:3d5.3cz,1:3d5.3d1,1:3d5.3d3,1:3eo,1:3d7.3cw,1:3d7.3cw.3cw,1:3d7.3d7,1:3d7.3' +
+    'db,1:3f0,1:3d7.3d5,1:3d7.3eo,1:3dd.3d3,1:3dd.3d7,1:3de.3cy,1:3de.3d1,1:3de.3d2,1:3de.3d3,1:3fd,1:3cw' +
+    '.3cy,1:3cw.3d3,1:3cw.3da,1:3cw.3db,1:3cw.3de,1:3cy.3cy,1:2d,z:hc,t:py,w:11k,1g:12p,1o:27,5s:1w,1:2a,' +
+    '1:2c,2:27.13,1:2x,3:8s5,1:2h,1:1t,1:22,1:1x,2:1r,2:8s5,1:pf,2:2f,4:25,4:20,2:2h,1:27.mt,1:bv,1:1z,2:' +
+    '2w,1:2i,4:v4,4:b4,1:2d.mt,2:1g,1:2q,3:2a,2:2f,1:2b,4:2e,1:2b,4:24,1:1v,3:28,4:23,1:2s,4:27.mt,3:1i,2' +
+    ':67,2:2w.lw,1:1z,1:1u,c:1p,3:pg,9:53.3y9,1:3y9.53,1:53.pg,1:pg.53,1:53.3yc,1:3yc.53,1:53.3yd,1:3yd.5' +
+    '3,1:53.3ye,1:3ye.53,2:53.3yi,1:3yi.53,1:53.3yj,1:3yj.53,d:53,4:3y9.3z4,1:pg.3z4,1:3yd.3z4,1:3yi.3z4,' +
+    '1:2e,2:g5,2:1q,4:53.1q,1:1o,2:53.2e,1:2e.53,1:53.g5,1:g5.53,1:53.3zm,1:3zm.53,1:53.1q,1:1q.53,1:53.3' +
+    'zo,1:3zo.53,1:53.1o,1:1o.53,1:53.3zt,1:3zt.53,3:13,2:2d,2:11k,6:53.40g,3:53.2d,1:2d.53,1:53.11k,1:11' +
+    'k.53,1:53.40f,1:40f.53,1:53.40g,1:40g.53,1:53.40h,1:40h.53,1:53.40l,1:40l.53,1:53.40m,1:40m.53,3:2d.' +
+    '13,1:11k.13,1:40g.13,1:40l.13,3:28,2:2s,5:53.417,1:417.53,1:53.28,1:34.53,1:53.41a,1:41a.53,1:53.2s,' +
+    '1:2s.53,1:53.41c,1:41c.53,1:53.41e,1:41e.53,1:53.41f,1:41f.53,4:417.13,1:28.13,1:2s.13,1:41e.13,5:22' +
+    ',5:53.421,1:421.53,1:53.423,1:423.53,1:53.424,1:424.53,1:53.22,1:22.53,1:53.426,1:426.53,1:53.428,1:' +
+    '428.53,1:53.429,1:429.53,6:pf,5:24,2:53.42r,1:42r.53,1:53.pf,1:pf.53,1:53.42u,1:42u.53,1:53.42v,1:42' +
+    'v.53,1:53.42w,1:42w.53,1:53.24,1:30.53,1:53.42z,1:42z.53,6:1e,a:53.43k,1:43k.53,1:53.43r,1:43r.53,1:' +
+    '53.43s,1:43s.53,3:3z5,b:53.443,1:443.53,1:53.445,1:445.53,1:53.446,1:446.53,1:53.447,1:447.53,1:53.4' +
+    '48,1:448.53,1:53.44a,1:44a.53,1:53.44b,1:44b.53,d:53.44t,1:44t.53,1:53.44v,1:44v.53,1:53.44w,1:44w.5' +
+    '3,1:53.44x,1:44x.53,1:53.44y,1:44y.53,1:53.450,1:450.53,1:53.451,1:451.53,9:45n.1o,1:45n.40l,1:45n.4' +
+    '1e,1:45n.428,8:53.45s,1:45s.53,1:53.45t,1:45t.53,1:53.45u,1:45u.53,1:53.45v,1:45v.53,1:53.45w,1:45w.' +
+    '53,1:53.45x,1:45x.53,1:53.45y,1:45y.53,b:53.1g,1:1g.53,1:53.46g,1:46g.53,1:53.46h,1:46h.53,1:53.46i,' +
+    '1:46i.53,1:53.46j,1:46j.53,1:53.46l,1:46l.53,1:53.46m,1:46m.53,4:3zd,1:3c,d:53.47g,1:47g.53,c:53.47u' +
+    ',1:47u.53,c:53.487,1:487.53,e:61r,5:20,1:3c,1:47k.418,1:47k.28,1:47k.41a,1:47k.2s,1:47k.41c,1:47k.41' +
+    'e,1:47k.41f,1:47k.41v,2:2a,7:49h.422,1:49h.423,1:49h.424,1:49h.22,1:49h.426,1:49h.428,1:49h.429,r:2q' +
+    ',5:1y,1:6k2,2:x6j,d:8rz,1:1t,p:1w,c:1w,5:v4,1:25,7:1u,b:428,1:421,1:443,3:44a,r:477,1:47a,1:47e,a:c1' +
+    ',1:q1,5:c1,1:q1,1k:2g,1:3c,1:47k.417,1:49h.421,1:49i.423,1:49i.424,1:49i.22,1:49i.426,1:49i.428,1:49' +
+    'i.429,1:49z.53,1:4a0.53,1:4a1.53,1:4a2.53,1:4a3.53,1:4a4.53,1:4a5.53,1h:1o,5:2g,a:30,1:4hp,a:13,9:23' +
+    ',1:25,2:q0,9:4ho,a:53,1:1m,1:17,3:py,1x:1b,32:4o2,k:2t0,1:2t1,1:2t2,1:2t3,c:lm,5:2tk,8:lm,1:2sv,1:2u' +
+    '2,4:2tr,1:2u3,15:1m,6:1m,24:4s5,1t:4t8,t:53.4vl,3:53.4vo,3:53.4vs,9:53.4w0,4:53.43m,1:43m.53,1:53.43' +
+    'n,1:43n.53,1:53.43o,1:43o.53,1:53.43p,1:43p.53,1:53.477,1:53.47a,1:53.47b,1:53.47c,1:53.47d,1:53.47f' +
+    ',8:4xh,1:4wv.3z2,1:3z2.4wv,3:477.53,3:47y.53,1:486.53,1:48b.53,3:492.53,2:49j.53,3:v4.53,3:4c4.53,2:' +
+    '4d7.53,66:526,1:52p,4v:56t,g:56t,p:59k.59k,2:59m.59k,9:1cr,3:mg,4b:5cd,1:5ch,5:5d4,4:5e8,3:5em.5em,6' +
+    '5:5kr.5kr,1v:5mm.5mm,29:le,2:lg,1:13.13,2:mj,3:mm,1:ml,1:lq,2:mh,1:mb,1:mc,f:ly,n:2r,4:gs,3:8o,2:i5,' +
+    '2:33,1:gk,1:33,3:d9.33,8:39,4:3a,1:3b,1:3e,2:bs,2:36,1:i4,1:qo,1:5qw,2:u3,1s:39.2t,3:2u.ms,1:36.32.m' +
+    's,1:32.ms,2:36.ms,1:hq.ms,1:37.ms,1:38.ms,1:3e.ms,5:2x.mt,1:2x.mt,1:34.mt,1:39.mt,1:i2.mt,4:2v,9:3d,' +
+    '4:gb,2m:92k,2d:xu9,2i:2u,2q:3d,3i:6b8,1t:2x,1d:13,7:3xr,q:19,2:19,1:19,1:9oc,1:9oc,1:30.30,2:13,1:13' +
+    ',1:18,1:13,1:13.13,1:13.13,2:13.13,3:53,5:53,9:56.1b.6f4.6f4,1:56.1b.6f4.6f4.6f4,1:13,3:13,4:1o,1:1q' +
+    ',7:1b,2:19,1:1b,a:16,4:56.1b.6f4,1:3i,7:1m,3:8yf,1:8xu,1v:1v.6i3,3:4j,1:36.32.mw,4:2f.mt,2:2s.mt.mp,' +
+    '1:x3m,1:23.mt,1:2c.6i3,8:30.38,7:11w,u:1cr,19:tp,v:c1,2:hr,5:2t,j:wko,1:wl2,1:20hs,1t:gk,d:4i7,4:4iw' +
+    ',w:6nm,9:4ii,1:4i8,1t:8rz,3:b2,3:pg,9:ps,2:bt,1:19,2:17.lj,1:1b,1:2k,1:16,1:4w,1:53,5:33.33,5:30,2:3' +
+    '0.30,3:3a,1:11k,1:2d,1:hv,b:1m,2:19.lj,4:3i,k:1p.lj,1:1p.lj.mb,6:1p.lm,2:1p.le,1:1p.li,4:1p.ob,5:6sh' +
+    ',7:1o.1o,1:1q.1q,n:40l,1:40g,i:1f3c,1:27.mt,3:ig,4:27.mt,7:2c,1:wk5,r:6qv,1:3a,1:11k,1:2d,1:4ik,1:53' +
+    ',3:4im,e:1o.53,1:53.1q,1:1o.1o.1o,1:1q.1q.1q,l:8yf,1:53.53.53,5:x3n,b:1x,1:6px,11:6xw,4:7sc,1:7sd,n:' +
+    '9j0,o:pg.mq,1:4ik.mq,2:4w.mq,3:6u3,2:2c.lk,1:6pz.lk,1:6va.lk,1:4w.lk,4:3i.lk,1:3zp,2:6pz.ms,1:27.mt,' +
+    '7:2x,1:34,1:qx,1:2p.mq,1:x3n.mq,1:2x.mq,1:qx.mq,1:2p,5:4hp,t:ffs,3:ffs,3:ffs,3:ffs,5:ffs,4:ffs,j:6z9' +
+    ',1:6z2,1:6yz,3:6zx,y:6f5.6f4,k:73v,1:30,1:7jy,24:2k.2k,52:9oc,1:9oc,2:7b6,c:7bg,k:7bw,26:1b,2:2g,l:6' +
+    'q6,8:7f0,4:jt,3:7fa,6:7fc,3:6q6,h:739,2:pg,4:6ur,1:7g6,2:7g6,3:1f3w,4:6uq,6:4ik,3:4ik,1:4w,3:6ym,i:6' +
+    'xe,6:4w,z:ig,7:7fl,l:1ggu,b:8ty,8:70o,m:6rz,k:4ik,7:2jx4.2jxh,1:2jx4.2jxh.2jxq,1u:1v4,58:14,1:15,5:1' +
+    'o,1:1q,3:14,1:15,1:3f,1:3h,w:17,1:19,1:6v,17:wk5,6:2k.40l,1:40g.1b,2:1b,2:2k,c:2c,f:7sc,1:7sd,8y:3c,' +
+    '1:3c,1j:4i8.4ii,2:6o3.6o2,9:4i8.6o2,1:6o3.4ii,16:8xu,n:6yx,e:6ym,6:9j0,1:6yq,2:6yj,f:1f40,3:87u,r:1m' +
+    '.6mq,1:2k,1:1b.lg,2:1b,1:2k,7:ig,1:1f3c,1:6tz,1:6tp,1:6tq,1:6tv,1:6tw,n:4im,3:1q.1q,1:4ii,1:17.lm,1:' +
+    '17.le,1:17.lf,1:17.mb,1:17.mo,1:17.6f6,2:19.lv,1:19.mb,5:3c,1:3c.lj,d:6xl,1:8bj,1:6q8,17:3i.lj,4:1p.' +
+    '6i8,1j:1q.1o,5:4b9,1:4b6,18:40g.40l,10:1b.1b.1b,2:1b.1b,6n:6n2,1:6n3,1:6n4,1:6n5,46:36,4:x3n,c:8o,a:' +
+    '33,4:34,2:2r,6:hk,2:qv,4:qx,c:ug,g:f1,4:in,j:rb,5:7jb,g:2k.2k,1k:27.mt,6:g5,1:2e,1:1x,1:b2,7:27.mw,7' +
+    ':53.53.53,1:bt,6:30,2:x,3:27,1:29,4:ig,4:2g,3:pg,3:4j3,3p:5wf,2:lm,3:o8,2:of,7:o3,1:o4,z:19.lk,4:3i.' +
+    'lj,1:3i.mb,7:40l,1:40g,1:14.14,1:15.15,1:6r9,1:6r8,1:6rb,2:17j,2:4w,1:53,1:170,3:17f,4:61r,4:8xu,2:5' +
+    '2,1:1p,1u:fh7,1:fh6,2:fjv,4:g76,2:aim,3:g1s,1:i77,1:i76,2:ik3,1:inu,1:itt,2:ix0,1:b96,1:jf0,1:jzp,2:' +
+    'k4h,3:l8a,2:lch,1:ldh,1:ldm,1:m7g,1:mjv,2:ffw,2:mnh,3:p5e,2:ny3,2:oop,2:p5f,1:p5e,7:paa,1:pds,4:prt,' +
+    '1:prt,1:prt,1:qj2,1:qxw,1:r5s,1:r5r,1:r7l,3:rkw,1:rvh,2:sbq,1:sdy,1:sdy,2:tnh,1:tc5,1:tiv,1:tiw,1:tj' +
+    '3,1:tm0,2:tnh,2:tw2,1:u06,1:u45,1:u6m,1:u72,1:u73,2:u74,1:uar,2:ui4,2:unw,1:uws,3:vc6,1:vd0,2:k21,1:' +
+    'vgw,1:l7z,1:vi7,1:o9o,1:vix,2:fi8,7l:13.13,4:27,1:7sc,1:7sd,9:6go,2:14,1:15,5:7vq,1:7vr,h:ll,1:md,6:' +
+    '1b,s:7sc,23:lm,6:1p,4:fjv,4:ijp,3:gbf,k:hlh,9:ggs,3:fik,3:1b,1:g2z,9:9ko,l:gkj,e:53,5x:9oc,1:ffs,2:1' +
+    'b,1:2k,2:fh7,4:fid,1:7sc,4:fh6,1:fh5,1jn:app,1yg:ako,3p:bp7,1y8:9oc,1i:2k,9:1b,cj:fp1,1m:ftw,10j:gur' +
+    ',ag:gkj,b8:hgh,3k:h7j,k:hij,e9:hwv,mq:ild,u:bp6,rs:jee,cx:bi9,gq:cov,6:k7u,3x:bmi,1c:dhf,61:kfi,dm:b' +
+    's3,1q:kv1,10y:lu0,1rq:npw,10n:or9,mo:kcs,10:kcw,6:kcv,12:bp1,b:kcz,12:kd4,q:ph8,2u:kdf,pk:q6l,76:qif' +
+    ',rh:dyu,2n:ram,7m:rk6,5w:rq4,83:ry7,38:s11,4h:s5z,3w:s8v,c7:slq,k0:t65,lm:trr,1hn:v9e,3z:vdd,6p:cop,' +
+    'y9:w5p,8:vr4,2:vnu,9:wgo,1:vua,4:vo0,4:wci,a:wcf,4:w4x,1:w2h,1:wbv,2:wc5,e:1u,1:28,1:2s,1:1w,1:2c,2:' +
+    '1z,1:23,2:22,1:1v,1:au,1:2i,1:1y,1:6k2,1:25,1:26,1:24,1:2b,1:2a,2:g5,1:2e,1:20,3:2f,1:2g,1:2h,1:4f4,' +
+    '1:1t,1:8rz,1:1x,1:b2,1:30,1:27,1:2d,1:11k,2:4bl,1:1a,1:18,1:1a.1a,1:1a.18,2:1m,1:19.1a,1:1p,7j:1a,1j' +
+    ':bs,2:2x,6:qx,4:jt.2q.2x,u:6i1,d:li,2:jr,n:2w.lw,4:33.33,8:t4,f:4hl,1:8s5,s:ip,1:g5,d:ps,4:2e,c:1r,4' +
+    ':1e,1:le,1:lg,3:wz7.wz7,w:kr,2:kq,j:38.f1,8:37,2:2p.2p,2:2p.33,2:2p.39,2:2p.3a,2:2p.3a,2:2p.3d,e:33.' +
+    'mt,4:33.33,i:3b.me,a:f1,c:38.2u,1:12,2:x2x,f:1m,3:13,3:53,6:x0n,4:2u,2:1fei,2:ii,2:39,m:67,2:qx,1s:9' +
+    'oc,1l:1us,8g:3cz.3d2,1:3cz.3d3,1:3cz.3d5,1:3cz.3d8,1:3d1.3cw,1:3d1.3cw.3cw,1:3d1.3cz,1:3d1.3cz.3cz,1' +
+    ':3d1.3d2,1:3d1.3d3,1:3d1.3d3.3d3,1:3d1.3d3.3d7,1:3d1.3d5,1:3d1.3d8,1:3d1.3db,1:3d2.3cw,1:3d2.3cz,1:3' +
+    'd2.3d5,1:3d3.3d5.3dc,1:3d3.3db,1:3d3.3de,1:3d5.3d5.3d3,1:3d7.3d1,1:3d7.3de,1:3d8.3d8.3de,1:3dc.3dc,1' +
+    ':3dd.3de,1:3de.3d5,1:3fd.3fd,m:8qn,h:xi5,z:xjk,9:19e,3o:xkx,3:xlv,64:2t,3:2u,8:33,1:33.mw,1:gk.mw,2:' +
+    'd9.33.mw,1:d9.33.mt,5:36,1:36,5:hv,1:39,4:39,1:qv,2:qv,5:3d,6:ux,2:gk.2t,1:39.33,8r1:3ft.3fr,1:3ft.3' +
+    'ft.ffs,1:3fx.3fl,1:3fx.3fl.ffs,1:3fx.3fp,1:3fy.3fr,1:3fy.ffs.ffs,1:3g2.3fl.ffs,1:3g2.3ft,1:9oc.3fl,1' +
+    ':9oc.3fp,1:9oc.3fp.ffs,1:9oc.3ft,1:ffs.3fn.3ft,1:ffs.3fn.ffs,1:ffs.3fr,1:ffs.3fr.ffs,1:ffs.3ft.ffs,1' +
+    ':ffs.3fx,1:ffs.3g2,1:ffs.ffs,1:3ha.3fl,1:3ha.3fp.ffs,5:3cy.3d1,1:3cy.3da,1:3cz.3cz,1:3cz.3cz.3d3,1:3' +
+    'cz.3d3,1:3cz.3d5,1:3cz.3d5.3cw,1:3cz.3d8,1:3cz.3da,1:3cz.3dc,1:3d1.3cw.3cw,1:3d1.3cw.3de,1:3d1.3d1.3' +
+    'db,1:3d1.3d2.3de,1:3d1.3d3.3cz,1:3d1.3d3.3dd,1:3d1.3f0,1:3d1.3fd.3de,1:3d1.3d7,1:3d2.3cy,1:3d2.3cy.3' +
+    'cy,1:3d2.3d2,1:3d2.3d3.3d5,1:3d2.3d8,1:3d3.3cz,1:3d3.3d1.3dd,1:3d3.3d2,1:3d3.3d3,1:3d3.3d5.3cz,1:3d3' +
+    '.3d8,1:3d3.3da,1:3d5.3d2,1:3d5.3d3.3d7,1:3d5.3d5.3cw,1:3d5.3d5.3cz,1:3d5.3eo,1:3d5.3d8,1:3d5.3da,1:3' +
+    'd5.3dc,1:3d1.3de,1:3eo.3d3,1:3eo.3d3.3d7,1:3f0.3d2,1:3f0.3de,1:3d8.3d3,1:3d8.3d3.3d3,1:3d8.3d8,1:3dd' +
+    '.3d5,1:3dd.3dc,6it:rpk,1:kc4,1:s7e,1:rt4,1:lw1,1:fg2,1:gkl,1:vj0,1:vj0,1:hn5,1:ssx,1:gw7,1:hmw,1:jcm' +
+    ',1:ne1,1:p6t,1:qin,1:qt6,1:r20,1:sjz,1:kxu,1:ljv,1:mah,1:mvy,1:q4d,1:sq2,1:uep,1:fia,1:ghh,1:l50,1:m' +
+    'jf,1:qi5,1:v8e,1:ifk,1:m3v,1:qfh,1:r50,1:jih,1:pnc,1:qvz,1:iq2,1:kd3,1:lm2,1:mpo,1:slq,1:fpi,1:g53,1' +
+    ':gda,1:jwk,1:l3n,1:mj4,1:nhj,1:pa9,1:qh2,1:qjg,1:s1b,1:tv6,1:upb,1:v7e,1:nt8,1:nzz,1:otc,1:q15,1:t1g' +
+    ',1:vb3,1:rfa,1:hjz,1:iro,1:okg,1:pdq,1:mle,1:nuy,1:rsy,1:ttj,1:hjs,1:i8y,1:kyb,1:lp6,1:lxr,1:oq7,1:o' +
+    'xj,1:tor,1:gcy,1:pe3,1:g64,1:g5o,1:o4c,1:ou6,1:q29,1:tpx,1:rk0,1:jin,1:kxu,1:rge,1:fg9,1:i5j,1:iz6,1' +
+    ':mtj,1:n74,1:gev,1:nwb,1:fr3,1:iw9,1:ff1,1:lho,1:k1k,1:opu,1:gjn,1:hge,1:ni9,1:q4p,1:re2,1:la2,1:sds' +
+    ',1:lfs,1:jjy,1:put,1:jog,1:n6t,1:fji,1:g2x,1:g5l,1:kn5,1:oo7,1:prj,1:rf6,1:ssv,1:gdx,1:gn6,1:ho3,1:i' +
+    'r0,1:k3p,1:m4e,1:nxm,1:tkd,1:ui2,1:vbr,1:vda,1:gbf,1:kau,1:l87,1:sbm,1:ino,1:j9s,1:jcw,1:jve,1:lyb,1' +
+    ':mdl,1:n0p,1:o22,1:ovo,1:pdb,1:s9y,1:q9a,1:sgz,1:t3e,1:g7r,1:gbn,1:gql,1:ma0,1:r0i,1:re2,1:iq1,1:iyd' +
+    ',1:jnf,1:l9q,1:oji,1:mt1,1:fl0,1:h6h,1:i5j,1:iii,1:izg,1:muq,1:mzt,1:p7e,1:pc6,1:svo,1:tti,1:tvs,1:u' +
+    '1k,1:fpn,1:o1a,1:ss4,1:trr,1:j4x,1:fie,1:fyy,1:i5q,1:i7z,1:k2h,1:kxu,1:mha,1:ncy,1:q9o,1:sjg,1:vil,1' +
+    ':k94,1:tny,1:gax,1:kfv,1:kj7,1:lkx,1:luk,1:mx5,1:n6h,1:nsb,1:opc,1:u3i,1:g31,1:je6,1:tq0,1:fu3,1:ie1' +
+    ',1:lpm,1:sa2,1:ivf,1:j7o,1:kk7,1:mtj,1:tqe,1:g89,1:glr,1:i91,1:k5v,1:kem,1:ko8,1:lid,1:mx2,1:naa,1:p' +
+    '6h,1:r0v,1:r1d,1:sss,1:tsy,1:gfz,1:lve,1:gm5,1:mhc,1:n14,1:qgq,1:tr7,1:uvr,1:vbz,1:kgn,1:lor,1:pns,1' +
+    ':o97,1:obk,1:olu,1:mo0,1:m8p,1:riw,1:fk0,1:px2,1:g8q,1:g7b,1:ip2,1:jir,1:onq,1:i2t,1:ljy,1:kac,1:saj' +
+    ',1:qx8,1:tot,1:r63,1:iqb,1:g1s,1:gxs,3:hga,2:k8k,3:g66,1:mqy,1:ngq,1:ny4,1:nz2,1:nz9,1:o0f,1:tw6,1:o' +
+    'n2,1:p8d,2:qhe,2:rg8,3:shk,1:sn1,4:u7j,1:u7w,1:u94,1:v5g,1:slq,1:trr,1:fqm,1:fzb,1:g25,1:gcp,1:gdg,1' +
+    ':ggh,1:gwt,1:gzq,1:h2g,1:hfk,1:hig,1:i90,1:i9a,1:j2s,1:j8o,1:j9q,1:jci,1:k0f,1:k4i,1:k9d,1:kn9,1:lmf' +
+    ',1:lqy,1:lya,1:mem,1:mjv,1:mxu,1:ntd,1:ny6,1:nyh,1:nyg,1:nyo,1:nyu,1:nz1,1:o0d,1:o0e,1:o5c,1:o75,1:o' +
+    'g0,1:ovo,1:ow9,1:oxt,1:p6a,1:pad,1:pnx,1:prt,1:prt,1:q53,1:r2o,1:r6e,1:rgh,1:ri1,1:rtf,1:ruw,1:sdy,1' +
+    ':shk,1:tsz,1:u0v,1:u2j,1:j1x,1:36cu,1:pp4,3:ffq,1:g51,1:g2w,1:fpc,1:g1x,1:g3k,1:gcn,1:ge2,1:gwt,1:gu' +
+    't,1:gwp,1:gyq,1:hga,1:hir,1:hms,1:hn8,1:huq,1:i08,1:iqa,1:iqh,1:iuh,1:iwd,1:j4o,1:j7y,1:j60,1:j9q,1:' +
+    'j8g,1:jci,1:jec,1:jpg,1:jrw,1:jte,1:k0m,1:k8k,1:kd3,1:kd7,1:keu,1:l89,1:la2,1:lkx,1:lwb,1:lvv,1:lya,' +
+    '1:m5a,1:mem,1:nmv,1:mk5,1:mnj,1:mqy,1:n01,1:n46,1:n5n,1:nbx,1:nbz,1:ngq,1:nh7,1:nhw,1:nka,1:nk0,1:nv' +
+    '0,1:o8h,1:og0,1:ol7,1:orf,1:ovo,1:p4u,1:pad,1:pxu,1:q27,1:qrd,1:r41,1:r5y,1:r6e,1:ren,1:rg8,1:rez,1:' +
+    'rgh,1:rge,1:rfx,1:ri1,1:rka,1:ruw,1:sag,1:sj6,1:srd,1:sxi,1:tq4,1:tsz,1:tw6,1:tzv,1:u0v,1:u17,1:u2j,' +
+    '1:umq,1:vj0,1:313e,1:3138,1:33dh,1:brx,1:cns,1:cop,1:39e1,1:3bgw,1:3i6r,1:vgj,1:vim,2a:1dm2,2:1dm4,2' +
+    ':1dm6,1:1dm6,9:1dlp,g:1dm2,dx:14,1:15,qq:53,3x:26.lm,8:2g.mt,1:2e.mt,1:30.mt.30.mt.2b.mt,1:30.mt.30.' +
+    'mt,7:8vc,6a:1u,3:pg,1:1x,1:1y,3:30,3:g5,3:2g,2:27,2:4ik,1:28,1:2b,1:2c,4:17,5:1t,1:1u,1:1v,1:pg,2:1y' +
+    ',6:27,2:rc,3:25,1:2c,1:2h,1:py,1:2g,1:q0,1:q1,2:8xs,n:20,i:17z,3:18o,4:187,a:185,3:2i,c:1u,1:1v,7:30' +
+    ',8:25,1:rc,3:2c,2:2g,3:1k,5:16,1:30,2:2g,4v:1f9e,2:1f9v,2e:x3n,1:ii,2:33,h:2r,2:hj,3:gu,1:in,5:37,3:' +
+    'gk,2:5qm,2b:1fgm,1k:i4,3:qj,f:33,1:wvd,b:39,3:qw,q:26,3:27,2:23,4:1v,1:2e,8:1y,1:24,1:2g,103:mb,m:1a' +
+    ',7:1gly.1gly,ir:1h2d,2:1h1e,qn:1v4,7g:1v4,3:mb,1:1tm,g:xdo,1:xdn,2:6rs,82:lm,7n:1ik4.1iki.1ij6,6:1ik' +
+    '4.1iki.1ijc,b:1ik4.1iki.1ijn,6:1ik4.1iki.1ijt,3:1ik4.1iki.1ijw,2:1ik4.1iki.1ijy,t:1ikr.1ikr,1y:1w8,2' +
+    ':1wa,2:1wc,2:1we,1:1wf,2:1wh,2:1wy,1:1wk,1:1wl,1:1wm,1:1wn,1:1wo,1:1wq,4:1wu,1:1wv,1:1ws,1:1wj,1:1ww' +
+    ',2:1x3,1:1x4,2:1xa,1:1xb,8:1xj,3:1xn,1:1xz,1:1xo,1:li.lj,2:1vn,1:1xp,1:mb,1:1x9,1:3b.lj,b:27,1:1yf,1' +
+    ':1yg,4:1yk,76:1ite,1:1ite,1:1itf,1:1itg,1:1iuq,1:1iur,2t:1iyp.1iyp,5a:36.32,6:3a,4:3b,4:3b,1:3b,c1:3' +
+    'a,1:37,1:1y,1:2x,1:3e,2:1j,2:33,2:1f,2:1l,2:x3n,7:1i,1:1l,1:33,1:39,4:3d,4:27,3:36.32,1:19l,1:2i,1:2' +
+    'f,3:1v,3:2g,3:2f,3:1v,dw:1jvp.1jvz,1:1jvp.1jw0,1:1jvp.1jvp,1:1jvp.1jvp.1jvz,1:1jvp.1jvp.1jw0,2:1jvv.' +
+    '1jvz,1:1jvv.1jvv,1:1jvv.1jvv.1jvz,6:1jw3.1jvz,1:1jw3.1jw0,1:1jw3.1jw3,1:1jw3.1jw3.1jvz,1:1jw3.1jw3.1' +
+    'jw0,96:1k5d.1k5d,34:1k8a,p2:1fa2,3pd:1ggu,bv2:pf,1:2e,2:2c,c:24,4:pg,2:wuw,a:wl2,2:30,5:b4,8:2a,5:2b' +
+    ',1:1f,2:g5,2:1q,1:1t,2:2d,1:2h,e:13,1:13,jb6:3f,2h:1a,45:zi,4:1f,5:t4,2:2e,2:2k,3:1j,1:1y,1:1f3w,1:w' +
+    'l2,1:2a,1:8rz,3:27.mt,1:6kk,1:wk5,5:b4,1:v4,8:24,1:wl2,5:x6j,6:1o,1:1q,1:6tr,1:6ts,1:1b,1:2k,4:4i3,6' +
+    ':11k,4g2:30,1:6qo,1:19f,2:1k,1:6pu,1:6pu.mt,211:7jx,6:7jy,1:7jx,rr:29.1x,1:wuw,1:pg,2:1f3w,3:1t.2a,1' +
+    ':2e.5wk,2:7jd,a:27.mt,k:1f3c,i:89r,i:1v,8:4ik,1:6u9,7:37.37.37,2:6rz,a:2c,3:25.1u,1:2e.1u,5:6u8,7zr:' +
+    '7sc,16oo:fgd,1:fg8,1:fgh,1:2tcy,1:fog,1:fqm,1:fqz,1:fp1,1:fwa,1:fx5,1:fzb,1:fyn,1:ae6,1:2ud6,1:g25,1' +
+    ':g2c,1:g2s,1:g3b,1:2u58,1:aex,1:g2v,1:g3x,1:2u6j,1:g47,1:g4k,1:fkc,1:g4s,1:g51,1:3ly7,1:g6t,1:g77,1:' +
+    'afz,1:g8r,1:g92,1:gaa,1:gaf,1:ahh,1:gcn,1:gcp,1:gdg,1:ge2,1:ged,1:gee,1:gev,1:gg9,1:ggh,1:ggq,1:ghf,' +
+    '1:ghp,1:ghr,1:ghr,1:ghr,1:2v58,1:m7k,1:gju,1:gkf,1:2vdv,1:gkr,1:gkx,1:gli,1:gpq,1:gmw,1:gnc,1:go8,1:' +
+    'gpu,1:gs6,1:gsw,1:gur,1:gv7,1:gw4,1:gw4,1:gwp,1:gx7,1:gxf,1:gxu,1:h7a,1:gzq,1:h7b,1:h1t,1:h2s,1:g7b,' +
+    '1:hke,1:hce,1:hdg,1:he5,1:haj,1:hf6,1:hf5,1:hik,1:2x9g,1:hki,1:hkn,1:hl2,1:hlm,1:hlu,1:hnm,1:2xm0,1:' +
+    '2xnu,1:hrg,1:hsr,1:ht3,1:hqw,1:huu,1:aum,2:hzc,1:i0u,1:i0u,1:2y88,1:i4j,1:i54,1:i5j,1:i5v,1:2yhk,1:i' +
+    '67,1:i6e,2:i76,1:ayp,1:i8w,1:i9a,1:ibk,1:ia5,1:2z1g,1:if7,1:2z1i,1:ige,1:igb,1:igs,1:ijl,1:ijm,1:b3j' +
+    ',1:ikd,1:ilk,1:im5,1:ind,1:b4y,1:2zr7,1:b5o,1:ipc,1:ipf,1:ipi,1:iq2,1:3pg2,1:iri,1:3035,1:3035,1:poh' +
+    ',1:isi,1:isi,1:b7r,1:335k,1:3cgq,1:iua,1:iuj,1:b8j,1:ivu,1:ix9,1:ixj,1:iyh,1:j29,1:bay,1:ba4,1:j2s,1' +
+    ':30t0,1:j47,1:j7s,1:j7w,1:j7y,1:j7w,1:j96,1:j9q,1:jaq,1:jac,1:jan,1:jby,1:jci,1:jcm,1:jdc,1:jdn,1:jf' +
+    'h,1:jht,1:jis,1:jm8,1:31n0,1:jlp,1:jjw,1:jmw,1:jnn,1:jqc,1:31td,1:js2,1:jph,1:jop,1:bhq,1:ju1,1:jum,' +
+    '1:jvh,1:juf,1:bjg,1:k0f,1:k18,1:32mi,1:k4j,1:kc8,1:k7d,1:bo9,1:k9d,1:bns,1:bms,1:g42,1:g45,1:kcg,1:k' +
+    '9o,1:pf1,1:deh,1:kd3,1:kd7,1:kdd,1:kf2,1:ker,1:33cz,1:bpl,1:kje,1:kg5,1:klu,1:kn9,1:33hp,1:kni,1:kkf' +
+    ',1:kr8,1:brx,1:ksi,1:kv7,1:kx6,1:l2g,1:33xf,1:l3v,1:bvc,1:l5t,1:34br,1:l78,1:bwu,1:l82,1:l9b,1:la2,1' +
+    ':la3,1:34p9,1:2yvf,1:34sa,1:le6,1:354s,1:lhb,1:lhp,1:lev,1:ljq,1:lku,1:lmf,1:lkx,1:lm1,1:lmg,1:lmt,1' +
+    ':357i,1:lkk,1:lrj,1:lta,1:c37,1:lvv,1:lvr,1:35jl,1:lq1,1:m0e,1:35ni,1:35ou,1:m2u,1:m61,1:m5a,1:m57,1' +
+    ':c5y,1:m6i,1:m7x,1:m7r,1:m99,1:2u5h,1:mdh,1:368z,1:mfw,2:mjs,1:mk5,1:mkw,1:36yw,1:mm8,1:mmt,1:3779,1' +
+    ':37dg,1:mt6,1:mtn,1:cdo,1:mud,1:ce0,1:ce0,1:myv,1:mzg,1:n01,1:n0l,1:n2i,1:cgr,1:n50,1:386u,1:n5q,1:3' +
+    '89e,1:n74,1:2zrz,1:nbk,1:38v5,1:38vs,1:38zo,1:cn0,1:cnc,1:nhw,1:394j,1:394i,1:395l,1:396b,1:nj2,1:nj' +
+    '3,1:nj3,1:nka,1:cop,1:nm3,1:cp2,1:cra,1:39r1,1:nri,1:nt8,1:nv0,1:ctf,1:3a5i,1:nyu,1:3a8q,1:3a9x,1:o0' +
+    'f,1:o2z,1:cvj,1:o5c,1:o5m,1:o5r,1:3at8,1:3b1j,1:3b1j,2:d1e,1:3b8r,1:og6,1:og9,1:d2f,1:3beo,1:onm,1:d' +
+    '5s,1:oo8,1:oo3,1:oow,1:3c06,1:orn,1:d8h,1:ouf,1:ow2,1:oxx,1:d9w,1:3ciw,1:3cjr,1:dax,1:3cnt,1:p6i,1:3' +
+    'cqm,1:p79,1:pa2,1:pad,1:3d22,1:3d43,1:pcw,1:3d7s,1:pdc,1:33a7,1:ded,1:pf6,1:phf,1:dfv,1:pj2,1:hx1,1:' +
+    '3dlz,1:3dmd,1:33bn,1:33bw,1:poh,1:pok,1:sda,1:dij,1:psh,1:psb,1:pst,1:gc3,1:ptd,1:ptf,1:ptp,1:puu,1:' +
+    '3ebg,1:put,1:pwd,1:pyb,1:q0d,1:pwj,1:q0t,1:q1z,1:q53,1:pxv,1:q16,1:q18,1:q1o,1:3eie,1:3eqz,1:3emt,1:' +
+    'dnv,1:q9d,1:q9f,1:qae,1:3g0a,1:qck,1:3f3g,1:dp9,1:dpd,1:3f75,1:3ff6,1:dpn,1:qj4,1:qjg,1:qjr,1:qjt,1:' +
+    'qll,1:qko,1:qoe,1:qn6,1:qrd,1:qp4,1:qqz,1:qrq,2:qu9,1:qv5,1:dtl,1:qxs,1:qxv,1:3giv,1:r13,1:r1a,1:dv9' +
+    ',1:r22,1:aez,1:3gz2,1:3h46,1:dz2,1:dzb,1:rds,1:rfx,1:rka,1:rpx,1:3hrc,1:rsb,1:rsx,1:rvf,1:rxz,1:3i9b' +
+    ',1:2upw,1:s0b,1:rzw,1:s1c,1:2uvy,1:s7o,1:sag,1:3jki,1:3jl9,1:sk4,1:smp,1:snl,1:3ju6,1:snv,1:svs,1:t0' +
+    '7,1:t08,1:sxo,1:t89,1:t91,1:3ksa,1:tjf,1:ej9,1:tkn,1:3l2v,1:eli,1:ts3,1:iia,1:tur,1:3ltx,1:3lzu,1:ep' +
+    'a,1:epi,1:u00,1:3mdm,1:er6,1:3mhi,1:u17,1:u17,1:u21,1:3mpi,1:u76,1:eur,1:u95,1:ucn,1:ude,1:uf2,1:ez2' +
+    ',1:3nsg,1:umq,1:uv4,1:v0d,1:f66,1:f71,1:v3b,1:3owe,1:f7c,1:3oxx,1:3p5a,1:3p8x,1:vcr,1:f9y,1:veh,1:ve' +
+    'm,1:vet,1:vf3,1:vfa,1:vgb,1:3pxc';
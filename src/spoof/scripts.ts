@@ -0,0 +1,86 @@
+// Generated by build/generate-spoof-data.js from the Unicode Character Database
+// and the Unicode Security Mechanisms data files. Do not edit this file directly.
+// Unicode data files are subject to the Unicode License, see https://www.unicode.org/license.txt
+// Scripts.txt 10.0.0, ScriptExtensions.txt 10.0.0
+
+// 141 scripts, see src/spoof.ts for the format
+export const SCRIPTS =
+    'Zyyy Zinh Latn Grek Cyrl Armn Hebr Arab Syrc Thaa Deva Beng Guru Gujr Orya Taml Telu Knda Mlym Sinh ' +
+    'Thai Laoo Tibt Mymr Geor Hang Ethi Cher Cans Ogam Runr Khmr Mong Hira Kana Bopo Hani Yiii Ital Goth ' +
+    'Dsrt Tglg Hano Buhd Tagb Limb Tale Linb Ugar Shaw Osma Cprt Brai Bugi Copt Talu Glag Tfng Sylo Xpeo ' +
+    'Khar Bali Xsux Phnx Phag Nkoo Sund Lepc Olck Vaii Saur Kali Rjng Lyci Cari Lydi Cham Lana Tavt Avst ' +
+    'Egyp Samr Lisu Bamu Java Mtei Armi Sarb Prti Phli Orkh Kthi Batk Brah Mand Cakm Merc Mero Plrd Shrd ' +
+    'Sora Takr Aghb Bass Dupl Elba Gran Hmng Khoj Lina Mahj Mani Mend Modi Mroo Narb Nbat Palm Pauc Perm ' +
+    'Phlp Sidd Sind Tirh Wara Ahom Hluw Hatr Mult Hung Sgnw Adlm Bhks Marc Newa Osge Tang Gonm Nshu Soyo ' +
+    'Zanb';
+
+// 1580 runs of code points
+export const SCRIPT_EXTENSIONS =
+    '0:0,1t:2,q:0,6:2,q:0,1b:2,1:0,f:2,1:0,5:2,n:0,1:2,v:0,1:2,ch:0,13:2,5:0,5:z,2:0,k:1,1u:3,1:1,2:3,1:1' +
+    ',t:2,d:3,4:0,1:3,3:,2:3,4:0,1:3,1:,4:3,1:0,1:3,1:0,1:3,3:,1:3,1:,1:3,k:,1:3,1r:1i,e:3,g:4,3n:4.3b,1:' +
+    '4.1k,1:2.4,2:4.1k,1:4,4o:,1:5,12:,2:5,7:,1:5,13:,1:5.o,1:5,1:,2:5,3:,1:6,1j:,8:6,r:,5:6,5:,b:7,5:0,1' +
+    ':7,6:7.8.9,1:7,e:7.8.9,2:,1:7,1:7.8.9,1:7,w:7.8.2m.33.3c.3n,1:7,a:7.8,b:7,a:7.9,a:7,6:7.8,1:7,30:0,1' +
+    ':7,y:8,e:,1:8,1o:,2:8,3:7,1c:9,1e:,e:1t,1n:,5:29,1a:,2:29,f:,1:2m,s:,2:2m,1:,1:8,b:,1h:7,l:,1:7,8:,m' +
+    ':7,e:0,1:7,t:a,29:2.a.b.c.d.e.f.g.h.i.2r.2y,1:2.a.b.c.d.e.f.g.h.i.2y,1:a,h:a.b.c.d.e.f.g.h.i.j.1m.2t' +
+    '.2y.32.3e.3f,1:a.b.c.d.e.f.g.h.i.j.19.1m.2t.2y.32.3e.3f,1:a.2j.32,a:a,g:b,4:,1:b,8:,2:b,2:,2:b,m:,1:' +
+    'b,7:,1:b,1:,3:b,4:,2:b,9:,2:b,2:,2:b,4:,8:b,1:,4:b,2:,1:b,5:,2:b.1m.2n,a:b,e:,3:c,3:,1:c,6:,4:c,2:,2' +
+    ':c,m:,1:c,7:,1:c,2:,1:c,2:,1:c,2:,2:c,1:,1:c,5:,4:c,2:,2:c,3:,3:c,1:,7:c,4:,1:c,1:,7:c.3k,a:c,6:,b:d' +
+    ',3:,1:d,9:,1:d,3:,1:d,m:,1:d,7:,1:d,2:,1:d,5:,2:d,a:,1:d,3:,1:d,3:,2:d,1:,f:d,4:,2:d.30,a:d,2:,7:d,7' +
+    ':,1:e,3:,1:e,8:,2:e,2:,2:e,m:,1:e,7:,1:e,2:,1:e,5:,2:e,9:,2:e,2:,2:e,3:,8:e,2:,4:e,2:,1:e,5:,2:e,i:,' +
+    'a:f,2:,1:f,6:,3:f,3:,1:f,4:,3:f,2:,1:f,1:,1:f,2:,3:f,2:,3:f,2:f.2y,1:,3:f,7:f.2y,1:f,4:,4:f,5:,3:f,3' +
+    ':,1:f,4:,2:f,1:,6:f,1:,e:f.2y,d:f,8:,5:g,4:,1:g,8:,1:g,3:,1:g,n:,1:g,g:,3:g,8:,1:g,3:,1:g,4:,7:g,2:,' +
+    '1:g,3:,5:g,4:,2:g,a:,8:g,8:h,4:,1:h,8:,1:h,3:,1:h,n:,1:h,a:,1:h,5:,2:h,9:,1:h,3:,1:h,4:,7:h,2:,7:h,1' +
+    ':,1:h,4:,2:h,a:,1:h,2:,d:i,4:,1:i,8:,1:i,3:,1:i,1f:,1:i,3:,1:i,6:,4:i,g:,2:i,q:,2:j,2:,1:j,i:,3:j,o:' +
+    ',1:j,9:,1:j,1:,2:j,7:,3:j,1:,4:j,6:,1:j,1:,1:j,8:,6:j,a:,2:j,3:,c:k,1m:,4:0,1:k,s:,11:l,2:,1:l,1:,2:' +
+    'l,2:,1:l,1:,2:l,1:,6:l,4:,1:l,7:,1:l,3:,1:l,1:,1:l,1:,2:l,2:,1:l,d:,1:l,3:,2:l,5:,1:l,1:,1:l,6:,2:l,' +
+    'a:,2:l,4:,w:m,20:,1:m,10:,4:m,13:,1:m,10:,1:m,f:,1:m,7:0,4:m,2:,11:n,1s:n.1a.2n,a:n,2e:o,12:,1:o,1:,' +
+    '5:o,1:,2:o,17:2.o,1:o,4:p,74:q,21:,1:q,4:,2:q,7:,1:q,1:,1:q,4:,2:q,15:,1:q,4:,2:q,x:,1:q,4:,2:q,7:,1' +
+    ':q,1:,1:q,4:,2:q,f:,1:q,1l:,1:q,4:,2:q,1v:,2:q,w:,3:q,q:,6:r,2e:,2:r,6:,2:s,hs:t,t:,3:u,23:0,3:u,b:,' +
+    '7:15,d:,1:15,7:,b:16,l:15.16.17.18,2:,9:17,k:,c:18,d:,1:18,3:,1:18,2:,c:v,2m:,2:v,a:,6:v,a:,6:w,2:w.' +
+    '1s,2:w,1:w.1s,1:w,9:,1:w,a:,6:w,2g:,8:w,17:,5:s,1y:,a:19,v:,1:19,c:,4:19,c:,4:19,1:,3:19,c:1a,u:,2:1' +
+    'a,5:,b:1j,18:,4:1j,q:,6:1j,b:,3:1j,2:v,w:1h,s:,2:1h,2:25,1r:,1:25,t:,2:25,b:,6:25,a:,6:25,e:,2:1,f:,' +
+    '1t:1p,24:,4:1p,19:,3:1u,1s:2k,1g:,8:2k,4:1v,1k:,3:1v,f:,3:1v,3:1w,1c:4,9:,1j:1u,8:,8:a.2y,1:a,1:a.2y' +
+    ',2:a,3:a.2r,1:a,1:a.2r,1:a.f.g.h.i,1:a,1:a.2r,2:a,2:a.2r,1:a,h:a.2y,3:a.h,1:a,1:b,1:a.2y,2:,6:2,12:3' +
+    ',5:4,1:2,1d:3,5:2,4:3,5:2,d:4,1:2,1y:3,3:1,1k:,1:1,5:2,74:3,m:,2:3,6:,2:3,12:,2:3,6:,2:3,8:,1:3,1:,1' +
+    ':3,1:,1:3,1:,1:3,v:,2:3,1h:,1:3,f:,1:3,e:,2:3,6:,1:3,j:,2:3,3:,1:3,9:,1:0,c:1,2:0,2f:,1:0,b:2,1:,2:0' +
+    ',b:2,1:0,f:,1:2,d:,3:0,w:,g:1,w:2.a.2y,1:,f:0,12:3,1:0,3:2,2:0,6:2,1:0,r:2,1:0,h:2,15:0,3:,4:0,if:,p' +
+    ':0,b:,l:0,ps:1g,74:0,hg:,2:0,w:,2:0,y:,3:0,c:,1:0,9:,p:0,4:,g:1k,1b:,1:1k,1b:,1:2,w:1i,38:,5:1i,7:o,' +
+    '12:,1:o,1:,5:o,1:,2:1l,1k:,7:1l,2:,e:1l,1:q,n:,9:q,7:,1:q,7:,1:q,7:,1:q,7:,1:q,7:,1:q,7:,1:q,7:,1:q,' +
+    '7:,1:4,w:0,1v:4.1k,1:0,6:,1i:10,q:,1:10,2h:,c:10,5y:,q:0,c:,4:0,1:p.x.y.z.10.11,2:p.x.y.z.10,1:0,1:1' +
+    '0,3:p.x.y.z.10.11,a:0,1:p.x.y.z.10,1:p.x.y.z.10.11,8:p.x.y.z.10,4:0,1:10,9:z.10,4:p,2:p.x.y.z.10,1:x' +
+    '.y,5:0,1:p.x.y.z.10,1:10,4:x.y.10,2:10,2:,1:x,2e:,2:x.y,4:x,3:x.y,1:y,2i:p.x.y.z.10.11,1:x.y,1:y,3:,' +
+    '5:z,16:,2:p,2m:,1:10,g:z,r:,5:10,10:,c:y,g:p,v:,1:10,14:0,o:p,v:0,1:10,1d:0,f:10,c:0,4:y,1b:,1:y,2g:' +
+    '10,p:0,a:10,5:0,2o:10,v:0,1:10,52u:,a:0,1s:10,g6j:,l:11,wd:,3:11,1j:,9:2a,1c:1x,8c:,k:4,1b:4.1k,1:4,' +
+    '1c:2b,2g:,8:0,y:2,2u:0,3:2,10:,1:2,8:,1r:2,9:1m,18:,4:a.c.d.h.2j.2t.32.35.3e.3f,6:a.c.d.2j.2t.32.35.' +
+    '3e.3f,4:,6:1s,1k:,8:1y,1y:,8:1y,c:,6:a,h:a.b,1:a,1:a.f,1:a,a:,2:1z,1a:2.n.1z,1:1z,1:20,10:,b:20,1:p,' +
+    't:,3:2c,26:,1:1h.2c,1:2c,a:,4:2c,2:n,v:,1:24,1j:,9:24,e:,2:24,a:,2:24,4:n,w:26,1v:,o:26,5:2d,n:,a:q,' +
+    '6:,2:q,6:,2:q,6:,9:q,7:,1:q,7:,1:2,17:0,1:2,9:3,1:,a:r,28:2d,1a:,2:2d,a:,6:p,8mc:,c:p,n:,4:p,1d:,6is' +
+    ':10,a6:,2:10,2y:,12:2,7:,c:5,5:,5:6,q:,1:6,5:,1:6,1:,1:6,2:,1:6,2:,1:6,a:7,36:,h:7,a3:0,2:,g:7,1s:,2' +
+    ':7,1i:,14:7,2:7.9,1:7,a:7.9,1:,2:1,g:0,a:,6:1,e:4,2:0,l:p.x.y.z.10,2:0,c:,1:0,j:,1:0,4:,4:7,5:,1:7,3' +
+    'r:,2:0,1:,1:0,w:2,q:0,6:2,q:0,6:p.x.y.z.10.11,5:y,a:x.y,1:y,19:x.y,2:p,v:,3:p,6:,2:p,6:,2:p,6:,2:p,3' +
+    ':,3:0,7:,1:0,7:,a:0,5:,2:1b,c:,1:1b,q:,1:1b,j:,1:1b,2:,1:1b,f:,2:1b,e:,y:1b,3f:,5:1b.1f,3:,4:1b.1f.3' +
+    '1,19:,3:1b.1f,9:3,27:,1:0,c:,4:3,1:,1b:0,19:1,1:,3m:21,t:,3:22,1d:,f:7.1i,s:,4:12,10:,9:12,3:13,r:,5' +
+    ':3b,17:,5:1c,u:,1:1c,1:1n,10:,4:1n,e:,16:14,28:1d,1c:1e,u:,2:1e,a:,6:3r,10:,4:3r,10:,4:2x,14:,8:2u,1' +
+    'g:,b:2u,1:,40:31,8n:,9:31,m:,a:31,8:,48:1f,6:,2:1f,1:,1:1f,18:,1:1f,2:,3:1f,1:,2:1f,1:2e,m:,1:2e,9:3' +
+    '9,w:38,v:,8:38,9:,1c:3j,j:,1:3j,2:,5:3j,5:1r,s:,3:1r,1:23,q:,5:23,1:,1s:2p,w:2o,o:,4:2o,k:,2:2o,1a:1' +
+    'o,4:,1:1o,2:,5:1o,8:,1:1o,3:,1:1o,r:,4:1o,3:,4:1o,9:,8:1o,9:,7:2f,w:37,w:,w:33,13:,4:33,c:,9:27,1i:,' +
+    '3:27,7:2g,m:,2:2g,8:2h,j:,5:2h,8:3c,i:,7:3c,4:,c:3c,7:,28:2i,21:,1j:3l,1f:,d:3l,1f:,7:3l,6:,9s:7,v:,' +
+    'ap:2l,26:,4:2l,u:,f:2l,1:2j,1u:,e:2s,p:,7:2s,a:,6:2n,1h:,1:2n,e:,c:32,13:,9:2r,26:,2:2r,g:,1:j,k:,b:' +
+    '30,i:,1:30,18:,1t:3k,7:,1:3k,1:,1:3k,4:,1:3k,f:,1:3k,b:,6:3e,1n:,5:3e,a:,6:2y,1:f.2y,1:2y,1:f.2y,1:,' +
+    '1:2y,8:,2:2y,2:,2:2y,m:,1:2y,7:,1:2y,2:,1:2y,5:,2:f.2y,1:2y,8:,2:2y,2:,2:2y,3:,2:2y,1:,6:2y,1:,5:2y,' +
+    '7:,2:2y,7:,3:2y,5:,3v:3q,2i:,1:3q,1:,1:3q,1:,y:3f,20:,8:3f,a:,4m:3d,1i:,2:3d,12:,y:35,1x:,b:35,a:,6:' +
+    'w,d:,j:2t,1k:,8:2t,a:,1i:3h,q:,3:3h,f:,4:3h,g:,9s:3g,2b:,c:3g,1:,74:3w,20:,8:3v,1g:,2:3v,n:,1:3v,5:,' +
+    't:3a,1l:,7b:3o,9:,1:3o,19:,1:3o,e:,a:3o,t:,3:3p,w:,2:3p,m:,1:3p,e:,21:3t,7:,1:3t,2:,1:3t,18:,3:3t,1:' +
+    ',1:3t,2:,1:3t,9:,8:3t,a:,iu:1q,pm:,2u:1q,33:,1:1q,5:,b:1q,5g:,24c:28,tr:,34h:3i,g7:,6nt:2b,ft:,7:36,' +
+    'v:,1:36,a:,4:36,2:,2o:2v,u:,2:2v,6:,a:2z,1y:,a:2z,a:,1:2z,7:,1:2z,l:,5:2z,j:,og:2q,1x:,b:2q,1b:,g:2q' +
+    ',h:,1s:3s,1:3u,1:,u:3s,4q5:,j:3s,kz:,7bh:y,1:x,7y:,29:3u,b0:,1s4:2w,2z:,5:2w,d:,3:2w,9:,7:2w,a:,2:2w' +
+    ',8:,3to:0,6u:,a:0,13:,2:0,1q:1,3:0,h:1,8:0,2:1,7:0,u:1,4:0,1n:,n:3,1y:,56:0,2f:,9:10,i:,3y:0,2d:,1:0' +
+    ',1z:,1:0,2:,2:0,1:,2:0,2:,2:0,4:,1:0,c:,1:0,1:,1:0,7:,1:0,1t:,1:0,4:,2:0,8:,1:0,7:,1:0,s:,1:0,4:,1:0' +
+    ',5:,1:0,1:,3:0,7:,1:0,9g:,2:0,84:,2:0,1e:3m,i4:,f:3m,5:,1:3m,f:,11s:1k,7:,1:1k,h:,2:1k,7:,1:1k,2:,1:' +
+    '1k,5:,1jp:34,5h:,2:34,g:,15:3n,23:,5:3n,a:,4:3n,2:,ww:7,4:,1:7,r:,1:7,2:,1:7,1:,2:7,1:,1:7,a:,1:7,4:' +
+    ',1:7,1:,1:7,1:,6:7,1:,4:7,1:,1:7,1:,1:7,1:,1:7,3:,1:7,2:,1:7,1:,2:7,1:,1:7,1:,1:7,1:,1:7,1:,1:7,1:,1' +
+    ':7,2:,1:7,1:,2:7,4:,1:7,7:,1:7,4:,1:7,4:,1:7,1:,1:7,a:,1:7,h:,5:7,3:,1:7,5:,1:7,h:,1g:7,2:,7i:0,18:,' +
+    '4:0,2s:,c:0,f:,2:0,f:,1:0,f:,1:0,11:,a:0,d:,3:0,v:,1:0,1o:,4:0,1p:,1l:0,q:x,1:0,2:,d:0,18:,4:0,9:,7:' +
+    '10,2:,e:0,6:,4a:0,r9:,b:0,d:,3:0,9:,7:0,38:,c:0,2d:,17:0,c:,4:0,1k:,8:0,a:,6:0,14:,8:0,u:,2a:0,c:,4:' +
+    '0,1b:,1:0,d:,3:0,s:,k:0,o:,14:0,1:,f:0,n:,17d:10,wyf:,15:10,379:,b:10,66:,2:10,4g2:,e:10,5rl:,2e7:10' +
+    ',f2:,fher:0,1:,u:0,2o:,3k:1,6o:';
@@ -0,0 +1,84 @@
+import { copyUrlRecord, getUrlRecord, newURL, URL } from "./url";
+import { URLSearchParams, URLSearchParamsInit } from "./search-params";
+import { ImmutableURL } from "./immutable-url";
+
+// A fluent builder for URLs, e.g. URLBuilder.from('https://example.com').path('/search').query({ q: 'url' }).build().
+// Each step runs the corresponding setter of URL, so the result is canonicalized exactly like a modified URL.
+export class URLBuilder {
+  /** @internal */
+  _url!: URL;
+
+  private constructor() {
+  }
+
+  // Returns a new builder starting from a copy of base.
+  // Throws a TypeError if base is not a valid URL.
+  static from(base: string | URL | ImmutableURL): URLBuilder {
+    const builder: URLBuilder = Object.create(URLBuilder.prototype);
+    builder._url = base instanceof ImmutableURL ? base.toURL() : newURL(copyUrlRecord(getUrlRecord(base)));
+    return builder;
+  }
+
+  protocol(protocol: string): this {
+    this._url.protocol = protocol;
+    return this;
+  }
+
+  username(username: string): this {
+    this._url.username = username;
+    return this;
+  }
+
+  password(password: string): this {
+    this._url.password = password;
+    return this;
+  }
+
+  host(host: string): this {
+    this._url.host = host;
+    return this;
+  }
+
+  hostname(hostname: string): this {
+    this._url.hostname = hostname;
+    return this;
+  }
+
+  port(port: string | number | null): this {
+    this._url.port = port === null ? '' : String(port);
+    return this;
+  }
+
+  path(pathname: string): this {
+    this._url.pathname = pathname;
+    return this;
+  }
+
+  // Replaces the query with the given string (with or without a leading "?"),
+  // or with the serialization of the given name-value pairs.
+  query(query: string | URLSearchParams | URLSearchParamsInit): this {
+    this._url.search = typeof query === 'string' ? query : new URLSearchParams(query).toString();
+    return this;
+  }
+
+  // Appends a name-value pair to the query.
+  appendQuery(name: string, value: string): this {
+    this._url.searchParams.append(name, value);
+    return this;
+  }
+
+  hash(hash: string): this {
+    this._url.hash = hash;
+    return this;
+  }
+
+  // Returns a new URL, the builder can be used again afterwards.
+  build(): URL {
+    return newURL(copyUrlRecord(this._url._url));
+  }
+
+  // Returns a new ImmutableURL, the builder can be used again afterwards.
+  buildImmutable(): ImmutableURL {
+    return ImmutableURL.from(this.build());
+  }
+}
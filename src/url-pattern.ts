@@ -0,0 +1,667 @@
+import {
+  canonicalizeHash,
+  canonicalizeHostname,
+  canonicalizeIPv6Hostname,
+  canonicalizeOpaquePathname,
+  canonicalizePathname,
+  canonicalizePort,
+  canonicalizeProtocol,
+  canonicalizeSearch,
+  canonicalizeUserinfo,
+  compileComponent,
+  Component,
+  DEFAULT_OPTIONS,
+  HOSTNAME_OPTIONS,
+  PATHNAME_OPTIONS,
+  protocolComponentMatchesSpecialScheme
+} from "./url-pattern/component";
+import { parseConstructorString } from "./url-pattern/constructor-parser";
+import { escapePatternString, Options } from "./url-pattern/parser";
+import { getDefaultPort, isSpecialScheme, parseApiUrl, serializePath, UrlRecord } from "./url";
+import { hasOpaquePath } from "./opaque-path";
+import { serializeHost } from "./host";
+import { toUSVString } from "./usvstring";
+
+// https://urlpattern.spec.whatwg.org/#dictdef-urlpatterninit
+export interface URLPatternInit {
+  protocol?: string;
+  username?: string;
+  password?: string;
+  hostname?: string;
+  port?: string;
+  pathname?: string;
+  search?: string;
+  hash?: string;
+  baseURL?: string;
+}
+
+// https://urlpattern.spec.whatwg.org/#typedefdef-urlpatterninput
+export type URLPatternInput = string | URLPatternInit;
+
+// https://urlpattern.spec.whatwg.org/#dictdef-urlpatternoptions
+export interface URLPatternOptions {
+  ignoreCase?: boolean;
+}
+
+// https://urlpattern.spec.whatwg.org/#dictdef-urlpatterncomponentresult
+export interface URLPatternComponentResult {
+  input: string;
+  groups: { [name: string]: string | undefined };
+}
+
+// https://urlpattern.spec.whatwg.org/#dictdef-urlpatternresult
+export interface URLPatternResult {
+  inputs: URLPatternInput[];
+  protocol: URLPatternComponentResult;
+  username: URLPatternComponentResult;
+  password: URLPatternComponentResult;
+  hostname: URLPatternComponentResult;
+  port: URLPatternComponentResult;
+  pathname: URLPatternComponentResult;
+  search: URLPatternComponentResult;
+  hash: URLPatternComponentResult;
+}
+
+type ComponentName = 'protocol' | 'username' | 'password' | 'hostname' | 'port' | 'pathname' | 'search' | 'hash';
+
+const COMPONENT_NAMES: ComponentName[] = [
+  'protocol', 'username', 'password', 'hostname', 'port', 'pathname', 'search', 'hash'
+];
+
+const enum InitType {
+  PATTERN,
+  URL
+}
+
+// Converts a JavaScript value to a URLPatternInit dictionary.
+function toURLPatternInit(value: any): URLPatternInit {
+  const init: URLPatternInit = {};
+  for (const name of COMPONENT_NAMES) {
+    const member = value[name];
+    if (member !== undefined) {
+      init[name] = toUSVString(member);
+    }
+  }
+  if (value.baseURL !== undefined) {
+    init.baseURL = toUSVString(value.baseURL);
+  }
+  return init;
+}
+
+// Converts a JavaScript value to a URLPatternInput.
+function toURLPatternInput(value: any): URLPatternInput {
+  if (value == null) {
+    return {};
+  }
+  if (typeof value === 'object' || typeof value === 'function') {
+    return toURLPatternInit(value);
+  }
+  return toUSVString(value);
+}
+
+// https://urlpattern.spec.whatwg.org/#process-a-base-url-string
+function processBaseURLString(input: string, type: InitType): string {
+  // 1. Assert: input is not null.
+  // 2. If type is not "pattern" return input.
+  if (type !== InitType.PATTERN) {
+    return input;
+  }
+  // 3. Return the result of escaping a pattern string given input.
+  return escapePatternString(input);
+}
+
+// https://urlpattern.spec.whatwg.org/#is-an-absolute-pathname
+function isAbsolutePathname(input: string, type: InitType): boolean {
+  // 1. If input is the empty string, then return false.
+  if ('' === input) {
+    return false;
+  }
+  // 2. If input[0] is U+002F (/), then return true.
+  if ('/' === input[0]) {
+    return true;
+  }
+  // 3. If type is "url", then return false.
+  if (type === InitType.URL) {
+    return false;
+  }
+  // 4. If input’s code point length is less than 2, then return false.
+  if (input.length < 2) {
+    return false;
+  }
+  // 5. If input[0] is U+005C (\) and input[1] is U+002F (/), then return true.
+  // 6. If input[0] is U+007B ({) and input[1] is U+002F (/), then return true.
+  // 7. Return false.
+  return ('\\' === input[0] || '{' === input[0]) && '/' === input[1];
+}
+
+// https://urlpattern.spec.whatwg.org/#process-protocol-for-init
+function processProtocolForInit(value: string, type: InitType): string {
+  // 1. Let strippedValue be the given value with a single trailing U+003A (:) removed, if any.
+  const strippedValue = ':' === value.charAt(value.length - 1) ? value.slice(0, -1) : value;
+  // 2. If type is "pattern" then return strippedValue.
+  if (type === InitType.PATTERN) {
+    return strippedValue;
+  }
+  // 3. Return the result of running canonicalize a protocol given strippedValue.
+  return canonicalizeProtocol(strippedValue);
+}
+
+// https://urlpattern.spec.whatwg.org/#process-username-for-init
+// https://urlpattern.spec.whatwg.org/#process-password-for-init
+function processUserinfoForInit(value: string, type: InitType): string {
+  // 1. If type is "pattern" then return value.
+  if (type === InitType.PATTERN) {
+    return value;
+  }
+  // 2. Return the result of running canonicalize a username (or password) given value.
+  return canonicalizeUserinfo(value);
+}
+
+// https://urlpattern.spec.whatwg.org/#process-hostname-for-init
+function processHostnameForInit(value: string, type: InitType): string {
+  // 1. If type is "pattern" then return value.
+  if (type === InitType.PATTERN) {
+    return value;
+  }
+  // 2. Return the result of running canonicalize a hostname given value.
+  return canonicalizeHostname(value);
+}
+
+// https://urlpattern.spec.whatwg.org/#process-port-for-init
+function processPortForInit(portValue: string, protocolValue: string, type: InitType): string {
+  // 1. If type is "pattern" then return portValue.
+  if (type === InitType.PATTERN) {
+    return portValue;
+  }
+  // 2. Return the result of running canonicalize a port given portValue and protocolValue.
+  return canonicalizePort(portValue, protocolValue);
+}
+
+// https://urlpattern.spec.whatwg.org/#process-pathname-for-init
+function processPathnameForInit(pathnameValue: string, protocolValue: string, type: InitType): string {
+  // 1. If type is "pattern" then return pathnameValue.
+  if (type === InitType.PATTERN) {
+    return pathnameValue;
+  }
+  // 2. If protocolValue is a special scheme or the empty string, then return the result of running
+  //    canonicalize a pathname given pathnameValue.
+  if (isSpecialScheme(protocolValue) || '' === protocolValue) {
+    return canonicalizePathname(pathnameValue);
+  }
+  // 3. Return the result of running canonicalize an opaque pathname given pathnameValue.
+  return canonicalizeOpaquePathname(pathnameValue);
+}
+
+// https://urlpattern.spec.whatwg.org/#process-search-for-init
+function processSearchForInit(value: string, type: InitType): string {
+  // 1. Let strippedValue be the given value with a single leading U+003F (?) removed, if any.
+  const strippedValue = '?' === value.charAt(0) ? value.slice(1) : value;
+  // 2. If type is "pattern" then return strippedValue.
+  if (type === InitType.PATTERN) {
+    return strippedValue;
+  }
+  // 3. Return the result of running canonicalize a search given strippedValue.
+  return canonicalizeSearch(strippedValue);
+}
+
+// https://urlpattern.spec.whatwg.org/#process-hash-for-init
+function processHashForInit(value: string, type: InitType): string {
+  // 1. Let strippedValue be the given value with a single leading U+0023 (#) removed, if any.
+  const strippedValue = '#' === value.charAt(0) ? value.slice(1) : value;
+  // 2. If type is "pattern" then return strippedValue.
+  if (type === InitType.PATTERN) {
+    return strippedValue;
+  }
+  // 3. Return the result of running canonicalize a hash given strippedValue.
+  return canonicalizeHash(strippedValue);
+}
+
+// https://urlpattern.spec.whatwg.org/#process-a-urlpatterninit
+// Note: the result always contains all components, since we start from empty strings (for "url")
+//       or from null (for "pattern").
+function processURLPatternInit(init: URLPatternInit, type: InitType, defaultValue: string | undefined): URLPatternInit {
+  // 1. Let result be the result of creating a new URLPatternInit.
+  const result: URLPatternInit = {};
+  // 2-9. If protocol (and so on) is not null, set result[component] to it.
+  if (defaultValue !== undefined) {
+    for (const name of COMPONENT_NAMES) {
+      result[name] = defaultValue;
+    }
+  }
+  // 10. Let baseURL be null.
+  let baseURL: UrlRecord | null = null;
+  // 11. If init["baseURL"] exists:
+  if (init.baseURL !== undefined) {
+    // 1. Set baseURL to the result of running the basic URL parser on init["baseURL"].
+    baseURL = parseApiUrl(init.baseURL);
+    // 2. If baseURL is failure, then throw a TypeError.
+    if (baseURL === null) {
+      throw new TypeError(`Invalid base URL: ${init.baseURL}`);
+    }
+    // 3. If init["protocol"] does not exist, then set result["protocol"] to the result of
+    //    processing a base URL string given baseURL’s scheme and type.
+    if (init.protocol === undefined) {
+      result.protocol = processBaseURLString(baseURL._scheme, type);
+    }
+    // 4. If type is not "pattern" and init contains none of "protocol", "hostname", "port" and "username",
+    //    then set result["username"] to the result of processing a base URL string given baseURL’s username
+    //    and type.
+    if (type !== InitType.PATTERN && init.protocol === undefined && init.hostname === undefined
+        && init.port === undefined && init.username === undefined) {
+      result.username = processBaseURLString(baseURL._username, type);
+    }
+    // 5. If type is not "pattern" and init contains none of "protocol", "hostname", "port", "username"
+    //    and "password", then set result["password"] to the result of processing a base URL string
+    //    given baseURL’s password and type.
+    if (type !== InitType.PATTERN && init.protocol === undefined && init.hostname === undefined
+        && init.port === undefined && init.username === undefined && init.password === undefined) {
+      result.password = processBaseURLString(baseURL._password, type);
+    }
+    // 6. If init contains neither "protocol" nor "hostname", then:
+    if (init.protocol === undefined && init.hostname === undefined) {
+      // 1. Let baseHost be the empty string.
+      // 2. If baseURL’s host is not null, then set baseHost to its serialization.
+      const baseHost = baseURL._host === null ? '' : serializeHost(baseURL._host);
+      // 3. Set result["hostname"] to the result of processing a base URL string given baseHost and type.
+      result.hostname = processBaseURLString(baseHost, type);
+    }
+    // 7. If init contains none of "protocol", "hostname", and "port", then:
+    if (init.protocol === undefined && init.hostname === undefined && init.port === undefined) {
+      // 1. If baseURL’s port is null, then set result["port"] to the empty string.
+      // 2. Otherwise, set result["port"] to baseURL’s port, serialized.
+      result.port = baseURL._port === null ? '' : `${baseURL._port}`;
+    }
+    // 8. If init contains none of "protocol", "hostname", "port", and "pathname",
+    //    then set result["pathname"] to the result of processing a base URL string given the result of
+    //    URL path serializing baseURL and type.
+    if (init.protocol === undefined && init.hostname === undefined && init.port === undefined
+        && init.pathname === undefined) {
+      result.pathname = processBaseURLString(serializePath(baseURL), type);
+    }
+    // 9. If init contains none of "protocol", "hostname", "port", "pathname", and "search", then:
+    if (init.protocol === undefined && init.hostname === undefined && init.port === undefined
+        && init.pathname === undefined && init.search === undefined) {
+      // 1. Let baseQuery be baseURL’s query.
+      // 2. If baseQuery is null, then set baseQuery to the empty string.
+      // 3. Set result["search"] to the result of processing a base URL string given baseQuery and type.
+      result.search = processBaseURLString(baseURL._query === null ? '' : baseURL._query, type);
+    }
+    // 10. If init contains none of "protocol", "hostname", "port", "pathname", "search", and "hash", then:
+    if (init.protocol === undefined && init.hostname === undefined && init.port === undefined
+        && init.pathname === undefined && init.search === undefined && init.hash === undefined) {
+      // 1. Let baseFragment be baseURL’s fragment.
+      // 2. If baseFragment is null, then set baseFragment to the empty string.
+      // 3. Set result["hash"] to the result of processing a base URL string given baseFragment and type.
+      result.hash = processBaseURLString(baseURL._fragment === null ? '' : baseURL._fragment, type);
+    }
+  }
+  // 12. If init["protocol"] exists, then set result["protocol"] to the result of
+  //     process protocol for init given init["protocol"] and type.
+  if (init.protocol !== undefined) {
+    result.protocol = processProtocolForInit(init.protocol, type);
+  }
+  // 13. If init["username"] exists, then set result["username"] to the result of
+  //     process username for init given init["username"] and type.
+  if (init.username !== undefined) {
+    result.username = processUserinfoForInit(init.username, type);
+  }
+  // 14. If init["password"] exists, then set result["password"] to the result of
+  //     process password for init given init["password"] and type.
+  if (init.password !== undefined) {
+    result.password = processUserinfoForInit(init.password, type);
+  }
+  // 15. If init["hostname"] exists, then set result["hostname"] to the result of
+  //     process hostname for init given init["hostname"] and type.
+  if (init.hostname !== undefined) {
+    result.hostname = processHostnameForInit(init.hostname, type);
+  }
+  // 16. Let resultProtocolString be result["protocol"] if it exists; otherwise the empty string.
+  const resultProtocolString = result.protocol !== undefined ? result.protocol : '';
+  // 17. If init["port"] exists, then set result["port"] to the result of
+  //     process port for init given init["port"], resultProtocolString, and type.
+  if (init.port !== undefined) {
+    result.port = processPortForInit(init.port, resultProtocolString, type);
+  }
+  // 18. If init["pathname"] exists:
+  if (init.pathname !== undefined) {
+    // 1. Set result["pathname"] to init["pathname"].
+    result.pathname = init.pathname;
+    // 2. If the following are all true:
+    //    - baseURL is not null;
+    //    - baseURL does not have an opaque path; and
+    //    - the result of running is an absolute pathname given result["pathname"] and type is false,
+    if (baseURL !== null && !hasOpaquePath(baseURL) && !isAbsolutePathname(result.pathname, type)) {
+      // 1. Let baseURLPath be the result of running process a base URL string given the result of
+      //    URL path serializing baseURL and type.
+      const baseURLPath = processBaseURLString(serializePath(baseURL), type);
+      // 2. Let slash index be the index of the last U+002F (/) code point found in baseURLPath,
+      //    interpreted as a sequence of code points, or null if there are no instances of the code point.
+      const slashIndex = baseURLPath.lastIndexOf('/');
+      // 3. If slash index is not null:
+      if (slashIndex !== -1) {
+        // 1. Let new pathname be the code point substring from 0 to slash index + 1 within baseURLPath.
+        // 2. Append result["pathname"] to the end of new pathname.
+        // 3. Set result["pathname"] to new pathname.
+        result.pathname = baseURLPath.slice(0, slashIndex + 1) + result.pathname;
+      }
+    }
+    // 3. Set result["pathname"] to the result of process pathname for init given result["pathname"],
+    //    resultProtocolString, and type.
+    result.pathname = processPathnameForInit(result.pathname, resultProtocolString, type);
+  }
+  // 19. If init["search"] exists then set result["search"] to the result of
+  //     process search for init given init["search"] and type.
+  if (init.search !== undefined) {
+    result.search = processSearchForInit(init.search, type);
+  }
+  // 20. If init["hash"] exists then set result["hash"] to the result of
+  //     process hash for init given init["hash"] and type.
+  if (init.hash !== undefined) {
+    result.hash = processHashForInit(init.hash, type);
+  }
+  // 21. Return result.
+  return result;
+}
+
+// https://urlpattern.spec.whatwg.org/#hostname-pattern-is-an-ipv6-address
+function hostnamePatternIsIPv6Address(input: string): boolean {
+  // 1. If input’s code point length is less than 2, then return false.
+  if (input.length < 2) {
+    return false;
+  }
+  // 2. Let input code points be input interpreted as a list of code points.
+  // 3. If input code points[0] is U+005B ([), then return true.
+  if ('[' === input[0]) {
+    return true;
+  }
+  // 4. If input code points[0] is U+007B ({) and input code points[1] is U+005B ([), then return true.
+  // 5. If input code points[0] is U+005C (\) and input code points[1] is U+005B ([), then return true.
+  // 6. Return false.
+  return ('{' === input[0] || '\\' === input[0]) && '[' === input[1];
+}
+
+// https://urlpattern.spec.whatwg.org/#create-a-component-match-result
+function createComponentMatchResult(component: Component, input: string,
+                                    execResult: RegExpExecArray): URLPatternComponentResult {
+  // 1. Let result be a new URLPatternComponentResult.
+  // 2. Set result["input"] to input.
+  // 3. Let groups be a record<USVString, (USVString or undefined)>.
+  const groups: { [name: string]: string | undefined } = {};
+  // 4. Let index be 1.
+  // 5. While index is less than Get(execResult, "length"):
+  for (let index = 1; index < execResult.length; index++) {
+    // 1. Let name be component’s group name list[index − 1].
+    // 2. Let value be Get(execResult, ToString(index)).
+    // 3. Set groups[name] to value.
+    groups[component._groupNameList[index - 1]] = execResult[index];
+  }
+  // 6. Set result["groups"] to groups.
+  // 7. Return result.
+  return { input, groups };
+}
+
+function withIgnoreCase(options: Options, ignoreCase: boolean): Options {
+  return {
+    _delimiter: options._delimiter,
+    _prefix: options._prefix,
+    _ignoreCase: ignoreCase
+  };
+}
+
+export class URLPattern {
+  /** @internal */
+  readonly _protocol: Component;
+  /** @internal */
+  readonly _username: Component;
+  /** @internal */
+  readonly _password: Component;
+  /** @internal */
+  readonly _hostname: Component;
+  /** @internal */
+  readonly _port: Component;
+  /** @internal */
+  readonly _pathname: Component;
+  /** @internal */
+  readonly _search: Component;
+  /** @internal */
+  readonly _hash: Component;
+
+  constructor(input?: URLPatternInput, baseURL?: string, options?: URLPatternOptions);
+  constructor(input?: URLPatternInput, options?: URLPatternOptions);
+  constructor(input: URLPatternInput = {}, baseURLOrOptions?: string | URLPatternOptions,
+              options: URLPatternOptions = {}) {
+    input = toURLPatternInput(input);
+    let baseURL: string | null = null;
+    if (typeof baseURLOrOptions === 'object' && baseURLOrOptions !== null) {
+      options = baseURLOrOptions;
+    } else if (baseURLOrOptions !== undefined) {
+      baseURL = toUSVString(baseURLOrOptions);
+    }
+    const ignoreCase = !!(options && options.ignoreCase);
+    // https://urlpattern.spec.whatwg.org/#urlpattern-initialize
+    // 1. Let init be null.
+    let init: URLPatternInit;
+    // 2. If input is a scalar value string then:
+    if (typeof input === 'string') {
+      // 1. Set init to the result of running parse a constructor string given input.
+      init = parseConstructorString(input);
+      // 2. If baseURL is null and init["protocol"] does not exist, then throw a TypeError.
+      if (baseURL === null && init.protocol === undefined) {
+        throw new TypeError(`Invalid pattern: relative pattern without a base URL`);
+      }
+      // 3. If baseURL is not null, set init["baseURL"] to baseURL.
+      if (baseURL !== null) {
+        init.baseURL = baseURL;
+      }
+    }
+    // 3. Otherwise:
+    else {
+      // 1. Assert: input is a URLPatternInit.
+      // 2. If baseURL is not null, then throw a TypeError.
+      if (baseURL !== null) {
+        throw new TypeError(`Invalid pattern: base URL must be given as part of the init dictionary`);
+      }
+      // 3. Set init to input.
+      init = input;
+    }
+    // 4. Let processedInit be the result of process a URLPatternInit given init, "pattern", null, null, null,
+    //    null, null, null, null, and null.
+    const processedInit = processURLPatternInit(init, InitType.PATTERN, undefined);
+    // 5. For each componentName of « "protocol", "username", "password", "hostname", "port", "pathname",
+    //    "search", "hash" »:
+    //    1. If processedInit[componentName] does not exist, then set processedInit[componentName] to "*".
+    for (const name of COMPONENT_NAMES) {
+      if (processedInit[name] === undefined) {
+        processedInit[name] = '*';
+      }
+    }
+    // 6. If processedInit["protocol"] is a special scheme and processedInit["port"] is a string which represents
+    //    its corresponding default port in radix-10 using ASCII digits then set processedInit["port"]
+    //    to the empty string.
+    const defaultPort = getDefaultPort(processedInit.protocol!);
+    if (defaultPort !== null && processedInit.port === `${defaultPort}`) {
+      processedInit.port = '';
+    }
+    // 7. Set urlPattern’s protocol component to the result of compiling a component given
+    //    processedInit["protocol"], canonicalize a protocol, and default options.
+    this._protocol = compileComponent(processedInit.protocol!, canonicalizeProtocol, DEFAULT_OPTIONS);
+    // 8. Set urlPattern’s username component to the result of compiling a component given
+    //    processedInit["username"], canonicalize a username, and default options.
+    this._username = compileComponent(processedInit.username!, canonicalizeUserinfo, DEFAULT_OPTIONS);
+    // 9. Set urlPattern’s password component to the result of compiling a component given
+    //    processedInit["password"], canonicalize a password, and default options.
+    this._password = compileComponent(processedInit.password!, canonicalizeUserinfo, DEFAULT_OPTIONS);
+    // 10. If the result running hostname pattern is an IPv6 address given processedInit["hostname"] is true,
+    //     then set urlPattern’s hostname component to the result of compiling a component given
+    //     processedInit["hostname"], canonicalize an IPv6 hostname, and hostname options.
+    // 11. Otherwise, set urlPattern’s hostname component to the result of compiling a component given
+    //     processedInit["hostname"], canonicalize a hostname, and hostname options.
+    this._hostname = compileComponent(processedInit.hostname!,
+        hostnamePatternIsIPv6Address(processedInit.hostname!) ? canonicalizeIPv6Hostname : canonicalizeHostname,
+        HOSTNAME_OPTIONS);
+    // 12. Set urlPattern’s port component to the result of compiling a component given processedInit["port"],
+    //     canonicalize a port, and default options.
+    this._port = compileComponent(processedInit.port!, (value) => canonicalizePort(value), DEFAULT_OPTIONS);
+    // 13. Let compileOptions be a copy of the default options with the ignore case property set to
+    //     options["ignoreCase"].
+    const compileOptions = withIgnoreCase(DEFAULT_OPTIONS, ignoreCase);
+    // 14. If the result of running protocol component matches a special scheme given urlPattern’s
+    //     protocol component is true, then:
+    if (protocolComponentMatchesSpecialScheme(this._protocol)) {
+      // 1. Let pathCompileOptions be copy of the pathname options with the ignore case property set to
+      //    options["ignoreCase"].
+      // 2. Set urlPattern’s pathname component to the result of compiling a component given
+      //    processedInit["pathname"], canonicalize a pathname, and pathCompileOptions.
+      this._pathname = compileComponent(processedInit.pathname!, canonicalizePathname,
+          withIgnoreCase(PATHNAME_OPTIONS, ignoreCase));
+    }
+    // 15. Otherwise set urlPattern’s pathname component to the result of compiling a component given
+    //     processedInit["pathname"], canonicalize an opaque pathname, and compileOptions.
+    else {
+      this._pathname = compileComponent(processedInit.pathname!, canonicalizeOpaquePathname, compileOptions);
+    }
+    // 16. Set urlPattern’s search component to the result of compiling a component given
+    //     processedInit["search"], canonicalize a search, and compileOptions.
+    this._search = compileComponent(processedInit.search!, canonicalizeSearch, compileOptions);
+    // 17. Set urlPattern’s hash component to the result of compiling a component given processedInit["hash"],
+    //     canonicalize a hash, and compileOptions.
+    this._hash = compileComponent(processedInit.hash!, canonicalizeHash, compileOptions);
+  }
+
+  get protocol(): string {
+    return this._protocol._patternString;
+  }
+
+  get username(): string {
+    return this._username._patternString;
+  }
+
+  get password(): string {
+    return this._password._patternString;
+  }
+
+  get hostname(): string {
+    return this._hostname._patternString;
+  }
+
+  get port(): string {
+    return this._port._patternString;
+  }
+
+  get pathname(): string {
+    return this._pathname._patternString;
+  }
+
+  get search(): string {
+    return this._search._patternString;
+  }
+
+  get hash(): string {
+    return this._hash._patternString;
+  }
+
+  get hasRegExpGroups(): boolean {
+    // 1. If this’s associated URL pattern’s has regexp groups, then return true.
+    // 2. Return false.
+    return this._protocol._hasRegExpGroups
+        || this._username._hasRegExpGroups
+        || this._password._hasRegExpGroups
+        || this._hostname._hasRegExpGroups
+        || this._port._hasRegExpGroups
+        || this._pathname._hasRegExpGroups
+        || this._search._hasRegExpGroups
+        || this._hash._hasRegExpGroups;
+  }
+
+  test(input: URLPatternInput = {}, baseURL?: string): boolean {
+    // 1. Let result be the result of match given this's associated URL pattern, input, and baseURL if given.
+    // 2. If result is null, return false.
+    // 3. Return true.
+    return this._match(toURLPatternInput(input), baseURL === undefined ? null : toUSVString(baseURL)) !== null;
+  }
+
+  exec(input: URLPatternInput = {}, baseURL?: string): URLPatternResult | null {
+    // Return the result of match given this's associated URL pattern, input, and baseURL if given.
+    return this._match(toURLPatternInput(input), baseURL === undefined ? null : toUSVString(baseURL));
+  }
+
+  // https://urlpattern.spec.whatwg.org/#url-pattern-match
+  /** @internal */
+  private _match(input: URLPatternInput, baseURLString: string | null): URLPatternResult | null {
+    // 1-8. Let protocol, username, password, hostname, port, pathname, search and hash be the empty string.
+    let values: URLPatternInit;
+    // 9. Let inputs be an empty list.
+    // 10. Append input to inputs.
+    const inputs: URLPatternInput[] = [input];
+    // 11. If input is a URLPatternInit then:
+    if (typeof input !== 'string') {
+      // 1. If baseURLString was given, throw a TypeError.
+      if (baseURLString !== null) {
+        throw new TypeError(`Invalid input: base URL must be given as part of the init dictionary`);
+      }
+      // 2. Let applyResult be the result of process a URLPatternInit given input, "url", protocol, username,
+      //    password, hostname, port, pathname, search, and hash. If this throws an exception, catch it,
+      //    and return null.
+      try {
+        values = processURLPatternInit(input, InitType.URL, '');
+      } catch (e) {
+        return null;
+      }
+    }
+    // 12. Otherwise:
+    else {
+      // 1. Assert: input is a USVString.
+      // 2. Let baseURL be null.
+      // 3. If baseURLString was given, then:
+      //    1. Set baseURL to the result of running the basic URL parser on baseURLString.
+      //    2. If baseURL is failure, return null.
+      //    3. Append baseURLString to inputs.
+      if (baseURLString !== null) {
+        inputs.push(baseURLString);
+      }
+      // 4. Set url to the result of running the basic URL parser on input with baseURL.
+      // 5. If url is failure, return null.
+      const url = parseApiUrl(input, baseURLString === null ? undefined : baseURLString);
+      if (url === null) {
+        return null;
+      }
+      // 13-20. Set protocol (and so on) to the corresponding component of url, serialized.
+      values = {
+        protocol: url._scheme,
+        username: url._username,
+        password: url._password,
+        hostname: url._host === null ? '' : serializeHost(url._host),
+        port: url._port === null ? '' : `${url._port}`,
+        pathname: serializePath(url),
+        search: url._query === null ? '' : url._query,
+        hash: url._fragment === null ? '' : url._fragment
+      };
+    }
+    // 21. Let protocolExecResult be RegExpBuiltinExec(urlPattern’s protocol component's regular expression,
+    //     protocol).
+    // 22-28. (and so on for the other components)
+    // 29. If protocolExecResult, usernameExecResult, passwordExecResult, hostnameExecResult, portExecResult,
+    //     pathnameExecResult, searchExecResult, or hashExecResult are null then return null.
+    // 30. Let result be a new URLPatternResult.
+    // 31. Set result["inputs"] to inputs.
+    // 32-39. Set result[component] to the result of creating a component match result given the component,
+    //        its value, and its exec result.
+    const components = [
+      this._protocol, this._username, this._password, this._hostname,
+      this._port, this._pathname, this._search, this._hash
+    ];
+    const result = { inputs } as URLPatternResult;
+    for (let i = 0; i < COMPONENT_NAMES.length; i++) {
+      const name = COMPONENT_NAMES[i];
+      const component = components[i];
+      const value = values[name]!;
+      const execResult = component._regexp.exec(value);
+      if (execResult === null) {
+        return null;
+      }
+      result[name] = createComponentMatchResult(component, value, execResult);
+    }
+    // 40. Return result.
+    return result;
+  }
+}
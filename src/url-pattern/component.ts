@@ -0,0 +1,289 @@
+import { generatePatternString, generateRegExpAndNameList, EncodingCallback, Options, parsePatternString, PartType } from "./parser";
+import {
+  getSpecialSchemes,
+  parseApiUrl,
+  parseWithStateOverride,
+  ParserState,
+  serializePath,
+  UrlRecord
+} from "../url";
+import { serializeHost } from "../host";
+import { isUserinfoPercentEncode, utf8PercentEncodeString } from "../encode";
+import { isDigit, isHexDigit, toAsciiLowercase } from "../util";
+import { ucs2decode, ucs2encode } from "../vendor/ucs2";
+
+// https://urlpattern.spec.whatwg.org/#component
+export interface Component {
+  readonly _patternString: string;
+  readonly _regexp: RegExp;
+  readonly _groupNameList: string[];
+  readonly _hasRegExpGroups: boolean;
+}
+
+// https://urlpattern.spec.whatwg.org/#default-options
+export const DEFAULT_OPTIONS: Options = {
+  _delimiter: '',
+  _prefix: '',
+  _ignoreCase: false
+};
+
+// https://urlpattern.spec.whatwg.org/#hostname-options
+export const HOSTNAME_OPTIONS: Options = {
+  _delimiter: '.',
+  _prefix: '',
+  _ignoreCase: false
+};
+
+// https://urlpattern.spec.whatwg.org/#pathname-options
+export const PATHNAME_OPTIONS: Options = {
+  _delimiter: '/',
+  _prefix: '/',
+  _ignoreCase: false
+};
+
+let supportsUnicodeFlag: boolean | undefined;
+
+function createRegExp(source: string, ignoreCase: boolean): RegExp {
+  if (supportsUnicodeFlag === undefined) {
+    try {
+      new RegExp('', 'u');
+      supportsUnicodeFlag = true;
+    } catch (e) {
+      supportsUnicodeFlag = false;
+    }
+  }
+  // Note: without support for the "u" flag, regexp groups are interpreted as non-Unicode regular expressions
+  const flags = (supportsUnicodeFlag ? 'u' : '') + (ignoreCase ? 'i' : '');
+  try {
+    return new RegExp(source, flags);
+  } catch (e) {
+    throw new TypeError(`Invalid pattern: ${e.message}`);
+  }
+}
+
+// https://urlpattern.spec.whatwg.org/#compile-a-component
+export function compileComponent(input: string, encodingCallback: EncodingCallback, options: Options): Component {
+  // 1. Let part list be the result of running parse a pattern string given input, options, and encoding callback.
+  const partList = parsePatternString(input, options, encodingCallback);
+  // 2. Let (regular expression string, name list) be the result of running
+  //    generate a regular expression and name list given part list and options.
+  const { regexp, names } = generateRegExpAndNameList(partList, options);
+  // 3. Let flags be an empty string.
+  // 4. If options’s ignore case is true then set flags to "vi".
+  // 5. Otherwise set flags to "v"
+  // 6. Let regular expression be RegExpCreate(regular expression string, flags).
+  //    If this throws an exception, catch it, and throw a TypeError.
+  const regularExpression = createRegExp(regexp, options._ignoreCase);
+  // 7. Let pattern string be the result of running generate a pattern string given part list and options.
+  const patternString = generatePatternString(partList, options);
+  // 8. Let has regexp groups be false.
+  // 9. For each part of part list:
+  //    1. If part’s type is "regexp", then set has regexp groups to true.
+  let hasRegExpGroups = false;
+  for (const part of partList) {
+    if (part._type === PartType.REGEXP) {
+      hasRegExpGroups = true;
+    }
+  }
+  // 10. Return a new component whose pattern string is pattern string, regular expression is regular expression,
+  //     group name list is name list, and has regexp groups is has regexp groups.
+  return {
+    _patternString: patternString,
+    _regexp: regularExpression,
+    _groupNameList: names,
+    _hasRegExpGroups: hasRegExpGroups
+  };
+}
+
+// https://urlpattern.spec.whatwg.org/#protocol-component-matches-a-special-scheme
+export function protocolComponentMatchesSpecialScheme(protocolComponent: Component): boolean {
+  // 1. Let special scheme list be a list populated with all of the special schemes.
+  // 2. For each scheme of special scheme list:
+  for (const scheme of getSpecialSchemes()) {
+    // 1. Let test result be RegExpBuiltinExec(protocol component’s regular expression, scheme).
+    // 2. If test result is not null, then return true.
+    if (protocolComponent._regexp.exec(scheme) !== null) {
+      return true;
+    }
+  }
+  // 3. Return false.
+  return false;
+}
+
+// https://urlpattern.spec.whatwg.org/#create-a-dummy-url
+function createDummyURL(): UrlRecord {
+  // 1. Let dummyInput be "https://dummy.invalid/".
+  // 2. Return the result of running the basic URL parser on dummyInput.
+  return parseApiUrl('https://dummy.invalid/')!;
+}
+
+// https://urlpattern.spec.whatwg.org/#canonicalize-a-protocol
+export function canonicalizeProtocol(value: string): string {
+  // 1. If value is the empty string, return value.
+  if ('' === value) {
+    return value;
+  }
+  // 2. Let parseResult be the result of running the basic URL parser given value followed by "://dummy.invalid/".
+  const parseResult = parseApiUrl(`${value}://dummy.invalid/`);
+  // 3. If parseResult is failure, then throw a TypeError.
+  if (parseResult === null) {
+    throw new TypeError(`Invalid protocol: ${value}`);
+  }
+  // 4. Return parseResult’s scheme.
+  return parseResult._scheme;
+}
+
+// https://urlpattern.spec.whatwg.org/#canonicalize-a-username
+// https://urlpattern.spec.whatwg.org/#canonicalize-a-password
+export function canonicalizeUserinfo(value: string): string {
+  // 1. If value is the empty string, return value.
+  // 2. Let dummyURL be the result of creating a dummy URL.
+  // 3. Set the username (or password) given dummyURL and value.
+  // 4. Return dummyURL’s username (or password).
+  return utf8PercentEncodeString(value, isUserinfoPercentEncode);
+}
+
+// https://urlpattern.spec.whatwg.org/#canonicalize-a-hostname
+export function canonicalizeHostname(value: string): string {
+  // 1. If value is the empty string, return value.
+  if ('' === value) {
+    return value;
+  }
+  // 2. Let dummyURL be the result of creating a dummy URL.
+  const dummyURL = createDummyURL();
+  // 3. Let parseResult be the result of running the basic URL parser given value
+  //    with dummyURL as url and hostname state as state override.
+  // 4. If parseResult is failure, then throw a TypeError.
+  parseWithStateOverride(value, dummyURL, ParserState.HOSTNAME);
+  // 5. Return dummyURL’s host, serialized, or empty string if it is null.
+  return dummyURL._host === null ? '' : serializeHost(dummyURL._host);
+}
+
+// https://urlpattern.spec.whatwg.org/#canonicalize-an-ipv6-hostname
+export function canonicalizeIPv6Hostname(value: string): string {
+  // 1. Let result be the empty string.
+  const result: number[] = [];
+  // 2. For each code point in value interpreted as a list of code points:
+  for (const codePoint of ucs2decode(value)) {
+    // 1. If all of the following are true:
+    //    - code point is not an ASCII hex digit;
+    //    - code point is not U+005B ([);
+    //    - code point is not U+005D (]); and
+    //    - code point is not U+003A (:),
+    //    then throw a TypeError.
+    if (!isHexDigit(codePoint) && 0x5B !== codePoint && 0x5D !== codePoint && 0x3A !== codePoint) {
+      throw new TypeError(`Invalid IPv6 hostname: ${value}`);
+    }
+    // 2. Append the result of running ASCII lowercase given code point to the end of result.
+    result.push(toAsciiLowercase(codePoint));
+  }
+  // 3. Return result.
+  return ucs2encode(result);
+}
+
+// https://urlpattern.spec.whatwg.org/#canonicalize-a-port
+export function canonicalizePort(portValue: string, protocolValue?: string): string {
+  // 1. If portValue is the empty string, return portValue.
+  if ('' === portValue) {
+    return portValue;
+  }
+  // Note: the port state stops at the first code point that is not an ASCII digit, so reject those up front
+  for (const codePoint of ucs2decode(portValue)) {
+    if (!isDigit(codePoint)) {
+      throw new TypeError(`Invalid port: ${portValue}`);
+    }
+  }
+  // 2. Let dummyURL be the result of creating a dummy URL.
+  const dummyURL = createDummyURL();
+  // 3. If protocolValue was given, then set dummyURL’s scheme to protocolValue.
+  if (protocolValue !== undefined) {
+    dummyURL._scheme = protocolValue;
+  }
+  // 4. Let parseResult be the result of running basic URL parser given portValue
+  //    with dummyURL as url and port state as state override.
+  // 5. If parseResult is failure, then throw a TypeError.
+  parseWithStateOverride(portValue, dummyURL, ParserState.PORT);
+  // 6. Return dummyURL’s port, serialized, or empty string if it is null.
+  return dummyURL._port === null ? '' : `${dummyURL._port}`;
+}
+
+// https://urlpattern.spec.whatwg.org/#canonicalize-a-pathname
+export function canonicalizePathname(value: string): string {
+  // 1. If value is the empty string, then return value.
+  if ('' === value) {
+    return value;
+  }
+  // 2. Let leading slash be true if the first code point in value is U+002F (/) and otherwise false.
+  const leadingSlash = '/' === value.charAt(0);
+  // 3. Let modified value be "/-" if leading slash is false and otherwise the empty string.
+  // 4. Append value to the end of modified value.
+  const modifiedValue = leadingSlash ? value : `/-${value}`;
+  // 5. Let dummyURL be the result of creating a dummy URL.
+  const dummyURL = createDummyURL();
+  // 6. Empty dummyURL’s path.
+  dummyURL._path = [];
+  // 7. Let parseResult be the result of running basic URL parser given modified value
+  //    with dummyURL as url and path start state as state override.
+  // 8. If parseResult is failure, then throw a TypeError.
+  parseWithStateOverride(modifiedValue, dummyURL, ParserState.PATH_START);
+  // 9. Let result be the result of URL path serializing dummyURL.
+  const result = serializePath(dummyURL);
+  // 10. If leading slash is false, then set result to the code point substring from 2 to the end of the string
+  //     within result.
+  // 11. Return result.
+  return leadingSlash ? result : result.slice(2);
+}
+
+// https://urlpattern.spec.whatwg.org/#canonicalize-an-opaque-pathname
+export function canonicalizeOpaquePathname(value: string): string {
+  // 1. If value is the empty string, return value.
+  if ('' === value) {
+    return value;
+  }
+  // 2. Let dummyURL be a new URL record.
+  const dummyURL = new UrlRecord();
+  // 3. Set dummyURL’s path to the empty string.
+  dummyURL._path = '';
+  // 4. Let parseResult be the result of running URL parsing given value
+  //    with dummyURL as url and opaque path state as state override.
+  // 5. If parseResult is failure, then throw a TypeError.
+  parseWithStateOverride(value, dummyURL, ParserState.OPAQUE_PATH);
+  // 6. Return the result of URL path serializing dummyURL.
+  return serializePath(dummyURL);
+}
+
+// https://urlpattern.spec.whatwg.org/#canonicalize-a-search
+export function canonicalizeSearch(value: string): string {
+  // 1. If value is the empty string, return value.
+  if ('' === value) {
+    return value;
+  }
+  // 2. Let dummyURL be the result of creating a dummy URL.
+  const dummyURL = createDummyURL();
+  // 3. Set dummyURL’s query to the empty string.
+  dummyURL._query = '';
+  // 4. Let parseResult be the result of running basic URL parser given value
+  //    with dummyURL as url and query state as state override.
+  // 5. If parseResult is failure, then throw a TypeError.
+  parseWithStateOverride(value, dummyURL, ParserState.QUERY);
+  // 6. Return dummyURL’s query.
+  return dummyURL._query;
+}
+
+// https://urlpattern.spec.whatwg.org/#canonicalize-a-hash
+export function canonicalizeHash(value: string): string {
+  // 1. If value is the empty string, return value.
+  if ('' === value) {
+    return value;
+  }
+  // 2. Let dummyURL be the result of creating a dummy URL.
+  const dummyURL = createDummyURL();
+  // 3. Set dummyURL’s fragment to the empty string.
+  dummyURL._fragment = '';
+  // 4. Let parseResult be the result of running basic URL parser given value
+  //    with dummyURL as url and fragment state as state override.
+  // 5. If parseResult is failure, then throw a TypeError.
+  parseWithStateOverride(value, dummyURL, ParserState.FRAGMENT);
+  // 6. Return dummyURL’s fragment.
+  return dummyURL._fragment;
+}
@@ -0,0 +1,426 @@
+import { tokenize, Token, TokenizePolicy, TokenType } from "./tokenizer";
+import { canonicalizeProtocol, compileComponent, DEFAULT_OPTIONS, protocolComponentMatchesSpecialScheme } from "./component";
+import { URLPatternInit } from "../url-pattern";
+import { ucs2decode, ucs2encode } from "../vendor/ucs2";
+
+// https://urlpattern.spec.whatwg.org/#constructor-string-parser-state
+const enum State {
+  INIT,
+  PROTOCOL,
+  AUTHORITY,
+  USERNAME,
+  PASSWORD,
+  HOSTNAME,
+  PORT,
+  PATHNAME,
+  SEARCH,
+  HASH,
+  DONE
+}
+
+// The result keys of the states that correspond to a component
+const COMPONENT_NAMES: { [state: number]: keyof URLPatternInit } = {
+  [State.PROTOCOL]: 'protocol',
+  [State.USERNAME]: 'username',
+  [State.PASSWORD]: 'password',
+  [State.HOSTNAME]: 'hostname',
+  [State.PORT]: 'port',
+  [State.PATHNAME]: 'pathname',
+  [State.SEARCH]: 'search',
+  [State.HASH]: 'hash'
+};
+
+// https://urlpattern.spec.whatwg.org/#parse-a-constructor-string
+export function parseConstructorString(input: string): URLPatternInit {
+  // 1. Let parser be a new constructor string parser whose input is input
+  //    and token list is the result of running tokenize given input and "lenient".
+  const codePoints = ucs2decode(input);
+  const tokenList = tokenize(codePoints, TokenizePolicy.LENIENT);
+  const result: URLPatternInit = {};
+  let componentStart = 0;
+  let tokenIndex = 0;
+  let tokenIncrement = 1;
+  let groupDepth = 0;
+  let hostnameIPv6BracketDepth = 0;
+  let protocolMatchesSpecialSchemeFlag = false;
+  let state: State = State.INIT;
+
+  // https://urlpattern.spec.whatwg.org/#get-a-safe-token
+  const getSafeToken = (index: number): Token => {
+    // 1. If index is less than parser’s token list's size, then return parser’s token list[index].
+    if (index < tokenList.length) {
+      return tokenList[index];
+    }
+    // 2. Assert: parser’s token list's size is greater than or equal to 1.
+    // 3. Let last index be parser’s token list's size − 1.
+    // 4. Let token be parser’s token list[last index].
+    // 5. Assert: token’s type is "end".
+    // 6. Return token.
+    return tokenList[tokenList.length - 1];
+  };
+  // https://urlpattern.spec.whatwg.org/#is-a-non-special-pattern-char
+  const isNonSpecialPatternChar = (index: number, value: string): boolean => {
+    // 1. Let token be the result of running get a safe token given parser and index.
+    const token = getSafeToken(index);
+    // 2. If token’s value is not value, then return false.
+    if (token._value !== value) {
+      return false;
+    }
+    // 3. If any of the following are true:
+    //    - token’s type is "char";
+    //    - token’s type is "escaped-char"; or
+    //    - token’s type is "invalid-char",
+    //    then return true.
+    // 4. Return false.
+    return token._type === TokenType.CHAR
+        || token._type === TokenType.ESCAPED_CHAR
+        || token._type === TokenType.INVALID_CHAR;
+  };
+  // https://urlpattern.spec.whatwg.org/#is-a-search-prefix
+  const isSearchPrefix = (): boolean => {
+    // 1. If result of running is a non-special pattern char given parser, parser’s token index and "?" is true,
+    //    then return true.
+    if (isNonSpecialPatternChar(tokenIndex, '?')) {
+      return true;
+    }
+    // 2. If parser’s token list[parser’s token index]'s value is not "?", then return false.
+    if ('?' !== tokenList[tokenIndex]._value) {
+      return false;
+    }
+    // 3. Let previous index be parser’s token index − 1.
+    const previousIndex = tokenIndex - 1;
+    // 4. If previous index is less than 0, then return true.
+    if (previousIndex < 0) {
+      return true;
+    }
+    // 5. Let previous token be the result of running get a safe token given parser and previous index.
+    const previousToken = getSafeToken(previousIndex);
+    // 6. If any of the following are true, then return false:
+    //    - previous token’s type is "name".
+    //    - previous token’s type is "regexp".
+    //    - previous token’s type is "close".
+    //    - previous token’s type is "asterisk".
+    // 7. Return true.
+    return !(previousToken._type === TokenType.NAME
+        || previousToken._type === TokenType.REGEXP
+        || previousToken._type === TokenType.CLOSE
+        || previousToken._type === TokenType.ASTERISK);
+  };
+  // https://urlpattern.spec.whatwg.org/#next-is-authority-slashes
+  const nextIsAuthoritySlashes = (): boolean => {
+    return isNonSpecialPatternChar(tokenIndex + 1, '/') && isNonSpecialPatternChar(tokenIndex + 2, '/');
+  };
+  // https://urlpattern.spec.whatwg.org/#make-a-component-string
+  const makeComponentString = (): string => {
+    // 1. Assert: parser’s token index is less than parser’s token list's size.
+    // 2. Let token be parser’s token list[parser’s token index].
+    const token = tokenList[tokenIndex];
+    // 3. Let component start token be the result of running get a safe token given parser
+    //    and parser’s component start.
+    const componentStartToken = getSafeToken(componentStart);
+    // 4. Let component start input index be component start token’s index.
+    // 5. Let end index be token’s index.
+    // 6. Return the code point substring from component start input index to end index within parser’s input.
+    return ucs2encode(codePoints.slice(componentStartToken._index, token._index));
+  };
+  // https://urlpattern.spec.whatwg.org/#change-state
+  const changeState = (newState: State, skip: number): void => {
+    // 1. If parser’s state is not "init", not "authority", and not "done", then set parser’s result[parser’s state]
+    //    to the result of running make a component string given parser.
+    if (state !== State.INIT && state !== State.AUTHORITY && state !== State.DONE) {
+      result[COMPONENT_NAMES[state]] = makeComponentString();
+    }
+    // 2. If parser’s state is not "init" and new state is not "done", then:
+    if (state !== State.INIT && newState !== State.DONE) {
+      // 1. If parser’s state is "protocol", "authority", "username", or "password";
+      //    new state is "port", "pathname", "search", or "hash";
+      //    and parser’s result["hostname"] does not exist, then set parser’s result["hostname"] to the empty string.
+      if ((state === State.PROTOCOL || state === State.AUTHORITY || state === State.USERNAME
+          || state === State.PASSWORD)
+          && (newState === State.PORT || newState === State.PATHNAME || newState === State.SEARCH
+              || newState === State.HASH)
+          && result.hostname === undefined) {
+        result.hostname = '';
+      }
+      // 2. If parser’s state is "protocol", "authority", "username", "password", "hostname", or "port";
+      //    new state is "search" or "hash"; and parser’s result["pathname"] does not exist, then:
+      if ((state === State.PROTOCOL || state === State.AUTHORITY || state === State.USERNAME
+          || state === State.PASSWORD || state === State.HOSTNAME || state === State.PORT)
+          && (newState === State.SEARCH || newState === State.HASH)
+          && result.pathname === undefined) {
+        // 1. If parser’s protocol matches a special scheme flag is true,
+        //    then set parser’s result["pathname"] to "/".
+        // 2. Otherwise, set parser’s result["pathname"] to the empty string.
+        result.pathname = protocolMatchesSpecialSchemeFlag ? '/' : '';
+      }
+      // 3. If parser’s state is "protocol", "authority", "username", "password", "hostname", "port",
+      //    or "pathname"; new state is "hash"; and parser’s result["search"] does not exist,
+      //    then set parser’s result["search"] to the empty string.
+      if ((state === State.PROTOCOL || state === State.AUTHORITY || state === State.USERNAME
+          || state === State.PASSWORD || state === State.HOSTNAME || state === State.PORT
+          || state === State.PATHNAME)
+          && newState === State.HASH
+          && result.search === undefined) {
+        result.search = '';
+      }
+    }
+    // 3. Set parser’s state to new state.
+    state = newState;
+    // 4. Increment parser’s token index by skip.
+    tokenIndex += skip;
+    // 5. Set parser’s component start to parser’s token index.
+    componentStart = tokenIndex;
+    // 6. Set parser’s token increment to 0.
+    tokenIncrement = 0;
+  };
+  // https://urlpattern.spec.whatwg.org/#rewind
+  const rewind = (): void => {
+    tokenIndex = componentStart;
+    tokenIncrement = 0;
+  };
+  // https://urlpattern.spec.whatwg.org/#rewind-and-set-state
+  const rewindAndSetState = (newState: State): void => {
+    rewind();
+    state = newState;
+  };
+  // https://urlpattern.spec.whatwg.org/#compute-protocol-matches-a-special-scheme-flag
+  const computeProtocolMatchesSpecialSchemeFlag = (): void => {
+    // 1. Let protocol string be the result of running make a component string given parser.
+    const protocolString = makeComponentString();
+    // 2. Let protocol component be the result of compiling a component given protocol string,
+    //    canonicalize a protocol, and default options.
+    const protocolComponent = compileComponent(protocolString, canonicalizeProtocol, DEFAULT_OPTIONS);
+    // 3. If the result of running protocol component matches a special scheme given protocol component is true,
+    //    then set parser’s protocol matches a special scheme flag to true.
+    if (protocolComponentMatchesSpecialScheme(protocolComponent)) {
+      protocolMatchesSpecialSchemeFlag = true;
+    }
+  };
+
+  // 2. While parser’s token index is less than parser’s token list size:
+  while (tokenIndex < tokenList.length) {
+    // 1. Set parser’s token increment to 1.
+    tokenIncrement = 1;
+    // 2. If parser’s token list[parser’s token index]'s type is "end" then:
+    if (tokenList[tokenIndex]._type === TokenType.END) {
+      // 1. If parser’s state is "init":
+      if (state === State.INIT) {
+        // 1. Run rewind given parser.
+        rewind();
+        // 2. If the result of running is a hash prefix given parser is true,
+        //    then run change state given parser, "hash" and 1.
+        if (isNonSpecialPatternChar(tokenIndex, '#')) {
+          changeState(State.HASH, 1);
+        }
+        // 3. Otherwise if the result of running is a search prefix given parser is true:
+        else if (isSearchPrefix()) {
+          changeState(State.SEARCH, 1);
+        }
+        // 4. Otherwise:
+        else {
+          changeState(State.PATHNAME, 0);
+        }
+        // 5. Increment parser’s token index by parser’s token increment.
+        tokenIndex += tokenIncrement;
+        // 6. Continue.
+        continue;
+      }
+      // 2. If parser’s state is "authority":
+      if (state === State.AUTHORITY) {
+        // 1. Run rewind and set state given parser, and "hostname".
+        rewindAndSetState(State.HOSTNAME);
+        // 2. Increment parser’s token index by parser’s token increment.
+        tokenIndex += tokenIncrement;
+        // 3. Continue.
+        continue;
+      }
+      // 3. Run change state given parser, "done" and 0.
+      changeState(State.DONE, 0);
+      // 4. Break.
+      break;
+    }
+    // 3. If the result of running is a group open given parser is true:
+    if (tokenList[tokenIndex]._type === TokenType.OPEN) {
+      // 1. Increment parser’s group depth by 1.
+      groupDepth += 1;
+      // 2. Increment parser’s token index by parser’s token increment.
+      tokenIndex += tokenIncrement;
+      // 3. Continue.
+      continue;
+    }
+    // 4. If parser’s group depth is greater than 0:
+    if (groupDepth > 0) {
+      // 1. If the result of running is a group close given parser is true,
+      //    then decrement parser’s group depth by 1.
+      if (tokenList[tokenIndex]._type === TokenType.CLOSE) {
+        groupDepth -= 1;
+      }
+      // 2. Otherwise:
+      else {
+        // 1. Increment parser’s token index by parser’s token increment.
+        tokenIndex += tokenIncrement;
+        // 2. Continue.
+        continue;
+      }
+    }
+    // 5. Switch on parser’s state and run the associated steps:
+    switch (state as State) {
+      case State.INIT:
+        // 1. If the result of running is a protocol suffix given parser is true:
+        if (isNonSpecialPatternChar(tokenIndex, ':')) {
+          // 1. Run rewind and set state given parser and "protocol".
+          rewindAndSetState(State.PROTOCOL);
+        }
+        break;
+
+      case State.PROTOCOL:
+        // 1. If the result of running is a protocol suffix given parser is true:
+        if (isNonSpecialPatternChar(tokenIndex, ':')) {
+          // 1. Run compute protocol matches a special scheme flag given parser.
+          computeProtocolMatchesSpecialSchemeFlag();
+          // 2. Let next state be "pathname".
+          let nextState = State.PATHNAME;
+          // 3. Let skip be 1.
+          let skip = 1;
+          // 4. If the result of running next is authority slashes given parser is true:
+          if (nextIsAuthoritySlashes()) {
+            // 1. Set next state to "authority".
+            nextState = State.AUTHORITY;
+            // 2. Set skip to 3.
+            skip = 3;
+          }
+          // 5. Otherwise if parser’s protocol matches a special scheme flag is true,
+          //    then set next state to "authority".
+          else if (protocolMatchesSpecialSchemeFlag) {
+            nextState = State.AUTHORITY;
+          }
+          // 6. Run change state given parser, next state, and skip.
+          changeState(nextState, skip);
+        }
+        break;
+
+      case State.AUTHORITY:
+        // 1. If the result of running is an identity terminator given parser is true,
+        //    then run rewind and set state given parser and "username".
+        if (isNonSpecialPatternChar(tokenIndex, '@')) {
+          rewindAndSetState(State.USERNAME);
+        }
+        // 2. Otherwise if any of the following are true:
+        //    - the result of running is a pathname start given parser;
+        //    - the result of running is a search prefix given parser; or
+        //    - the result of running is a hash prefix given parser,
+        //    then run rewind and set state given parser and "hostname".
+        else if (isNonSpecialPatternChar(tokenIndex, '/') || isSearchPrefix()
+            || isNonSpecialPatternChar(tokenIndex, '#')) {
+          rewindAndSetState(State.HOSTNAME);
+        }
+        break;
+
+      case State.USERNAME:
+        // 1. If the result of running is a password prefix given parser is true,
+        //    then run change state given parser, "password", and 1.
+        if (isNonSpecialPatternChar(tokenIndex, ':')) {
+          changeState(State.PASSWORD, 1);
+        }
+        // 2. Otherwise if the result of running is an identity terminator given parser is true,
+        //    then run change state given parser, "hostname", and 1.
+        else if (isNonSpecialPatternChar(tokenIndex, '@')) {
+          changeState(State.HOSTNAME, 1);
+        }
+        break;
+
+      case State.PASSWORD:
+        // 1. If the result of running is an identity terminator given parser is true,
+        //    then run change state given parser, "hostname", and 1.
+        if (isNonSpecialPatternChar(tokenIndex, '@')) {
+          changeState(State.HOSTNAME, 1);
+        }
+        break;
+
+      case State.HOSTNAME:
+        // 1. If the result of running is an IPv6 open given parser is true,
+        //    then increment parser’s hostname IPv6 bracket depth by 1.
+        if (isNonSpecialPatternChar(tokenIndex, '[')) {
+          hostnameIPv6BracketDepth += 1;
+        }
+        // 2. Otherwise if the result of running is an IPv6 close given parser is true,
+        //    then decrement parser’s hostname IPv6 bracket depth by 1.
+        else if (isNonSpecialPatternChar(tokenIndex, ']')) {
+          hostnameIPv6BracketDepth -= 1;
+        }
+        // 3. Otherwise if the result of running is a port prefix given parser is true
+        //    and parser’s hostname IPv6 bracket depth is zero,
+        //    then run change state given parser, "port", and 1.
+        else if (isNonSpecialPatternChar(tokenIndex, ':') && hostnameIPv6BracketDepth === 0) {
+          changeState(State.PORT, 1);
+        }
+        // 4. Otherwise if the result of running is a pathname start given parser is true,
+        //    then run change state given parser, "pathname", and 0.
+        else if (isNonSpecialPatternChar(tokenIndex, '/')) {
+          changeState(State.PATHNAME, 0);
+        }
+        // 5. Otherwise if the result of running is a search prefix given parser is true,
+        //    then run change state given parser, "search", and 1.
+        else if (isSearchPrefix()) {
+          changeState(State.SEARCH, 1);
+        }
+        // 6. Otherwise if the result of running is a hash prefix given parser is true,
+        //    then run change state given parser, "hash", and 1.
+        else if (isNonSpecialPatternChar(tokenIndex, '#')) {
+          changeState(State.HASH, 1);
+        }
+        break;
+
+      case State.PORT:
+        // 1. If the result of running is a pathname start given parser is true,
+        //    then run change state given parser, "pathname", and 0.
+        if (isNonSpecialPatternChar(tokenIndex, '/')) {
+          changeState(State.PATHNAME, 0);
+        }
+        // 2. Otherwise if the result of running is a search prefix given parser is true,
+        //    then run change state given parser, "search", and 1.
+        else if (isSearchPrefix()) {
+          changeState(State.SEARCH, 1);
+        }
+        // 3. Otherwise if the result of running is a hash prefix given parser is true,
+        //    then run change state given parser, "hash", and 1.
+        else if (isNonSpecialPatternChar(tokenIndex, '#')) {
+          changeState(State.HASH, 1);
+        }
+        break;
+
+      case State.PATHNAME:
+        // 1. If the result of running is a search prefix given parser is true,
+        //    then run change state given parser, "search", and 1.
+        if (isSearchPrefix()) {
+          changeState(State.SEARCH, 1);
+        }
+        // 2. Otherwise if the result of running is a hash prefix given parser is true,
+        //    then run change state given parser, "hash", and 1.
+        else if (isNonSpecialPatternChar(tokenIndex, '#')) {
+          changeState(State.HASH, 1);
+        }
+        break;
+
+      case State.SEARCH:
+        // 1. If the result of running is a hash prefix given parser is true,
+        //    then run change state given parser, "hash", and 1.
+        if (isNonSpecialPatternChar(tokenIndex, '#')) {
+          changeState(State.HASH, 1);
+        }
+        break;
+
+      case State.HASH:
+        // Do nothing.
+        break;
+    }
+    // 6. Increment parser’s token index by parser’s token increment.
+    tokenIndex += tokenIncrement;
+  }
+  // 3. If parser’s result contains "hostname" and not "port", then set parser’s result["port"] to the empty string.
+  if (result.hostname !== undefined && result.port === undefined) {
+    result.port = '';
+  }
+  // 4. Return parser’s result.
+  return result;
+}
@@ -0,0 +1,544 @@
+import { isValidNameCodePoint, tokenize, Token, TokenizePolicy, TokenType } from "./tokenizer";
+import { ucs2decode } from "../vendor/ucs2";
+import { isDigit } from "../util";
+
+// https://urlpattern.spec.whatwg.org/#part-type
+export const enum PartType {
+  FIXED_TEXT,
+  REGEXP,
+  SEGMENT_WILDCARD,
+  FULL_WILDCARD
+}
+
+// https://urlpattern.spec.whatwg.org/#part-modifier
+export const enum PartModifier {
+  NONE,
+  OPTIONAL,
+  ZERO_OR_MORE,
+  ONE_OR_MORE
+}
+
+// https://urlpattern.spec.whatwg.org/#part
+export interface Part {
+  readonly _type: PartType;
+  readonly _value: string;
+  readonly _modifier: PartModifier;
+  readonly _name: string;
+  readonly _prefix: string;
+  readonly _suffix: string;
+}
+
+// https://urlpattern.spec.whatwg.org/#options
+export interface Options {
+  // The delimiter code point, or the empty string
+  readonly _delimiter: string;
+  // The prefix code point, or the empty string
+  readonly _prefix: string;
+  readonly _ignoreCase: boolean;
+}
+
+// https://urlpattern.spec.whatwg.org/#encoding-callback
+export type EncodingCallback = (input: string) => string;
+
+// https://urlpattern.spec.whatwg.org/#full-wildcard-regexp-value
+export const FULL_WILDCARD_REGEXP_VALUE = '.*';
+
+// https://urlpattern.spec.whatwg.org/#escape-a-pattern-string
+export function escapePatternString(input: string): string {
+  return input.replace(/[+*?:{}()\\]/g, '\\$&');
+}
+
+// https://urlpattern.spec.whatwg.org/#escape-a-regexp-string
+export function escapeRegExpString(input: string): string {
+  return input.replace(/[.+*?^${}()[\]|/\\]/g, '\\$&');
+}
+
+// https://urlpattern.spec.whatwg.org/#generate-a-segment-wildcard-regexp
+function generateSegmentWildcardRegExp(options: Options): string {
+  // 1. Let result be "[^".
+  // 2. Append the result of running escape a regexp string given options’s delimiter code point to the end of result.
+  // 3. Append "]+?" to the end of result.
+  // 4. Return result.
+  return `[^${escapeRegExpString(options._delimiter)}]+?`;
+}
+
+// https://urlpattern.spec.whatwg.org/#convert-a-modifier-to-a-string
+function modifierToString(modifier: PartModifier): string {
+  switch (modifier) {
+    case PartModifier.ZERO_OR_MORE:
+      return '*';
+    case PartModifier.OPTIONAL:
+      return '?';
+    case PartModifier.ONE_OR_MORE:
+      return '+';
+    default:
+      return '';
+  }
+}
+
+// https://urlpattern.spec.whatwg.org/#parse-a-pattern-string
+export function parsePatternString(input: string, options: Options, encodingCallback: EncodingCallback): Part[] {
+  // 1. Let parser be a new pattern parser whose encoding callback is encoding callback
+  //    and segment wildcard regexp is the result of running generate a segment wildcard regexp given options.
+  const segmentWildcardRegExp = generateSegmentWildcardRegExp(options);
+  const partList: Part[] = [];
+  let pendingFixedValue = '';
+  let nextNumericName = 0;
+  // 2. Set parser’s token list to the result of running tokenize given input and "strict".
+  const tokenList = tokenize(ucs2decode(input), TokenizePolicy.STRICT);
+  let index = 0;
+
+  // https://urlpattern.spec.whatwg.org/#try-to-consume-a-token
+  const tryConsumeToken = (type: TokenType): Token | null => {
+    // 1. Assert: parser’s index is less than parser’s token list size.
+    // 2. Let next token be parser’s token list[parser’s index].
+    const nextToken = tokenList[index];
+    // 3. If next token’s type is not type return null.
+    if (nextToken._type !== type) {
+      return null;
+    }
+    // 4. Increment parser’s index by 1.
+    index += 1;
+    // 5. Return next token.
+    return nextToken;
+  };
+  // https://urlpattern.spec.whatwg.org/#try-to-consume-a-modifier-token
+  const tryConsumeModifierToken = (): Token | null => {
+    const token = tryConsumeToken(TokenType.OTHER_MODIFIER);
+    if (token !== null) {
+      return token;
+    }
+    return tryConsumeToken(TokenType.ASTERISK);
+  };
+  // https://urlpattern.spec.whatwg.org/#try-to-consume-a-regexp-or-wildcard-token
+  const tryConsumeRegExpOrWildcardToken = (nameToken: Token | null): Token | null => {
+    let token = tryConsumeToken(TokenType.REGEXP);
+    if (nameToken === null && token === null) {
+      token = tryConsumeToken(TokenType.ASTERISK);
+    }
+    return token;
+  };
+  // https://urlpattern.spec.whatwg.org/#consume-a-required-token
+  const consumeRequiredToken = (type: TokenType): Token => {
+    const result = tryConsumeToken(type);
+    if (result === null) {
+      throw new TypeError(`Invalid pattern: unexpected token at index ${tokenList[index]._index}`);
+    }
+    return result;
+  };
+  // https://urlpattern.spec.whatwg.org/#consume-text
+  const consumeText = (): string => {
+    let result = '';
+    while (true) {
+      let token = tryConsumeToken(TokenType.CHAR);
+      if (token === null) {
+        token = tryConsumeToken(TokenType.ESCAPED_CHAR);
+      }
+      if (token === null) {
+        break;
+      }
+      result += token._value;
+    }
+    return result;
+  };
+  // https://urlpattern.spec.whatwg.org/#maybe-add-a-part-from-the-pending-fixed-value
+  const maybeAddPartFromPendingFixedValue = (): void => {
+    // 1. If parser’s pending fixed value is the empty string, then return.
+    if ('' === pendingFixedValue) {
+      return;
+    }
+    // 2. Let encoded value be the result of running parser’s encoding callback given parser’s pending fixed value.
+    const encodedValue = encodingCallback(pendingFixedValue);
+    // 3. Set parser’s pending fixed value to the empty string.
+    pendingFixedValue = '';
+    // 4. Let part be a new part whose type is "fixed-text", value is encoded value, and modifier is "none".
+    // 5. Append part to parser’s part list.
+    partList.push(createPart(PartType.FIXED_TEXT, encodedValue, PartModifier.NONE));
+  };
+  // https://urlpattern.spec.whatwg.org/#is-a-duplicate-name
+  const isDuplicateName = (name: string): boolean => {
+    for (const part of partList) {
+      if (part._name === name) {
+        return true;
+      }
+    }
+    return false;
+  };
+  // https://urlpattern.spec.whatwg.org/#add-a-part
+  const addPart = (prefix: string, nameToken: Token | null, regexpOrWildcardToken: Token | null,
+                   suffix: string, modifierToken: Token | null): void => {
+    // 1. Let modifier be "none".
+    let modifier = PartModifier.NONE;
+    // 2. If modifier token is not null:
+    if (modifierToken !== null) {
+      if ('?' === modifierToken._value) {
+        modifier = PartModifier.OPTIONAL;
+      } else if ('*' === modifierToken._value) {
+        modifier = PartModifier.ZERO_OR_MORE;
+      } else if ('+' === modifierToken._value) {
+        modifier = PartModifier.ONE_OR_MORE;
+      }
+    }
+    // 3. If name token is null and regexp or wildcard token is null and modifier is "none":
+    if (nameToken === null && regexpOrWildcardToken === null && modifier === PartModifier.NONE) {
+      // 1. Append prefix to the end of parser’s pending fixed value.
+      pendingFixedValue += prefix;
+      // 2. Return.
+      return;
+    }
+    // 4. Run maybe add a part from the pending fixed value given parser.
+    maybeAddPartFromPendingFixedValue();
+    // 5. If name token is null and regexp or wildcard token is null:
+    if (nameToken === null && regexpOrWildcardToken === null) {
+      // 1. Assert: suffix is the empty string.
+      // 2. If prefix is the empty string, then return.
+      if ('' === prefix) {
+        return;
+      }
+      // 3. Let encoded value be the result of running parser’s encoding callback given prefix.
+      // 4. Let part be a new part whose type is "fixed-text", value is encoded value, and modifier is modifier.
+      // 5. Append part to parser’s part list.
+      partList.push(createPart(PartType.FIXED_TEXT, encodingCallback(prefix), modifier));
+      // 6. Return.
+      return;
+    }
+    // 6. Let regexp value be the empty string.
+    let regexpValue: string;
+    // 7. If regexp or wildcard token is null, then set regexp value to parser’s segment wildcard regexp.
+    if (regexpOrWildcardToken === null) {
+      regexpValue = segmentWildcardRegExp;
+    }
+    // 8. Otherwise if regexp or wildcard token’s type is "asterisk", then set regexp value
+    //    to the full wildcard regexp value.
+    else if (regexpOrWildcardToken._type === TokenType.ASTERISK) {
+      regexpValue = FULL_WILDCARD_REGEXP_VALUE;
+    }
+    // 9. Otherwise set regexp value to regexp or wildcard token’s value.
+    else {
+      regexpValue = regexpOrWildcardToken._value;
+    }
+    // 10. Let type be "regexp".
+    let type = PartType.REGEXP;
+    // 11. If regexp value is parser’s segment wildcard regexp:
+    if (regexpValue === segmentWildcardRegExp) {
+      type = PartType.SEGMENT_WILDCARD;
+      regexpValue = '';
+    }
+    // 12. Otherwise if regexp value is the full wildcard regexp value:
+    else if (regexpValue === FULL_WILDCARD_REGEXP_VALUE) {
+      type = PartType.FULL_WILDCARD;
+      regexpValue = '';
+    }
+    // 13. Let name be the empty string.
+    let name = '';
+    // 14. If name token is not null, then set name to name token’s value.
+    if (nameToken !== null) {
+      name = nameToken._value;
+    }
+    // 15. Otherwise if regexp or wildcard token is not null:
+    else if (regexpOrWildcardToken !== null) {
+      // 1. Set name to parser’s next numeric name, serialized.
+      name = `${nextNumericName}`;
+      // 2. Increment parser’s next numeric name by 1.
+      nextNumericName += 1;
+    }
+    // 16. If the result of running is a duplicate name given parser and name is true, then throw a TypeError.
+    if (isDuplicateName(name)) {
+      throw new TypeError(`Invalid pattern: duplicate name "${name}"`);
+    }
+    // 17. Let encoded prefix be the result of running parser’s encoding callback given prefix.
+    // 18. Let encoded suffix be the result of running parser’s encoding callback given suffix.
+    // 19. Let part be a new part whose type is type, value is regexp value, modifier is modifier, name is name,
+    //     prefix is encoded prefix, and suffix is encoded suffix.
+    // 20. Append part to parser’s part list.
+    partList.push(createPart(type, regexpValue, modifier, name, encodingCallback(prefix), encodingCallback(suffix)));
+  };
+
+  // 3. While parser’s index is less than parser’s token list's size:
+  while (index < tokenList.length) {
+    // 1. Let char token be the result of running try to consume a token given parser and "char".
+    const charToken = tryConsumeToken(TokenType.CHAR);
+    // 2. Let name token be the result of running try to consume a token given parser and "name".
+    let nameToken = tryConsumeToken(TokenType.NAME);
+    // 3. Let regexp or wildcard token be the result of running try to consume a regexp or wildcard token
+    //    given parser and name token.
+    let regexpOrWildcardToken = tryConsumeRegExpOrWildcardToken(nameToken);
+    // 4. If name token is not null or regexp or wildcard token is not null:
+    if (nameToken !== null || regexpOrWildcardToken !== null) {
+      // 1. Let prefix be the empty string.
+      let prefix = '';
+      // 2. If char token is not null then set prefix to char token’s value.
+      if (charToken !== null) {
+        prefix = charToken._value;
+      }
+      // 3. If prefix is not the empty string and not options’s prefix code point:
+      if ('' !== prefix && prefix !== options._prefix) {
+        // 1. Append prefix to the end of parser’s pending fixed value.
+        pendingFixedValue += prefix;
+        // 2. Set prefix to the empty string.
+        prefix = '';
+      }
+      // 4. Run maybe add a part from the pending fixed value given parser.
+      maybeAddPartFromPendingFixedValue();
+      // 5. Let modifier token be the result of running try to consume a modifier token given parser.
+      const modifierToken = tryConsumeModifierToken();
+      // 6. Run add a part given parser, prefix, name token, regexp or wildcard token, the empty string,
+      //    and modifier token.
+      addPart(prefix, nameToken, regexpOrWildcardToken, '', modifierToken);
+      // 7. Continue.
+      continue;
+    }
+    // 5. Let fixed token be char token.
+    let fixedToken = charToken;
+    // 6. If fixed token is null, then set fixed token to the result of running try to consume a token
+    //    given parser and "escaped-char".
+    if (fixedToken === null) {
+      fixedToken = tryConsumeToken(TokenType.ESCAPED_CHAR);
+    }
+    // 7. If fixed token is not null:
+    if (fixedToken !== null) {
+      // 1. Append fixed token’s value to parser’s pending fixed value.
+      pendingFixedValue += fixedToken._value;
+      // 2. Continue.
+      continue;
+    }
+    // 8. Let open token be the result of running try to consume a token given parser and "open".
+    const openToken = tryConsumeToken(TokenType.OPEN);
+    // 9. If open token is not null:
+    if (openToken !== null) {
+      // 1. Let prefix be the result of running consume text given parser.
+      const prefix = consumeText();
+      // 2. Set name token to the result of running try to consume a token given parser and "name".
+      nameToken = tryConsumeToken(TokenType.NAME);
+      // 3. Set regexp or wildcard token to the result of running try to consume a regexp or wildcard token
+      //    given parser and name token.
+      regexpOrWildcardToken = tryConsumeRegExpOrWildcardToken(nameToken);
+      // 4. Let suffix be the result of running consume text given parser.
+      const suffix = consumeText();
+      // 5. Run consume a required token given parser and "close".
+      consumeRequiredToken(TokenType.CLOSE);
+      // 6. Let modifier token be the result of running try to consume a modifier token given parser.
+      const modifierToken = tryConsumeModifierToken();
+      // 7. Run add a part given parser, prefix, name token, regexp or wildcard token, suffix, and modifier token.
+      addPart(prefix, nameToken, regexpOrWildcardToken, suffix, modifierToken);
+      // 8. Continue.
+      continue;
+    }
+    // 10. Run maybe add a part from the pending fixed value given parser.
+    maybeAddPartFromPendingFixedValue();
+    // 11. Run consume a required token given parser and "end".
+    consumeRequiredToken(TokenType.END);
+  }
+  // 4. Return parser’s part list.
+  return partList;
+}
+
+function createPart(type: PartType, value: string, modifier: PartModifier,
+                    name: string = '', prefix: string = '', suffix: string = ''): Part {
+  return {
+    _type: type,
+    _value: value,
+    _modifier: modifier,
+    _name: name,
+    _prefix: prefix,
+    _suffix: suffix
+  };
+}
+
+// https://urlpattern.spec.whatwg.org/#generate-a-regular-expression-and-name-list
+export function generateRegExpAndNameList(partList: Part[], options: Options): { regexp: string, names: string[] } {
+  // 1. Let result be "^".
+  let result = '^';
+  // 2. Let name list be a new list.
+  const nameList: string[] = [];
+  // 3. For each part of part list:
+  for (const part of partList) {
+    // 1. If part’s type is "fixed-text":
+    if (part._type === PartType.FIXED_TEXT) {
+      // 1. If part’s modifier is "none", then append the result of running escape a regexp string
+      //    given part’s value to the end of result.
+      if (part._modifier === PartModifier.NONE) {
+        result += escapeRegExpString(part._value);
+      }
+      // 2. Otherwise:
+      else {
+        result += `(?:${escapeRegExpString(part._value)})${modifierToString(part._modifier)}`;
+      }
+      // 3. Continue.
+      continue;
+    }
+    // 2. Assert: part’s name is not the empty string.
+    // 3. Append part’s name to name list.
+    nameList.push(part._name);
+    // 4. Let regexp value be part’s value.
+    let regexpValue = part._value;
+    // 5. If part’s type is "segment-wildcard", then set regexp value to the result of running
+    //    generate a segment wildcard regexp given options.
+    if (part._type === PartType.SEGMENT_WILDCARD) {
+      regexpValue = generateSegmentWildcardRegExp(options);
+    }
+    // 6. Otherwise if part’s type is "full-wildcard", then set regexp value to full wildcard regexp value.
+    else if (part._type === PartType.FULL_WILDCARD) {
+      regexpValue = FULL_WILDCARD_REGEXP_VALUE;
+    }
+    // 7. If part’s prefix is the empty string and part’s suffix is the empty string:
+    if ('' === part._prefix && '' === part._suffix) {
+      // 1. If part’s modifier is "none" or "optional", then:
+      if (part._modifier === PartModifier.NONE || part._modifier === PartModifier.OPTIONAL) {
+        result += `(${regexpValue})${modifierToString(part._modifier)}`;
+      }
+      // 2. Otherwise:
+      else {
+        result += `((?:${regexpValue})${modifierToString(part._modifier)})`;
+      }
+      // 3. Continue.
+      continue;
+    }
+    const prefix = escapeRegExpString(part._prefix);
+    const suffix = escapeRegExpString(part._suffix);
+    // 8. If part’s modifier is "none" or "optional":
+    if (part._modifier === PartModifier.NONE || part._modifier === PartModifier.OPTIONAL) {
+      result += `(?:${prefix}(${regexpValue})${suffix})${modifierToString(part._modifier)}`;
+      continue;
+    }
+    // 9. Assert: part’s modifier is "zero-or-more" or "one-or-more".
+    // 10. Assert: part’s prefix is not the empty string or part’s suffix is not the empty string.
+    // 11-20. Append "(?:" prefix "((?:" regexp value ")(?:" suffix prefix "(?:" regexp value "))*)" suffix ")".
+    result += `(?:${prefix}((?:${regexpValue})(?:${suffix}${prefix}(?:${regexpValue}))*)${suffix})`;
+    // 21. If part’s modifier is "zero-or-more" then append "?" to the end of result.
+    if (part._modifier === PartModifier.ZERO_OR_MORE) {
+      result += '?';
+    }
+  }
+  // 4. Append "$" to the end of result.
+  result += '$';
+  // 5. Return (result, name list).
+  return { regexp: result, names: nameList };
+}
+
+// https://urlpattern.spec.whatwg.org/#generate-a-pattern-string
+export function generatePatternString(partList: Part[], options: Options): string {
+  // 1. Let result be the empty string.
+  let result = '';
+  // 2. Let index list be the result of getting the indices for part list.
+  // 3. For each index of index list:
+  for (let index = 0; index < partList.length; index++) {
+    // 1. Let part be part list[index].
+    const part = partList[index];
+    // 2. Let previous part be part list[index - 1] if index is greater than 0, otherwise let it be null.
+    const previousPart = index > 0 ? partList[index - 1] : null;
+    // 3. Let next part be part list[index + 1] if index is less than index list’s size - 1,
+    //    otherwise let it be null.
+    const nextPart = index < partList.length - 1 ? partList[index + 1] : null;
+    // 4. If part’s type is "fixed-text" then:
+    if (part._type === PartType.FIXED_TEXT) {
+      // 1. If part’s modifier is "none" then:
+      if (part._modifier === PartModifier.NONE) {
+        result += escapePatternString(part._value);
+        continue;
+      }
+      // 2. Append "{" escaped value "}" modifier to the end of result.
+      result += `{${escapePatternString(part._value)}}${modifierToString(part._modifier)}`;
+      // 3. Continue.
+      continue;
+    }
+    // 5. Let custom name be true if part’s name[0] is not an ASCII digit; otherwise false.
+    const customName = !isDigit(part._name.charCodeAt(0));
+    // 6. Let needs grouping be true if at least one of the following are true, otherwise let it be false:
+    //    - part’s suffix is not the empty string.
+    //    - part’s prefix is not the empty string and is not options’s prefix code point.
+    let needsGrouping = '' !== part._suffix || ('' !== part._prefix && part._prefix !== options._prefix);
+    // 7. If all of the following are true:
+    //    - needs grouping is false; and
+    //    - custom name is true; and
+    //    - part’s type is "segment-wildcard"; and
+    //    - part’s modifier is "none"; and
+    //    - next part is not null; and
+    //    - next part’s prefix is the empty string; and
+    //    - next part’s suffix is the empty string
+    if (!needsGrouping && customName && part._type === PartType.SEGMENT_WILDCARD
+        && part._modifier === PartModifier.NONE && nextPart !== null
+        && '' === nextPart._prefix && '' === nextPart._suffix) {
+      // 1. If next part’s type is "fixed-text":
+      if (nextPart._type === PartType.FIXED_TEXT) {
+        // 1. Set needs grouping to true if the result of running is a valid name code point
+        //    given next part’s value's first code point and the boolean false is true.
+        needsGrouping = '' !== nextPart._value && isValidNameCodePoint(ucs2decode(nextPart._value)[0], false);
+      }
+      // 2. Otherwise: set needs grouping to true if next part’s name[0] is an ASCII digit.
+      else {
+        needsGrouping = isDigit(nextPart._name.charCodeAt(0));
+      }
+    }
+    // 8. If all of the following are true:
+    //    - needs grouping is false; and
+    //    - part’s prefix is the empty string; and
+    //    - previous part is not null; and
+    //    - previous part’s type is "fixed-text"; and
+    //    - previous part’s value's last code point is options’s prefix code point.
+    //    then set needs grouping to true.
+    if (!needsGrouping && '' === part._prefix && previousPart !== null
+        && previousPart._type === PartType.FIXED_TEXT && '' !== options._prefix
+        && previousPart._value.charAt(previousPart._value.length - 1) === options._prefix) {
+      needsGrouping = true;
+    }
+    // 9. Assert: part’s name is not the empty string or null.
+    // 10. If needs grouping is true, then append "{" to the end of result.
+    if (needsGrouping) {
+      result += '{';
+    }
+    // 11. Append the result of running escape a pattern string given part’s prefix to the end of result.
+    result += escapePatternString(part._prefix);
+    // 12. If custom name is true:
+    if (customName) {
+      result += `:${part._name}`;
+    }
+    // 13. If part’s type is "regexp" then:
+    if (part._type === PartType.REGEXP) {
+      result += `(${part._value})`;
+    }
+    // 14. Otherwise if part’s type is "segment-wildcard" and custom name is false:
+    else if (part._type === PartType.SEGMENT_WILDCARD && !customName) {
+      result += `(${generateSegmentWildcardRegExp(options)})`;
+    }
+    // 15. Otherwise if part’s type is "full-wildcard":
+    else if (part._type === PartType.FULL_WILDCARD) {
+      // 1. If custom name is false and one of the following is true:
+      //    - previous part is null; or
+      //    - previous part’s type is "fixed-text"; or
+      //    - previous part’s modifier is not "none"; or
+      //    - needs grouping is true; or
+      //    - part’s prefix is not the empty string
+      //    then append "*" to the end of result.
+      if (!customName && (previousPart === null || previousPart._type === PartType.FIXED_TEXT
+          || previousPart._modifier !== PartModifier.NONE || needsGrouping || '' !== part._prefix)) {
+        result += '*';
+      }
+      // 2. Otherwise: append "(" full wildcard regexp value ")" to the end of result.
+      else {
+        result += `(${FULL_WILDCARD_REGEXP_VALUE})`;
+      }
+    }
+    // 16. If all of the following are true:
+    //     - part’s type is "segment-wildcard"; and
+    //     - custom name is true; and
+    //     - part’s suffix is not the empty string; and
+    //     - The result of running is a valid name code point given part’s suffix's first code point
+    //       and the boolean false is true
+    //     then append U+005C (\) to the end of result.
+    if (part._type === PartType.SEGMENT_WILDCARD && customName && '' !== part._suffix
+        && isValidNameCodePoint(ucs2decode(part._suffix)[0], false)) {
+      result += '\\';
+    }
+    // 17. Append the result of running escape a pattern string given part’s suffix to the end of result.
+    result += escapePatternString(part._suffix);
+    // 18. If needs grouping is true, then append "}" to the end of result.
+    if (needsGrouping) {
+      result += '}';
+    }
+    // 19. Append the result of running convert a modifier to a string given part’s modifier to the end of result.
+    result += modifierToString(part._modifier);
+  }
+  // 4. Return result.
+  return result;
+}
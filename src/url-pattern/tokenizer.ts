@@ -0,0 +1,298 @@
+import { ucs2encode } from "../vendor/ucs2";
+import { isAsciiCodePoint } from "../encoding";
+import { isAlpha, isDigit } from "../util";
+
+// https://urlpattern.spec.whatwg.org/#token-type
+export const enum TokenType {
+  OPEN,
+  CLOSE,
+  REGEXP,
+  NAME,
+  CHAR,
+  ESCAPED_CHAR,
+  OTHER_MODIFIER,
+  ASTERISK,
+  END,
+  INVALID_CHAR
+}
+
+// https://urlpattern.spec.whatwg.org/#token
+export interface Token {
+  readonly _type: TokenType;
+  // The position (in code points) of the first code point in the input string represented by this token
+  readonly _index: number;
+  readonly _value: string;
+}
+
+// https://urlpattern.spec.whatwg.org/#tokenize-policy
+export const enum TokenizePolicy {
+  STRICT,
+  LENIENT
+}
+
+let identifierStart: RegExp | null | undefined;
+let identifierPart: RegExp | null | undefined;
+
+function createUnicodeRegExp(source: string): RegExp | null {
+  try {
+    return new RegExp(source, 'u');
+  } catch (e) {
+    // Unicode property escapes are not supported
+    return null;
+  }
+}
+
+// https://urlpattern.spec.whatwg.org/#is-a-valid-name-code-point
+export function isValidNameCodePoint(codePoint: number, first: boolean): boolean {
+  // Shortcut: ASCII code points
+  if (codePoint < 0x80) {
+    return isAlpha(codePoint) || 0x24 === codePoint || 0x5F === codePoint || (!first && isDigit(codePoint));
+  }
+  // 1. If first is true return the result of checking if code point is contained in the IdentifierStart set
+  //    of code points.
+  // 2. Otherwise return the result of checking if code point is contained in the IdentifierPart set of code points.
+  if (identifierStart === undefined) {
+    identifierStart = createUnicodeRegExp('^[$_\\p{ID_Start}]$');
+    identifierPart = createUnicodeRegExp('^[$_\\u200C\\u200D\\p{ID_Continue}]$');
+  }
+  const identifier = first ? identifierStart : identifierPart;
+  if (identifier === null) {
+    // Note: without support for Unicode property escapes, allow any non-ASCII code point
+    return true;
+  }
+  return identifier!.test(ucs2encode([codePoint]));
+}
+
+// https://urlpattern.spec.whatwg.org/#tokenize
+export function tokenize(input: number[], policy: TokenizePolicy): Token[] {
+  // 1. Let tokenizer be a new tokenizer.
+  // 2. Set tokenizer’s input to input.
+  // 3. Set tokenizer’s policy to policy.
+  const length = input.length;
+  const tokenList: Token[] = [];
+  let index = 0;
+  let nextIndex = 0;
+  let codePoint: number;
+
+  // https://urlpattern.spec.whatwg.org/#get-the-next-code-point
+  // Note: returns the new code point of the tokenizer
+  const getNextCodePoint = (): number => {
+    const result = input[nextIndex];
+    nextIndex += 1;
+    return result;
+  };
+  // https://urlpattern.spec.whatwg.org/#seek-and-get-the-next-code-point
+  // Note: returns the new code point of the tokenizer
+  const seekAndGetNextCodePoint = (seekIndex: number): number => {
+    nextIndex = seekIndex;
+    return getNextCodePoint();
+  };
+  // https://urlpattern.spec.whatwg.org/#add-a-token
+  const addToken = (type: TokenType, nextPosition: number, valuePosition: number, valueLength: number): void => {
+    tokenList.push({
+      _type: type,
+      _index: index,
+      _value: ucs2encode(input.slice(valuePosition, valuePosition + valueLength))
+    });
+    index = nextPosition;
+  };
+  // https://urlpattern.spec.whatwg.org/#add-a-token-with-default-length
+  const addTokenWithDefaultLength = (type: TokenType, nextPosition: number, valuePosition: number): void => {
+    addToken(type, nextPosition, valuePosition, nextPosition - valuePosition);
+  };
+  // https://urlpattern.spec.whatwg.org/#add-a-token-with-default-position-and-length
+  const addTokenWithDefaultPositionAndLength = (type: TokenType): void => {
+    addTokenWithDefaultLength(type, nextIndex, index);
+  };
+  // https://urlpattern.spec.whatwg.org/#process-a-tokenizing-error
+  const processTokenizingError = (nextPosition: number, valuePosition: number): void => {
+    // 1. If tokenizer’s policy is "strict", then throw a TypeError.
+    if (policy === TokenizePolicy.STRICT) {
+      throw new TypeError(`Invalid pattern: unexpected character at index ${valuePosition}`);
+    }
+    // 2. Assert: tokenizer’s policy is "lenient".
+    // 3. Run add a token with default length given tokenizer, "invalid-char", next position, and value position.
+    addTokenWithDefaultLength(TokenType.INVALID_CHAR, nextPosition, valuePosition);
+  };
+
+  // 4. While tokenizer’s index is less than tokenizer’s input's code point length:
+  while (index < length) {
+    // 1. Run seek and get the next code point given tokenizer and tokenizer’s index.
+    codePoint = seekAndGetNextCodePoint(index);
+    // 2. If tokenizer’s code point is U+002A (*):
+    if (0x2A === codePoint) {
+      addTokenWithDefaultPositionAndLength(TokenType.ASTERISK);
+      continue;
+    }
+    // 3. If tokenizer’s code point is U+002B (+) or U+003F (?):
+    if (0x2B === codePoint || 0x3F === codePoint) {
+      addTokenWithDefaultPositionAndLength(TokenType.OTHER_MODIFIER);
+      continue;
+    }
+    // 4. If tokenizer’s code point is U+005C (\):
+    if (0x5C === codePoint) {
+      // 1. If tokenizer’s index is equal to tokenizer’s input's code point length − 1:
+      if (index === length - 1) {
+        processTokenizingError(nextIndex, index);
+        continue;
+      }
+      // 2. Let escaped index be tokenizer’s next index.
+      const escapedIndex = nextIndex;
+      // 3. Run get the next code point given tokenizer.
+      codePoint = getNextCodePoint();
+      // 4. Run add a token with default length given tokenizer, "escaped-char", tokenizer’s next index,
+      //    and escaped index.
+      addTokenWithDefaultLength(TokenType.ESCAPED_CHAR, nextIndex, escapedIndex);
+      continue;
+    }
+    // 5. If tokenizer’s code point is U+007B ({):
+    if (0x7B === codePoint) {
+      addTokenWithDefaultPositionAndLength(TokenType.OPEN);
+      continue;
+    }
+    // 6. If tokenizer’s code point is U+007D (}):
+    if (0x7D === codePoint) {
+      addTokenWithDefaultPositionAndLength(TokenType.CLOSE);
+      continue;
+    }
+    // 7. If tokenizer’s code point is U+003A (:):
+    if (0x3A === codePoint) {
+      // 1. Let name position be tokenizer’s next index.
+      let namePosition = nextIndex;
+      // 2. Let name start be name position.
+      const nameStart = namePosition;
+      // 3. While name position is less than tokenizer’s input's code point length:
+      while (namePosition < length) {
+        // 1. Run seek and get the next code point given tokenizer and name position.
+        codePoint = seekAndGetNextCodePoint(namePosition);
+        // 2. Let first code point be true if name position equals name start and false otherwise.
+        // 3. Let valid code point be the result of running is a valid name code point
+        //    given tokenizer’s code point and first code point.
+        // 4. If valid code point is false break.
+        if (!isValidNameCodePoint(codePoint, namePosition === nameStart)) {
+          break;
+        }
+        // 5. Set name position to tokenizer’s next index.
+        namePosition = nextIndex;
+      }
+      // 4. If name position is less than or equal to name start:
+      if (namePosition <= nameStart) {
+        processTokenizingError(nameStart, index);
+        continue;
+      }
+      // 5. Run add a token with default length given tokenizer, "name", name position, and name start.
+      addTokenWithDefaultLength(TokenType.NAME, namePosition, nameStart);
+      continue;
+    }
+    // 8. If tokenizer’s code point is U+0028 (():
+    if (0x28 === codePoint) {
+      // 1. Let depth be 1.
+      let depth = 1;
+      // 2. Let regexp position be tokenizer’s next index.
+      let regexpPosition = nextIndex;
+      // 3. Let regexp start be regexp position.
+      const regexpStart = regexpPosition;
+      // 4. Let error be false.
+      let error = false;
+      // 5. While regexp position is less than tokenizer’s input's code point length:
+      while (regexpPosition < length) {
+        // 1. Run seek and get the next code point given tokenizer and regexp position.
+        codePoint = seekAndGetNextCodePoint(regexpPosition);
+        // 2. If tokenizer’s code point is not an ASCII code point:
+        if (!isAsciiCodePoint(codePoint)) {
+          processTokenizingError(regexpStart, index);
+          error = true;
+          break;
+        }
+        // 3. If regexp position equals regexp start and tokenizer’s code point is U+003F (?):
+        if (regexpPosition === regexpStart && 0x3F === codePoint) {
+          processTokenizingError(regexpStart, index);
+          error = true;
+          break;
+        }
+        // 4. If tokenizer’s code point is U+005C (\):
+        if (0x5C === codePoint) {
+          // 1. If regexp position equals tokenizer’s input's code point length − 1:
+          if (regexpPosition === length - 1) {
+            processTokenizingError(regexpStart, index);
+            error = true;
+            break;
+          }
+          // 2. Run get the next code point given tokenizer.
+          codePoint = getNextCodePoint();
+          // 3. If tokenizer’s code point is not an ASCII code point:
+          if (!isAsciiCodePoint(codePoint)) {
+            processTokenizingError(regexpStart, index);
+            error = true;
+            break;
+          }
+          // 4. Set regexp position to tokenizer’s next index.
+          regexpPosition = nextIndex;
+          continue;
+        }
+        // 5. If tokenizer’s code point is U+0029 ()):
+        if (0x29 === codePoint) {
+          // 1. Decrement depth by 1.
+          depth -= 1;
+          // 2. If depth is 0:
+          if (depth === 0) {
+            // 1. Set regexp position to tokenizer’s next index.
+            regexpPosition = nextIndex;
+            break;
+          }
+        }
+        // 6. Otherwise if tokenizer’s code point is U+0028 (():
+        else if (0x28 === codePoint) {
+          // 1. Increment depth by 1.
+          depth += 1;
+          // 2. If regexp position equals tokenizer’s input's code point length − 1:
+          if (regexpPosition === length - 1) {
+            processTokenizingError(regexpStart, index);
+            error = true;
+            break;
+          }
+          // 3. Let temporary position be tokenizer’s next index.
+          const temporaryPosition = nextIndex;
+          // 4. Run get the next code point given tokenizer.
+          codePoint = getNextCodePoint();
+          // 5. If tokenizer’s code point is not U+003F (?):
+          if (0x3F !== codePoint) {
+            processTokenizingError(regexpStart, index);
+            error = true;
+            break;
+          }
+          // 6. Set tokenizer’s next index to temporary position.
+          nextIndex = temporaryPosition;
+        }
+        // 7. Set regexp position to tokenizer’s next index.
+        regexpPosition = nextIndex;
+      }
+      // 6. If error is true continue.
+      if (error) {
+        continue;
+      }
+      // 7. If depth is not zero:
+      if (depth !== 0) {
+        processTokenizingError(regexpStart, index);
+        continue;
+      }
+      // 8. Let regexp length be regexp position − regexp start − 1.
+      const regexpLength = regexpPosition - regexpStart - 1;
+      // 9. If regexp length is zero:
+      if (regexpLength === 0) {
+        processTokenizingError(regexpStart, index);
+        continue;
+      }
+      // 10. Run add a token given tokenizer, "regexp", regexp position, regexp start, and regexp length.
+      addToken(TokenType.REGEXP, regexpPosition, regexpStart, regexpLength);
+      continue;
+    }
+    // 9. Run add a token with default length given tokenizer, "char", tokenizer’s next index,
+    //    and tokenizer’s index.
+    addTokenWithDefaultLength(TokenType.CHAR, nextIndex, index);
+  }
+  // 5. Run add a token with default length given tokenizer, "end", tokenizer’s index, and tokenizer’s index.
+  addTokenWithDefaultLength(TokenType.END, index, index);
+  // 6. Return tokenizer’s token list.
+  return tokenList;
+}
@@ -0,0 +1,213 @@
+import { getParserStates, getUrlRecord, newURL, ParserState, URL, UrlRecord } from "./url";
+import {
+  isFragmentPercentEncode,
+  isPathSegmentPercentEncode,
+  isUserinfoPercentEncode,
+  utf8PercentEncodeString
+} from "./encode";
+import { isDoubleDotPathSegment, isSingleDotPathSegment } from "./path";
+import { serializeUrlEncodedString } from "./urlencode";
+import { toUSVString } from "./usvstring";
+import { ucs2decode } from "./vendor/ucs2";
+
+// Placeholders for untrusted values, which stay in the same component wherever they are interpolated.
+// Note: the port only allows digits, so it needs a different placeholder.
+const PLACEHOLDER = 'x';
+const PORT_PLACEHOLDER = '0';
+// Text which the parser could still read as the start of a scheme.
+const SCHEME_PREFIX = /^[A-Za-z0-9+\-.]*$/;
+
+// A value which is interpolated into a url template as-is, see trustedURLValue().
+export class TrustedURLValue {
+  /** @internal */
+  _value!: string;
+
+  private constructor() {
+  }
+
+  toString(): string {
+    return this._value;
+  }
+}
+
+export type URLTemplateValue = string | number | TrustedURLValue;
+
+export type URLTemplateTag = (strings: TemplateStringsArray, ...values: URLTemplateValue[]) => URL;
+
+// Marks value as trusted, so it is interpolated into a url template without being percent-encoded.
+// This is required to interpolate into the scheme or host, e.g. url`${trustedURLValue(origin)}/users/${id}`.
+export function trustedURLValue(value: string): TrustedURLValue {
+  const result: TrustedURLValue = Object.create(TrustedURLValue.prototype);
+  result._value = toUSVString(value);
+  return result;
+}
+
+// A tagged template for building URLs, e.g. url`https://example.com/users/${user}/items?q=${term}`.
+// Each value is percent-encoded for the component it is interpolated into, so it cannot change the structure of the URL:
+// a path segment, a query name or value (as in application/x-www-form-urlencoded), the fragment,
+// the username or password, or the port (which must be a number).
+// Throws a TypeError when interpolating an untrusted value into any other component, such as the scheme or host,
+// or if the result is not a valid URL.
+// Use url.withBase() for a relative template.
+export function url(strings: TemplateStringsArray, ...values: URLTemplateValue[]): URL {
+  return buildURL(strings, values, null);
+}
+
+// Returns a tagged template like url, which resolves the URL against base,
+// e.g. url.withBase('https://example.com/api/')`users/${user}`.
+// Each value is percent-encoded for the component it is in when the template is parsed against base.
+// Throws a TypeError if base is not a valid URL.
+url.withBase = function (base: string | URL): URLTemplateTag {
+  const baseURL = base instanceof URL ? base : newURL(getUrlRecord(base));
+  return (strings: TemplateStringsArray, ...values: URLTemplateValue[]) => buildURL(strings, values, baseURL);
+};
+
+function buildURL(strings: ReadonlyArray<string>, values: URLTemplateValue[], base: URL | null): URL {
+  if (base !== null) {
+    strings = anchorRelativeTemplate(strings, values);
+  }
+  const states = getValueStates(strings, values, base === null ? null : base._url);
+  let result = strings[0];
+  // The start and end offsets of the values in the path, whose segments are checked once the template is complete
+  const pathValues: Array<[number, number]> = [];
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i];
+    if (value instanceof TrustedURLValue) {
+      result += value._value;
+    } else {
+      const state = states[i];
+      const start = result.length;
+      result += encodeValue(toUSVString(String(value)), state);
+      if (state === ParserState.PATH_START || state === ParserState.PATH) {
+        pathValues.push([start, result.length]);
+      }
+    }
+    result += strings[i + 1];
+  }
+  for (const [start, end] of pathValues) {
+    checkPathSegment(result, start, end);
+  }
+  return base === null ? new URL(result) : new URL(result, base);
+}
+
+// A value at the start of a relative template could change how the rest of the template is resolved,
+// e.g. "javascript:alert(1)" would be parsed as a scheme and an empty value before "//x" as an authority,
+// so start the template with "./" or "/." to keep the value in the path. Both resolve to the same URL.
+function anchorRelativeTemplate(strings: ReadonlyArray<string>, values: URLTemplateValue[]): ReadonlyArray<string> {
+  let prefix = strings[0];
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i];
+    if (!(value instanceof TrustedURLValue)) {
+      if (SCHEME_PREFIX.test(prefix)) {
+        return [`./${strings[0]}`, ...strings.slice(1)];
+      } else if ('/' === prefix || '\\' === prefix) {
+        return [`/.${strings[0]}`, ...strings.slice(1)];
+      }
+      break;
+    }
+    prefix += value._value + strings[i + 1];
+  }
+  return strings;
+}
+
+// Returns the state in which the URL parser processes a placeholder for each untrusted value,
+// which determines the component of that value.
+// Note: if the template could not be parsed, the placeholders after the failure have no state.
+function getValueStates(strings: ReadonlyArray<string>,
+                        values: URLTemplateValue[],
+                        base: UrlRecord | null): Array<ParserState | undefined> {
+  const placeholders = values.map(() => PLACEHOLDER);
+  while (true) {
+    // Build the template with the trusted values and the placeholders,
+    // and remember the offset (in code points) of each placeholder
+    let template = strings[0];
+    const offsets: number[] = [];
+    for (let i = 0; i < values.length; i++) {
+      const value = values[i];
+      offsets.push(ucs2decode(template).length);
+      template += value instanceof TrustedURLValue ? value._value : placeholders[i];
+      template += strings[i + 1];
+    }
+    const states = getParserStates(template, base);
+    const result = values.map((value, i) => value instanceof TrustedURLValue ? undefined : states[offsets[i]]);
+    // Parsing fails at a placeholder in the port, so try again with a digit to find the states after it
+    let changed = false;
+    for (let i = 0; i < values.length; i++) {
+      if (result[i] === ParserState.PORT && placeholders[i] !== PORT_PLACEHOLDER) {
+        placeholders[i] = PORT_PLACEHOLDER;
+        changed = true;
+      }
+    }
+    if (!changed) {
+      return result;
+    }
+  }
+}
+
+// Throws a TypeError if the value between start and end of the template is in a single-dot or double-dot segment,
+// which is removed when parsing, even when percent-encoded.
+// The segment includes the text around the value, so e.g. "a${'..'}" is a valid segment.
+function checkPathSegment(template: string, start: number, end: number): void {
+  while (start > 0 && !isPathSeparator(template.charAt(start - 1))) {
+    start--;
+  }
+  while (end < template.length && !isPathSegmentEnd(template.charAt(end))) {
+    end++;
+  }
+  const segment = template.slice(start, end);
+  if (isSingleDotPathSegment(segment) || isDoubleDotPathSegment(segment)) {
+    throw new TypeError(`Invalid path segment: ${segment}`);
+  }
+}
+
+function isPathSeparator(char: string): boolean {
+  return '/' === char || '\\' === char;
+}
+
+function isPathSegmentEnd(char: string): boolean {
+  return isPathSeparator(char) || '?' === char || '#' === char;
+}
+
+function encodeValue(value: string, state: ParserState | undefined): string {
+  switch (state) {
+    case ParserState.AUTHORITY:
+      // The parser only stays in authority state for the username and password, the host is parsed in host state
+      return utf8PercentEncodeString(value, isUserinfoValuePercentEncode);
+    case ParserState.PORT:
+      if (!/^[0-9]*$/.test(value)) {
+        throw new TypeError(`Invalid port: ${value}`);
+      }
+      return value;
+    case ParserState.PATH_START:
+    case ParserState.PATH:
+      return utf8PercentEncodeString(value, isPathSegmentPercentEncode);
+    case ParserState.QUERY:
+      return serializeUrlEncodedString(value);
+    case ParserState.FRAGMENT:
+      return utf8PercentEncodeString(value, isFragmentValuePercentEncode);
+    case ParserState.SCHEME_START:
+    case ParserState.SCHEME:
+    case ParserState.NO_SCHEME:
+      throw new TypeError('Cannot interpolate an untrusted value into the scheme of a URL');
+    case ParserState.OPAQUE_PATH:
+      throw new TypeError('Cannot interpolate an untrusted value into an opaque path');
+    case ParserState.HOST:
+    case ParserState.HOSTNAME:
+    case ParserState.FILE_HOST:
+      throw new TypeError('Cannot interpolate an untrusted value into the host of a URL');
+    default:
+      throw new TypeError('Cannot interpolate an untrusted value into this position of the URL');
+  }
+}
+
+// The userinfo percent-encode set, along with "%" so values are written literally.
+function isUserinfoValuePercentEncode(code: number): boolean {
+  return isUserinfoPercentEncode(code)
+      || code === 0x25; // U+0025 (%)
+}
+
+// The fragment percent-encode set, along with "%" so values are written literally.
+function isFragmentValuePercentEncode(code: number): boolean {
+  return isFragmentPercentEncode(code)
+      || code === 0x25; // U+0025 (%)
+}
@@ -8,107 +8,132 @@ import {
   isQueryPercentEncode,
   isQueryPercentEncodeSpecial,
   isUserinfoPercentEncode,
+  percentEncodeBytes,
   utf8PercentEncode,
   utf8PercentEncodeString
 } from "./encode";
+import { Encoding, getOutputEncoding, UTF_8 } from "./encoding";
 import { EMPTY_HOST, Host, HostType, parseHost, serializeHost } from "./host";
 import { emptyParams, newURLSearchParams, setParamsQuery, URLSearchParams } from "./search-params";
-import { ALPHA, fromCodeUnits, isAlpha, isAlphanumeric, isDigit, toAsciiLowercase } from "./util";
+import {
+  fromCodeUnits,
+  inplaceStableSort,
+  isAlpha,
+  isAlphanumeric,
+  isDigit,
+  isInvalidPercentEncoding,
+  isURLCodePoint,
+  toAsciiLowercase
+} from "./util";
 import { ucs2decode, ucs2encode } from "./vendor/ucs2";
-import { OPAQUE_ORIGIN, serializeTupleOrigin } from "./origin";
+import { createOpaqueOrigin, createTupleOrigin, Origin } from "./origin";
+import { hasOpaquePath, stripTrailingSpacesFromOpaquePath } from "./opaque-path";
+import {
+  isDoubleDotPathSegment,
+  isNormalizedWindowsDriveLetter,
+  isSingleDotPathSegment,
+  isWindowsDriveLetterRaw,
+  shortenPath,
+  startsWithWindowsDriveLetter
+} from "./path";
 import { toUSVString } from "./usvstring";
+import { ValidationError, ValidationErrorReporter, ValidationErrorType } from "./validation";
+import { prefixParseError, URLParseError, URLParseErrorCode, URLParserState } from "./errors";
+import { createURLSpans, URLSpan, URLSpans } from "./spans";
 
 const defaultPorts = Object.create(null);
 defaultPorts['ftp'] = 21;
-defaultPorts['file'] = 0;
-defaultPorts['gopher'] = 70;
+defaultPorts['file'] = null;
 defaultPorts['http'] = 80;
 defaultPorts['https'] = 443;
 defaultPorts['ws'] = 80;
 defaultPorts['wss'] = 443;
 
-const SINGLE_DOT = /^(?:\.|%2e)$/i;
-const DOUBLE_DOT = /^(?:\.|%2e){2}$/i;
-
-function isSingleDotPathSegment(input: string): boolean {
-  return SINGLE_DOT.test(input);
+export function isSpecialScheme(scheme: string): boolean {
+  return defaultPorts[scheme] !== undefined;
 }
 
-function isDoubleDotPathSegment(input: string): boolean {
-  return DOUBLE_DOT.test(input);
+// https://url.spec.whatwg.org/#special-scheme
+export function getSpecialSchemes(): string[] {
+  return Object.keys(defaultPorts);
 }
 
-function isSpecialScheme(scheme: string): boolean {
-  return defaultPorts[scheme] !== undefined;
+// https://url.spec.whatwg.org/#default-port
+export function getDefaultPort(scheme: string): number | null {
+  const port = defaultPorts[scheme];
+  return port !== undefined ? port : null;
 }
 
-function isSpecial(url: UrlRecord): boolean {
-  return isSpecialScheme(url._scheme);
+export interface SchemeOptions {
+  // The default port of the scheme, which is removed when parsing or setting the port.
+  // Defaults to null, i.e. no default port.
+  defaultPort?: number | null;
+  // Whether URLs with this scheme have a tuple origin of (scheme, host, port) when they have a host,
+  // rather than a new opaque origin. Defaults to "opaque".
+  origin?: 'opaque' | 'tuple';
 }
 
-function includesCredentials(url: UrlRecord): boolean {
-  return url._username !== '' || url._password !== '';
+interface SchemeRecord {
+  _defaultPort: number | null;
+  _tupleOrigin: boolean;
 }
 
-// https://url.spec.whatwg.org/#start-with-a-windows-drive-letter
-function startsWithWindowsDriveLetter(input: number[]): boolean {
-  // its length is greater than or equal to 2
-  const length = input.length;
-  if (!(length >= 2)) {
-    return false;
+const VALID_SCHEME = /^[a-z][a-z0-9+\-.]*$/i;
+
+// Registered non-special schemes
+const customSchemes: { [scheme: string]: SchemeRecord } = Object.create(null);
+
+// Registers a non-special scheme, such as "app" or "redis", with a default port and origin behavior.
+// This only changes the port normalization and origin of URLs parsed after registering,
+// the scheme is still parsed like any other non-special scheme.
+export function registerScheme(scheme: string, options: SchemeOptions = {}): void {
+  scheme = String(scheme);
+  if (!VALID_SCHEME.test(scheme)) {
+    throw new TypeError(`Invalid scheme: ${scheme}`);
   }
-  // its first two code points are a Windows drive letter
-  if (!isWindowsDriveLetterRaw(input.slice(0, 2))) {
-    return false;
+  scheme = scheme.toLowerCase();
+  if (isSpecialScheme(scheme)) {
+    throw new TypeError(`Cannot register special scheme: ${scheme}`);
   }
-  // its length is 2 or its third code point is U+002F (/), U+005C (\), U+003F (?), or U+0023 (#).
-  if (length !== 2) {
-    const c = input[2];
-    if (!(0x2F === c || 0x5C === c || 0x3F === c || 0x23 === c)) {
-      return false;
-    }
+  const defaultPort = options.defaultPort == null ? null : Number(options.defaultPort);
+  if (defaultPort !== null && !(defaultPort >= 0 && defaultPort <= (1 << 16) - 1 && defaultPort % 1 === 0)) {
+    throw new TypeError(`Invalid default port: ${options.defaultPort}`);
   }
-  return true;
+  const origin = options.origin === undefined ? 'opaque' : options.origin;
+  if (origin !== 'opaque' && origin !== 'tuple') {
+    throw new TypeError(`Invalid origin: ${origin}`);
+  }
+  customSchemes[scheme] = {
+    _defaultPort: defaultPort,
+    _tupleOrigin: origin === 'tuple'
+  };
 }
 
-// https://url.spec.whatwg.org/#windows-drive-letter
-function isWindowsDriveLetter(input: string): boolean {
-  // A Windows drive letter is two code points, of which the first is an ASCII alpha
-  // and the second is either U+003A (:) or U+007C (|).
-  return input.length === 2
-      && ALPHA.test(input[0])
-      && (':' === input[1] || '|' === input[1]);
+// Removes a scheme registered with registerScheme().
+export function unregisterScheme(scheme: string): void {
+  delete customSchemes[String(scheme).toLowerCase()];
 }
 
-function isWindowsDriveLetterRaw(input: number[]): boolean {
-  return input.length === 2 && isWindowsDriveLetter(fromCodeUnits(input));
+// Returns the default port of a special scheme or a registered scheme, or null if it has none.
+export function getSchemeDefaultPort(scheme: string): number | null {
+  if (isSpecialScheme(scheme)) {
+    return defaultPorts[scheme];
+  }
+  const record = customSchemes[scheme];
+  return record !== undefined ? record._defaultPort : null;
 }
 
-// https://url.spec.whatwg.org/#normalized-windows-drive-letter
-function isNormalizedWindowsDriveLetter(input: string): boolean {
-  // A normalized Windows drive letter is a Windows drive letter of which the second code point is U+003A (:).
-  return isWindowsDriveLetter(input)
-      && (':' === input[1]);
+function isSpecial(url: UrlRecord): boolean {
+  return isSpecialScheme(url._scheme);
 }
 
-function shortenPath(url: UrlRecord) {
-  // 1. Let path be url’s path.
-  const path = url._path;
-  // 2. If path is empty, then return.
-  if (path.length === 0) {
-    return;
-  }
-  // 3. If url’s scheme is "file", path’s size is 1, and path[0] is a normalized Windows drive letter, then return.
-  if ('file' === url._scheme && path.length === 1 && isNormalizedWindowsDriveLetter(path[0])) {
-    return;
-  }
-  // 4. Remove path’s last item.
-  path.pop();
+function includesCredentials(url: UrlRecord): boolean {
+  return url._username !== '' || url._password !== '';
 }
 
+// https://url.spec.whatwg.org/#cannot-have-a-username-password-port
 function cannotHaveUsernamePasswordPort(url: UrlRecord): boolean {
   return (null === url._host || EMPTY_HOST === url._host) ||
-      url._cannotBeABaseURL ||
       'file' === url._scheme;
 }
 
@@ -116,7 +141,7 @@ const EOF = -1;
 const TAB_OR_NEWLINE = /\t|\n|\r/g;
 const LEADING_OR_TRAILING_C0_CONTROL_OR_SPACE = /^[\x00-\x1f ]+|[\x00-\x1f ]+$/g;
 
-const enum ParserState {
+export const enum ParserState {
   SCHEME_START,
   SCHEME,
   NO_SCHEME,
@@ -135,48 +160,232 @@ const enum ParserState {
   FILE_HOST,
   PATH_START,
   PATH,
-  CANNOT_BE_A_BASE_URL_PATH,
+  OPAQUE_PATH,
   QUERY,
   FRAGMENT
 }
 
-function parse(input: string, base: UrlRecord | null): UrlRecord;
-function parse(input: string, base: UrlRecord | null, url: UrlRecord, stateOverride: ParserState): void;
-function parse(input: string, base: UrlRecord | null, url: UrlRecord | null = null, stateOverride: ParserState | null = null): UrlRecord | void {
+// The names of the parser states, as used in the URL Standard
+const PARSER_STATE_NAMES: URLParserState[] = [
+  'scheme start',
+  'scheme',
+  'no scheme',
+  'special relative or authority',
+  'path or authority',
+  'relative',
+  'relative slash',
+  'special authority slashes',
+  'special authority ignore slashes',
+  'authority',
+  'host',
+  'hostname',
+  'port',
+  'file',
+  'file slash',
+  'file host',
+  'path start',
+  'path',
+  'opaque path',
+  'query',
+  'fragment'
+];
+
+function isC0ControlOrSpace(codePoint: number): boolean {
+  return codePoint >= 0x00 && codePoint <= 0x20;
+}
+
+function isTabOrNewline(codePoint: number): boolean {
+  return 0x09 === codePoint || 0x0A === codePoint || 0x0D === codePoint;
+}
+
+function noop(): void {
+}
+
+// Called with the state in which the parser processes the code point at the given offset in the original input.
+type ParserStateRecorder = (state: ParserState, offset: number) => void;
+
+// Steps 1 to 3 of the basic URL parser, while reporting validation errors.
+// Returns the remaining code points, along with their offsets in the original input.
+// The offset of the EOF code point is stored after the last offset.
+function preprocessWithOffsets(input: string, trim: boolean,
+                               reporter: ValidationErrorReporter): { codePoints: number[], offsets: number[] } {
+  const original = ucs2decode(input);
+  let start = 0;
+  let end = original.length;
+  if (trim) {
+    // 2. If input contains any leading or trailing C0 control or space, validation error.
+    // 3. Remove any leading and trailing C0 control or space from input.
+    while (start < end && isC0ControlOrSpace(original[start])) {
+      start++;
+    }
+    while (end > start && isC0ControlOrSpace(original[end - 1])) {
+      end--;
+    }
+    if (start > 0) {
+      reporter('invalid-URL-unit', 0);
+    }
+  }
+  const codePoints: number[] = [];
+  const offsets: number[] = [];
+  for (let i = start; i < end; i++) {
+    // 2. If input contains any ASCII tab or newline, validation error.
+    // 3. Remove all ASCII tab or newline from input.
+    if (isTabOrNewline(original[i])) {
+      reporter('invalid-URL-unit', i);
+      continue;
+    }
+    codePoints.push(original[i]);
+    offsets.push(i);
+  }
+  if (end < original.length) {
+    reporter('invalid-URL-unit', end);
+  }
+  offsets.push(end);
+  return { codePoints, offsets };
+}
+
+// The result of the basic URL parser when it returns failure.
+// Note: the error is only created when it is thrown, so URL.canParse() and URL.parse() never create one.
+class ParseFailure {
+  constructor(readonly _toError: () => URLParseError) {
+  }
+}
+
+function parse(input: string, base: UrlRecord | null, encodingOverride?: Encoding | null,
+               url?: null, stateOverride?: null, reporter?: ValidationErrorReporter | null,
+               recordSpans?: boolean, stateRecorder?: ParserStateRecorder | null): UrlRecord | ParseFailure;
+function parse(input: string, base: UrlRecord | null, encodingOverride: Encoding | null, url: UrlRecord,
+               stateOverride: ParserState): ParseFailure | void;
+function parse(input: string, base: UrlRecord | null, encodingOverride: Encoding | null = null,
+               url: UrlRecord | null = null, stateOverride: ParserState | null = null,
+               reporter: ValidationErrorReporter | null = null, recordSpans: boolean = false,
+               stateRecorder: ParserStateRecorder | null = null): UrlRecord | ParseFailure | void {
+  // Note: when reporting validation errors, we need to keep track of the offsets in the original input
+  const originalInput = input;
+  const trim = !url;
+  const preprocessed = reporter !== null ? preprocessWithOffsets(input, trim, reporter) : null;
+  // Note: source spans can only be recorded for a new URL
+  let spans: URLSpans | null = null;
   // 1. If url is not given:
   if (!url) {
     // 1. Set url to a new URL.
     url = new UrlRecord();
+    if (recordSpans) {
+      url._spans = spans = createURLSpans();
+    }
     // 2. If input contains any leading or trailing C0 control or space, validation error.
     // 3. Remove any leading and trailing C0 control or space from input.
-    input = input.replace(LEADING_OR_TRAILING_C0_CONTROL_OR_SPACE, '');
+    if (reporter === null) {
+      input = input.replace(LEADING_OR_TRAILING_C0_CONTROL_OR_SPACE, '');
+    }
   }
   // 2. If input contains any ASCII tab or newline, validation error.
   // 3. Remove all ASCII tab or newline from input.
-  input = input.replace(TAB_OR_NEWLINE, '');
+  if (reporter === null) {
+    input = input.replace(TAB_OR_NEWLINE, '');
+  }
   // 4. Let state be state override if given, or scheme start state otherwise.
   let state: ParserState = stateOverride !== null ? stateOverride : ParserState.SCHEME_START;
   // 5. If base is not given, set it to null.
   base = base || null;
   // 6. Let encoding be UTF-8.
   // 7. If encoding override is given, set encoding to the result of getting an output encoding from encoding override.
-  // TODO encoding
+  let encoding: Encoding = encodingOverride !== null ? getOutputEncoding(encodingOverride) : UTF_8;
   // 8. Let buffer be the empty string.
   let buffer: number[] = [];
   // 9. Let the @ flag, [] flag, and passwordTokenSeenFlag be unset.
   let seenAt = false;
   let seenBracket = false;
   let passwordTokenSeenFlag = false;
+  // Pointers to the start of the credentials, the password,
+  // and the path segment, query or fragment that is being parsed (for recording source spans)
+  let credentialsStart = -1;
+  let passwordStart = -1;
+  let componentStart = -1;
   // 10. Let pointer be a pointer to first code point in input.
-  const codePoints = ucs2decode(input);
+  const codePoints = preprocessed !== null ? preprocessed.codePoints : ucs2decode(input);
   const length = codePoints.length;
   let cursor = 0;
+  // Maps each pointer to its offset in the original input
+  let offsets = preprocessed !== null ? preprocessed.offsets : null;
+
+  // Returns the offset in the original input of the code point at the given pointer.
+  const inputOffset = (pointer: number): number => {
+    if (offsets === null) {
+      // Note: only needed when failing without a reporter, so compute these lazily
+      offsets = preprocessWithOffsets(originalInput, trim, noop).offsets;
+    }
+    return offsets[pointer < length ? pointer : length];
+  };
+  // Reports a validation error at the given pointer, if a reporter is given.
+  const validationError = (type: ValidationErrorType, pointer: number = cursor): void => {
+    if (reporter !== null) {
+      reporter(type, inputOffset(pointer));
+    }
+  };
+  // Reports a validation error at the given pointer, and returns failure.
+  const failure = (code: URLParseErrorCode, message: string, pointer: number = cursor): ParseFailure => {
+    if (code !== 'invalid-scheme') {
+      validationError(code, pointer);
+    }
+    const failedState = state;
+    return new ParseFailure(() => new URLParseError(message, originalInput, code, inputOffset(pointer),
+        PARSER_STATE_NAMES[failedState], null));
+  };
+  // Returns the source span of the code points from the start pointer up to (but excluding) the end pointer.
+  const sourceSpan = (start: number, end: number): URLSpan => {
+    const startOffset = inputOffset(start);
+    return {
+      start: startOffset,
+      end: start < end ? inputOffset(end - 1) + 1 : startOffset
+    };
+  };
+  // Adds null source spans for the segments at the start of url's path that were copied from base.
+  const alignPathSpans = (): void => {
+    if (spans !== null && !hasOpaquePath(url!)) {
+      while (spans.path.length < (url!._path as string[]).length) {
+        spans.path.unshift(null);
+      }
+    }
+  };
+  // Runs a host parser on buffer, whose input starts at the given pointer.
+  // Note: the host parser throws on failure, so this catches its error and returns failure.
+  const parseBufferAsHost = (pointer: number): Host | ParseFailure => {
+    try {
+      return parseHost(ucs2encode(buffer), isSpecial(url!), hostReporter(pointer));
+    } catch (e) {
+      if (!(e instanceof URLParseError)) {
+        throw e;
+      }
+      const failedState = state;
+      return new ParseFailure(() => new URLParseError(e.message, originalInput, e.code, inputOffset(pointer + e.index),
+          PARSER_STATE_NAMES[failedState], e.hostParser));
+    }
+  };
+  // Reports invalid-URL-unit validation errors for the code point at the given pointer, if any.
+  const validateURLUnit = (pointer: number): void => {
+    if (reporter !== null) {
+      const c = codePoints[pointer];
+      // 1. If c is not a URL code point and not U+0025 (%), validation error.
+      // 2. If c is U+0025 (%) and remaining does not start with two ASCII hex digits, validation error.
+      if ((!isURLCodePoint(c) && 0x25 !== c) || isInvalidPercentEncoding(codePoints, pointer)) {
+        validationError('invalid-URL-unit', pointer);
+      }
+    }
+  };
+  // Returns a reporter for a host parser, whose input starts at the given pointer.
+  const hostReporter = (pointer: number): ValidationErrorReporter | null => {
+    return reporter === null ? null : (type, index) => validationError(type, pointer + index);
+  };
 
   // 11. Keep running the following state machine by switching on state.
   //     If after a run pointer points to the EOF code point, go to the next step.
   //     Otherwise, increase pointer by one and continue with the state machine.
   while (cursor <= length) {
     const c = cursor < length ? codePoints[cursor] : EOF;
+    if (stateRecorder !== null) {
+      stateRecorder(state, inputOffset(cursor));
+    }
     switch (state) {
       case ParserState.SCHEME_START:
         // 1. If c is an ASCII alpha, append c, lowercased, to buffer, and set state to scheme state.
@@ -192,7 +401,7 @@ function parse(input: string, base: UrlRecord | null, url: UrlRecord | null = nu
         }
         // 3. Otherwise, validation error, return failure.
         else {
-          throw new TypeError(`Invalid scheme`);
+          return failure('invalid-scheme', 'Invalid scheme');
         }
         break;
 
@@ -228,17 +437,24 @@ function parse(input: string, base: UrlRecord | null, url: UrlRecord | null = nu
           // 3. If state override is given, then:
           if (stateOverride !== null) {
             // 1. If url’s port is url’s scheme’s default port, then set url’s port to null.
-            if (isSpecial(url) && url._port === defaultPorts[url._scheme]) {
+            // Note: this includes the default port of a registered scheme
+            if (url._port !== null && url._port === getSchemeDefaultPort(url._scheme)) {
               url._port = null;
             }
             // 2. Return.
             return;
           }
+          if (spans !== null) {
+            spans.scheme = sourceSpan(cursor - buffer.length, cursor);
+          }
           // 4. Set buffer to the empty string.
           buffer.length = 0;
           // 5. If url’s scheme is "file", then:
           if ('file' === url._scheme) {
             // 1. If remaining does not start with "//", validation error.
+            if (!(0x2F === codePoints[cursor + 1] && 0x2F === codePoints[cursor + 2])) {
+              validationError('special-scheme-missing-following-solidus', cursor + 1);
+            }
             // 2. Set state to file state.
             state = ParserState.FILE;
           }
@@ -257,13 +473,10 @@ function parse(input: string, base: UrlRecord | null, url: UrlRecord | null = nu
             state = ParserState.PATH_OR_AUTHORITY;
             cursor += 1;
           }
-          // 9. Otherwise, set url’s cannot-be-a-base-URL flag,
-          // append an empty string to url’s path,
-          // and set state to cannot-be-a-base-URL path state.
+          // 9. Otherwise, set url’s path to the empty string and set state to opaque path state.
           else {
-            url._cannotBeABaseURL = true;
-            url._path.push('');
-            state = ParserState.CANNOT_BE_A_BASE_URL_PATH;
+            url._path = '';
+            state = ParserState.OPAQUE_PATH;
           }
         }
         // 3. Otherwise, if state override is not given,
@@ -277,26 +490,24 @@ function parse(input: string, base: UrlRecord | null, url: UrlRecord | null = nu
         }
         // 4. Otherwise, validation error, return failure.
         else {
-          throw new TypeError(`Invalid scheme`);
+          return failure('invalid-scheme', 'Invalid scheme');
         }
         break;
 
       case ParserState.NO_SCHEME:
-        // 1. If base is null, or base’s cannot-be-a-base-URL flag is set
-        //    and c is not U+0023 (#), validation error, return failure.
-        if (!base || (base._cannotBeABaseURL && 0x23 !== c)) {
-          throw new TypeError('Invalid scheme');
+        // 1. If base is null, or base has an opaque path and c is not U+0023 (#),
+        //    missing-scheme-non-relative-URL validation error, return failure.
+        if (!base || (hasOpaquePath(base) && 0x23 !== c)) {
+          return failure('missing-scheme-non-relative-URL', 'Invalid scheme');
         }
-        // 2. Otherwise, if base’s cannot-be-a-base-URL flag is set and c is U+0023 (#),
-        //    set url’s scheme to base’s scheme, url’s path to a copy of base’s path,
-        //    url’s query to base’s query, url’s fragment to the empty string,
-        //    set url’s cannot-be-a-base-URL flag, and set state to fragment state.
-        else if (base._cannotBeABaseURL && 0x23 === c) {
+        // 2. Otherwise, if base has an opaque path and c is U+0023 (#),
+        //    set url’s scheme to base’s scheme, url’s path to base’s path, url’s query to base’s query,
+        //    url’s fragment to the empty string, and set state to fragment state.
+        else if (hasOpaquePath(base) && 0x23 === c) {
           url._scheme = base._scheme;
-          url._path = base._path.slice();
+          url._path = base._path;
           url._query = base._query;
           url._fragment = '';
-          url._cannotBeABaseURL = true;
           state = ParserState.FRAGMENT;
         }
         // 3. Otherwise, if base’s scheme is not "file",
@@ -320,6 +531,7 @@ function parse(input: string, base: UrlRecord | null, url: UrlRecord | null = nu
         }
         // Otherwise, validation error, set state to relative state and decrease pointer by one.
         else {
+          validationError('special-scheme-missing-following-solidus');
           state = ParserState.RELATIVE;
           cursor -= 1;
         }
@@ -398,6 +610,7 @@ function parse(input: string, base: UrlRecord | null, url: UrlRecord | null = nu
           // If url is special and c is U+005C (\), validation error,
           // set state to relative slash state.
           if (0x5C === c && isSpecial(url)) {
+            validationError('invalid-reverse-solidus');
             state = ParserState.RELATIVE_SLASH;
           }
           // Otherwise, run these steps:
@@ -413,7 +626,7 @@ function parse(input: string, base: UrlRecord | null, url: UrlRecord | null = nu
             url._host = base!._host;
             url._port = base!._port;
             url._path = base!._path.slice();
-            url._path.pop();
+            (url._path as string[]).pop();
             // 2. Set state to path state, and decrease pointer by one.
             state = ParserState.PATH;
             cursor -= 1;
@@ -425,6 +638,9 @@ function parse(input: string, base: UrlRecord | null, url: UrlRecord | null = nu
         // 1. If url is special and c is U+002F (/) or U+005C (\), then:
         if (isSpecial(url) && (0x2F === c || 0x5C === c)) {
           // 1. If c is U+005C (\), validation error.
+          if (0x5C === c) {
+            validationError('invalid-reverse-solidus');
+          }
           // 2. Set state to special authority ignore slashes state.
           state = ParserState.SPECIAL_AUTHORITY_IGNORE_SLASHES;
         }
@@ -458,6 +674,7 @@ function parse(input: string, base: UrlRecord | null, url: UrlRecord | null = nu
         // set state to special authority ignore slashes state,
         // and decrease pointer by one.
         else {
+          validationError('special-scheme-missing-following-solidus');
           state = ParserState.SPECIAL_AUTHORITY_IGNORE_SLASHES;
           continue;
         }
@@ -471,12 +688,26 @@ function parse(input: string, base: UrlRecord | null, url: UrlRecord | null = nu
           cursor -= 1;
         }
         // Otherwise, validation error.
+        else {
+          validationError('special-scheme-missing-following-solidus');
+        }
         break;
 
       case ParserState.AUTHORITY:
         // 1. If c is U+0040 (@), then:
         if (0x40 === c) {
           // 1. Validation error.
+          validationError('invalid-credentials');
+          if (spans !== null) {
+            if (!seenAt) {
+              credentialsStart = cursor - buffer.length;
+            }
+            if (!passwordTokenSeenFlag && buffer.indexOf(0x3A) !== -1) {
+              passwordStart = cursor - buffer.length + buffer.indexOf(0x3A) + 1;
+            }
+            spans.username = sourceSpan(credentialsStart, passwordStart !== -1 ? passwordStart - 1 : cursor);
+            spans.password = passwordStart !== -1 ? sourceSpan(passwordStart, cursor) : null;
+          }
           // 2. If the @ flag is set, prepend "%40" to buffer.
           if (seenAt) {
             buffer.unshift(0x25, 0x34, 0x30);
@@ -517,7 +748,7 @@ function parse(input: string, base: UrlRecord | null, url: UrlRecord | null = nu
           // 1. If @ flag is set and buffer is the empty string, validation error, return failure.
           if (seenAt && 0 === buffer.length) {
             // e.g. http://user@/foo
-            throw new TypeError('Invalid host');
+            return failure('host-missing', 'Invalid host');
           }
           // 2. Decrease pointer by the number of code points in buffer plus one,
           //    set buffer to the empty string, and set state to host state.
@@ -543,11 +774,17 @@ function parse(input: string, base: UrlRecord | null, url: UrlRecord | null = nu
         else if (0x3A === c && !seenBracket) {
           // 1. If buffer is the empty string, validation error, return failure.
           if (0 === buffer.length) {
-            throw new TypeError('Invalid host');
+            return failure('host-missing', 'Invalid host');
           }
           // 2. Let host be the result of host parsing buffer with url is special.
           // 3. If host is failure, then return failure.
-          const host = parseHost(ucs2encode(buffer), isSpecial(url));
+          const host = parseBufferAsHost(cursor - buffer.length);
+          if (host instanceof ParseFailure) {
+            return host;
+          }
+          if (spans !== null) {
+            spans.host = sourceSpan(cursor - buffer.length, cursor);
+          }
           // 4. Set url’s host to host, buffer to the empty string, and state to port state.
           url._host = host;
           buffer.length = 0;
@@ -568,7 +805,7 @@ function parse(input: string, base: UrlRecord | null, url: UrlRecord | null = nu
           cursor -= 1;
           // 1. If url is special and buffer is the empty string, validation error, return failure.
           if (isSpecial(url) && 0 === buffer.length) {
-            throw new TypeError('Invalid host');
+            return failure('host-missing', 'Invalid host');
           }
           // 2. Otherwise, if state override is given, buffer is the empty string,
           //    and either url includes credentials or url’s port is non-null,
@@ -578,7 +815,13 @@ function parse(input: string, base: UrlRecord | null, url: UrlRecord | null = nu
           }
           // 3. Let host be the result of host parsing buffer with url is special.
           // 4. If host is failure, then return failure.
-          const host = parseHost(ucs2encode(buffer), isSpecial(url));
+          const host = parseBufferAsHost(cursor + 1 - buffer.length);
+          if (host instanceof ParseFailure) {
+            return host;
+          }
+          if (spans !== null) {
+            spans.host = sourceSpan(cursor + 1 - buffer.length, cursor + 1);
+          }
           // 5. Set url’s host to host, buffer to the empty string, and state to path start state.
           url._host = host;
           buffer.length = 0;
@@ -625,10 +868,14 @@ function parse(input: string, base: UrlRecord | null, url: UrlRecord | null = nu
             const port = parseInt(ucs2encode(buffer), 10);
             // 2. If port is greater than 2^16 − 1, validation error, return failure.
             if (port > (1 << 16) - 1) {
-              throw new TypeError('Invalid port');
+              return failure('port-out-of-range', 'Invalid port', cursor - buffer.length);
+            }
+            if (spans !== null) {
+              spans.port = sourceSpan(cursor - buffer.length, cursor);
             }
             // 3. Set url’s port to null, if port is url’s scheme’s default port, and to port otherwise.
-            url._port = (port === defaultPorts[url._scheme]) ? null : port;
+            // Note: this includes the default port of a registered scheme
+            url._port = (port === getSchemeDefaultPort(url._scheme)) ? null : port;
             // 4. Set buffer to the empty string.
             buffer.length = 0;
           }
@@ -642,7 +889,7 @@ function parse(input: string, base: UrlRecord | null, url: UrlRecord | null = nu
         }
         // 3. Otherwise, validation error, return failure.
         else {
-          throw new TypeError(`Invalid port`);
+          return failure('port-invalid', 'Invalid port');
         }
         break;
 
@@ -652,6 +899,9 @@ function parse(input: string, base: UrlRecord | null, url: UrlRecord | null = nu
         // 2. If c is U+002F (/) or U+005C (\), then:
         if (0x2F === c || 0x5C === c) {
           // 1. If c is U+005C (\), validation error.
+          if (0x5C === c) {
+            validationError('invalid-reverse-solidus');
+          }
           // 2. Set state to file slash state.
           state = ParserState.FILE_SLASH;
         }
@@ -699,6 +949,9 @@ function parse(input: string, base: UrlRecord | null, url: UrlRecord | null = nu
               shortenPath(url);
             }
             // 2. Otherwise, validation error.
+            else {
+              validationError('file-invalid-Windows-drive-letter');
+            }
             // 3. Set state to path state, and decrease pointer by one.
             state = ParserState.PATH;
             cursor -= 1;
@@ -715,6 +968,9 @@ function parse(input: string, base: UrlRecord | null, url: UrlRecord | null = nu
         // 1. If c is U+002F (/) or U+005C (\), then:
         if (0x2F === c || 0x5C === c) {
           // 1. If c is U+005C (\), validation error.
+          if (0x5C === c) {
+            validationError('invalid-reverse-solidus');
+          }
           // 2. Set state to file host state.
           state = ParserState.FILE_HOST;
         }
@@ -726,7 +982,7 @@ function parse(input: string, base: UrlRecord | null, url: UrlRecord | null = nu
           if (base && 'file' === base._scheme && !startsWithWindowsDriveLetter(codePoints.slice(cursor))) {
             // 1. If base’s path[0] is a normalized Windows drive letter, then append base’s path[0] to url’s path.
             if (isNormalizedWindowsDriveLetter(base._path[0])) {
-              url._path.push(base._path[0]);
+              (url._path as string[]).push(base._path[0]);
             }
             // 2. Otherwise, set url’s host to base’s host.
             else {
@@ -747,12 +1003,16 @@ function parse(input: string, base: UrlRecord | null, url: UrlRecord | null = nu
           // 1. If state override is not given and buffer is a Windows drive letter,
           //    validation error, set state to path state.
           if (stateOverride === null && isWindowsDriveLetterRaw(buffer)) {
+            validationError('file-invalid-Windows-drive-letter-host', cursor + 1 - buffer.length);
             state = ParserState.PATH;
           }
           // 2. Otherwise, if buffer is the empty string, then:
           else if (0 === buffer.length) {
             // 1. Set url’s host to the empty string.
             url._host = EMPTY_HOST;
+            if (spans !== null) {
+              spans.host = sourceSpan(cursor + 1, cursor + 1);
+            }
             // 2. If state override is given, then return.
             if (stateOverride !== null) {
               return;
@@ -764,7 +1024,13 @@ function parse(input: string, base: UrlRecord | null, url: UrlRecord | null = nu
           else {
             // 1. Let host be the result of host parsing buffer with url is special.
             // 2. If host is failure, then return failure.
-            let host = parseHost(ucs2encode(buffer), isSpecial(url));
+            let host = parseBufferAsHost(cursor + 1 - buffer.length);
+            if (host instanceof ParseFailure) {
+              return host;
+            }
+            if (spans !== null) {
+              spans.host = sourceSpan(cursor + 1 - buffer.length, cursor + 1);
+            }
             // 3. If host is "localhost", then set host to the empty string.
             if (host._type === HostType.DOMAIN && 'localhost' === host._domain) {
               host = EMPTY_HOST;
@@ -790,6 +1056,9 @@ function parse(input: string, base: UrlRecord | null, url: UrlRecord | null = nu
         // 1. If url is special, then:
         if (isSpecial(url)) {
           // 1. If c is U+005C (\), validation error.
+          if (0x5C === c) {
+            validationError('invalid-reverse-solidus');
+          }
           // 2. Set state to path state.
           state = ParserState.PATH;
           // 3. If c is neither U+002F (/) nor U+005C (\), then decrease pointer by one.
@@ -821,6 +1090,9 @@ function parse(input: string, base: UrlRecord | null, url: UrlRecord | null = nu
         break;
 
       case ParserState.PATH:
+        if (componentStart === -1) {
+          componentStart = cursor;
+        }
         // 1. If one of the following is true
         //    - c is the EOF code point or U+002F (/)
         //    - url is special and c is U+005C (\)
@@ -832,14 +1104,24 @@ function parse(input: string, base: UrlRecord | null, url: UrlRecord | null = nu
         ) {
           // then:
           let bufferString = ucs2encode(buffer);
+          alignPathSpans();
           // 1. If url is special and c is U+005C (\), validation error.
+          if (isSpecial(url) && 0x5C === c) {
+            validationError('invalid-reverse-solidus');
+          }
           // 2. If buffer is a double-dot path segment, shorten url’s path,
           //    and then if neither c is U+002F (/), nor url is special and c is U+005C (\),
           //    append the empty string to url’s path.
           if (isDoubleDotPathSegment(bufferString)) {
             shortenPath(url);
+            if (spans !== null) {
+              spans.path.length = url._path.length;
+            }
             if (0x2F !== c && !(isSpecial(url) && 0x5C === c)) {
-              url._path.push('');
+              (url._path as string[]).push('');
+              if (spans !== null) {
+                spans.path.push(null);
+              }
             }
           }
           // 3. Otherwise, if buffer is a single-dot path segment
@@ -849,7 +1131,10 @@ function parse(input: string, base: UrlRecord | null, url: UrlRecord | null = nu
               isSingleDotPathSegment(bufferString) &&
               (0x2F !== c && !(isSpecial(url) && 0x5C === c))
           ) {
-            url._path.push('');
+            (url._path as string[]).push('');
+            if (spans !== null) {
+              spans.path.push(null);
+            }
           }
           // 4. Otherwise, if buffer is not a single-dot path segment, then:
           else if (!isSingleDotPathSegment(bufferString)) {
@@ -858,7 +1143,11 @@ function parse(input: string, base: UrlRecord | null, url: UrlRecord | null = nu
               // 1. If url’s host is neither the empty string nor null,
               //    validation error, set url’s host to the empty string.
               if (EMPTY_HOST !== url._host && null !== url._host) {
+                validationError('file-invalid-Windows-drive-letter-host', cursor - buffer.length);
                 url._host = EMPTY_HOST;
+                if (spans !== null) {
+                  spans.host = null;
+                }
               }
               // 2. Replace the second code point in buffer with U+003A (:).
               // (Note that isWindowsDriveLetter(buffer) implies buffer.length === 2)
@@ -866,16 +1155,23 @@ function parse(input: string, base: UrlRecord | null, url: UrlRecord | null = nu
               bufferString = ucs2encode(buffer);
             }
             // 2. Append buffer to url’s path.
-            url._path.push(bufferString);
+            (url._path as string[]).push(bufferString);
+            if (spans !== null) {
+              spans.path.push(sourceSpan(componentStart, cursor));
+            }
           }
           // 5. Set buffer to the empty string.
           buffer.length = 0;
+          componentStart = -1;
           // 6. If url’s scheme is "file" and c is the EOF code point, U+003F (?), or U+0023 (#),
           //    then while url’s path’s size is greater than 1 and url’s path[0] is the empty string,
           //    validation error, remove the first item from url’s path.
           if ('file' === url._scheme && (EOF === c || 0x3F === c || 0x23 === c)) {
             while (url._path.length > 1 && '' === url._path[0]) {
-              url._path.shift();
+              (url._path as string[]).shift();
+              if (spans !== null) {
+                spans.path.shift();
+              }
             }
           }
           // 7. If c is U+003F (?), then set url’s query to the empty string and state to query state.
@@ -894,13 +1190,21 @@ function parse(input: string, base: UrlRecord | null, url: UrlRecord | null = nu
           // 1. If c is not a URL code point and not U+0025 (%), validation error.
           // 2. If c is U+0025 (%) and remaining does not start with two ASCII hex digits,
           //    validation error.
+          validateURLUnit(cursor);
           // 3. UTF-8 percent encode c using the path percent-encode set,
           //    and append the result to buffer.
           buffer.push(...utf8PercentEncode(c, isPathPercentEncode));
         }
         break;
 
-      case ParserState.CANNOT_BE_A_BASE_URL_PATH:
+      case ParserState.OPAQUE_PATH:
+        if (componentStart === -1) {
+          componentStart = cursor;
+        }
+        if (spans !== null && (EOF === c || 0x3F === c || 0x23 === c)) {
+          spans.path = [sourceSpan(componentStart, cursor)];
+          componentStart = -1;
+        }
         // 1. If c is U+003F (?), then set url’s query to the empty string and state to query state.
         if (0x3F === c) {
           url._query = '';
@@ -917,10 +1221,10 @@ function parse(input: string, base: UrlRecord | null, url: UrlRecord | null = nu
           // 2. If c is U+0025 (%) and remaining does not start with two ASCII hex digits,
           //    validation error.
           // 3. If c is not the EOF code point,
-          //    UTF-8 percent encode c using the C0 control percent-encode set,
-          //    and append the result to url’s path[0].
+          //    UTF-8 percent encode c using the C0 control percent-encode set, and append the result to url’s path.
           if (EOF !== c) {
-            url._path[0] += ucs2encode(utf8PercentEncode(c, isC0ControlPercentEncode));
+            validateURLUnit(cursor);
+            url._path += ucs2encode(utf8PercentEncode(c, isC0ControlPercentEncode));
           }
         }
         break;
@@ -930,7 +1234,16 @@ function parse(input: string, base: UrlRecord | null, url: UrlRecord | null = nu
         //     - url is not special
         //     - url’s scheme is "ws" or "wss"
         //    then set encoding to UTF-8.
-        // TODO encoding
+        if (encoding !== UTF_8 && (!isSpecial(url) || 'ws' === url._scheme || 'wss' === url._scheme)) {
+          encoding = UTF_8;
+        }
+        if (componentStart === -1) {
+          componentStart = cursor;
+        }
+        if (spans !== null && (EOF === c || 0x23 === c)) {
+          spans.query = sourceSpan(componentStart, cursor);
+          componentStart = -1;
+        }
         // 2. If state override is not given and c is U+0023 (#),
         //    then set url’s fragment to the empty string and state to fragment state.
         if (stateOverride === null && 0x23 === c) {
@@ -942,12 +1255,23 @@ function parse(input: string, base: UrlRecord | null, url: UrlRecord | null = nu
           // 1. If c is not a URL code point and not U+0025 (%), validation error.
           // 2. If c is U+0025 (%) and remaining does not start with two ASCII hex digits,
           //    validation error.
-
+          validateURLUnit(cursor);
+          const percentEncodeSet = isSpecial(url) ? isQueryPercentEncodeSpecial : isQueryPercentEncode;
+          // Shortcut: UTF-8 encoding can encode every code point
+          if (encoding === UTF_8) {
+            url._query += ucs2encode(utf8PercentEncode(c, percentEncodeSet));
+            break;
+          }
           // 3. Let bytes be the result of encoding c using encoding.
-          // 4. If bytes starts with `&#` and ends with 0x3B (;), then:
-          // TODO encoding
-          // Note: This cannot happen, since in our case we always use UTF-8 encoding.
-
+          const bytes = encoding.encode(c);
+          // 4. If bytes starts with `&#` and ends with 0x3B (;), then replace `&#` at the start of bytes
+          //    with `%26%23`, replace 0x3B (;) at the end of bytes with `%3B`,
+          //    and append bytes, isomorphic decoded, to url’s query.
+          // Note: the encoder returns null for an unmappable code point,
+          //       rather than the HTML decimal character reference (e.g. `&#1234;`).
+          if (bytes === null) {
+            url._query += `%26%23${c}%3B`;
+          }
           // 5. Otherwise, for each byte in bytes:
           // 5.1. If one of the following is true
           //      - byte is less than 0x21 (!)
@@ -956,28 +1280,35 @@ function parse(input: string, base: UrlRecord | null, url: UrlRecord | null = nu
           //      - byte is 0x27 (') and url is special
           //      then append byte, percent encoded, to url’s query.
           // 5.2. Otherwise, append a code point whose value is byte to url’s query.
-          url._query += ucs2encode(utf8PercentEncode(
-              c,
-              isSpecial(url) ? isQueryPercentEncodeSpecial : isQueryPercentEncode
-          ));
+          else {
+            url._query += fromCodeUnits(percentEncodeBytes(bytes, percentEncodeSet));
+          }
         }
         break;
 
       case ParserState.FRAGMENT:
+        if (componentStart === -1) {
+          componentStart = cursor;
+        }
         // Switching on c:
         if (EOF === c) {
           // The EOF code point
           // Do nothing
+          if (spans !== null) {
+            spans.fragment = sourceSpan(componentStart, cursor);
+          }
         }
         else if (0x00 === c) {
           // U+0000 NULL
           // Validation error.
+          validationError('invalid-URL-unit');
         }
         else {
           // Otherwise
           // 1. If c is not a URL code point and not U+0025 (%), validation error.
           // 2. If c is U+0025 (%) and remaining does not start with two ASCII hex digits,
           //    validation error.
+          validateURLUnit(cursor);
           // 3. UTF-8 percent encode c using the fragment percent-encode set and append the result to url’s fragment.
           url._fragment += ucs2encode(utf8PercentEncode(c, isFragmentPercentEncode));
         }
@@ -987,19 +1318,26 @@ function parse(input: string, base: UrlRecord | null, url: UrlRecord | null = nu
     cursor++;
   }
 
+  alignPathSpans();
   // 12. Return url.
   return url;
 }
 
-function parseSilent(input: string, base: UrlRecord | null, url: UrlRecord, stateOverride: ParserState): void {
-  try {
-    parse(input, base, url, stateOverride);
-  } catch {
-    // ignore
+// Runs the basic URL parser on input with the given URL and state override.
+// Unlike the URL setters, this throws if parsing returns failure.
+export function parseWithStateOverride(input: string, url: UrlRecord, stateOverride: ParserState): void {
+  const result = parse(input, null, null, url, stateOverride);
+  if (result instanceof ParseFailure) {
+    throw result._toError();
   }
 }
 
-function serializeUrl(url: UrlRecord, excludeFragment: boolean = false): string {
+function parseSilent(input: string, base: UrlRecord | null, url: UrlRecord, stateOverride: ParserState): void {
+  // Note: the setters ignore failure
+  parse(input, base, null, url, stateOverride);
+}
+
+export function serializeUrl(url: UrlRecord, excludeFragment: boolean = false): string {
   // 1. Let output be url’s scheme and U+003A (:) concatenated.
   let output = url._scheme + ':';
   // 2. If url’s host is non-null:
@@ -1028,16 +1366,8 @@ function serializeUrl(url: UrlRecord, excludeFragment: boolean = false): string
   else if (null === url._host && 'file' === url._scheme) {
     output += '//';
   }
-  // 4. If url’s cannot-be-a-base-URL flag is set, append url’s path[0] to output.
-  if (url._cannotBeABaseURL) {
-    output += url._path[0];
-  }
-  // 5. Otherwise, then for each string in url’s path, append U+002F (/) followed by the string to output.
-  else {
-    for (let part of url._path) {
-      output += `/${part}`;
-    }
-  }
+  // 4. Append the result of URL path serializing url to output.
+  output += serializePath(url);
   // 6. If url’s query is non-null, append U+003F (?), followed by url’s query, to output.
   if (null !== url._query) {
     output += `?${url._query}`;
@@ -1050,50 +1380,182 @@ function serializeUrl(url: UrlRecord, excludeFragment: boolean = false): string
   return output;
 }
 
+// https://url.spec.whatwg.org/#url-path-serializer
+export function serializePath(url: UrlRecord): string {
+  // 1. If url has an opaque path, then return url’s path.
+  if (hasOpaquePath(url)) {
+    return url._path as string;
+  }
+  // 2. Let output be the empty string.
+  // 3. For each segment of url’s path: append U+002F (/) followed by segment to output.
+  // 4. Return output.
+  let output = '';
+  for (const segment of url._path as string[]) {
+    output += `/${segment}`;
+  }
+  return output;
+}
+
 export class UrlRecord {
   _scheme: string = '';
   _username: string = '';
   _password: string = '';
   _host: Host | null = null;
   _port: number | null = null;
-  _path: string[] = [];
+  // Either a list of path segments, or an opaque path
+  _path: string[] | string = [];
   _query: string | null = null;
   _fragment: string | null = null;
-  _cannotBeABaseURL: boolean = false;
+  // The source spans of the components of this URL, if recorded while parsing
+  _spans: URLSpans | null = null;
+}
+
+// Decides the origin of a file: URL.
+// - "opaque": every file URL gets a new opaque origin (default)
+// - "tuple": every file URL has the same tuple origin, which serializes as "file://"
+// - "per-host": file URLs with the same host have the same tuple origin, e.g. "file://server"
+// - a function returning the origin for the given file URL, e.g. one opaque origin per directory
+export type FileOriginPolicy = 'opaque' | 'tuple' | 'per-host' | ((url: URL) => Origin);
+
+let fileOriginPolicy: FileOriginPolicy = 'opaque';
+
+// Sets the policy that decides the origin of file: URLs, for url.origin and all other origin helpers.
+export function setFileOriginPolicy(policy: FileOriginPolicy): void {
+  if (typeof policy !== 'function' && policy !== 'opaque' && policy !== 'tuple' && policy !== 'per-host') {
+    throw new TypeError(`Invalid file origin policy: ${policy}`);
+  }
+  fileOriginPolicy = policy;
+}
+
+function getFileOrigin(url: UrlRecord): Origin {
+  const policy = fileOriginPolicy;
+  switch (policy) {
+    case 'opaque':
+      return createOpaqueOrigin();
+    case 'tuple':
+      return createTupleOrigin('file', EMPTY_HOST, null, null);
+    case 'per-host':
+      return createTupleOrigin('file', url._host!, null, null);
+    default: {
+      // Note: pass a copy, so the policy cannot modify url
+      const result: URL = Object.create(URL.prototype);
+      initializeURL(result, parse(serializeUrl(url), null) as UrlRecord);
+      const origin = policy(result);
+      if (!(origin instanceof Origin)) {
+        throw new TypeError('File origin policy must return an Origin');
+      }
+      return origin;
+    }
+  }
 }
 
 // https://url.spec.whatwg.org/#concept-url-origin
-function getOrigin(url: UrlRecord): string {
+function getUrlOrigin(url: UrlRecord): Origin {
   switch (url._scheme) {
     case 'blob': {
-      // Let url be the result of parsing URL’s path[0].
-      // Return a new opaque origin, if url is failure, and url’s origin otherwise.
-      let blobUrl: UrlRecord;
-      try {
-        blobUrl = parse(url._path[0], null);
-      } catch (e) {
-        return OPAQUE_ORIGIN;
+      // Let pathURL be the result of parsing the result of URL path serializing url.
+      // Return a new opaque origin, if pathURL is failure, and pathURL’s origin otherwise.
+      const blobUrl = parse(serializePath(url), null);
+      if (blobUrl instanceof ParseFailure) {
+        return createOpaqueOrigin();
       }
-      return getOrigin(blobUrl);
+      return getUrlOrigin(blobUrl);
     }
     case 'ftp':
-    case 'gopher':
     case 'http':
     case 'https':
     case 'ws':
     case 'wss':
       // Return a tuple consisting of URL’s scheme, URL’s host, URL’s port, and null.
       // Note: URL's host cannot be null, see table at https://url.spec.whatwg.org/#concept-url-host
-      return serializeTupleOrigin(url._scheme, url._host!, url._port);
+      return createTupleOrigin(url._scheme, url._host!, url._port, null);
     case 'file':
       // Unfortunate as it is, this is left as an exercise to the reader. When in doubt, return a new opaque origin.
-      return OPAQUE_ORIGIN;
-    default:
+      // Note: this is decided by the file origin policy, see setFileOriginPolicy()
+      return getFileOrigin(url);
+    default: {
+      // Note: a registered scheme can have a tuple origin, if its URL has a host
+      const record = customSchemes[url._scheme];
+      if (record !== undefined && record._tupleOrigin && url._host !== null) {
+        return createTupleOrigin(url._scheme, url._host, url._port, null);
+      }
       // Return a new opaque origin.
-      return OPAQUE_ORIGIN;
+      return createOpaqueOrigin();
+    }
   }
 }
 
+// https://url.spec.whatwg.org/#api-url-parser
+// Note: returns null (rather than throwing) if url or base is failure
+export function parseApiUrl(url: string, base?: string | URL): UrlRecord | null {
+  // 1. Let parsedBase be null.
+  let parsedBase: UrlRecord | null = null;
+  // 2. If base is non-null, then:
+  if (base != null) {
+    if (isURL(base)) {
+      // Shortcut: if base is a URL, copy URL record
+      parsedBase = base._url;
+    } else {
+      // 1. Set parsedBase to the result of running the basic URL parser on base.
+      const result = parse(toUSVString(base), null);
+      // 2. If parsedBase is failure, then return failure.
+      if (result instanceof ParseFailure) {
+        return null;
+      }
+      parsedBase = result;
+    }
+  }
+  // 3. Return the result of running the basic URL parser on url with parsedBase.
+  const parsedURL = parse(toUSVString(url), parsedBase);
+  return parsedURL instanceof ParseFailure ? null : parsedURL;
+}
+
+// https://url.spec.whatwg.org/#api-url-parser
+// Note: throws a TypeError if url or base is failure
+function parseApiUrlOrThrow(url: string, base: string | URL | null | undefined,
+                            encodingOverride: Encoding | null): UrlRecord {
+  // 1. Let parsedBase be null.
+  // 2. If base is non-null, then:
+  const parsedBase = parseApiBaseOrThrow(base);
+  // 3. Return the result of running the basic URL parser on url with parsedBase.
+  const parsedURL = parse(toUSVString(url), parsedBase, encodingOverride);
+  if (parsedURL instanceof ParseFailure) {
+    throw prefixParseError(parsedURL._toError(), 'Invalid URL');
+  }
+  return parsedURL;
+}
+
+function parseApiBaseOrThrow(base: string | URL | null | undefined): UrlRecord | null {
+  if (base == null) {
+    return null;
+  }
+  if (isURL(base)) {
+    // Shortcut: if base is a URL, copy URL record
+    return base._url;
+  }
+  // 1. Set parsedBase to the result of running the basic URL parser on base.
+  const parsedBase = parse(toUSVString(base), null);
+  // 2. If parsedBase is failure, then return failure.
+  if (parsedBase instanceof ParseFailure) {
+    throw prefixParseError(parsedBase._toError(), 'Invalid base URL');
+  }
+  return parsedBase;
+}
+
+// https://url.spec.whatwg.org/#url-initialize
+function initializeURL(result: URL, parsedURL: UrlRecord): void {
+  // 1. Let query be urlRecord’s query, if that is non-null, and the empty string otherwise.
+  // Note: we keep the null to skip query parsing in newURLSearchParams
+  const query = parsedURL._query;
+  // 2. Set url’s URL to urlRecord.
+  result._url = parsedURL;
+  // 3. Set url’s query object to a new URLSearchParams object.
+  // 4. Initialize url’s query object with query.
+  // 5. Set url’s query object’s URL object to url.
+  result._query = newURLSearchParams(query);
+  result._query._url = result;
+}
+
 function isURL(x: any): x is URL {
   if (x == null) {
     return false;
@@ -1110,47 +1572,40 @@ function isURL(x: any): x is URL {
 
 export class URL {
   /** @internal */
-  _url: UrlRecord;
+  _url!: UrlRecord;
   /** @internal */
-  private readonly _query: URLSearchParams;
+  _query!: URLSearchParams;
+
+  // https://url.spec.whatwg.org/#dom-url-canparse
+  static canParse(url: string, base?: string | URL): boolean {
+    // 1. Let parsedURL be the result of running the API URL parser on url with base, if given.
+    // 2. If parsedURL is failure, then return false.
+    // 3. Return true.
+    return parseApiUrl(url, base) !== null;
+  }
 
-  constructor(url: string, base?: string | URL) {
-    // 1. Let parsedBase be null.
-    let parsedBase: UrlRecord | null = null;
-    // 2. If base is given, then:
-    if (base != null) {
-      if (isURL(base)) {
-        // Shortcut: if base is a URL, copy URL record
-        parsedBase = base._url;
-      } else {
-        try {
-          // 1. Let parsedBase be the result of running the basic URL parser on base.
-          parsedBase = parse(String(base), null);
-        } catch (e) {
-          // 2. If parsedBase is failure, then throw a TypeError exception.
-          throw new TypeError(`Invalid base URL: ${e.message}`);
-        }
-      }
-    }
-    let parsedURL: UrlRecord;
-    try {
-      // 3. Let parsedURL be the result of running the basic URL parser on url with parsedBase.
-      parsedURL = parse(String(url), parsedBase);
-    } catch (e) {
-      // 4. If parsedURL is failure, throw a TypeError exception.
-      throw new TypeError(`Invalid URL: ${e.message}`);
+  // https://url.spec.whatwg.org/#dom-url-parse
+  static parse(url: string, base?: string | URL): URL | null {
+    // 1. Let parsedURL be the result of running the API URL parser on url with base, if given.
+    const parsedURL = parseApiUrl(url, base);
+    // 2. If parsedURL is failure, then return null.
+    if (parsedURL === null) {
+      return null;
     }
-    // 5. Let query be parsedURL’s query, if that is non-null, and the empty string otherwise.
-    // Note: we keep the null to skip query parsing in newURLSearchParams
-    const query = parsedURL._query;
-    // 6. Let result be a new URL object.
-    // 7. Set result’s url to parsedURL.
-    this._url = parsedURL;
-    // 8. Set result’s query object to a new URLSearchParams object using query,
-    // and then set that query object’s url object to result.
-    this._query = newURLSearchParams(query);
-    this._query._url = this;
-    // 9. Return result.
+    // 3. Let url be a new URL object.
+    const result: URL = Object.create(URL.prototype);
+    // 4. Initialize url with parsedURL.
+    initializeURL(result, parsedURL);
+    // 5. Return url.
+    return result;
+  }
+
+  constructor(url: string, base?: string | URL) {
+    // 1. Let parsedURL be the result of running the API URL parser on url with base, if given.
+    // 2. If parsedURL is failure, then throw a TypeError.
+    const parsedURL = parseApiUrlOrThrow(url, base, null);
+    // 3. Initialize this with parsedURL.
+    initializeURL(this, parsedURL);
   }
 
   toString(): string {
@@ -1166,13 +1621,11 @@ export class URL {
   }
 
   set href(href: string) {
-    let parsedURL: UrlRecord;
-    try {
-      // 1. Let parsedURL be the result of running the basic URL parser on the given value.
-      parsedURL = parse(String(href), null);
-    } catch (e) {
-      // 2. If parsedURL is failure, throw a TypeError exception.
-      throw new TypeError(`Invalid URL: ${e.message}`);
+    // 1. Let parsedURL be the result of running the basic URL parser on the given value.
+    const parsedURL = parse(toUSVString(href), null);
+    // 2. If parsedURL is failure, throw a TypeError exception.
+    if (parsedURL instanceof ParseFailure) {
+      throw prefixParseError(parsedURL._toError(), 'Invalid URL');
     }
     // 3. Set context object’s url to parsedURL.
     this._url = parsedURL;
@@ -1187,7 +1640,7 @@ export class URL {
   }
 
   get origin(): string {
-    return getOrigin(this._url);
+    return getUrlOrigin(this._url).serialize();
   }
 
   get protocol(): string {
@@ -1247,8 +1700,8 @@ export class URL {
   }
 
   set host(host: string) {
-    // 1. If context object’s url’s cannot-be-a-base-URL flag is set, then return.
-    if (this._url._cannotBeABaseURL) {
+    // 1. If context object’s url has an opaque path, then return.
+    if (hasOpaquePath(this._url)) {
       return;
     }
     // 2. Basic URL parse the given value with context object’s url as url and host state as state override.
@@ -1266,8 +1719,8 @@ export class URL {
   }
 
   set hostname(hostname: string) {
-    // 1. If context object’s url’s cannot-be-a-base-URL flag is set, then return.
-    if (this._url._cannotBeABaseURL) {
+    // 1. If context object’s url has an opaque path, then return.
+    if (hasOpaquePath(this._url)) {
       return;
     }
     // 2. Basic URL parse the given value with context object’s url as url and hostname state as state override.
@@ -1300,27 +1753,17 @@ export class URL {
   }
 
   get pathname(): string {
-    // 1. If context object’s url’s cannot-be-a-base-URL flag is set, then return context object’s url’s path[0].
-    const path = this._url._path;
-    if (this._url._cannotBeABaseURL) {
-      return path[0];
-    }
-    // 2. If context object’s url’s path is empty, then return the empty string.
-    if (path.length === 0) {
-      return '';
-    }
-    // 3. Return U+002F (/), followed by the strings in context object’s url’s path (including empty strings), if any,
-    //    separated from each other by U+002F (/).
-    return '/' + path.join('/');
+    // Return the result of URL path serializing context object’s url.
+    return serializePath(this._url);
   }
 
   set pathname(pathname: string) {
-    // 1. If context object’s url’s cannot-be-a-base-URL flag is set, then return.
-    if (this._url._cannotBeABaseURL) {
+    // 1. If context object’s url has an opaque path, then return.
+    if (hasOpaquePath(this._url)) {
       return;
     }
     // 2. Empty context object’s url’s path.
-    this._url._path.length = 0;
+    this._url._path = [];
     // 3. Basic URL parse the given value with context object’s url as url and path start state as state override.
     parseSilent(pathname, null, this._url, ParserState.PATH_START);
   }
@@ -1339,13 +1782,15 @@ export class URL {
     search = toUSVString(search);
     // 1. Let url be context object’s url.
     const url = this._url;
-    // 2. If the given value is the empty string,
-    //    set url’s query to null,
-    //    empty context object’s query object’s list,
-    //    and then return.
+    // 2. If the given value is the empty string, then:
     if ('' === search) {
+      // 1. Set url’s query to null.
       url._query = null;
+      // 2. Empty context object’s query object’s list.
       emptyParams(this._query);
+      // 3. Potentially strip trailing spaces from an opaque path with context object.
+      stripTrailingSpacesFromOpaquePath(url);
+      // 4. Return.
       return;
     }
     // 3. Let input be the given value with a single leading U+003F (?) removed, if any.
@@ -1376,9 +1821,13 @@ export class URL {
   }
 
   set hash(hash: string) {
-    // 1. If the given value is the empty string, then set context object’s url’s fragment to null and return.
+    // 1. If the given value is the empty string, then:
     if ('' === hash) {
+      // 1. Set context object’s url’s fragment to null.
       this._url._fragment = null;
+      // 2. Potentially strip trailing spaces from an opaque path with context object.
+      stripTrailingSpacesFromOpaquePath(this._url);
+      // 3. Return.
       return;
     }
     // 2. Let input be the given value with a single leading U+0023 (#) removed, if any.
@@ -1391,3 +1840,135 @@ export class URL {
     parseSilent(hash, null, this._url, ParserState.FRAGMENT);
   }
 }
+
+export interface URLParseOptions {
+  // The encoding to use for the query of a special URL, instead of UTF-8.
+  // See https://url.spec.whatwg.org/#concept-basic-url-parser (encoding override)
+  encoding?: Encoding;
+}
+
+// Parses url against base like the URL constructor, but with additional options.
+// https://html.spec.whatwg.org/multipage/urls-and-fetching.html#encoding-parsing-a-url
+export function parseURL(url: string, base?: string | URL | null, options: URLParseOptions = {}): URL {
+  const parsedURL = parseApiUrlOrThrow(url, base, options.encoding || null);
+  const result: URL = Object.create(URL.prototype);
+  initializeURL(result, parsedURL);
+  return result;
+}
+
+export interface URLValidationResult {
+  // The parsed URL, or null if url could not be parsed
+  url: URL | null;
+  // The validation errors encountered while parsing url, ordered by their index into url.
+  // Errors at the same index are in the order in which the parser encountered them.
+  // If url could not be parsed, this includes the error that caused the failure.
+  errors: ValidationError[];
+}
+
+// Parses url against base like the URL constructor, and collects all validation errors.
+// A URL can be valid (i.e. be parsed successfully) and still have validation errors,
+// which means it is not a valid URL string.
+// https://url.spec.whatwg.org/#validation-error
+// https://url.spec.whatwg.org/#valid-url-string
+export function validateURL(url: string, base?: string | URL | null): URLValidationResult {
+  const parsedBase = parseApiBaseOrThrow(base);
+  const errors: ValidationError[] = [];
+  const reporter: ValidationErrorReporter = (type, index) => {
+    errors.push({ type, index });
+  };
+  const parsedURL = parse(toUSVString(url), parsedBase, null, null, null, reporter);
+  // Note: errors for ASCII tab or newline are reported before parsing, so sort them in between the others
+  inplaceStableSort(errors, (a, b) => a.index - b.index);
+  if (parsedURL instanceof ParseFailure) {
+    return { url: null, errors };
+  }
+  const result: URL = Object.create(URL.prototype);
+  initializeURL(result, parsedURL);
+  return { url: result, errors };
+}
+
+export interface URLWithSpans {
+  // The parsed URL
+  url: URL;
+  // The locations of the components of the URL in the input
+  spans: URLSpans;
+}
+
+// Parses url against base like the URL constructor, and records where each component of the URL
+// occurs in url (after removing leading and trailing C0 control or space, and ASCII tab or newline).
+// Throws a URLParseError if url could not be parsed.
+export function parseURLWithSpans(url: string, base?: string | URL | null): URLWithSpans {
+  const parsedBase = parseApiBaseOrThrow(base);
+  const parsedURL = parse(toUSVString(url), parsedBase, null, null, null, null, true);
+  if (parsedURL instanceof ParseFailure) {
+    throw prefixParseError(parsedURL._toError(), 'Invalid URL');
+  }
+  const spans = parsedURL._spans!;
+  // Note: the spans no longer match once the URL is modified, so don't keep them on the URL record
+  parsedURL._spans = null;
+  const result: URL = Object.create(URL.prototype);
+  initializeURL(result, parsedURL);
+  return { url: result, spans };
+}
+
+// Runs the basic URL parser on input with the given base, and returns the state in which it last processed
+// each code point of input, indexed by its offset (in code points).
+// The EOF code point is at the offset right after the last code point.
+// If input could not be parsed, only the states up to the failure are returned.
+// Note: this is not part of the URL Standard.
+export function getParserStates(input: string, base: UrlRecord | null = null): ParserState[] {
+  const states: ParserState[] = [];
+  parse(input, base, null, null, null, null, false, (state, offset) => {
+    states[offset] = state;
+  });
+  return states;
+}
+
+// Returns the origin of url as a structured origin, which can be compared with other origins.
+// Note: a URL without a tuple origin gets a new opaque origin every time, which is only the same origin as itself.
+// https://url.spec.whatwg.org/#concept-url-origin
+export function getOrigin(url: string | URL): Origin {
+  return getUrlOrigin(getUrlRecord(url));
+}
+
+// Returns the URL record of url, parsing it first if it is a string.
+// Throws a TypeError if url could not be parsed.
+export function getUrlRecord(url: string | URL): UrlRecord {
+  return isURL(url) ? url._url : parseApiUrlOrThrow(url, null, null);
+}
+
+export function copyUrlRecord(url: UrlRecord): UrlRecord {
+  const result = new UrlRecord();
+  result._scheme = url._scheme;
+  result._username = url._username;
+  result._password = url._password;
+  result._host = url._host;
+  result._port = url._port;
+  result._path = hasOpaquePath(url) ? url._path : (url._path as string[]).slice();
+  result._query = url._query;
+  result._fragment = url._fragment;
+  return result;
+}
+
+// Returns a new URL object for the given URL record.
+export function newURL(parsedURL: UrlRecord): URL {
+  const result: URL = Object.create(URL.prototype);
+  initializeURL(result, parsedURL);
+  return result;
+}
+
+export interface URLEqualsOptions {
+  // Whether to ignore the fragments of the URLs. Defaults to false.
+  excludeFragments?: boolean;
+}
+
+// Returns whether a and b are equal URLs.
+// Throws a TypeError if a or b could not be parsed.
+// https://url.spec.whatwg.org/#concept-url-equals
+export function urlEquals(a: string | URL, b: string | URL, options: URLEqualsOptions = {}): boolean {
+  // 1. Let serializedA be the result of serializing A, with exclude fragments set to exclude fragments.
+  // 2. Let serializedB be the result of serializing B, with exclude fragments set to exclude fragments.
+  // 3. Return true if serializedA is serializedB; otherwise false.
+  const excludeFragments = !!options.excludeFragments;
+  return serializeUrl(getUrlRecord(a), excludeFragments) === serializeUrl(getUrlRecord(b), excludeFragments);
+}
@@ -1,7 +1,8 @@
 import { utf8encoderaw } from "./vendor/utf8";
-import { percentEncode, utf8StringPercentDecode } from "./encode";
+import { percentEncode, stringPercentDecode, utf8StringPercentDecode } from "./encode";
+import { encodeHTML, Encoding, getOutputEncoding, UTF_8 } from "./encoding";
 import { fromCodeUnits, isAlphanumeric } from "./util";
-import { ucs2decode } from "./vendor/ucs2";
+import { ucs2decode, ucs2encode } from "./vendor/ucs2";
 
 export const PLUS = /\+/g;
 
@@ -18,7 +19,9 @@ function isSafeUrlEncode(codePoint: number): boolean {
 
 // https://url.spec.whatwg.org/#concept-urlencoded-string-parser
 // https://url.spec.whatwg.org/#concept-urlencoded-parser
-export function parseUrlEncoded(input: string): Array<[string, string]> {
+// Note: encoding override is not part of the URL Standard (which only supports UTF-8),
+//       it follows the older version of the urlencoded parser that did support it.
+export function parseUrlEncoded(input: string, encodingOverride: Encoding | null = null): Array<[string, string]> {
   // 1. Let sequences be the result of splitting input on 0x26 (&).
   const sequences = input.split('&');
   // 2. Let output be an initially empty list of name-value tuples where both name and value hold a string.
@@ -49,8 +52,16 @@ export function parseUrlEncoded(input: string): Array<[string, string]> {
     value = value.replace(PLUS, ' ');
     // 5. Let nameString and valueString be the result of running UTF-8 decode without BOM
     //    on the percent decoding of name and value, respectively.
-    const nameString = utf8StringPercentDecode(name);
-    const valueString = utf8StringPercentDecode(value);
+    //    If encoding override is given, decode using encoding override instead.
+    let nameString: string;
+    let valueString: string;
+    if (encodingOverride === null) {
+      nameString = utf8StringPercentDecode(name);
+      valueString = utf8StringPercentDecode(value);
+    } else {
+      nameString = stringPercentDecodeWithEncoding(name, encodingOverride);
+      valueString = stringPercentDecodeWithEncoding(value, encodingOverride);
+    }
     // 6. Append (nameString, valueString) to output.
     output.push([nameString, valueString]);
   }
@@ -58,22 +69,36 @@ export function parseUrlEncoded(input: string): Array<[string, string]> {
   return output;
 }
 
+function stringPercentDecodeWithEncoding(input: string, encoding: Encoding): string {
+  return ucs2encode(encoding.decode(stringPercentDecode(ucs2decode(input))));
+}
+
+// https://html.spec.whatwg.org/multipage/form-control-infrastructure.html#constructing-the-form-data-set
+// (for an input element whose type attribute is in the Hidden state)
+const CHARSET_NAME = /^_charset_$/i;
+
 // https://url.spec.whatwg.org/#concept-urlencoded-serializer
-export function serializeUrlEncoded(tuples: ReadonlyArray<[string, string]>): string {
+export function serializeUrlEncoded(tuples: ReadonlyArray<[string, string]>,
+                                    encodingOverride: Encoding | null = null): string {
   // 1. Let encoding be UTF-8.
   // 2. If encoding override is given, set encoding to the result of getting an output encoding from encoding override.
-  // Note: we only support UTF-8
+  const encoding = encodingOverride !== null ? getOutputEncoding(encodingOverride) : UTF_8;
   // 3. Let output be the empty string.
   let output = '';
   // 4. For each tuple in tuples:
   for (let index = 0; index < tuples.length; index++) {
     const tuple = tuples[index];
     // 1. Let name be the result of serializing the result of encoding tuple’s name, using encoding.
-    const name = serializeUrlEncodedBytes(utf8encoderaw(ucs2decode(tuple[0])));
+    const name = serializeUrlEncodedBytes(encodeWithEncoding(tuple[0], encoding));
     // 2. Let value be tuple’s value.
-    // 3. (skipped, we're not parsing HTML)
+    let value = tuple[1];
+    // 3. If encoding override is given and tuple’s name is an ASCII case-insensitive match for "_charset_",
+    //    set value to encoding’s name, as in HTML’s constructing the entry list.
+    if (encodingOverride !== null && CHARSET_NAME.test(tuple[0])) {
+      value = encoding.name;
+    }
     // 4. Set value to the result of serializing the result of encoding value, using encoding.
-    const value = serializeUrlEncodedBytes(utf8encoderaw(ucs2decode(tuple[1])));
+    value = serializeUrlEncodedBytes(encodeWithEncoding(value, encoding));
     // 5. If tuple is not the first pair in tuples, then append U+0026 (&) to output.
     if (index > 0) {
       output += '&';
@@ -85,6 +110,20 @@ export function serializeUrlEncoded(tuples: ReadonlyArray<[string, string]>): st
   return output;
 }
 
+// Serializes a single name or value in UTF-8, as in the urlencoded serializer.
+// Note: this is not part of the URL Standard.
+export function serializeUrlEncodedString(input: string): string {
+  return serializeUrlEncodedBytes(encodeWithEncoding(input, UTF_8));
+}
+
+function encodeWithEncoding(input: string, encoding: Encoding): number[] {
+  // Shortcut: UTF-8 encoding can encode every code point
+  if (encoding === UTF_8) {
+    return utf8encoderaw(ucs2decode(input));
+  }
+  return encodeHTML(ucs2decode(input), encoding);
+}
+
 // https://url.spec.whatwg.org/#concept-urlencoded-byte-serializer
 function serializeUrlEncodedBytes(input: number[]): string {
   // 1. Let output be the empty string.
@@ -65,6 +65,37 @@ export function isAlphanumeric(codePoint: number): boolean {
   return isDigit(codePoint) || isAlpha(codePoint);
 }
 
+// https://infra.spec.whatwg.org/#noncharacter
+export function isNoncharacter(codePoint: number): boolean {
+  return (codePoint >= 0xFDD0 && codePoint <= 0xFDEF)
+      || (codePoint & 0xFFFE) === 0xFFFE;
+}
+
+// https://url.spec.whatwg.org/#url-code-points
+export function isURLCodePoint(codePoint: number): boolean {
+  return isAlphanumeric(codePoint)
+      || codePoint === 0x21 // U+0021 (!)
+      || codePoint === 0x24 // U+0024 ($)
+      || (codePoint >= 0x26 && codePoint <= 0x2F) // U+0026 (&) to U+002F (/)
+      || codePoint === 0x3A // U+003A (:)
+      || codePoint === 0x3B // U+003B (;)
+      || codePoint === 0x3D // U+003D (=)
+      || codePoint === 0x3F // U+003F (?)
+      || codePoint === 0x40 // U+0040 (@)
+      || codePoint === 0x5F // U+005F (_)
+      || codePoint === 0x7E // U+007E (~)
+      // U+00A0 to U+10FFFD, excluding surrogates and noncharacters
+      || (codePoint >= 0xA0 && codePoint <= 0x10FFFD
+          && !(codePoint >= 0xD800 && codePoint <= 0xDFFF)
+          && !isNoncharacter(codePoint));
+}
+
+// Whether the code point at the given index is a U+0025 (%) that is not followed by two ASCII hex digits
+export function isInvalidPercentEncoding(codePoints: number[], index: number): boolean {
+  return 0x25 === codePoints[index]
+      && !(index + 2 < codePoints.length && isHexDigit(codePoints[index + 1]) && isHexDigit(codePoints[index + 2]));
+}
+
 export function isHexDigit(codePoint: number): boolean {
   return isDigit(codePoint) // 0 to 9
       || (codePoint >= 0x41 && codePoint <= 0x46) // A to F
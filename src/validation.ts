@@ -0,0 +1,52 @@
+// https://url.spec.whatwg.org/#validation-error
+export type ValidationErrorType =
+    // IDNA
+    | 'domain-to-ASCII'
+    | 'domain-invalid-code-point'
+    // Host parsing
+    | 'host-invalid-code-point'
+    | 'IPv4-empty-part'
+    | 'IPv4-too-many-parts'
+    | 'IPv4-non-numeric-part'
+    | 'IPv4-non-decimal-part'
+    | 'IPv4-out-of-range-part'
+    | 'IPv6-unclosed'
+    | 'IPv6-invalid-compression'
+    | 'IPv6-too-many-pieces'
+    | 'IPv6-multiple-compression'
+    | 'IPv6-invalid-code-point'
+    | 'IPv6-too-few-pieces'
+    | 'IPv4-in-IPv6-too-many-pieces'
+    | 'IPv4-in-IPv6-invalid-code-point'
+    | 'IPv4-in-IPv6-out-of-range-part'
+    | 'IPv4-in-IPv6-too-few-parts'
+    // URL parsing
+    | 'invalid-URL-unit'
+    | 'special-scheme-missing-following-solidus'
+    | 'missing-scheme-non-relative-URL'
+    | 'invalid-reverse-solidus'
+    | 'invalid-credentials'
+    | 'host-missing'
+    | 'port-out-of-range'
+    | 'port-invalid'
+    | 'file-invalid-Windows-drive-letter'
+    | 'file-invalid-Windows-drive-letter-host';
+
+export interface ValidationError {
+  // The type of validation error, as named in the URL Standard
+  readonly type: ValidationErrorType;
+  // The offset (in code points) into the input at which the error occurred
+  readonly index: number;
+}
+
+// Called for every validation error encountered while parsing.
+// The index is relative to the input given to the parser that reports the error.
+export type ValidationErrorReporter = (type: ValidationErrorType, index: number) => void;
+
+// Returns a reporter for a parser whose input starts at the given offset in the input of the given reporter.
+export function offsetReporter(reporter: ValidationErrorReporter | null, offset: number): ValidationErrorReporter | null {
+  if (reporter === null || offset === 0) {
+    return reporter;
+  }
+  return (type, index) => reporter(type, offset + index);
+}
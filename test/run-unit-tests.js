@@ -0,0 +1,91 @@
+'use strict';
+const path = require('path');
+const fs = require('fs');
+const {promisify} = require('util');
+const wptRunner = require('wpt-runner');
+const consoleReporter = require('wpt-runner/lib/console-reporter');
+const {filteringReporter, countingReporter} = require('./wpt-reporters');
+const minimatch = require('minimatch');
+
+const readFileAsync = promisify(fs.readFile);
+
+const testsPath = path.resolve(__dirname, './unit');
+const filterGlobs = process.argv.length >= 3 ? process.argv.slice(2) : [
+  '*.html'
+];
+
+main().catch(e => {
+  console.error(e.stack);
+  process.exitCode = 1;
+});
+
+async function main() {
+  let failures = 0;
+
+  failures += await test('ponyfill.js', false, []);
+  failures += await test('ponyfill.es6.js', false, []);
+
+  // for the loose version, skip tests that require full IDNA UTS #46 support
+  const skippedLooseTests = require('./skip-loose-unit.json');
+  failures += await test('ponyfill.loose.js', false, skippedLooseTests);
+
+  // for the polyfill, only run the tests for patching a native implementation
+  failures += await test('polyfill.js', true, []);
+
+  process.exitCode = failures;
+}
+
+async function test(fileName, isPolyfill, skippedTests) {
+  console.log(`>>> ${fileName}`);
+
+  // count individual test results
+  const counter = countingReporter(consoleReporter);
+  // ignore specific test failures
+  const reporter = filteringReporter(counter, {
+    filter(name) {
+      return !skippedTests.some(test => name.includes(test));
+    }
+  });
+
+  // load entry point
+  const code = await readFileAsync(path.join(__dirname, '../dist/', fileName), {encoding: 'utf8'});
+
+  await wptRunner(testsPath, {
+    rootURL: 'unit/',
+    reporter,
+    setup(window) {
+      if (isPolyfill) {
+        removeNewerMembers(window);
+      }
+      // load ponyfill (which the tests use through self.URLPolyfill) or polyfill
+      window.eval(code);
+    },
+    filter(testPath) {
+      return isPolyfill === testPath.startsWith('polyfill-')
+          && filterGlobs.some(glob => minimatch(testPath, glob));
+    }
+  });
+
+  const {counts} = counter;
+  console.log(`\nTotal: ${counts.pass} passed, ${counts.fail} failed, ${counts.skip} skipped`);
+  console.log();
+
+  return counts.fail;
+}
+
+// Turns the native URL and URLSearchParams of jsdom into an older implementation,
+// so the polyfill keeps them and adds the members that are missing.
+function removeNewerMembers(window) {
+  delete window.URL.canParse;
+  delete window.URL.parse;
+  const paramsPrototype = window.URLSearchParams.prototype;
+  const nativeHas = paramsPrototype.has;
+  const nativeDelete = paramsPrototype.delete;
+  delete paramsPrototype.size;
+  paramsPrototype.has = function (name) {
+    return nativeHas.call(this, name);
+  };
+  paramsPrototype.delete = function (name) {
+    nativeDelete.call(this, name);
+  };
+}
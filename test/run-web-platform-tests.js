@@ -9,15 +9,26 @@ const minimatch = require('minimatch');
 
 const readFileAsync = promisify(fs.readFile);
 
-const testsPath = path.resolve(__dirname, './web-platform-tests/url');
+const wptPath = path.resolve(__dirname, './web-platform-tests');
 const filterGlobs = process.argv.length >= 3 ? process.argv.slice(2) : [
   'url-constructor.html',
+  'url-constructor.any.html',
   'url-origin.html',
   'url-searchparams.any.html',
   'url-setters.html',
+  'url-setters.any.html',
+  'url-setters-stripping.any.html',
+  'url-statics-canparse.any.html',
+  'url-statics-parse.any.html',
   'url-tojson.html',
-  'urlsearchparams-*.html'
+  'toascii.window.html',
+  'urlencoded-parser.any.html',
+  'urlsearchparams-*.html',
+  'urlpattern/urlpattern.any.html'
 ];
+// Directories of web platform tests to run, matched against filterGlobs
+// Note: the URL tests are matched without their directory
+const testDirs = ['url', 'urlpattern'];
 
 main().catch(e => {
   console.error(e.stack);
@@ -35,14 +46,16 @@ async function main() {
 
   // for the loose versions, skip tests that require full IDNA UTS #46 support
   const skippedLooseTests = require('./skip-loose.json');
-  failures += await test('polyfill.loose.js', true, skippedLooseTests);
-  failures += await test('polyfill.loose.min.js', true, skippedLooseTests);
-  failures += await test('ponyfill.loose.js', false, skippedLooseTests);
+  // toascii.window.html only tests IDNA, which the loose versions do not fully support
+  const skippedLooseFiles = ['toascii.window.html'];
+  failures += await test('polyfill.loose.js', true, skippedLooseTests, skippedLooseFiles);
+  failures += await test('polyfill.loose.min.js', true, skippedLooseTests, skippedLooseFiles);
+  failures += await test('ponyfill.loose.js', false, skippedLooseTests, skippedLooseFiles);
 
   process.exitCode = failures;
 }
 
-async function test(fileName, isPolyfill, skippedTests) {
+async function test(fileName, isPolyfill, skippedTests, skippedFiles = []) {
   console.log(`>>> ${fileName}`);
 
   // count individual test results
@@ -63,25 +76,31 @@ async function test(fileName, isPolyfill, skippedTests) {
   // load entry point
   const code = await readFileAsync(path.join(__dirname, '../dist/', fileName), {encoding: 'utf8'});
 
-  await wptRunner(testsPath, {
-    rootURL: 'url/',
-    reporter,
-    setup(window) {
-      window.fetch = createFetch(window.XMLHttpRequest, window.Promise);
+  for (const testDir of testDirs) {
+    await wptRunner(path.join(wptPath, testDir), {
+      rootURL: `${testDir}/`,
+      reporter,
+      setup(window) {
+        window.fetch = createFetch(window.XMLHttpRequest, window.Promise);
 
-      // load polyfill
-      delete window.URL;
-      delete window.URLSearchParams;
-      window.eval(code);
-      if (!isPolyfill) {
-        window.URL = window.URLPolyfill.URL;
-        window.URLSearchParams = window.URLPolyfill.URLSearchParams;
+        // load polyfill
+        delete window.URL;
+        delete window.URLSearchParams;
+        delete window.URLPattern;
+        window.eval(code);
+        if (!isPolyfill) {
+          window.URL = window.URLPolyfill.URL;
+          window.URLSearchParams = window.URLPolyfill.URLSearchParams;
+          window.URLPattern = window.URLPolyfill.URLPattern;
+        }
+      },
+      filter(testPath) {
+        const fullPath = testDir === 'url' ? testPath : `${testDir}/${testPath}`;
+        return filterGlobs.some(glob => minimatch(fullPath, glob))
+            && !skippedFiles.some(glob => minimatch(fullPath, glob));
       }
-    },
-    filter(testPath) {
-      return filterGlobs.some(glob => minimatch(testPath, glob));
-    }
-  });
+    });
+  }
 
   const {counts} = counter;
   console.log(`\nTotal: ${counts.pass} passed, ${counts.fail} failed, ${counts.skip} skipped`);
@@ -0,0 +1,69 @@
+'use strict';
+
+const { URL, getOrigin, registerScheme, unregisterScheme } = self.URLPolyfill;
+
+function withScheme(scheme, options, fn) {
+  registerScheme(scheme, options);
+  try {
+    fn();
+  } finally {
+    unregisterScheme(scheme);
+  }
+}
+
+test(() => {
+  withScheme('redis', { defaultPort: 6379 }, () => {
+    const url = new URL('redis://localhost:6379/0');
+    assert_equals(url.href, 'redis://localhost/0');
+    assert_equals(url.port, '');
+    url.port = '6380';
+    assert_equals(url.host, 'localhost:6380');
+    url.port = '6379';
+    assert_equals(url.host, 'localhost');
+  });
+  assert_equals(new URL('redis://localhost:6379/0').port, '6379');
+}, 'Default port is removed while the scheme is registered');
+
+test(() => {
+  withScheme('REDIS', { defaultPort: 6379 }, () => {
+    assert_equals(new URL('Redis://localhost:6379/').href, 'redis://localhost/');
+  });
+}, 'Schemes are case-insensitive');
+
+test(() => {
+  withScheme('app', { origin: 'tuple' }, () => {
+    const url = new URL('app://main:8080/index.html');
+    assert_equals(url.origin, 'app://main:8080');
+    assert_true(getOrigin(url).isSameOrigin(getOrigin('app://main:8080/other')));
+    assert_equals(new URL('app:/no-host').origin, 'null');
+  });
+  assert_equals(new URL('app://main/').origin, 'null');
+}, 'Tuple origin for a registered scheme with a host');
+
+test(() => {
+  assert_equals(new URL('app://main/').origin, 'null');
+  withScheme('app', {}, () => {
+    assert_equals(new URL('app://main/').origin, 'null');
+  });
+}, 'Opaque origin is the default');
+
+test(() => {
+  withScheme('app', { defaultPort: 80, origin: 'tuple' }, () => {
+    const url = new URL('app://main/a\\b/./c');
+    // Note: still parsed as a non-special URL, so "\\" is not a path separator
+    assert_equals(url.host, 'main');
+    assert_equals(url.pathname, '/a\\b/c');
+    assert_equals(new URL('app:foo').pathname, 'foo');
+  });
+}, 'Registered schemes are parsed like any other non-special scheme');
+
+test(() => {
+  for (const scheme of ['http', 'HTTPS', 'file', 'ws']) {
+    assert_throws(new TypeError(), () => registerScheme(scheme, { defaultPort: 1 }), scheme);
+  }
+  assert_throws(new TypeError(), () => registerScheme('1abc'));
+  assert_throws(new TypeError(), () => registerScheme('a b'));
+  assert_throws(new TypeError(), () => registerScheme('app', { defaultPort: 65536 }));
+  assert_throws(new TypeError(), () => registerScheme('app', { defaultPort: 1.5 }));
+  assert_throws(new TypeError(), () => registerScheme('app', { origin: 'bogus' }));
+}, 'Invalid registrations throw');
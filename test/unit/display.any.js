@@ -0,0 +1,41 @@
+'use strict';
+
+const { URL, toDisplayString } = self.URLPolyfill;
+
+test(() => {
+  assert_equals(toDisplayString('https://xn--mnchen-3ya.de/%C3%BC?q=%E2%98%83#%F0%9F%98%80'),
+      'https://münchen.de/ü?q=☃#😀');
+  assert_equals(toDisplayString(new URL('data:text/plain,%C3%BC')), 'data:text/plain,ü');
+}, 'Unicode domains and percent-encoded UTF-8 are decoded');
+
+test(() => {
+  assert_equals(toDisplayString('https://user:pw@example.com/'), 'https://example.com/');
+  assert_equals(toDisplayString('https://user:pw@example.com/', { includeCredentials: true }),
+      'https://user:pw@example.com/');
+}, 'Credentials are only included on request');
+
+test(() => {
+  const href = 'https://xn--mnchen-3ya.de/%C3%BC';
+  assert_equals(toDisplayString(href, { unicodeHost: false }), 'https://xn--mnchen-3ya.de/ü');
+  assert_equals(toDisplayString(href, { decodePercentEncoding: false }), 'https://münchen.de/%C3%BC');
+}, 'Options to keep the ASCII serialization');
+
+// Sequences which are left percent-encoded
+[
+  { input: 'https://example.com/a%20b%2F%3F%23', description: 'ASCII' },
+  { input: 'https://example.com/%C3', description: 'incomplete UTF-8' },
+  { input: 'https://example.com/%c3%bc', description: 'lowercase hexadecimal digits' },
+  { input: 'https://example.com/%E2%80%AE', description: 'bidi control' },
+  { input: 'https://example.com/%EF%BC%8F', description: 'fullwidth solidus' },
+  { input: 'https://example.com/%F0%9F%94%92', description: 'lock emoji' }
+].forEach(({ input, description }) => {
+  test(() => {
+    assert_equals(toDisplayString(input), input);
+  }, `Not decoded: ${description}`);
+});
+
+test(() => {
+  for (const href of ['https://xn--mnchen-3ya.de/%C3%BC%20x?a=%E2%98%83#%C3%A9', 'sc://h/%C3%A9', 'mailto:%C3%A9@x']) {
+    assert_equals(new URL(toDisplayString(href)).href, href, href);
+  }
+}, 'Parsing the display string returns the same URL');
@@ -0,0 +1,26 @@
+'use strict';
+
+const { domainToASCII, domainToUnicode } = self.URLPolyfill;
+
+[
+  { input: 'EXAMPLE.com', ascii: 'example.com', unicode: 'example.com' },
+  { input: 'münchen.de', ascii: 'xn--mnchen-3ya.de', unicode: 'münchen.de' },
+  { input: 'xn--mnchen-3ya.de', ascii: 'xn--mnchen-3ya.de', unicode: 'münchen.de' },
+  { input: 'faß.de', ascii: 'xn--fa-hia.de', unicode: 'faß.de' },
+  { input: 'a%41.com', ascii: 'aa.com', unicode: 'aa.com' },
+  { input: '0x7f.1', ascii: '127.0.0.1', unicode: '127.0.0.1' },
+  { input: '[::1]', ascii: '[::1]', unicode: '[::1]' }
+].forEach(({ input, ascii, unicode }) => {
+  test(() => {
+    assert_equals(domainToASCII(input), ascii, 'domainToASCII');
+    assert_equals(domainToUnicode(input), unicode, 'domainToUnicode');
+  }, `Valid domain: ${input}`);
+});
+
+// Invalid hosts give the empty string, rather than throwing
+['', 'a b', 'xn--a.com', 'foo.09', 'a<b'].forEach(input => {
+  test(() => {
+    assert_equals(domainToASCII(input), '', 'domainToASCII');
+    assert_equals(domainToUnicode(input), '', 'domainToUnicode');
+  }, `Invalid domain: ${JSON.stringify(input)}`);
+});
@@ -0,0 +1,52 @@
+'use strict';
+
+const { parseURL, windows1252, shiftJIS, eucKR, UTF_8 } = self.URLPolyfill;
+
+test(() => {
+  const url = parseURL('http://example.com/?q=é€', null, { encoding: windows1252 });
+  assert_equals(url.search, '?q=%E9%80');
+}, 'Query is encoded with windows-1252');
+
+test(() => {
+  const url = parseURL('http://example.com/?q=あ', null, { encoding: shiftJIS });
+  assert_equals(url.search, '?q=%82%A0');
+}, 'Query is encoded with Shift_JIS');
+
+test(() => {
+  const url = parseURL('http://example.com/?q=가', null, { encoding: eucKR });
+  assert_equals(url.search, '?q=%B0%A1');
+}, 'Query is encoded with EUC-KR');
+
+test(() => {
+  const url = parseURL('http://example.com/?q=☃', null, { encoding: windows1252 });
+  assert_equals(url.search, '?q=%26%239731%3B');
+}, 'Unencodable code points in the query become HTML character references');
+
+test(() => {
+  const url = parseURL('http://example.com/é?é#é', null, { encoding: windows1252 });
+  assert_equals(url.pathname, '/%C3%A9');
+  assert_equals(url.search, '?%E9');
+  assert_equals(url.hash, '#%C3%A9');
+}, 'Only the query is encoded with the encoding override');
+
+test(() => {
+  const url = parseURL('sc://example.com/?é', null, { encoding: windows1252 });
+  assert_equals(url.search, '?%C3%A9');
+}, 'Query of a non-special URL is always encoded with UTF-8');
+
+test(() => {
+  const utf16 = { name: 'UTF-16LE', encode() { return null; }, decode() { return []; } };
+  const url = parseURL('http://example.com/?é', null, { encoding: utf16 });
+  assert_equals(url.search, '?%C3%A9');
+}, 'UTF-16 encoding override uses UTF-8 as output encoding');
+
+test(() => {
+  const url = parseURL('?é', 'http://example.com/', { encoding: UTF_8 });
+  assert_equals(url.href, 'http://example.com/?%C3%A9');
+}, 'Relative URL with the UTF-8 encoding');
+
+test(() => {
+  const url = parseURL('http://example.com/', null, { encoding: windows1252 });
+  url.search = '?é';
+  assert_equals(url.search, '?%C3%A9');
+}, 'Search setter does not use the encoding override');
@@ -0,0 +1,78 @@
+'use strict';
+
+const { URL, Origin, getOrigin, createOpaqueOrigin, isSameSite, setFileOriginPolicy } = self.URLPolyfill;
+
+function withFileOriginPolicy(policy, fn) {
+  setFileOriginPolicy(policy);
+  try {
+    fn();
+  } finally {
+    setFileOriginPolicy('opaque');
+  }
+}
+
+test(() => {
+  const url = new URL('file:///home/user/a.html');
+  assert_equals(url.origin, 'null');
+  assert_true(getOrigin(url).opaque);
+  assert_false(getOrigin(url).isSameOrigin(getOrigin(url)));
+}, 'Opaque policy is the default');
+
+test(() => {
+  withFileOriginPolicy('tuple', () => {
+    assert_equals(new URL('file:///home/user/a.html').origin, 'file://');
+    assert_equals(new URL('file://server/share/a.html').origin, 'file://');
+    assert_true(getOrigin('file:///a').isSameOrigin(getOrigin('file://server/b')));
+    assert_true(isSameSite(getOrigin('file:///a'), getOrigin('file:///b')));
+  });
+}, 'Tuple policy gives every file URL the same origin');
+
+test(() => {
+  withFileOriginPolicy('per-host', () => {
+    assert_equals(new URL('file:///home/user/a.html').origin, 'file://');
+    assert_equals(new URL('file://server/share/a.html').origin, 'file://server');
+    assert_true(getOrigin('file://server/a').isSameOrigin(getOrigin('file://SERVER/b')));
+    assert_false(getOrigin('file://server/a').isSameOrigin(getOrigin('file:///a')));
+  });
+}, 'Per-host policy gives file URLs with the same host the same origin');
+
+test(() => {
+  const origins = {};
+  const perDirectory = url => {
+    const directory = url.pathname.slice(0, url.pathname.lastIndexOf('/'));
+    return origins[directory] || (origins[directory] = createOpaqueOrigin());
+  };
+  withFileOriginPolicy(perDirectory, () => {
+    const a = getOrigin('file:///app/a.html');
+    assert_true(a.isSameOrigin(getOrigin('file:///app/b.html')));
+    assert_false(a.isSameOrigin(getOrigin('file:///other/a.html')));
+    assert_equals(new URL('file:///app/a.html').origin, 'null');
+  });
+}, 'Custom policy, e.g. one opaque origin per directory');
+
+test(() => {
+  let received = null;
+  withFileOriginPolicy(url => {
+    received = url;
+    url.pathname = '/changed';
+    return createOpaqueOrigin();
+  }, () => {
+    const url = new URL('file:///a');
+    url.origin;
+    assert_true(received instanceof URL);
+    assert_equals(url.pathname, '/a');
+  });
+}, 'Custom policy cannot modify the URL');
+
+test(() => {
+  withFileOriginPolicy(() => 'file://', () => {
+    assert_throws(new TypeError(), () => new URL('file:///a').origin);
+  });
+}, 'Custom policy must return an Origin');
+
+test(() => {
+  withFileOriginPolicy('tuple', () => {
+    assert_equals(new URL('blob:file:///a').origin, 'file://');
+    assert_true(getOrigin('blob:file:///a') instanceof Origin);
+  });
+}, 'Policy applies to the origin of a blob URL of a file URL');
@@ -0,0 +1,75 @@
+'use strict';
+
+const { URL, fileURLToPath, pathToFileURL } = self.URLPolyfill;
+
+function assert_throws_type_error(fn, description) {
+  try {
+    fn();
+  } catch (e) {
+    assert_true(e instanceof TypeError, description);
+    return;
+  }
+  assert_unreached(`${description} should have thrown`);
+}
+
+test(() => {
+  assert_equals(fileURLToPath('file:///a/b%20c'), '/a/b c');
+  assert_equals(fileURLToPath('file:///a/%25'), '/a/%');
+  assert_equals(fileURLToPath('file:///a%5Cb'), '/a\\b');
+  assert_equals(fileURLToPath('file:///C:/a/b'), '/C:/a/b');
+  assert_equals(fileURLToPath('file://localhost/a'), '/a');
+  assert_equals(fileURLToPath(new URL('file:///a/b')), '/a/b');
+}, 'fileURLToPath() for POSIX');
+
+test(() => {
+  assert_throws_type_error(() => fileURLToPath('file:///a/%2F'), 'encoded /');
+  assert_throws_type_error(() => fileURLToPath('file:///a/%2f'), 'encoded / in lowercase');
+  assert_throws_type_error(() => fileURLToPath('file://host/a'), 'host');
+  assert_throws_type_error(() => fileURLToPath('http://a/'), 'http URL');
+  assert_throws_type_error(() => fileURLToPath('not a url'), 'invalid URL');
+}, 'fileURLToPath() for POSIX rejects invalid URLs');
+
+test(() => {
+  const windows = { windows: true };
+  assert_equals(fileURLToPath('file:///C:/a/b', windows), 'C:\\a\\b');
+  assert_equals(fileURLToPath('file:///c|/a', windows), 'c:\\a');
+  assert_equals(fileURLToPath('file://server/share/x', windows), '\\\\server\\share\\x');
+  assert_equals(fileURLToPath('file:///C:/a%20b%25', windows), 'C:\\a b%');
+}, 'fileURLToPath() for Windows');
+
+test(() => {
+  const windows = { windows: true };
+  assert_throws_type_error(() => fileURLToPath('file:///a/b', windows), 'no drive letter');
+  assert_throws_type_error(() => fileURLToPath('file:///C:/a%2Fb', windows), 'encoded /');
+  assert_throws_type_error(() => fileURLToPath('file:///C:/a%5Cb', windows), 'encoded \\');
+}, 'fileURLToPath() for Windows rejects invalid URLs');
+
+test(() => {
+  assert_equals(pathToFileURL('/a/b c').href, 'file:///a/b%20c');
+  assert_equals(pathToFileURL('/a/%#?\n\t\\x').href, 'file:///a/%25%23%3F%0A%09%5Cx');
+  assert_equals(pathToFileURL('/C:/x').href, 'file:///C:/x');
+  assert_true(pathToFileURL('/a') instanceof URL);
+}, 'pathToFileURL() for POSIX');
+
+test(() => {
+  const windows = { windows: true };
+  assert_equals(pathToFileURL('C:\\a\\b c', windows).href, 'file:///C:/a/b%20c');
+  assert_equals(pathToFileURL('\\\\server\\share\\a#b', windows).href, 'file://server/share/a%23b');
+  assert_equals(pathToFileURL('\\\\?\\C:\\a', windows).href, 'file:///C:/a');
+}, 'pathToFileURL() for Windows');
+
+test(() => {
+  assert_throws_type_error(() => pathToFileURL('rel/x'), 'relative POSIX path');
+  assert_throws_type_error(() => pathToFileURL('C:\\a'), 'Windows path on POSIX');
+  assert_throws_type_error(() => pathToFileURL('/a', { windows: true }), 'POSIX path on Windows');
+  assert_throws_type_error(() => pathToFileURL('C:rel', { windows: true }), 'drive-relative path');
+}, 'pathToFileURL() rejects relative paths');
+
+test(() => {
+  for (const path of ['/a/b c/%/#/?', '/ü/☃']) {
+    assert_equals(fileURLToPath(pathToFileURL(path)), path);
+  }
+  for (const path of ['C:\\a\\b c\\%#?', '\\\\server\\share\\ü']) {
+    assert_equals(fileURLToPath(pathToFileURL(path, { windows: true }), { windows: true }), path);
+  }
+}, 'Round trip');
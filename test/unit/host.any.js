@@ -0,0 +1,60 @@
+'use strict';
+
+const { URL } = self.URLPolyfill;
+
+// Domains whose last label is a number are parsed as an IPv4 address
+[
+  { input: 'http://foo.0x4/', host: null },
+  { input: 'http://foo.09/', host: null },
+  { input: 'http://foo.0x/', host: null },
+  { input: 'http://1.2.3.4.5/', host: null },
+  { input: 'http://192.168.0.257/', host: null },
+  { input: 'http://1.2.3.09/', host: null },
+  { input: 'http://4294967296/', host: null },
+  { input: 'http://4294967295/', host: '255.255.255.255' },
+  { input: 'http://0x7f.1/', host: '127.0.0.1' },
+  { input: 'http://%30%78/', host: '0.0.0.0' },
+  { input: 'http://foo.1e/', host: 'foo.1e' },
+  { input: 'http://foo.bar.0x7g/', host: 'foo.bar.0x7g' },
+  { input: 'http://foo.bar./', host: 'foo.bar.' }
+].forEach(({ input, host }) => {
+  test(() => {
+    if (host === null) {
+      assert_false(URL.canParse(input));
+    } else {
+      assert_equals(new URL(input).host, host);
+    }
+  }, `Ends in a number: ${input}`);
+});
+
+// Forbidden host code points fail for every host,
+// forbidden domain code points (which include "%") only fail for domains
+[
+  { input: 'http://a<b/', host: null },
+  { input: 'http://a^b/', host: null },
+  { input: 'http://a|b/', host: null },
+  { input: 'http://a%25b/', host: null },
+  { input: 'file://a<b/', host: null },
+  { input: 'sc://a<b/', host: null },
+  { input: 'sc://a^b/', host: null },
+  { input: 'sc://a|b/', host: null },
+  { input: 'sc://a b/', host: null },
+  { input: 'sc://a%b/', host: 'a%b' },
+  { input: 'http://ex%41mple.com/', host: 'example.com' }
+].forEach(({ input, host }) => {
+  test(() => {
+    if (host === null) {
+      assert_false(URL.canParse(input));
+    } else {
+      assert_equals(new URL(input).host, host);
+    }
+  }, `Forbidden code points: ${input}`);
+});
+
+test(() => {
+  const url = new URL('gopher://example.com:70/x');
+  assert_equals(url.host, 'example.com:70');
+  assert_equals(url.port, '70');
+  assert_equals(url.origin, 'null');
+  assert_equals(new URL('gopher:/x').href, 'gopher:/x');
+}, 'gopher is not a special scheme');
@@ -0,0 +1,87 @@
+'use strict';
+
+const { URL, URLSearchParams, ImmutableURL, URLBuilder } = self.URLPolyfill;
+
+function assert_throws_type_error(fn, description) {
+  try {
+    fn();
+  } catch (e) {
+    assert_true(e instanceof TypeError, description);
+    return;
+  }
+  assert_unreached(`${description} should have thrown`);
+}
+
+test(() => {
+  const url = new ImmutableURL('https://example.com/a?b=1#c');
+  assert_equals(url.href, 'https://example.com/a?b=1#c');
+  assert_equals(url.pathname, '/a');
+  assert_equals(String(url), url.href);
+  assert_equals(JSON.stringify(url), JSON.stringify(url.href));
+  assert_equals(new ImmutableURL('x', url).href, 'https://example.com/x');
+  assert_equals(ImmutableURL.from(url), url);
+  assert_true(Object.isFrozen(url));
+}, 'ImmutableURL getters');
+
+test(() => {
+  const url = new ImmutableURL('https://example.com/a');
+  const changed = url.withPathname('/b c').withPort(8080).withHash('x');
+  assert_equals(changed.href, 'https://example.com:8080/b%20c#x');
+  assert_equals(url.href, 'https://example.com/a');
+  assert_equals(url.withProtocol('bogus').href, url.href);
+  assert_throws_type_error(() => url.withHref('not a url'), 'withHref');
+}, 'with methods return a new ImmutableURL');
+
+test(() => {
+  const url = new ImmutableURL('https://example.com/?a=1&b=2');
+  const params = url.searchParams;
+  assert_equals(url.searchParams, params, 'the same object every time');
+  assert_equals(params.get('a'), '1');
+  const names = [];
+  params.forEach((value, name) => names.push(name));
+  assert_equals(names.join(), 'a,b');
+  assert_throws_type_error(() => params.append('c', '3'), 'append');
+  assert_throws_type_error(() => params.set('a', '3'), 'set');
+  assert_throws_type_error(() => params.delete('a'), 'delete');
+  assert_throws_type_error(() => params.sort(), 'sort');
+  assert_equals(url.href, 'https://example.com/?a=1&b=2');
+  assert_equals(params.toString(), 'a=1&b=2');
+}, 'searchParams is read-only');
+
+test(() => {
+  const url = new ImmutableURL('https://example.com/?a=1');
+  const copy = new URLSearchParams(url.searchParams);
+  copy.set('a', '2');
+  assert_equals(url.searchParams.get('a'), '1');
+  assert_equals(url.withSearchParams(copy).href, 'https://example.com/?a=2');
+}, 'A copy of searchParams can be modified');
+
+test(() => {
+  const url = new ImmutableURL('https://example.com/');
+  const mutable = url.toURL();
+  mutable.pathname = '/changed';
+  assert_equals(url.href, 'https://example.com/');
+  assert_true(mutable instanceof URL);
+}, 'toURL() returns a mutable copy');
+
+test(() => {
+  const builder = URLBuilder.from('https://example.com')
+      .path('/search')
+      .query({ q: 'url polyfill' })
+      .appendQuery('page', '2')
+      .hash('results');
+  assert_equals(builder.build().href, 'https://example.com/search?q=url+polyfill&page=2#results');
+  const immutable = builder.port(8080).buildImmutable();
+  assert_true(immutable instanceof ImmutableURL);
+  assert_equals(immutable.host, 'example.com:8080');
+  assert_equals(builder.port(null).query('?x').build().href, 'https://example.com/search?x#results');
+}, 'URLBuilder');
+
+test(() => {
+  const base = new URL('https://example.com/a');
+  const url = URLBuilder.from(base).path('/b').build();
+  assert_equals(base.href, 'https://example.com/a');
+  assert_equals(url.href, 'https://example.com/b');
+  assert_equals(URLBuilder.from(new ImmutableURL(base)).hostname('other').build().href, 'https://other/a');
+  assert_throws_type_error(() => URLBuilder.from('not a url'), 'invalid base');
+}, 'URLBuilder.from() copies its base');
@@ -0,0 +1,71 @@
+'use strict';
+
+const { URLSearchParams, parseNestedQuery, serializeNestedQuery } = self.URLPolyfill;
+
+function assert_json_equals(actual, expected, description) {
+  assert_equals(JSON.stringify(actual), JSON.stringify(expected), description);
+}
+
+test(() => {
+  assert_json_equals(parseNestedQuery('filter[status][]=open&filter[owner]=me'),
+      { filter: { status: ['open'], owner: 'me' } });
+  assert_json_equals(parseNestedQuery('a=x&a=y'), { a: ['x', 'y'] });
+  assert_json_equals(parseNestedQuery('a[1]=x&a[5]=y'), { a: ['x', 'y'] });
+  assert_json_equals(parseNestedQuery('a.b.c=1', { allowDots: true }), { a: { b: { c: '1' } } });
+  assert_json_equals(parseNestedQuery(new URLSearchParams('a[b]=1')), { a: { b: '1' } });
+}, 'parseNestedQuery()');
+
+test(() => {
+  const result = parseNestedQuery('a[b]=1&c[]=2');
+  assert_equals(Object.getPrototypeOf(result), Object.prototype);
+  assert_equals(Object.getPrototypeOf(result.a), Object.prototype);
+  assert_true(result.hasOwnProperty('a'));
+  assert_true(Array.isArray(result.c));
+}, 'Objects are plain objects');
+
+test(() => {
+  const result = parseNestedQuery('__proto__[polluted]=1&a[__proto__][x]=2&constructor[prototype][y]=3');
+  assert_equals(Object.getPrototypeOf(result), Object.prototype);
+  assert_equals(Object.getPrototypeOf(result.a), Object.prototype);
+  assert_true(Object.prototype.hasOwnProperty.call(result, '__proto__'));
+  assert_array_equals(Object.keys(result.a), ['__proto__']);
+  assert_equals(result.a.x, undefined);
+  assert_equals({}.polluted, undefined);
+  assert_equals({}.y, undefined);
+  assert_equals(Object.getOwnPropertyDescriptor(result, '__proto__').value.polluted, '1');
+  assert_equals(serializeNestedQuery(result), new URLSearchParams(
+      '__proto__[polluted]=1&a[__proto__][x]=2&constructor[prototype][y]=3').toString());
+}, '"__proto__" becomes an own property');
+
+test(() => {
+  assert_json_equals(parseNestedQuery('a[20]=x'), { a: ['x'] });
+  assert_json_equals(parseNestedQuery('a[21]=x'), { a: { 21: 'x' } });
+  assert_json_equals(parseNestedQuery('a[2]=x', { arrayLimit: 1 }), { a: { 2: 'x' } });
+  assert_json_equals(parseNestedQuery('a[0]=x&a[b]=y'), { a: { 0: 'x', b: 'y' } });
+}, 'arrayLimit');
+
+test(() => {
+  assert_json_equals(parseNestedQuery('a[b][c][d][e][f]=1'), { a: { b: { c: { d: { e: { f: '1' } } } } } });
+  assert_throws(new TypeError(), () => parseNestedQuery('a[b][c][d][e][f][g]=1'));
+  assert_json_equals(parseNestedQuery('a[b]=1', { depth: 1 }), { a: { b: '1' } });
+  assert_throws(new TypeError(), () => parseNestedQuery('a[b][c]=1', { depth: 1 }));
+}, 'depth');
+
+test(() => {
+  assert_throws(new TypeError(), () => parseNestedQuery('a=1&b=2&c=3', { parameterLimit: 2 }));
+  assert_throws(new TypeError(), () => parseNestedQuery('a=1&a[b]=2'));
+  assert_throws(new TypeError(), () => parseNestedQuery('a[b]=1&a=2'));
+}, 'Invalid queries throw');
+
+test(() => {
+  const value = { filter: { status: ['open', 'closed'], owner: 'me' }, q: 'a b' };
+  assert_equals(serializeNestedQuery(value), 'filter%5Bstatus%5D%5B%5D=open&filter%5Bstatus%5D%5B%5D=closed' +
+      '&filter%5Bowner%5D=me&q=a+b');
+  assert_equals(serializeNestedQuery({ a: ['x', 'y'] }, { arrayFormat: 'indices' }), 'a%5B0%5D=x&a%5B1%5D=y');
+  assert_equals(serializeNestedQuery({ a: ['x', 'y'] }, { arrayFormat: 'repeat' }), 'a=x&a=y');
+  assert_equals(serializeNestedQuery({ a: { b: '1' } }, { allowDots: true }), 'a.b=1');
+  for (const arrayFormat of ['indices', 'brackets', 'repeat']) {
+    assert_json_equals(parseNestedQuery(serializeNestedQuery(value, { arrayFormat })), value, arrayFormat);
+  }
+  assert_throws(new TypeError(), () => serializeNestedQuery({ 'a[b]': '1' }));
+}, 'serializeNestedQuery()');
@@ -0,0 +1,59 @@
+'use strict';
+
+const { URL } = self.URLPolyfill;
+
+// Cases for URLs with an opaque path, as in setters_tests.json of the web platform tests
+[
+  { href: 'mailto:me@example.net', setter: 'pathname', value: '/foo', expected: 'mailto:me@example.net' },
+  { href: 'data:original', setter: 'pathname', value: 'new value', expected: 'data:original' },
+  { href: 'mailto:me@example.net', setter: 'host', value: 'example.com', expected: 'mailto:me@example.net' },
+  { href: 'mailto:me@example.net', setter: 'hostname', value: 'example.com', expected: 'mailto:me@example.net' },
+  { href: 'mailto:me@example.net', setter: 'port', value: '80', expected: 'mailto:me@example.net' },
+  { href: 'mailto:me@example.net', setter: 'username', value: 'me', expected: 'mailto:me@example.net' },
+  { href: 'data:space ?query', setter: 'search', value: '', expected: 'data:space' },
+  { href: 'sc:space ?query', setter: 'search', value: '', expected: 'sc:space' },
+  { href: 'data:space  #fragment', setter: 'hash', value: '', expected: 'data:space' },
+  { href: 'data:space  ?query#fragment', setter: 'hash', value: '', expected: 'data:space  ?query' },
+  { href: 'data:space  ?query#fragment', setter: 'search', value: '', expected: 'data:space  #fragment' },
+  { href: 'javascript:alert(1) ', setter: 'hash', value: 'x', expected: 'javascript:alert(1)#x' }
+].forEach(({ href, setter, value, expected }) => {
+  test(() => {
+    const url = new URL(href);
+    url[setter] = value;
+    assert_equals(url.href, expected);
+  }, `Setting ${setter} of ${JSON.stringify(href)} to ${JSON.stringify(value)}`);
+});
+
+test(() => {
+  const url = new URL('data:space ?a=1');
+  assert_equals(url.pathname, 'space ');
+  url.searchParams.delete('a');
+  assert_equals(url.href, 'data:space');
+  assert_equals(url.pathname, 'space');
+}, 'Emptying searchParams strips trailing spaces from an opaque path');
+
+test(() => {
+  const url = new URL('https://example.com/');
+  url.href = 'mailto:me@example.net';
+  assert_equals(url.pathname, 'me@example.net');
+  url.href = 'https://example.com/a';
+  assert_equals(url.pathname, '/a');
+}, 'href setter switches between an opaque path and a list of path segments');
+
+// Cases for setter values with leading or trailing C0 control or space,
+// as in url-setters-stripping.any.js of the web platform tests
+[
+  { setter: 'protocol', value: '\u0000http', expected: 'https://example.com/' },
+  { setter: 'protocol', value: 'ht\ttp', expected: 'http://example.com/' },
+  { setter: 'host', value: '\u0000example.org', expected: 'https://example.com/' },
+  { setter: 'pathname', value: '\t/x\n', expected: 'https://example.com/x' },
+  { setter: 'pathname', value: '\u0001/x ', expected: 'https://example.com/%01/x%20' },
+  { setter: 'search', value: '\u0000a ', expected: 'https://example.com/?%00a%20' },
+  { setter: 'hash', value: ' a\u001F', expected: 'https://example.com/#%20a%1F' }
+].forEach(({ setter, value, expected }) => {
+  test(() => {
+    const url = new URL('https://example.com/');
+    url[setter] = value;
+    assert_equals(url.href, expected);
+  }, `Setting ${setter} to ${JSON.stringify(value)} does not strip C0 control or space`);
+});
@@ -0,0 +1,82 @@
+'use strict';
+
+const { URL, Origin, getOrigin, createOpaqueOrigin, setFileOriginPolicy } = self.URLPolyfill;
+
+test(() => {
+  const origin = getOrigin('https://user@Example.com:8443/a?b#c');
+  assert_true(origin instanceof Origin);
+  assert_false(origin.opaque);
+  assert_equals(origin.scheme, 'https');
+  assert_equals(origin.host, 'example.com');
+  assert_equals(origin.port, 8443);
+  assert_equals(origin.domain, null);
+  assert_equals(origin.serialize(), 'https://example.com:8443');
+  assert_equals(String(origin), 'https://example.com:8443');
+  assert_equals(JSON.stringify(origin), '"https://example.com:8443"');
+}, 'Tuple origin');
+
+test(() => {
+  const origin = getOrigin(new URL('http://example.com:80/'));
+  assert_equals(origin.port, null);
+  assert_equals(origin.serialize(), 'http://example.com');
+}, 'Tuple origin of a URL with the default port');
+
+test(() => {
+  const a = getOrigin('data:text/plain,a');
+  const b = getOrigin('data:text/plain,a');
+  assert_true(a.opaque);
+  assert_equals(a.scheme, null);
+  assert_equals(a.host, null);
+  assert_equals(a.serialize(), 'null');
+  assert_true(a.isSameOrigin(a));
+  assert_false(a.isSameOrigin(b));
+  assert_false(createOpaqueOrigin().isSameOrigin(createOpaqueOrigin()));
+}, 'Opaque origins are only the same origin as themselves');
+
+test(() => {
+  const origin = getOrigin('https://example.com/');
+  assert_true(origin.isSameOrigin(getOrigin('https://example.com:443/other')));
+  assert_false(origin.isSameOrigin(getOrigin('http://example.com/')));
+  assert_false(origin.isSameOrigin(getOrigin('https://www.example.com/')));
+  assert_false(origin.isSameOrigin(getOrigin('https://example.com:444/')));
+}, 'Same origin for tuple origins');
+
+test(() => {
+  const blob = getOrigin('blob:https://example.com/uuid');
+  assert_false(blob.opaque);
+  assert_equals(blob.serialize(), 'https://example.com');
+  assert_true(getOrigin('blob:not a url').opaque);
+}, 'Origin of a blob URL');
+
+test(() => {
+  const a = getOrigin('https://a.example.com/').withDomain('example.com');
+  const b = getOrigin('https://b.example.com:8443/').withDomain('example.com');
+  assert_equals(a.domain, 'example.com');
+  assert_false(a.isSameOrigin(b));
+  assert_true(a.isSameOriginDomain(b));
+  assert_false(a.isSameOriginDomain(getOrigin('https://b.example.com/')));
+  assert_true(getOrigin('https://a.example.com/').isSameOriginDomain(getOrigin('https://a.example.com/')));
+  assert_throws(new TypeError(), () => createOpaqueOrigin().withDomain('example.com'));
+  assert_throws(new TypeError(), () => a.withDomain('127.0.0.1'));
+}, 'Same origin-domain');
+
+test(() => {
+  const origin = getOrigin('https://xn--bcher-kva.example/');
+  assert_equals(origin.serialize(), 'https://xn--bcher-kva.example');
+  assert_equals(origin.serializeUnicode(), 'https://bücher.example');
+}, 'Unicode serialization');
+
+test(() => {
+  try {
+    assert_true(getOrigin('file:///C:/a').opaque);
+    setFileOriginPolicy('tuple');
+    assert_equals(getOrigin('file:///C:/a').serialize(), 'file://');
+    setFileOriginPolicy('per-host');
+    assert_equals(getOrigin('file://server/a').serialize(), 'file://server');
+    setFileOriginPolicy(url => getOrigin(`https://${url.host || 'localhost'}/`));
+    assert_equals(getOrigin('file://server/a').serialize(), 'https://server');
+    assert_throws(new TypeError(), () => setFileOriginPolicy('bogus'));
+  } finally {
+    setFileOriginPolicy('opaque');
+  }
+}, 'File origin policy');
@@ -0,0 +1,96 @@
+'use strict';
+
+const { URL, URLParseError } = self.URLPolyfill;
+
+function parseError(url, base) {
+  try {
+    new URL(url, base);
+  } catch (e) {
+    assert_true(e instanceof URLParseError, 'error is a URLParseError');
+    return e;
+  }
+  assert_unreached(`${url} should not parse`);
+}
+
+test(() => {
+  const error = parseError('http://x:1a/');
+  assert_true(error instanceof TypeError);
+  assert_equals(error.name, 'URLParseError');
+  assert_equals(error.message, 'Invalid URL: Invalid port');
+  assert_equals(error.input, 'http://x:1a/');
+  assert_equals(error.code, 'port-invalid');
+  assert_equals(error.index, 10);
+  assert_equals(error.state, 'port');
+  assert_equals(error.hostParser, null);
+}, 'Error in the basic URL parser');
+
+test(() => {
+  const error = parseError('foo');
+  assert_equals(error.code, 'missing-scheme-non-relative-URL');
+  assert_equals(error.index, 0);
+  assert_equals(error.state, 'no scheme');
+}, 'Error for a relative URL without a base');
+
+test(() => {
+  const error = parseError('b', 'not a base');
+  assert_equals(error.message, 'Invalid base URL: Invalid scheme');
+  assert_equals(error.input, 'not a base');
+  assert_equals(error.code, 'missing-scheme-non-relative-URL');
+}, 'Error for an invalid base');
+
+test(() => {
+  const error = parseError('http://1.2.3.256/');
+  assert_equals(error.message, 'Invalid URL: Invalid IPv4 address');
+  assert_equals(error.code, 'IPv4-out-of-range-part');
+  assert_equals(error.index, 13);
+  assert_equals(error.state, 'host');
+  assert_equals(error.hostParser, 'IPv4');
+}, 'Error in the IPv4 parser');
+
+test(() => {
+  const error = parseError('http://1.2.3.4.5/');
+  assert_equals(error.code, 'IPv4-too-many-parts');
+  assert_equals(error.index, 7);
+  assert_equals(error.hostParser, 'IPv4');
+}, 'Error for an IPv4 address with too many parts');
+
+test(() => {
+  const error = parseError('http://[1::2::3]/');
+  assert_equals(error.message, 'Invalid URL: Too many :: groups');
+  assert_equals(error.code, 'IPv6-multiple-compression');
+  assert_equals(error.index, 13);
+  assert_equals(error.hostParser, 'IPv6');
+}, 'Error in the IPv6 parser');
+
+test(() => {
+  const error = parseError('sc://a b/');
+  assert_equals(error.code, 'host-invalid-code-point');
+  assert_equals(error.index, 6);
+  assert_equals(error.hostParser, 'opaque-host');
+}, 'Error in the opaque-host parser');
+
+test(() => {
+  const error = parseError('http://a%zz.com/');
+  assert_equals(error.code, 'domain-invalid-code-point');
+  assert_equals(error.index, 7);
+  assert_equals(error.hostParser, 'host');
+}, 'Error for a forbidden domain code point');
+
+test(() => {
+  const error = parseError('\t http://\n[1:2]/');
+  assert_equals(error.input, '\t http://\n[1:2]/');
+  assert_equals(error.code, 'IPv6-too-few-pieces');
+  assert_equals(error.index, 14);
+}, 'Index is an offset into the original input');
+
+test(() => {
+  const url = new URL('http://example.com/');
+  try {
+    url.href = 'http://[::1/';
+    assert_unreached('should have thrown');
+  } catch (e) {
+    assert_true(e instanceof URLParseError);
+    assert_equals(e.code, 'IPv6-unclosed');
+  }
+  assert_equals(url.href, 'http://example.com/');
+}, 'Error from the href setter');
@@ -0,0 +1,57 @@
+'use strict';
+
+const { URL, URLPathSegments, getPathSegments } = self.URLPolyfill;
+
+// Each mutation must give the same URL as parsing its href again
+[
+  { href: 'https://example.com/a/b', mutate: s => s.set(1, 'c d'), expected: 'https://example.com/a/c%20d' },
+  { href: 'https://example.com/a', mutate: s => s.set(0, 'a/b?c#d\\'), expected: 'https://example.com/a%2Fb%3Fc%23d%5C' },
+  { href: 'https://example.com/a/b/', mutate: s => s.append('c', '..', 'd'), expected: 'https://example.com/a/b/d' },
+  { href: 'https://example.com/a/b', mutate: s => s.append('.'), expected: 'https://example.com/a/b/' },
+  { href: 'https://example.com/a', mutate: s => s.insert(0, 'x', 'y'), expected: 'https://example.com/x/y/a' },
+  { href: 'https://example.com/x', mutate: s => s.insert(0, ''), expected: 'https://example.com//x' },
+  { href: 'https://example.com/x', mutate: s => s.remove(0), expected: 'https://example.com/' },
+  { href: 'https://example.com/a/b/c', mutate: s => s.remove(0, 2), expected: 'https://example.com/c' },
+  { href: 'sc://host/x', mutate: s => s.remove(0), expected: 'sc://host' },
+  { href: 'sc:/a', mutate: s => s.append('b\\c'), expected: 'sc:/a/b%5Cc' },
+  { href: 'file://server/x', mutate: s => s.insert(0, 'C:'), expected: 'file:///C:/x' },
+  { href: 'file://server/x', mutate: s => s.set(0, 'C|'), expected: 'file:///C:' },
+  { href: 'file:///C:/x', mutate: s => s.append('..', '..'), expected: 'file:///C:/' }
+].forEach(({ href, mutate, expected }) => {
+  test(() => {
+    const url = new URL(href);
+    mutate(getPathSegments(url));
+    assert_equals(url.href, expected);
+    assert_equals(new URL(url.href).href, url.href, 'parsing href again');
+  }, `${mutate} on ${href}`);
+});
+
+test(() => {
+  const url = new URL('https://example.com/a%20b/%E2%98%83');
+  const segments = getPathSegments(url);
+  assert_true(segments instanceof URLPathSegments);
+  assert_equals(segments.length, 2);
+  assert_equals(segments.get(0), 'a b');
+  assert_equals(segments.getRaw(0), 'a%20b');
+  assert_equals(segments.get(2), undefined);
+  assert_array_equals(segments.toArray(), ['a b', '☃']);
+  assert_array_equals(segments.toRawArray(), ['a%20b', '%E2%98%83']);
+  assert_equals(String(segments), '/a%20b/%E2%98%83');
+  url.pathname = '/x';
+  assert_array_equals(segments.toArray(), ['x'], 'live view');
+}, 'Reading segments');
+
+test(() => {
+  const segments = getPathSegments(new URL('https://example.com/a'));
+  assert_throws(new TypeError(), () => segments.set(0, '.'));
+  assert_throws(new TypeError(), () => segments.insert(0, '..'));
+  assert_throws(new TypeError(), () => segments.set(1, 'x'));
+  assert_throws(new TypeError(), () => segments.remove(-1));
+  assert_throws(new TypeError(), () => getPathSegments(new URL('sc:/a')).insert(0, ''));
+  assert_throws(new TypeError(), () => getPathSegments(new URL('mailto:me@example.net')).length);
+  assert_throws(new TypeError(), () => getPathSegments('https://example.com/'));
+}, 'Invalid operations throw');
+
+test(() => {
+  assert_false('pathSegments' in new URL('https://example.com/'));
+}, 'URL has no pathSegments property');
@@ -0,0 +1,52 @@
+'use strict';
+
+test(() => {
+  // Note: the URL of this package stores its URL record in _url
+  assert_equals(new URL('https://example.com/')._url, undefined);
+  assert_equals(self.URLPolyfill.URL, URL);
+  assert_equals(self.URLPolyfill.URLSearchParams, URLSearchParams);
+}, 'Polyfill keeps a working native URL');
+
+test(() => {
+  assert_true(URL.canParse('https://example.com/'));
+  assert_true(URL.canParse('/a', 'https://example.com/'));
+  assert_false(URL.canParse('/a'));
+  assert_false(URL.canParse('/a', 'not a base'));
+}, 'URL.canParse() is added');
+
+test(() => {
+  const url = URL.parse('/a', 'https://example.com/');
+  assert_true(url instanceof URL);
+  assert_equals(url.href, 'https://example.com/a');
+  assert_equals(URL.parse('/a'), null);
+}, 'URL.parse() is added');
+
+test(() => {
+  const params = new URLSearchParams('a=1&b=2&a=3');
+  assert_equals(params.size, 3);
+  params.append('c', '4');
+  assert_equals(params.size, 4);
+  assert_equals(new URL('https://example.com/?x&y').searchParams.size, 2);
+}, 'URLSearchParams size getter is added');
+
+test(() => {
+  const params = new URLSearchParams('a=1&b=2&a=3');
+  assert_true(params.has('a'));
+  assert_true(params.has('a', '3'));
+  assert_false(params.has('a', '2'));
+  assert_false(params.has('c'));
+}, 'URLSearchParams has() with a value');
+
+test(() => {
+  const params = new URLSearchParams('a=1&b=2&a=3&a=1');
+  params.delete('a', '1');
+  assert_equals(params.toString(), 'b=2&a=3');
+  params.delete('a');
+  assert_equals(params.toString(), 'b=2');
+}, 'URLSearchParams delete() with a value');
+
+test(() => {
+  const url = new URL('https://example.com/?a=1&b=2&a=3');
+  url.searchParams.delete('a', '3');
+  assert_equals(url.search, '?a=1&b=2');
+}, 'URLSearchParams delete() with a value updates the URL');
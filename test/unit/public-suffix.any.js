@@ -0,0 +1,102 @@
+'use strict';
+
+const {
+  getOrigin,
+  getPublicSuffix,
+  getRegistrableDomain,
+  isSameSite,
+  isSchemelesslySameSite,
+  serializeSite,
+  setPublicSuffixList
+} = self.URLPolyfill;
+
+test(() => {
+  assert_equals(getPublicSuffix('www.example.co.uk'), 'co.uk');
+  assert_equals(getRegistrableDomain('www.example.co.uk'), 'example.co.uk');
+  assert_equals(getPublicSuffix('example.com'), 'com');
+  assert_equals(getRegistrableDomain('example.com'), 'example.com');
+  assert_equals(getPublicSuffix('com'), 'com');
+  assert_equals(getRegistrableDomain('com'), null);
+}, 'Public suffix and registrable domain');
+
+test(() => {
+  assert_equals(getPublicSuffix('a.b.kawasaki.jp'), 'b.kawasaki.jp');
+  assert_equals(getRegistrableDomain('a.b.kawasaki.jp'), 'a.b.kawasaki.jp');
+  assert_equals(getPublicSuffix('city.kawasaki.jp'), 'kawasaki.jp');
+  assert_equals(getRegistrableDomain('city.kawasaki.jp'), 'city.kawasaki.jp');
+}, 'Wildcard and exception rules');
+
+test(() => {
+  assert_equals(getPublicSuffix('foo.github.io'), 'github.io');
+  assert_equals(getRegistrableDomain('foo.github.io'), 'foo.github.io');
+  assert_equals(getPublicSuffix('foo.github.io', { includePrivate: false }), 'io');
+  assert_equals(getRegistrableDomain('foo.github.io', { includePrivate: false }), 'github.io');
+}, 'Rules in the private section');
+
+test(() => {
+  assert_equals(getPublicSuffix('localhost'), 'localhost');
+  assert_equals(getRegistrableDomain('localhost'), null);
+  assert_equals(getPublicSuffix('EXAMPLE.COM.'), 'com.');
+  assert_equals(getRegistrableDomain('EXAMPLE.COM.'), 'example.com.');
+  assert_equals(getRegistrableDomain('bücher.de'), 'xn--bcher-kva.de');
+}, 'Hosts are parsed first');
+
+test(() => {
+  assert_equals(getPublicSuffix('127.0.0.1'), null);
+  assert_equals(getRegistrableDomain('[::1]'), null);
+}, 'IP addresses have no public suffix');
+
+test(() => {
+  try {
+    getPublicSuffix('exa mple.com');
+    assert_unreached('should have thrown');
+  } catch (e) {
+    assert_true(e instanceof TypeError);
+  }
+}, 'Invalid host throws');
+
+test(() => {
+  const a = getOrigin('https://a.example.com/');
+  const b = getOrigin('https://b.example.com:8443/');
+  const c = getOrigin('http://c.example.com/');
+  assert_true(isSameSite(a, b));
+  assert_false(isSameSite(a, c));
+  assert_true(isSchemelesslySameSite(a, c));
+  assert_false(isSchemelesslySameSite(a, getOrigin('https://example.org/')));
+  assert_false(isSameSite(getOrigin('https://a.github.io/'), getOrigin('https://b.github.io/')));
+  assert_true(isSameSite(getOrigin('https://a.github.io/'), getOrigin('https://b.github.io/'), { includePrivate: false }));
+}, 'Same site');
+
+test(() => {
+  const opaque = getOrigin('data:,');
+  assert_true(isSameSite(opaque, opaque));
+  assert_false(isSameSite(opaque, getOrigin('data:,')));
+  assert_true(isSameSite(getOrigin('http://127.0.0.1/'), getOrigin('http://127.0.0.1:8080/')));
+  assert_false(isSameSite(getOrigin('http://127.0.0.1/'), getOrigin('http://127.0.0.2/')));
+}, 'Same site for opaque origins and IP addresses');
+
+test(() => {
+  assert_equals(serializeSite(getOrigin('https://a.b.example.co.uk:8080/x')), 'https://example.co.uk');
+  assert_equals(serializeSite(getOrigin('http://[::1]:8080/')), 'http://[::1]');
+  assert_equals(serializeSite(getOrigin('data:,')), 'null');
+}, 'Serialization of a site');
+
+test(() => {
+  setPublicSuffixList([
+    '// ===BEGIN ICANN DOMAINS===',
+    'test',
+    '*.wild.test',
+    '!keep.wild.test',
+    '// ===END ICANN DOMAINS===',
+    '// ===BEGIN PRIVATE DOMAINS===',
+    'hosted.test',
+    '// ===END PRIVATE DOMAINS==='
+  ].join('\n'));
+  assert_equals(getRegistrableDomain('a.example.test'), 'example.test');
+  assert_equals(getRegistrableDomain('a.b.wild.test'), 'a.b.wild.test');
+  assert_equals(getRegistrableDomain('a.keep.wild.test'), 'keep.wild.test');
+  assert_equals(getRegistrableDomain('a.b.hosted.test'), 'b.hosted.test');
+  assert_equals(getRegistrableDomain('a.b.hosted.test', { includePrivate: false }), 'hosted.test');
+  // Note: an unlisted top-level domain is a public suffix through the implicit "*" rule
+  assert_equals(getRegistrableDomain('www.example.co.uk'), 'co.uk');
+}, 'Replacing the list');
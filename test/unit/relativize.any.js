@@ -0,0 +1,42 @@
+'use strict';
+
+const { URL, relativize } = self.URLPolyfill;
+
+[
+  { target: 'https://a/b/c/d', base: 'https://a/b/c/d', expected: '' },
+  { target: 'https://a/b/c/d?q#f', base: 'https://a/b/c/d?q', expected: '#f' },
+  { target: 'https://a/b/c/d?x', base: 'https://a/b/c/d?q', expected: '?x' },
+  { target: 'https://a/b/c/e', base: 'https://a/b/c/d', expected: 'e' },
+  { target: 'https://a/b/e/f', base: 'https://a/b/c/d', expected: '../e/f' },
+  { target: 'https://a/x', base: 'https://a/b/c/d', expected: '/x' },
+  { target: 'https://b/x', base: 'https://a/b/c/d', expected: '//b/x' },
+  { target: 'http://a/x', base: 'https://a/b', expected: 'http://a/x' },
+  { target: 'https://a/b/c/', base: 'https://a/b/c/d', expected: './' },
+  { target: 'https://a/b/a:b', base: 'https://a/b/c', expected: './a:b' },
+  { target: 'https://a//x', base: 'https://a/b', expected: './/x' },
+  { target: 'file:///C:/a', base: 'file:///C:/b/c', expected: '../a' },
+  { target: 'file:///C:/', base: 'file:///C:/a/b', expected: '../' },
+  { target: 'file:///D:/x', base: 'file:///C:/y', expected: '/D:/x' },
+  { target: 'sc://h/a/x', base: 'sc://h/a/b', expected: 'x' },
+  { target: 'sc://g/x', base: 'sc://h/a/b', expected: '//g/x' },
+  { target: 'sc:/x', base: 'sc://h/a', expected: 'sc:/x' },
+  { target: 'mailto:x#y', base: 'mailto:x', expected: '#y' },
+  { target: 'mailto:y', base: 'mailto:x', expected: 'mailto:y' }
+].forEach(({ target, base, expected }) => {
+  test(() => {
+    const result = relativize(target, new URL(base));
+    assert_equals(result, expected);
+    assert_equals(new URL(result, base).href, new URL(target).href, 'resolves to target');
+  }, `relativize(${JSON.stringify(target)}, ${JSON.stringify(base)})`);
+});
+
+test(() => {
+  for (const [target, base] of [['invalid', 'https://a/'], ['https://a/', 'invalid']]) {
+    try {
+      relativize(target, base);
+      assert_unreached('should have thrown');
+    } catch (e) {
+      assert_true(e instanceof TypeError, `${target} against ${base}`);
+    }
+  }
+}, 'Invalid URLs throw');
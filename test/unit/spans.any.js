@@ -0,0 +1,78 @@
+'use strict';
+
+const { URL, URLParseError, parseURLWithSpans } = self.URLPolyfill;
+
+function sliceSpan(input, span) {
+  return span === null ? null : input.slice(span.start, span.end);
+}
+
+test(() => {
+  const input = 'https://user:pw@example.com:8080/a/b?q=1#frag';
+  const { url, spans } = parseURLWithSpans(input);
+  assert_true(url instanceof URL);
+  assert_equals(url.href, input);
+  assert_equals(sliceSpan(input, spans.scheme), 'https');
+  assert_equals(sliceSpan(input, spans.username), 'user');
+  assert_equals(sliceSpan(input, spans.password), 'pw');
+  assert_equals(sliceSpan(input, spans.host), 'example.com');
+  assert_equals(sliceSpan(input, spans.port), '8080');
+  assert_array_equals(spans.path.map(span => sliceSpan(input, span)), ['a', 'b']);
+  assert_equals(sliceSpan(input, spans.query), 'q=1');
+  assert_equals(sliceSpan(input, spans.fragment), 'frag');
+}, 'Spans of every component');
+
+test(() => {
+  const input = 'https://example.com/';
+  const { spans } = parseURLWithSpans(input);
+  assert_equals(spans.username, null);
+  assert_equals(spans.password, null);
+  assert_equals(spans.port, null);
+  assert_equals(spans.query, null);
+  assert_equals(spans.fragment, null);
+  assert_array_equals(spans.path.map(span => sliceSpan(input, span)), ['']);
+}, 'Missing components have no span');
+
+test(() => {
+  const input = '  ht\ttp://h/x\n/y  ';
+  const { url, spans } = parseURLWithSpans(input);
+  assert_equals(url.href, 'http://h/x/y');
+  assert_equals(spans.scheme.start, 2);
+  assert_equals(spans.scheme.end, 7);
+  assert_equals(sliceSpan(input, spans.host), 'h');
+  assert_array_equals(spans.path.map(span => sliceSpan(input, span)), ['x', 'y']);
+}, 'Spans are offsets into the original input');
+
+test(() => {
+  const input = '../c';
+  const { url, spans } = parseURLWithSpans(input, 'https://h/a/b/');
+  assert_equals(url.href, 'https://h/a/c');
+  assert_equals(spans.scheme, null);
+  assert_equals(spans.host, null);
+  assert_equals(spans.path.length, 2);
+  assert_equals(spans.path[0], null);
+  assert_equals(sliceSpan(input, spans.path[1]), 'c');
+}, 'Path segments copied from the base have a null span');
+
+test(() => {
+  const input = 'https://h/a/./b/../c';
+  const { url, spans } = parseURLWithSpans(input);
+  assert_equals(url.pathname, '/a/c');
+  assert_array_equals(spans.path.map(span => sliceSpan(input, span)), ['a', 'c']);
+}, 'Dot segments have no span');
+
+test(() => {
+  const input = 'mailto:a@b.c';
+  const { spans } = parseURLWithSpans(input);
+  assert_equals(spans.path.length, 1);
+  assert_equals(sliceSpan(input, spans.path[0]), 'a@b.c');
+}, 'Opaque path has a single span');
+
+test(() => {
+  try {
+    parseURLWithSpans('https://exa mple.com/');
+    assert_unreached('should have thrown');
+  } catch (e) {
+    assert_true(e instanceof URLParseError);
+    assert_equals(e.code, 'domain-invalid-code-point');
+  }
+}, 'Throws a URLParseError if the URL cannot be parsed');
@@ -0,0 +1,59 @@
+'use strict';
+
+const { checkHostSpoofing } = self.URLPolyfill;
+
+[
+  { host: 'example.com', restrictionLevel: 'ascii-only' },
+  { host: 'münchen.de', restrictionLevel: 'single-script' },
+  { host: 'пример.рф', restrictionLevel: 'single-script' },
+  { host: 'ひらがな漢字.jp', restrictionLevel: 'single-script' },
+  { host: 'abc한국.kr', restrictionLevel: 'highly-restrictive' },
+  { host: '1.2.3.4', restrictionLevel: 'ascii-only' }
+].forEach(({ host, restrictionLevel }) => {
+  test(() => {
+    const result = checkHostSpoofing(host);
+    assert_true(result.safe);
+    assert_equals(result.displayHost, host);
+    assert_equals(result.restrictionLevel, restrictionLevel);
+    assert_false(result.mixedScriptConfusable, 'mixedScriptConfusable');
+    assert_false(result.wholeScriptConfusable, 'wholeScriptConfusable');
+  }, `Safe host: ${host}`);
+});
+
+test(() => {
+  const result = checkHostSpoofing('аpple.com');
+  assert_false(result.safe);
+  assert_equals(result.displayHost, 'xn--pple-43d.com');
+  assert_equals(result.restrictionLevel, 'minimally-restrictive');
+  assert_true(result.mixedScriptConfusable);
+}, 'Mixed-script confusable: Cyrillic "а" in a Latin label');
+
+test(() => {
+  const result = checkHostSpoofing('xn--80ak6aa92e.com');
+  assert_false(result.safe);
+  assert_equals(result.displayHost, 'xn--80ak6aa92e.com');
+  assert_equals(result.restrictionLevel, 'single-script');
+  assert_true(result.wholeScriptConfusable);
+  assert_equals(result.skeleton, 'appie.corn');
+}, 'Whole-script confusable: Cyrillic "аррӏе"');
+
+test(() => {
+  assert_equals(checkHostSpoofing('examрle.com').skeleton, checkHostSpoofing('example.com').skeleton);
+  assert_not_equals(checkHostSpoofing('example.org').skeleton, checkHostSpoofing('example.com').skeleton);
+}, 'Confusable hosts have the same skeleton');
+
+test(() => {
+  assert_false(checkHostSpoofing('abc한국.kr', { restrictionLevel: 'single-script' }).safe);
+  assert_true(checkHostSpoofing('abcπ.com', { restrictionLevel: 'minimally-restrictive' }).safe);
+  assert_false(checkHostSpoofing('abcπ.com').safe);
+}, 'restrictionLevel option');
+
+test(() => {
+  assert_throws(new TypeError(), () => checkHostSpoofing('a.com', { restrictionLevel: 'bogus' }));
+  try {
+    checkHostSpoofing('a b');
+    assert_unreached('invalid host should have thrown');
+  } catch (e) {
+    assert_true(e instanceof TypeError, 'invalid host');
+  }
+}, 'Invalid input throws');
@@ -0,0 +1,58 @@
+'use strict';
+
+const { URLPattern } = self.URLPolyfill;
+
+test(() => {
+  const pattern = new URLPattern('https://:sub.example.com/users/:id(\\d+)/*');
+  assert_equals(pattern.protocol, 'https');
+  assert_equals(pattern.hostname, ':sub.example.com');
+  assert_equals(pattern.pathname, '/users/:id(\\d+)/*');
+  assert_equals(pattern.search, '*');
+  assert_true(pattern.hasRegExpGroups);
+}, 'Constructor string');
+
+test(() => {
+  const pattern = new URLPattern('https://:sub.example.com/users/:id(\\d+)/*');
+  const result = pattern.exec('https://api.example.com/users/42/x/y?q#h');
+  assert_array_equals(result.inputs, ['https://api.example.com/users/42/x/y?q#h']);
+  assert_equals(result.hostname.input, 'api.example.com');
+  assert_equals(result.hostname.groups.sub, 'api');
+  assert_equals(result.pathname.input, '/users/42/x/y');
+  assert_equals(result.pathname.groups.id, '42');
+  assert_equals(result.pathname.groups[0], 'x/y');
+  assert_equals(pattern.exec('https://api.example.com/users/abc/x'), null);
+}, 'exec() returns named, regexp and wildcard groups');
+
+test(() => {
+  const pattern = new URLPattern({ pathname: '/books/:title' });
+  assert_true(pattern.test('https://example.com/books/dune'));
+  assert_true(pattern.test({ pathname: '/books/dune' }));
+  assert_false(pattern.test({ pathname: '/books' }));
+  assert_false(pattern.test({ pathname: '/books/dune/1' }));
+  assert_false(pattern.hasRegExpGroups);
+}, 'Dictionary init and test()');
+
+test(() => {
+  const pattern = new URLPattern({ pathname: '/Books/:title' }, { ignoreCase: true });
+  assert_true(pattern.test({ pathname: '/books/dune' }));
+  assert_equals(pattern.exec('https://example.com/BOOKS/Dune').pathname.groups.title, 'Dune');
+}, 'ignoreCase');
+
+test(() => {
+  const pattern = new URLPattern('/foo/:bar', 'https://example.com');
+  assert_equals(pattern.protocol, 'https');
+  assert_equals(pattern.hostname, 'example.com');
+  assert_true(pattern.test('/foo/x', 'https://example.com'));
+  assert_false(pattern.test('https://other.example/foo/x'));
+}, 'Relative constructor string with a base URL');
+
+test(() => {
+  assert_equals(new URLPattern({ pathname: '/café' }).pathname, '/caf%C3%A9');
+  assert_equals(new URLPattern({ hostname: 'EXAMPLE.com' }).hostname, 'example.com');
+  assert_equals(new URLPattern({ protocol: 'https', port: '443' }).port, '');
+}, 'Components are canonicalized like URL');
+
+test(() => {
+  assert_throws(new TypeError(), () => new URLPattern('https://(bad'));
+  assert_throws(new TypeError(), () => new URLPattern({ pathname: '/:id(' }));
+}, 'Invalid patterns throw a TypeError');
@@ -0,0 +1,69 @@
+'use strict';
+
+const { URL, URLParseError } = self.URLPolyfill;
+
+test(() => {
+  assert_true(URL.canParse('https://example.com/'));
+  assert_true(URL.canParse('/path', 'https://example.com/'));
+  assert_true(URL.canParse('/path', new URL('https://example.com/')));
+  assert_false(URL.canParse('/path'));
+  assert_false(URL.canParse('https://exa mple.com/'));
+  assert_false(URL.canParse('https://[::1/'));
+  assert_false(URL.canParse('http://example.com:99999/'));
+}, 'URL.canParse()');
+
+test(() => {
+  assert_false(URL.canParse('https://example.com/', 'not a base'));
+  assert_false(URL.canParse('/path', 'https://exa mple.com/'));
+}, 'URL.canParse() with an invalid base');
+
+test(() => {
+  const url = URL.parse('/a/../b?c#d', 'https://example.com/x/y');
+  assert_true(url instanceof URL);
+  assert_equals(url.href, 'https://example.com/b?c#d');
+  assert_equals(url.searchParams.get('c'), '');
+}, 'URL.parse()');
+
+test(() => {
+  assert_equals(URL.parse('/path'), null);
+  assert_equals(URL.parse('https://[::1/'), null);
+  assert_equals(URL.parse('https://example.com/', 'not a base'), null);
+}, 'URL.parse() returns null on failure');
+
+test(() => {
+  const a = URL.parse('https://example.com/');
+  const b = URL.parse('https://example.com/');
+  assert_not_equals(a, b);
+  a.pathname = '/changed';
+  assert_equals(b.pathname, '/');
+}, 'URL.parse() returns a new URL every time');
+
+test(() => {
+  try {
+    new URL('http://example.com:99999/');
+    assert_unreached('should have thrown');
+  } catch (e) {
+    assert_true(e instanceof URLParseError);
+    assert_true(e instanceof TypeError);
+    assert_equals(e.code, 'port-out-of-range');
+    assert_equals(e.index, 19);
+    assert_equals(e.state, 'port');
+  }
+}, 'URL constructor still throws a URLParseError for a URL which URL.canParse() rejects');
+
+test(() => {
+  try {
+    new URL('https://[::1/');
+    assert_unreached('should have thrown');
+  } catch (e) {
+    assert_true(e instanceof URLParseError);
+    assert_equals(e.code, 'IPv6-unclosed');
+    assert_equals(e.hostParser, 'host');
+  }
+}, 'URL constructor throws a URLParseError for an invalid host');
+
+test(() => {
+  assert_true(URL.canParse('http://example.com/\uD800'));
+  assert_equals(URL.parse('http://example.com/\uD800').pathname, '/%EF%BF%BD');
+  assert_equals(URL.parse('?\uDC00', 'http://example.com/').search, '?%EF%BF%BD');
+}, 'URL.canParse() and URL.parse() replace lone surrogates instead of throwing');
@@ -0,0 +1,56 @@
+'use strict';
+
+const { URL, URLSearchParams, windows1252, shiftJIS, eucKR } = self.URLPolyfill;
+
+test(() => {
+  const params = new URLSearchParams('a=%E9%80&b=caf%E9', { encoding: windows1252 });
+  assert_equals(params.get('a'), 'é€');
+  assert_equals(params.get('b'), 'café');
+}, 'Parsing with windows-1252');
+
+test(() => {
+  const params = new URLSearchParams('q=%82%A0+%82%A2', { encoding: shiftJIS });
+  assert_equals(params.get('q'), 'あ い');
+}, 'Parsing with Shift_JIS');
+
+test(() => {
+  const params = new URLSearchParams('q=%B0%A1', { encoding: eucKR });
+  assert_equals(params.get('q'), '가');
+}, 'Parsing with EUC-KR');
+
+test(() => {
+  const params = new URLSearchParams('q=%81', { encoding: shiftJIS });
+  assert_equals(params.get('q'), '�');
+}, 'Invalid byte sequences are decoded as U+FFFD');
+
+test(() => {
+  const params = new URLSearchParams([['a', 'é€'], ['b', '☃']], { encoding: windows1252 });
+  assert_equals(params.toString(), 'a=%E9%80&b=%26%239731%3B');
+}, 'Serializing with windows-1252');
+
+test(() => {
+  const params = new URLSearchParams([['q', 'あ い']], { encoding: shiftJIS });
+  assert_equals(params.toString(), 'q=%82%A0+%82%A2');
+}, 'Serializing with Shift_JIS');
+
+test(() => {
+  const params = new URLSearchParams([['_charset_', ''], ['_CHARSET_', 'x'], ['q', '가']], { encoding: eucKR });
+  assert_equals(params.toString(), '_charset_=EUC-KR&_CHARSET_=EUC-KR&q=%B0%A1');
+}, 'Serializing sets the value of _charset_ to the name of the encoding');
+
+test(() => {
+  const params = new URLSearchParams([['_charset_', ''], ['q', 'é']]);
+  assert_equals(params.toString(), '_charset_=&q=%C3%A9');
+}, 'Serializing without an encoding is UTF-8 and leaves _charset_ as-is');
+
+test(() => {
+  const params = new URLSearchParams('a=%E9');
+  assert_equals(params.get('a'), '�');
+}, 'Parsing without an encoding is UTF-8');
+
+test(() => {
+  const url = new URL('http://example.com/?q=%C3%A9');
+  assert_equals(url.searchParams.get('q'), 'é');
+  url.searchParams.set('q', 'ü');
+  assert_equals(url.search, '?q=%C3%BC');
+}, 'URL.searchParams always uses UTF-8');
@@ -0,0 +1,38 @@
+'use strict';
+
+const { URL, URLSearchParams } = self.URLPolyfill;
+
+test(() => {
+  const params = new URLSearchParams('a=1&b=2&a=3');
+  assert_equals(params.size, 3);
+  params.delete('a');
+  assert_equals(params.size, 1);
+  const url = new URL('https://example.com/?x&y');
+  assert_equals(url.searchParams.size, 2);
+  url.search = '';
+  assert_equals(url.searchParams.size, 0);
+}, 'size');
+
+test(() => {
+  const params = new URLSearchParams('a=1&b=2&a=3');
+  assert_true(params.has('a', '3'));
+  assert_false(params.has('a', '2'));
+  assert_true(params.has('a', undefined));
+  assert_true(params.has('b', 2));
+}, 'has() with a value');
+
+test(() => {
+  const params = new URLSearchParams('a=1&b=2&a=3&a=1');
+  params.delete('a', '1');
+  assert_equals(params.toString(), 'b=2&a=3');
+  params.delete('a', undefined);
+  assert_equals(params.toString(), 'b=2');
+}, 'delete() with a value');
+
+test(() => {
+  const url = new URL('data:space ?a=1#x');
+  url.searchParams.delete('a', '1');
+  assert_equals(url.href, 'data:space #x');
+  url.hash = '';
+  assert_equals(url.href, 'data:space');
+}, 'delete() with a value updates the URL');
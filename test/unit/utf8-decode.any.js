@@ -0,0 +1,45 @@
+'use strict';
+
+const { URL, URLSearchParams } = self.URLPolyfill;
+
+// Cases for invalid byte sequences, as in urlencoded-parser.any.js of the web platform tests
+[
+  { input: '%FE%FF', output: [['��', '']] },
+  { input: '%FF%FE', output: [['��', '']] },
+  { input: '%C2', output: [['�', '']] },
+  { input: '%C2x', output: [['�x', '']] },
+  { input: '_charset_=windows-1252&test=%C2x', output: [['_charset_', 'windows-1252'], ['test', '�x']] },
+  { input: '%EF%BB%BFtest=%EF%BB%BF', output: [['﻿test', '﻿']] },
+  { input: 'a=%E2%82%AC', output: [['a', '€']] }
+].forEach(({ input, output }) => {
+  test(() => {
+    assert_array_equals([...new URLSearchParams(input)].map(pair => pair.join('=')),
+        output.map(pair => pair.join('=')));
+  }, `URLSearchParams parses ${JSON.stringify(input)}`);
+});
+
+// Each maximal subpart of an ill-formed sequence becomes a single U+FFFD,
+// see https://encoding.spec.whatwg.org/#utf-8-decoder
+[
+  { input: '%F0%9F%98', output: '�' },
+  { input: '%F0%9F%98x', output: '�x' },
+  { input: '%ED%A0%80', output: '���' },
+  { input: '%C0%AF', output: '��' },
+  { input: '%F4%90%80%80', output: '����' },
+  { input: '%E2%82%E2%82%AC', output: '�€' }
+].forEach(({ input, output }) => {
+  test(() => {
+    assert_equals(new URLSearchParams(`a=${input}`).get('a'), output);
+  }, `Ill-formed sequence ${input} is replaced`);
+});
+
+test(() => {
+  for (const input of ['http://%C0/', 'https://%EF%BF%BD', 'http://a%C0.com/']) {
+    assert_false(URL.canParse(input), input);
+  }
+}, 'Invalid byte sequences in a host are decoded as U+FFFD and rejected');
+
+test(() => {
+  assert_equals(new URL('sc://%C0/').host, '%C0');
+  assert_equals(new URL('http://a/%C0?%C0#%C0').href, 'http://a/%C0?%C0#%C0');
+}, 'Invalid byte sequences elsewhere are kept percent-encoded');